@@ -10,6 +10,9 @@ import { IpcMain, BrowserWindow, dialog } from 'electron'
 import fs from 'fs/promises'
 import path from 'path'
 import simpleGit from 'simple-git'
+import { listWorkspaceFiles, searchWorkspace, WorkspaceSearchOptions } from './workspaceSearch'
+import { applyReplace, previewReplace, undoReplace, WorkspaceReplaceOptions } from './workspaceReplace'
+import { scanWorkspaceNotes } from './workspaceNotes'
 
 export interface FileEntry {
   name: string
@@ -29,6 +32,9 @@ export interface DiffHunk {
 }
 
 export function setupFileExplorerHandlers(ipcMain: IpcMain, getMainWindow: () => BrowserWindow | null) {
+  // Running workspace searches by id, so they can be cancelled
+  const activeSearches = new Map<string, { cancelled: boolean }>()
+
   /**
    * Reads directory contents and returns file entries.
    * Filters out hidden files (starting with .) and common ignored directories.
@@ -67,12 +73,13 @@ export function setupFileExplorerHandlers(ipcMain: IpcMain, getMainWindow: () =>
   /**
    * Opens a folder dialog and returns the selected path.
    */
-  ipcMain.handle('explorer:openFolder', async () => {
+  ipcMain.handle('explorer:openFolder', async (_, defaultPath?: string) => {
     const mainWindow = getMainWindow()
     if (!mainWindow) return { success: false, error: 'No window' }
 
     const result = await dialog.showOpenDialog(mainWindow, {
-      properties: ['openDirectory']
+      defaultPath,
+      properties: ['openDirectory', 'createDirectory']
     })
 
     if (result.canceled || result.filePaths.length === 0) {
@@ -234,4 +241,103 @@ export function setupFileExplorerHandlers(ipcMain: IpcMain, getMainWindow: () =>
       return { success: false, error: String(error), hunks: [] }
     }
   })
+
+  /**
+   * Searches the contents of all files in the given folders.
+   * Files with matches are streamed to the renderer as 'explorer:searchResult'
+   * events while searching; the returned summary marks the end of the search.
+   */
+  ipcMain.handle('explorer:search', async (event, searchId: string, options: WorkspaceSearchOptions) => {
+    const search = { cancelled: false }
+    activeSearches.set(searchId, search)
+
+    try {
+      const summary = await searchWorkspace(
+        options,
+        result => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send('explorer:searchResult', { searchId, result })
+          }
+        },
+        () => search.cancelled || event.sender.isDestroyed()
+      )
+      return { success: true, ...summary, cancelled: search.cancelled }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    } finally {
+      activeSearches.delete(searchId)
+    }
+  })
+
+  /**
+   * Stops a running workspace search.
+   */
+  ipcMain.handle('explorer:cancelSearch', async (_, searchId: string) => {
+    const search = activeSearches.get(searchId)
+    if (search) {
+      search.cancelled = true
+    }
+    return { success: true }
+  })
+  /**
+   * Computes the line changes of a workspace replace without writing them.
+   */
+  ipcMain.handle('explorer:previewReplace', async (_, options: WorkspaceReplaceOptions) => {
+    try {
+      const files = await previewReplace(options)
+      return { success: true, files }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    }
+  })
+
+  /**
+   * Replaces matches across files. Either all files are written or none.
+   * Returns a batch id for undoing the replace and the new file contents.
+   */
+  ipcMain.handle('explorer:replace', async (_, options: WorkspaceReplaceOptions) => {
+    try {
+      const result = await applyReplace(options)
+      return { success: true, ...result }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    }
+  })
+
+  /**
+   * Restores the files changed by a workspace replace.
+   * Files in `skip` and files changed since the replace are left as they are.
+   */
+  ipcMain.handle('explorer:undoReplace', async (_, batchId: string, skip: string[]) => {
+    try {
+      const result = await undoReplace(batchId, skip)
+      return { success: true, ...result }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    }
+  })
+
+  /**
+   * List the markdown files of the folders with their headings and wiki links
+   */
+  ipcMain.handle('explorer:scanNotes', async (_, folders: string[]) => {
+    try {
+      const notes = await scanWorkspaceNotes(folders)
+      return { success: true, notes }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    }
+  })
+
+  /**
+   * List all files of the folders, for link autocomplete
+   */
+  ipcMain.handle('explorer:listFiles', async (_, folders: string[]) => {
+    try {
+      const files = await listWorkspaceFiles(folders)
+      return { success: true, files }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    }
+  })
 }
@@ -0,0 +1,49 @@
+/**
+ * Image Assets
+ *
+ * Writes images pasted or dropped into a document to an assets folder next
+ * to it. Existing files are never overwritten: a name that is taken gets a
+ * number appended, `screenshot-1.png`, `screenshot-2.png`, ...
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+const MAX_ATTEMPTS = 1000
+
+/**
+ * Replaces whitespace and the characters that are not allowed in file names
+ * or need escaping in markdown links.
+ */
+export function safeFileName(fileName: string): string {
+  const clean = (part: string) => part.replace(/[\s\\/:*?"<>|#%()[\]]+/g, '-').replace(/^[-.]+|-+$/g, '')
+  const name = path.basename(fileName)
+  const extension = clean(path.extname(name).slice(1))
+  const base = clean(name.slice(0, name.length - path.extname(name).length)) || 'image'
+  return extension ? `${base}.${extension}` : base
+}
+
+/**
+ * Saves an image to `folder`, which is relative to the document's directory,
+ * and returns the path it was written to.
+ */
+export async function saveImageAsset(documentPath: string, folder: string, fileName: string, data: Uint8Array): Promise<string> {
+  const directory = path.resolve(path.dirname(documentPath), folder)
+  await fs.mkdir(directory, { recursive: true })
+
+  const name = safeFileName(fileName)
+  const extension = path.extname(name)
+  const base = name.slice(0, name.length - extension.length)
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const target = path.join(directory, attempt === 0 ? name : `${base}-${attempt}${extension}`)
+    try {
+      // 'wx' fails if the file exists, so concurrent saves cannot take the same name
+      await fs.writeFile(target, data, { flag: 'wx' })
+      return target
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+  }
+  throw new Error(`No free file name for ${name} in ${directory}`)
+}
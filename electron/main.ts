@@ -8,6 +8,9 @@ import { setupGitHandlers } from './git'
 import { setupAiHandlers } from './ai'
 import { setupFileExplorerHandlers } from './fileExplorer'
 import { setupDirectoryWatcherHandlers, stopDirectoryWatcher } from './directoryWatcher'
+import { setupSpellcheckContextMenu, setupSpellcheckHandlers, unloadWorkspaceWords } from './spellcheck'
+import { setupMarkdownlintHandlers } from './markdownlint'
+import { saveImageAsset } from './imageAssets'
 import Store from 'electron-store'
 
 // Disable GPU acceleration if it causes issues on some Linux systems
@@ -98,6 +101,8 @@ function createWindow() {
     mainWindow = null
   })
 
+  setupSpellcheckContextMenu(mainWindow, () => currentFilePath)
+
   if (VITE_DEV_SERVER_URL) {
     console.log('Loading from dev server:', VITE_DEV_SERVER_URL)
     mainWindow.loadURL(VITE_DEV_SERVER_URL)
@@ -333,6 +338,16 @@ ipcMain.handle('file:readBinary', async (_, filePath: string) => {
   }
 })
 
+// Save a pasted or dropped image into a folder relative to a document
+ipcMain.handle('file:saveImage', async (_, documentPath: string, folder: string, fileName: string, data: Uint8Array) => {
+  try {
+    const savedPath = await saveImageAsset(documentPath, folder, fileName, data)
+    return { success: true, path: savedPath }
+  } catch (error) {
+    return { success: false, error: String(error) }
+  }
+})
+
 ipcMain.handle('dialog:showMessage', async (_, options: { type: string; title: string; message: string; buttons: string[] }) => {
   const result = await showMessageBox({
     type: options.type as 'none' | 'info' | 'error' | 'question' | 'warning',
@@ -343,6 +358,19 @@ ipcMain.handle('dialog:showMessage', async (_, options: { type: string; title: s
   return { response: result.response }
 })
 
+// Pick an image file, used to relink an image that cannot be found
+ipcMain.handle('dialog:chooseImage', async (_, defaultPath?: string) => {
+  const result = await showOpenDialog({
+    defaultPath,
+    properties: ['openFile'],
+    filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp', 'avif', 'ico'] }]
+  })
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, error: 'Cancelled' }
+  }
+  return { success: true, path: result.filePaths[0] }
+})
+
 ipcMain.handle('store:get', (_, key: string) => store.get(key))
 ipcMain.handle('store:set', (_, key: string, value: unknown) => store.set(key, value))
 
@@ -358,6 +386,12 @@ setupAiHandlers(ipcMain, store)
 setupFileExplorerHandlers(ipcMain, () => mainWindow)
 setupDirectoryWatcherHandlers(ipcMain, () => mainWindow)
 
+// Set up spell check handlers
+setupSpellcheckHandlers(ipcMain)
+
+// Set up markdown lint configuration handlers
+setupMarkdownlintHandlers(ipcMain)
+
 // Handle file dropped onto window
 ipcMain.handle('file:openPath', async (_, filePath: string) => {
   if (existsSync(filePath)) {
@@ -467,6 +501,7 @@ app.whenReady().then(() => {
 app.on('window-all-closed', () => {
   stopFileWatcher()
   stopDirectoryWatcher()
+  unloadWorkspaceWords()
   if (process.platform !== 'darwin') {
     app.quit()
   }
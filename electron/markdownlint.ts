@@ -0,0 +1,79 @@
+/**
+ * Markdown Lint Configuration
+ *
+ * Finds the markdownlint configuration that applies to a document: the
+ * nearest `.markdownlint.jsonc` or `.markdownlint.json` in its folder or one
+ * of the folders above, up to its filebar folder or git root. The renderer
+ * parses it and lints with it.
+ */
+
+import { IpcMain } from 'electron'
+import fs from 'fs/promises'
+import path from 'path'
+
+const CONFIG_FILES = ['.markdownlint.jsonc', '.markdownlint.json']
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Returns the folder configurations are looked up to: the filebar folder
+ * holding the document or the root of its git repository, whichever is
+ * closer. Outside of both only the document's own folder is used, so a
+ * configuration in the home folder does not apply to every file.
+ */
+async function configRoot(documentPath: string, rootFolder: string | null): Promise<string> {
+  const stop = rootFolder ? path.resolve(rootFolder) : null
+  let folder = path.dirname(documentPath)
+  for (;;) {
+    if (folder === stop || await exists(path.join(folder, '.git'))) return folder
+    const parent = path.dirname(folder)
+    if (parent === folder) return path.dirname(documentPath)
+    folder = parent
+  }
+}
+
+/**
+ * Returns the path and contents of the configuration closest to a document,
+ * or null if there is none up to its filebar folder or git root.
+ */
+export async function findLintConfig(documentPath: string, rootFolder: string | null): Promise<{ path: string; text: string } | null> {
+  const root = await configRoot(documentPath, rootFolder)
+  let folder = path.dirname(documentPath)
+  for (;;) {
+    for (const name of CONFIG_FILES) {
+      const configPath = path.join(folder, name)
+      const text = await readIfExists(configPath)
+      if (text !== null) return { path: configPath, text }
+    }
+    const parent = path.dirname(folder)
+    if (folder === root || parent === folder) return null
+    folder = parent
+  }
+}
+
+export function setupMarkdownlintHandlers(ipcMain: IpcMain) {
+  ipcMain.handle('markdownlint:findConfig', async (_, documentPath: string, rootFolder: string | null) => {
+    try {
+      const config = await findLintConfig(documentPath, rootFolder)
+      return { success: true, path: config?.path, text: config?.text }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    }
+  })
+}
@@ -17,6 +17,46 @@ export interface DiffHunk {
   type: 'added' | 'modified'
 }
 
+export interface WorkspaceSearchOptions {
+  folders: string[]
+  query: { search: string; caseSensitive: boolean; wholeWord: boolean; regexp: boolean }
+  include: string
+  exclude: string
+}
+
+export interface SearchLineMatch {
+  line: number
+  preview: string
+  ranges: Array<{ start: number; end: number }>
+}
+
+export interface SearchFileResult {
+  filePath: string
+  folder: string
+  relativePath: string
+  matches: SearchLineMatch[]
+  truncated: boolean
+}
+
+export interface WorkspaceReplaceOptions {
+  query: WorkspaceSearchOptions['query']
+  replace: string
+  files: Array<{ filePath: string; excluded: number[]; matchCount: number; truncated?: boolean }>
+}
+
+export interface ReplaceFilePreview {
+  filePath: string
+  count: number
+  lines: Array<{ line: number; before: string; after: string }>
+}
+
+export interface WorkspaceNote {
+  filePath: string
+  relativePath: string
+  headings: string[]
+  links: Array<{ target: string; line: number; preview: string }>
+}
+
 export interface ElectronAPI {
   file: {
     save: (content: string) => Promise<{ success: boolean; filePath?: string; error?: string }>
@@ -24,6 +64,7 @@ export interface ElectronAPI {
     open: () => Promise<void>
     openPath: (path: string) => Promise<{ success: boolean; error?: string }>
     readBinary: (path: string) => Promise<{ success: boolean; data?: string; error?: string }>
+    saveImage: (documentPath: string, folder: string, fileName: string, data: Uint8Array) => Promise<{ success: boolean; path?: string; error?: string }>
     getCurrentPath: () => Promise<string | null>
     onNew: (callback: () => void) => () => void
     onOpened: (callback: (data: { content: string; filePath: string }) => void) => () => void
@@ -38,6 +79,7 @@ export interface ElectronAPI {
       message: string
       buttons: string[]
     }) => Promise<{ response: number }>
+    chooseImage: (defaultPath?: string) => Promise<{ success: boolean; path?: string; error?: string }>
   }
   store: {
     get: (key: string) => Promise<unknown>
@@ -110,6 +152,16 @@ export interface ElectronAPI {
   shell: {
     openExternal: (url: string) => Promise<void>
   }
+  spellcheck: {
+    getLanguages: () => Promise<{ success: boolean; languages: string[] }>
+    configure: (settings: { enabled: boolean; language: string | null }) => Promise<{ success: boolean; error?: string }>
+    setWorkspace: (folders: string[]) => Promise<{ success: boolean; error?: string }>
+  }
+  markdownlint: {
+    // The nearest .markdownlint.json(c) of a document up to its filebar folder or git root,
+    // path and text are unset when there is none
+    findConfig: (documentPath: string, rootFolder: string | null) => Promise<{ success: boolean; path?: string; text?: string; error?: string }>
+  }
   menu: {
     onToggleTheme: (callback: (theme: 'light' | 'dark' | 'system') => void) => () => void
     onToggleSplitView: (callback: () => void) => () => void
@@ -118,7 +170,7 @@ export interface ElectronAPI {
   }
   explorer: {
     readDirectory: (path: string) => Promise<{ success: boolean; entries?: FileEntry[]; error?: string }>
-    openFolder: () => Promise<{ success: boolean; path?: string; error?: string }>
+    openFolder: (defaultPath?: string) => Promise<{ success: boolean; path?: string; error?: string }>
     getGitRoot: (path: string) => Promise<{ success: boolean; gitRoot?: string | null; error?: string }>
     getGitStatus: (gitRoot: string) => Promise<{ success: boolean; files?: GitFileStatus[]; error?: string }>
     getFileDiff: (filePath: string) => Promise<{ success: boolean; hunks?: DiffHunk[]; error?: string }>
@@ -128,6 +180,32 @@ export interface ElectronAPI {
     unwatchDirectory: () => Promise<{ success: boolean; error?: string }>
     onDirectoryChanged: (callback: () => void) => () => void
     onOpenFolder: (callback: (data: { path: string }) => void) => () => void
+    search: (searchId: string, options: WorkspaceSearchOptions) => Promise<{
+      success: boolean
+      fileCount?: number
+      matchCount?: number
+      limitHit?: boolean
+      cancelled?: boolean
+      error?: string
+    }>
+    cancelSearch: (searchId: string) => Promise<{ success: boolean }>
+    onSearchResult: (callback: (data: { searchId: string; result: SearchFileResult }) => void) => () => void
+    previewReplace: (options: WorkspaceReplaceOptions) => Promise<{ success: boolean; files?: ReplaceFilePreview[]; error?: string }>
+    replace: (options: WorkspaceReplaceOptions) => Promise<{
+      success: boolean
+      batchId?: string
+      count?: number
+      files?: Array<{ filePath: string; content: string }>
+      error?: string
+    }>
+    undoReplace: (batchId: string, skip: string[]) => Promise<{
+      success: boolean
+      files?: Array<{ filePath: string; content: string }>
+      skipped?: string[]
+      error?: string
+    }>
+    scanNotes: (folders: string[]) => Promise<{ success: boolean; notes?: WorkspaceNote[]; error?: string }>
+    listFiles: (folders: string[]) => Promise<{ success: boolean; files?: string[]; error?: string }>
   }
   filebar: {
     save: (name: string, folders: Array<{ path: string; isGitRepo: boolean }>) => Promise<{ success: boolean; path?: string; error?: string }>
@@ -144,6 +222,7 @@ const api: ElectronAPI = {
     open: () => ipcRenderer.invoke('file:open'),
     openPath: (path) => ipcRenderer.invoke('file:openPath', path),
     readBinary: (path) => ipcRenderer.invoke('file:readBinary', path),
+    saveImage: (documentPath, folder, fileName, data) => ipcRenderer.invoke('file:saveImage', documentPath, folder, fileName, data),
     getCurrentPath: () => ipcRenderer.invoke('file:getCurrentPath'),
     onNew: (callback) => {
       const handler = () => callback()
@@ -172,7 +251,8 @@ const api: ElectronAPI = {
     }
   },
   dialog: {
-    showMessage: (options) => ipcRenderer.invoke('dialog:showMessage', options)
+    showMessage: (options) => ipcRenderer.invoke('dialog:showMessage', options),
+    chooseImage: (defaultPath) => ipcRenderer.invoke('dialog:chooseImage', defaultPath)
   },
   store: {
     get: (key) => ipcRenderer.invoke('store:get', key),
@@ -207,6 +287,14 @@ const api: ElectronAPI = {
   shell: {
     openExternal: (url) => ipcRenderer.invoke('shell:openExternal', url)
   },
+  spellcheck: {
+    getLanguages: () => ipcRenderer.invoke('spellcheck:getLanguages'),
+    configure: (settings) => ipcRenderer.invoke('spellcheck:configure', settings),
+    setWorkspace: (folders) => ipcRenderer.invoke('spellcheck:setWorkspace', folders)
+  },
+  markdownlint: {
+    findConfig: (documentPath, rootFolder) => ipcRenderer.invoke('markdownlint:findConfig', documentPath, rootFolder)
+  },
   menu: {
     onToggleTheme: (callback) => {
       const handler = (_: unknown, theme: 'light' | 'dark' | 'system') => callback(theme)
@@ -231,7 +319,7 @@ const api: ElectronAPI = {
   },
   explorer: {
     readDirectory: (path) => ipcRenderer.invoke('explorer:readDirectory', path),
-    openFolder: () => ipcRenderer.invoke('explorer:openFolder'),
+    openFolder: (defaultPath) => ipcRenderer.invoke('explorer:openFolder', defaultPath),
     getGitRoot: (path) => ipcRenderer.invoke('explorer:getGitRoot', path),
     getGitStatus: (gitRoot) => ipcRenderer.invoke('explorer:getGitStatus', gitRoot),
     getFileDiff: (filePath) => ipcRenderer.invoke('explorer:getFileDiff', filePath),
@@ -248,7 +336,19 @@ const api: ElectronAPI = {
       const handler = (_: unknown, data: { path: string }) => callback(data)
       ipcRenderer.on('explorer:openFolder', handler)
       return () => ipcRenderer.removeListener('explorer:openFolder', handler)
-    }
+    },
+    search: (searchId, options) => ipcRenderer.invoke('explorer:search', searchId, options),
+    cancelSearch: (searchId) => ipcRenderer.invoke('explorer:cancelSearch', searchId),
+    onSearchResult: (callback) => {
+      const handler = (_: unknown, data: { searchId: string; result: SearchFileResult }) => callback(data)
+      ipcRenderer.on('explorer:searchResult', handler)
+      return () => ipcRenderer.removeListener('explorer:searchResult', handler)
+    },
+    previewReplace: (options) => ipcRenderer.invoke('explorer:previewReplace', options),
+    replace: (options) => ipcRenderer.invoke('explorer:replace', options),
+    undoReplace: (batchId, skip) => ipcRenderer.invoke('explorer:undoReplace', batchId, skip),
+    scanNotes: (folders) => ipcRenderer.invoke('explorer:scanNotes', folders),
+    listFiles: (folders) => ipcRenderer.invoke('explorer:listFiles', folders)
   },
   filebar: {
     save: (name, folders) => ipcRenderer.invoke('filebar:save', name, folders),
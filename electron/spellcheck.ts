@@ -0,0 +1,185 @@
+/**
+ * Spell Check
+ *
+ * Configures the session spellchecker and shows the editor's context menu,
+ * which offers the spellchecker's suggestions for a misspelled word and adds
+ * words to the dictionary.
+ *
+ * Words added while a folder is open go to a word list in that folder
+ * (`.markus-dictionary.txt`, one word per line, sorted) so they can be
+ * committed along with the documents. The words of the open folders are added
+ * to the session dictionary, and removed again when the folders are closed.
+ */
+
+import { app, BrowserWindow, IpcMain, Menu, MenuItemConstructorOptions, session } from 'electron'
+import fs from 'fs/promises'
+import path from 'path'
+
+export const DICTIONARY_FILE = '.markus-dictionary.txt'
+
+export interface SpellcheckSettings {
+  enabled: boolean
+  // Language code such as 'en-US', null for the system language
+  language: string | null
+}
+
+// Folders open in the filebar, whose word lists are in the session dictionary
+let workspaceFolders: string[] = []
+// Words added to the session dictionary for those folders
+let workspaceWords = new Set<string>()
+
+/**
+ * Reads a word list: one word per line, blank lines and `#` comments skipped.
+ */
+export function parseWordList(text: string): string[] {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'))
+}
+
+export function formatWordList(words: string[]): string {
+  const unique = Array.from(new Set(words)).sort((a, b) => a.localeCompare(b))
+  return unique.map(word => `${word}\n`).join('')
+}
+
+async function readWordList(folder: string): Promise<string[]> {
+  try {
+    return parseWordList(await fs.readFile(path.join(folder, DICTIONARY_FILE), 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+/**
+ * Adds a word to a folder's word list, creating the list if needed.
+ */
+export async function addToWordList(folder: string, word: string) {
+  const words = await readWordList(folder)
+  if (words.includes(word)) return
+  await fs.writeFile(path.join(folder, DICTIONARY_FILE), formatWordList([...words, word]), 'utf-8')
+}
+
+/**
+ * Replaces the words of the previously open folders in the session dictionary
+ * with those of `folders`. Words the user had added themselves are left alone.
+ */
+async function loadWorkspaceWords(folders: string[]) {
+  const lists = await Promise.all(folders.map(folder => readWordList(folder).catch((): string[] => [])))
+  const words = new Set(lists.reduce((all, list) => all.concat(list), []))
+
+  const kept = new Set<string>()
+  workspaceWords.forEach(word => {
+    if (words.has(word)) kept.add(word)
+    else session.defaultSession.removeWordFromSpellCheckerDictionary(word)
+  })
+
+  const existing = new Set(await session.defaultSession.listWordsInSpellCheckerDictionary())
+  words.forEach(word => {
+    if (existing.has(word)) return
+    session.defaultSession.addWordToSpellCheckerDictionary(word)
+    kept.add(word)
+  })
+  workspaceWords = kept
+}
+
+/**
+ * Removes the words of the open folders from the session dictionary, which
+ * would otherwise keep them after the app quits.
+ */
+export function unloadWorkspaceWords() {
+  workspaceWords.forEach(word => session.defaultSession.removeWordFromSpellCheckerDictionary(word))
+  workspaceWords = new Set()
+}
+
+/**
+ * The folder whose word list a word is added to: the open folder containing
+ * the current file, or else the first open folder.
+ */
+function dictionaryFolder(filePath: string | null): string | null {
+  const containing = filePath
+    ? workspaceFolders.find(folder => {
+      const relative = path.relative(folder, filePath)
+      return !relative.startsWith('..') && !path.isAbsolute(relative)
+    })
+    : undefined
+  return containing ?? workspaceFolders[0] ?? null
+}
+
+async function addToDictionary(word: string, filePath: string | null) {
+  const folder = dictionaryFolder(filePath)
+  if (folder) {
+    await addToWordList(folder, word)
+    workspaceWords.add(word)
+  }
+  session.defaultSession.addWordToSpellCheckerDictionary(word)
+}
+
+/**
+ * Shows a context menu with spelling suggestions and the edit commands.
+ */
+export function setupSpellcheckContextMenu(window: BrowserWindow, getCurrentFilePath: () => string | null) {
+  window.webContents.on('context-menu', (_, params) => {
+    const items: MenuItemConstructorOptions[] = []
+
+    if (params.misspelledWord) {
+      const word = params.misspelledWord
+      for (const suggestion of params.dictionarySuggestions) {
+        items.push({ label: suggestion, click: () => window.webContents.replaceMisspelling(suggestion) })
+      }
+      if (params.dictionarySuggestions.length === 0) {
+        items.push({ label: 'No Suggestions', enabled: false })
+      }
+      items.push({ type: 'separator' })
+      items.push({
+        label: dictionaryFolder(getCurrentFilePath()) ? 'Add to Folder Dictionary' : 'Add to Dictionary',
+        click: () => {
+          addToDictionary(word, getCurrentFilePath()).catch(error => {
+            console.error('Failed to add word to dictionary:', error)
+          })
+        }
+      })
+      items.push({ type: 'separator' })
+    }
+
+    if (params.isEditable) {
+      items.push({ role: 'cut', enabled: params.editFlags.canCut })
+      items.push({ role: 'copy', enabled: params.editFlags.canCopy })
+      items.push({ role: 'paste', enabled: params.editFlags.canPaste })
+      items.push({ type: 'separator' })
+      items.push({ role: 'selectAll' })
+    } else if (params.selectionText) {
+      items.push({ role: 'copy' })
+    }
+
+    if (items.length > 0) Menu.buildFromTemplate(items).popup({ window })
+  })
+}
+
+export function setupSpellcheckHandlers(ipcMain: IpcMain) {
+  ipcMain.handle('spellcheck:getLanguages', () => {
+    return { success: true, languages: session.defaultSession.availableSpellCheckerLanguages }
+  })
+
+  ipcMain.handle('spellcheck:configure', (_, settings: SpellcheckSettings) => {
+    try {
+      session.defaultSession.setSpellCheckerEnabled(settings.enabled)
+      // macOS always uses the system spellchecker and its language detection
+      const language = settings.language ?? app.getLocale()
+      if (process.platform !== 'darwin' && session.defaultSession.availableSpellCheckerLanguages.includes(language)) {
+        session.defaultSession.setSpellCheckerLanguages([language])
+      }
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    }
+  })
+
+  ipcMain.handle('spellcheck:setWorkspace', async (_, folders: string[]) => {
+    try {
+      workspaceFolders = folders
+      await loadWorkspaceWords(folders)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: String(error) }
+    }
+  })
+}
@@ -0,0 +1,97 @@
+/**
+ * Workspace Notes
+ *
+ * Lists the markdown files of the filebar folders along with their headings
+ * and the wiki links (`[[Target#Heading|Alias]]`) they contain. The renderer
+ * resolves the link targets, which feeds wiki link autocomplete, navigation
+ * and the backlinks panel.
+ */
+
+import path from 'path'
+import { readTextFile, walkFiles } from './workspaceSearch'
+
+export interface WikiLinkReference {
+  target: string
+  line: number // 1-based line number
+  preview: string
+}
+
+export interface WorkspaceNote {
+  filePath: string
+  relativePath: string
+  headings: string[]
+  links: WikiLinkReference[]
+}
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i
+const MAX_PREVIEW_LENGTH = 200
+
+/**
+ * Collects the headings and wiki links of a markdown text. Front matter,
+ * fenced code blocks and code spans are skipped.
+ */
+export function scanNote(text: string) {
+  const headings: string[] = []
+  const links: WikiLinkReference[] = []
+  const lines = text.split(/\r?\n/)
+
+  let start = 0
+  if (lines[0] === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && (line === '---' || line === '...'))
+    if (end > 0) start = end + 1
+  }
+
+  let fence: string | null = null
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index]
+    const fenceMarker = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1]
+    if (fence) {
+      if (fenceMarker && fenceMarker[0] === fence[0] && fenceMarker.length >= fence.length) fence = null
+      continue
+    }
+    if (fenceMarker) {
+      fence = fenceMarker
+      continue
+    }
+
+    const heading = line.match(/^ {0,3}#{1,6}[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/)
+    if (heading && heading[1]) headings.push(heading[1])
+
+    const prose = line.replace(/(`+)[^`]*?\1/g, span => ' '.repeat(span.length))
+    const wikiLink = /\[\[([^[\]\n]+)\]\]/g
+    let match: RegExpExecArray | null
+    while ((match = wikiLink.exec(prose))) {
+      // The target ends at the alias (escaped as `\|` in tables) or the heading
+      const target = match[1].split(/\\?\||#/)[0].trim()
+      if (target) {
+        links.push({ target, line: index + 1, preview: line.trim().slice(0, MAX_PREVIEW_LENGTH) })
+      }
+    }
+  }
+
+  return { headings, links }
+}
+
+/**
+ * Scans every markdown file of the folders, in name order.
+ */
+export async function scanWorkspaceNotes(folders: string[]): Promise<WorkspaceNote[]> {
+  const notes: WorkspaceNote[] = []
+  // Folders in the filebar may be nested in each other
+  const scanned = new Set<string>()
+
+  for (const folder of folders) {
+    for await (const filePath of walkFiles(folder, folder, [])) {
+      if (scanned.has(filePath) || !MARKDOWN_FILE.test(filePath)) continue
+      scanned.add(filePath)
+
+      const text = await readTextFile(filePath)
+      if (text === null) continue
+
+      const relativePath = path.relative(folder, filePath).split(path.sep).join('/')
+      notes.push({ filePath, relativePath, ...scanNote(text) })
+    }
+  }
+
+  return notes
+}
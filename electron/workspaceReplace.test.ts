@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { applyReplace, replaceText, undoReplace, writeFilesAtomic } from './workspaceReplace'
+
+const query = (search: string, regexp = false) => ({ search, caseSensitive: false, wholeWord: false, regexp })
+
+describe('workspace replace', () => {
+  let folder: string
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), 'markus-replace-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(folder, { recursive: true, force: true })
+  })
+
+  const write = async (name: string, content: string) => {
+    const filePath = path.join(folder, name)
+    await fs.writeFile(filePath, content, 'utf-8')
+    return filePath
+  }
+  const read = (filePath: string) => fs.readFile(filePath, 'utf-8')
+
+  describe('replaceText', () => {
+    it('should number matches across lines and leave excluded ones unchanged', () => {
+      const result = replaceText('cat cat\r\nno\ncat', query('cat'), 'dog', new Set([1]))
+      expect(result.content).toBe('dog cat\r\nno\ndog')
+      expect(result.count).toBe(2)
+      expect(result.total).toBe(3)
+      expect(result.lines).toEqual([
+        { line: 1, before: 'cat cat', after: 'dog cat' },
+        { line: 3, before: 'cat', after: 'dog' }
+      ])
+    })
+
+    it('should expand groups in regular expression replacements', () => {
+      const result = replaceText('2024-05-01', query('(\\d+)-(?<month>\\d+)', true), '$<month>/$1 $$', new Set([0]))
+      expect(result.content).toBe('2024-05-01')
+      expect(replaceText('2024-05-01', query('(\\d+)-(?<month>\\d+)', true), '$<month>/$1 $$').content).toBe('05/2024 $-01')
+    })
+  })
+
+  describe('applyReplace', () => {
+    it('should refuse files the search did not list all matches of', async () => {
+      const filePath = await write('a.md', 'cat cat')
+      await expect(applyReplace({
+        query: query('cat'),
+        replace: 'dog',
+        files: [{ filePath, excluded: [], matchCount: 1, truncated: true }]
+      })).rejects.toThrow('The search stopped before listing all matches in a.md')
+      expect(await read(filePath)).toBe('cat cat')
+    })
+
+    it('should refuse files changed since the search', async () => {
+      const filePath = await write('a.md', 'cat cat')
+      await expect(applyReplace({
+        query: query('cat'),
+        replace: 'dog',
+        files: [{ filePath, excluded: [], matchCount: 1 }]
+      })).rejects.toThrow('a.md has changed since the search')
+    })
+  })
+
+  describe('writeFilesAtomic', () => {
+    it('should restore the files already written when a later one fails', async () => {
+      const first = await write('a.md', 'one')
+      // Nothing can be moved onto a directory
+      const second = path.join(folder, 'b.md')
+      await fs.mkdir(second)
+
+      await expect(writeFilesAtomic([
+        { filePath: first, original: 'one', content: 'changed' },
+        { filePath: second, original: '', content: 'changed' }
+      ])).rejects.toThrow()
+      expect(await read(first)).toBe('one')
+      expect((await fs.readdir(folder)).sort()).toEqual(['a.md', 'b.md'])
+    })
+  })
+
+  describe('undoReplace', () => {
+    it('should restore the files of a replace except those changed since', async () => {
+      const first = await write('a.md', 'cat')
+      const second = await write('b.md', 'a cat')
+      const result = await applyReplace({
+        query: query('cat'),
+        replace: 'dog',
+        files: [{ filePath: first, excluded: [], matchCount: 1 }, { filePath: second, excluded: [], matchCount: 1 }]
+      })
+      expect(await read(first)).toBe('dog')
+      await fs.writeFile(second, 'edited', 'utf-8')
+
+      const undone = await undoReplace(result.batchId, [])
+      expect(undone.files).toEqual([{ filePath: first, content: 'cat' }])
+      expect(undone.skipped).toEqual([second])
+      expect(await read(first)).toBe('cat')
+      expect(await read(second)).toBe('edited')
+      await expect(undoReplace(result.batchId, [])).rejects.toThrow('can no longer be undone')
+    })
+  })
+})
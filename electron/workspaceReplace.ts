@@ -0,0 +1,226 @@
+/**
+ * Workspace Replace
+ *
+ * Replaces search matches across the files of the filebar folders. Matches are
+ * numbered per file in the order the workspace search reports them, so single
+ * matches can be left out. The files of a replace are written together: each
+ * new content is staged in a temporary file next to its target before any file
+ * is replaced, and files already replaced are restored if a later one fails.
+ * The original contents are kept so a whole replace can be undone.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+import { compileSearch, expandReplacement } from '../src/lib/searchQuery'
+import { WorkspaceSearchQuery } from './workspaceSearch'
+
+export interface ReplaceFileRequest {
+  filePath: string
+  // Indices of the matches to leave unchanged
+  excluded: number[]
+  // Number of matches the search found, to detect files changed since
+  matchCount: number
+  // Whether the search stopped before listing all matches of the file
+  truncated?: boolean
+}
+
+export interface WorkspaceReplaceOptions {
+  query: WorkspaceSearchQuery
+  replace: string
+  files: ReplaceFileRequest[]
+}
+
+export interface ReplacedLine {
+  line: number // 1-based line number
+  before: string
+  after: string
+}
+
+export interface ReplaceFilePreview {
+  filePath: string
+  count: number
+  lines: ReplacedLine[]
+}
+
+export interface ChangedFile {
+  filePath: string
+  content: string
+}
+
+export interface FileChange {
+  filePath: string
+  original: string
+  content: string
+}
+
+const MAX_UNDO_BATCHES = 10
+
+// Changes of the most recent replaces by batch id, for undo
+const batches = new Map<string, FileChange[]>()
+
+/**
+ * Replaces the matches of a query in a text, except the excluded ones.
+ * Matches are searched line by line like the workspace search does.
+ */
+export function replaceText(
+  text: string,
+  query: WorkspaceSearchQuery,
+  replace: string,
+  excluded: Set<number> = new Set()
+) {
+  const regexp = compileSearch(query)
+  // Lines at even indices, line breaks at odd ones
+  const parts = text.split(/(\r?\n)/)
+  const lines: ReplacedLine[] = []
+  let total = 0
+  let count = 0
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const before = parts[i]
+    let after = ''
+    let last = 0
+
+    regexp.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = regexp.exec(before))) {
+      if (match[0].length === 0) {
+        regexp.lastIndex++
+        continue
+      }
+      if (excluded.has(total++)) continue
+
+      after += before.slice(last, match.index) + (query.regexp ? expandReplacement(replace, [...match], match.groups) : replace)
+      last = match.index + match[0].length
+      count++
+    }
+
+    if (last > 0) {
+      parts[i] = after + before.slice(last)
+      lines.push({ line: i / 2 + 1, before, after: parts[i] })
+    }
+  }
+
+  return { content: parts.join(''), count, total, lines }
+}
+
+/**
+ * Reads the files of a replace and computes their new contents. Throws if a
+ * file no longer has the matches the search found, or the search did not list
+ * all of them.
+ */
+async function prepareReplace(options: WorkspaceReplaceOptions) {
+  return Promise.all(options.files.map(async file => {
+    // Matches past the ones listed could not be excluded, and the count cannot tell whether the file changed
+    if (file.truncated) {
+      throw new Error(`The search stopped before listing all matches in ${path.basename(file.filePath)}, refine the search to replace in it`)
+    }
+    const original = await fs.readFile(file.filePath, 'utf-8')
+    const result = replaceText(original, options.query, options.replace, new Set(file.excluded))
+    if (result.total !== file.matchCount) {
+      throw new Error(`${path.basename(file.filePath)} has changed since the search, search again`)
+    }
+    return { filePath: file.filePath, original, ...result }
+  }))
+}
+
+/**
+ * Writes new contents to several files so that either all of them or none are changed.
+ */
+export async function writeFilesAtomic(changes: FileChange[]) {
+  // Stage every file next to its target, so moving it into place cannot fail halfway
+  const staged: string[] = []
+  try {
+    for (const change of changes) {
+      const stat = await fs.stat(change.filePath)
+      const tempPath = path.join(
+        path.dirname(change.filePath),
+        `.${path.basename(change.filePath)}.${crypto.randomUUID()}.tmp`
+      )
+      await fs.writeFile(tempPath, change.content, { encoding: 'utf-8', mode: stat.mode })
+      staged.push(tempPath)
+    }
+  } catch (error) {
+    await Promise.all(staged.map(tempPath => fs.rm(tempPath, { force: true })))
+    throw error
+  }
+
+  for (let i = 0; i < changes.length; i++) {
+    try {
+      await fs.rename(staged[i], changes[i].filePath)
+    } catch (error) {
+      // Put back the files already replaced and drop the rest
+      await Promise.all([
+        ...changes.slice(0, i).map(change => fs.writeFile(change.filePath, change.original, 'utf-8').catch(() => {})),
+        ...staged.slice(i).map(tempPath => fs.rm(tempPath, { force: true }))
+      ])
+      throw error
+    }
+  }
+}
+
+/**
+ * Returns the lines each file of a replace would change, without writing anything.
+ */
+export async function previewReplace(options: WorkspaceReplaceOptions): Promise<ReplaceFilePreview[]> {
+  const prepared = await prepareReplace(options)
+  return prepared
+    .filter(file => file.count > 0)
+    .map(file => ({ filePath: file.filePath, count: file.count, lines: file.lines }))
+}
+
+/**
+ * Replaces the matches in all files of a replace.
+ * Returns the id to undo the replace with and the new file contents.
+ */
+export async function applyReplace(options: WorkspaceReplaceOptions) {
+  const prepared = await prepareReplace(options)
+  const changes: FileChange[] = prepared
+    .filter(file => file.count > 0)
+    .map(file => ({ filePath: file.filePath, original: file.original, content: file.content }))
+
+  await writeFilesAtomic(changes)
+
+  const batchId = crypto.randomUUID()
+  batches.set(batchId, changes)
+  if (batches.size > MAX_UNDO_BATCHES) {
+    batches.delete(batches.keys().next().value!)
+  }
+
+  return {
+    batchId,
+    count: prepared.reduce((count, file) => count + file.count, 0),
+    files: changes.map(({ filePath, content }): ChangedFile => ({ filePath, content }))
+  }
+}
+
+/**
+ * Restores the files of a replace. Files changed since the replace, or listed
+ * in `skip`, are left as they are and reported back.
+ */
+export async function undoReplace(batchId: string, skip: string[]) {
+  const changes = batches.get(batchId)
+  if (!changes) {
+    throw new Error('This replace can no longer be undone')
+  }
+
+  const restore: FileChange[] = []
+  const skipped: string[] = []
+  for (const change of changes) {
+    const current = await fs.readFile(change.filePath, 'utf-8').catch(() => null)
+    if (current !== change.content || skip.includes(change.filePath)) {
+      skipped.push(change.filePath)
+    } else {
+      // Write the original back, rolling back to the replaced content
+      restore.push({ filePath: change.filePath, original: change.content, content: change.original })
+    }
+  }
+
+  await writeFilesAtomic(restore)
+  batches.delete(batchId)
+
+  return {
+    files: restore.map(({ filePath, content }): ChangedFile => ({ filePath, content })),
+    skipped
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Workspace Search
+ *
+ * Searches the text files of the filebar folders line by line. Include and
+ * exclude patterns are comma-separated globs matched against paths relative to
+ * each folder: a pattern without a slash matches at any depth, and a pattern
+ * that matches a directory covers everything inside it.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { compileSearch, SearchPattern } from '../src/lib/searchQuery'
+
+export type WorkspaceSearchQuery = SearchPattern
+
+export interface WorkspaceSearchOptions {
+  folders: string[]
+  query: WorkspaceSearchQuery
+  include: string
+  exclude: string
+}
+
+export interface SearchLineMatch {
+  line: number // 1-based line number
+  preview: string
+  // Match ranges within the preview; matches cut off by the preview are empty
+  ranges: Array<{ start: number; end: number }>
+}
+
+export interface SearchFileResult {
+  filePath: string
+  folder: string
+  relativePath: string
+  matches: SearchLineMatch[]
+  // Whether the search stopped at MAX_MATCHES before listing all matches of the file
+  truncated: boolean
+}
+
+export interface WorkspaceSearchSummary {
+  fileCount: number
+  matchCount: number
+  limitHit: boolean
+}
+
+const MAX_MATCHES = 5000
+const MAX_FILE_SIZE = 4 * 1024 * 1024
+const MAX_PREVIEW_LENGTH = 200
+const MAX_LISTED_FILES = 20000
+const PREVIEW_CONTEXT = 40
+
+/**
+ * Converts a glob to a regular expression for '/'-separated relative paths.
+ * Supports `**`, `*`, `?`, `{a,b}` and `[...]`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.replace(/\\/g, '/').replace(/^\.?\//, '')
+  if (!pattern.includes('/')) pattern = `**/${pattern}`
+
+  let source = ''
+  let braces = 0
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches any number of directories, a trailing `**` anything
+      if (pattern[i + 2] === '/') {
+        source += '(?:[^/]*/)*'
+        i += 2
+      } else {
+        source += '.*'
+        i++
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1)
+      if (end < 0) {
+        source += '\\['
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`
+        i = end
+      }
+    } else if (char === '{') {
+      braces++
+      source += '(?:'
+    } else if (char === '}' && braces > 0) {
+      braces--
+      source += ')'
+    } else if (char === ',' && braces > 0) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  source += ')'.repeat(braces)
+
+  return new RegExp(`^${source}(?:/.*)?$`)
+}
+
+/**
+ * Parses a comma-separated list of globs.
+ */
+export function parseGlobs(patterns: string): RegExp[] {
+  // Split on commas outside braces
+  const globs: string[] = []
+  let current = ''
+  let braces = 0
+  for (const char of patterns) {
+    if (char === ',' && braces === 0) {
+      globs.push(current)
+      current = ''
+      continue
+    }
+    if (char === '{') braces++
+    if (char === '}') braces = Math.max(braces - 1, 0)
+    current += char
+  }
+  globs.push(current)
+
+  return globs.map(glob => glob.trim()).filter(Boolean).map(globToRegExp)
+}
+
+function matchesAny(globs: RegExp[], relativePath: string) {
+  return globs.some(glob => glob.test(relativePath))
+}
+
+/**
+ * Shortens a line around its first match and moves the match ranges along.
+ */
+function previewLine(text: string, line: number, ranges: SearchLineMatch['ranges']): SearchLineMatch {
+  let start = Math.max(text.search(/\S/), 0)
+  let prefix = ''
+  if (ranges[0].start - start > PREVIEW_CONTEXT) {
+    start = ranges[0].start - PREVIEW_CONTEXT
+    prefix = '…'
+  }
+  const preview = prefix + text.slice(start, start + MAX_PREVIEW_LENGTH)
+  const shift = prefix.length - start
+  const clamp = (offset: number) => Math.min(Math.max(offset + shift, prefix.length), preview.length)
+
+  return {
+    line,
+    preview,
+    ranges: ranges.map(range => ({ start: clamp(range.start), end: clamp(range.end) }))
+  }
+}
+
+/**
+ * Returns the matching lines of a text, skipping empty matches.
+ */
+export function searchText(text: string, regexp: RegExp, limit = Infinity): SearchLineMatch[] {
+  const results: SearchLineMatch[] = []
+  let count = 0
+
+  text.split(/\r?\n/).forEach((lineText, index) => {
+    if (count >= limit) return
+
+    const ranges: SearchLineMatch['ranges'] = []
+    regexp.lastIndex = 0
+    let match: RegExpExecArray | null
+    while (count < limit && (match = regexp.exec(lineText))) {
+      if (match[0].length === 0) {
+        regexp.lastIndex++
+        continue
+      }
+      ranges.push({ start: match.index, end: match.index + match[0].length })
+      count++
+    }
+
+    if (ranges.length > 0) results.push(previewLine(lineText, index + 1, ranges))
+  })
+
+  return results
+}
+
+/**
+ * Lists the files below a directory in name order, skipping hidden files,
+ * node_modules and excluded paths like the file explorer does.
+ */
+export async function* walkFiles(directory: string, root: string, exclude: RegExp[]): AsyncGenerator<string> {
+  let entries
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true })
+  } catch {
+    return
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name))
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue
+
+    const entryPath = path.join(directory, entry.name)
+    const relativePath = path.relative(root, entryPath).split(path.sep).join('/')
+    if (matchesAny(exclude, relativePath)) continue
+
+    if (entry.isDirectory()) {
+      yield* walkFiles(entryPath, root, exclude)
+    } else if (entry.isFile()) {
+      yield entryPath
+    }
+  }
+}
+
+/**
+ * Reads a file as text, or returns null for large and binary files.
+ */
+export async function readTextFile(filePath: string): Promise<string | null> {
+  try {
+    const stat = await fs.stat(filePath)
+    if (stat.size > MAX_FILE_SIZE) return null
+
+    const buffer = await fs.readFile(filePath)
+    if (buffer.subarray(0, 8000).includes(0)) return null
+    return buffer.toString('utf-8')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Searches all files of the folders, reporting each file with matches as soon
+ * as it is searched. Stops early when cancelled or after MAX_MATCHES matches.
+ */
+export async function searchWorkspace(
+  options: WorkspaceSearchOptions,
+  onResult: (result: SearchFileResult) => void,
+  isCancelled: () => boolean
+): Promise<WorkspaceSearchSummary> {
+  const regexp = compileSearch(options.query)
+  const include = parseGlobs(options.include)
+  const exclude = parseGlobs(options.exclude)
+  const summary: WorkspaceSearchSummary = { fileCount: 0, matchCount: 0, limitHit: false }
+  // Folders in the filebar may be nested in each other
+  const searched = new Set<string>()
+
+  for (const folder of options.folders) {
+    for await (const filePath of walkFiles(folder, folder, exclude)) {
+      if (isCancelled()) return summary
+      if (searched.has(filePath)) continue
+      searched.add(filePath)
+
+      const relativePath = path.relative(folder, filePath).split(path.sep).join('/')
+      if (include.length > 0 && !matchesAny(include, relativePath)) continue
+
+      const text = await readTextFile(filePath)
+      if (text === null) continue
+
+      const matches = searchText(text, regexp, MAX_MATCHES - summary.matchCount)
+      if (matches.length === 0) continue
+
+      summary.fileCount++
+      summary.matchCount += matches.reduce((count, match) => count + match.ranges.length, 0)
+      const truncated = summary.matchCount >= MAX_MATCHES
+      onResult({ filePath, folder, relativePath, matches, truncated })
+
+      if (truncated) {
+        summary.limitHit = true
+        return summary
+      }
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Lists all files of the folders, in name order, up to MAX_LISTED_FILES.
+ */
+export async function listWorkspaceFiles(folders: string[]): Promise<string[]> {
+  const files = new Set<string>()
+  for (const folder of folders) {
+    for await (const filePath of walkFiles(folder, folder, [])) {
+      files.add(filePath)
+      if (files.size >= MAX_LISTED_FILES) return Array.from(files)
+    }
+  }
+  return Array.from(files)
+}
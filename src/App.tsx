@@ -1,18 +1,33 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { AlertTriangle, Files, Link2, ListTree, Search } from 'lucide-react'
 import { StatusBar } from './components/StatusBar'
 import { CommandPalette } from './components/CommandPalette'
 import { GitPanel } from './components/GitPanel'
-import { MarkdownPreview } from './components/MarkdownPreview'
+import { MarkdownPreview, MarkdownPreviewHandle } from './components/MarkdownPreview'
 import { ConflictBanner } from './components/ConflictBanner'
 import { ConflictResolver } from './components/ConflictResolver'
 import { Filebar, FolderEntry } from './components/Filebar'
 import { TabBar, Tab, createUntitledTab, createFileTab, createBinaryFileTab } from './components/TabBar'
 import { FileViewer, FileViewerHandle } from './components/FileViewer'
+import { WorkspaceSearch } from './components/WorkspaceSearch'
+import { Backlinks, useWorkspaceNotes } from './components/Backlinks'
+import { Outline } from './components/Outline'
+import { Problems } from './components/Problems'
+import { emptyOutline, OutlineState } from './editor/plugins/outline'
+import { SearchQuery, SourceMatch } from './editor/search'
+import { defaultLintSettings, LintConfig, LintProblem, LintSettings, parseLintConfig } from './editor/lint'
 import { FileConflict, parseConflicts } from './lib/conflictParser'
 import { getFileType, isSupportedFile } from './lib/fileTypes'
+import { containingFolder, dirname, encodeUrlPath, isRelativeUrl, relativePath, resolveRelativePath } from './lib/paths'
+import { convertToWebp, defaultImageSettings, imageFileName, ImageSettings } from './lib/images'
+import { defaultSpellcheckSettings, SpellcheckSettings } from './lib/spellcheck'
+import { addRecentEmoji, defaultEmojiSettings, EmojiSettings, emojiStyleFor } from './lib/emoji'
+import { defaultTypographySettings, TypographySettings } from './lib/typography'
+import { resolveWikiLink, WikiLink } from './lib/wikiLinks'
 import { cn } from './lib/utils'
 
 type Theme = 'light' | 'dark' | 'system'
+type SidebarView = 'files' | 'search' | 'outline' | 'backlinks' | 'problems'
 
 function App() {
   // Tabs state - replaces single content/filePath
@@ -39,7 +54,33 @@ function App() {
   const [folders, setFolders] = useState<FolderEntry[]>([])
   const [filebarWidth, setFilebarWidth] = useState(280)
   const [isResizing, setIsResizing] = useState(false)
+  const [sidebarView, setSidebarView] = useState<SidebarView>('files')
+  const [searchFocusRequest, setSearchFocusRequest] = useState(0)
+  const [outline, setOutline] = useState<OutlineState>(emptyOutline)
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(defaultImageSettings)
+  const [spellcheckSettings, setSpellcheckSettings] = useState<SpellcheckSettings>(defaultSpellcheckSettings)
+  const [spellcheckLanguages, setSpellcheckLanguages] = useState<string[]>([])
+  const [emojiSettings, setEmojiSettings] = useState<EmojiSettings>(defaultEmojiSettings)
+  const [typographySettings, setTypographySettings] = useState<TypographySettings>(defaultTypographySettings)
+  const [lintSettings, setLintSettings] = useState<LintSettings>(defaultLintSettings)
+  // The nearest .markdownlint.json of the open file, an empty config for the defaults
+  const [lintConfig, setLintConfig] = useState<{ config: LintConfig; path: string | null }>({ config: {}, path: null })
+  const [problems, setProblems] = useState<LintProblem[]>([])
   const editorRef = useRef<FileViewerHandle>(null)
+  const previewRef = useRef<MarkdownPreviewHandle>(null)
+  // What to show once a file being opened becomes the active tab (a search match, a heading)
+  const pendingRevealRef = useRef<{ filePath: string; reveal: (editor: FileViewerHandle) => void } | null>(null)
+
+  const folderPaths = useMemo(() => folders.map(f => f.path), [folders])
+  const dirtyFilePaths = useMemo(
+    () => tabs.filter(t => t.isDirty && t.filePath).map(t => t.filePath!),
+    [tabs]
+  )
+  const { notes, isScanning: isScanningNotes, refresh: refreshNotes } = useWorkspaceNotes(folderPaths)
+  // The filebar folder of the open file
+  const fileFolder = filePath ? containingFolder(folderPaths, filePath) : null
+  // Emoji are written the way the folder of the open file is set to
+  const emojiStyle = emojiStyleFor(emojiSettings, fileFolder)
 
   // Update tab content helper
   const updateTabContent = useCallback((tabId: string, newContent: string, markDirty = true) => {
@@ -224,6 +265,24 @@ function App() {
         setFolders(saved as FolderEntry[])
       }
     })
+    window.electron.store.get('imageSettings').then((saved: unknown) => {
+      if (saved) setImageSettings({ ...defaultImageSettings, ...(saved as Partial<ImageSettings>) })
+    })
+    window.electron.store.get('spellcheckSettings').then((saved: unknown) => {
+      if (saved) setSpellcheckSettings({ ...defaultSpellcheckSettings, ...(saved as Partial<SpellcheckSettings>) })
+    })
+    window.electron.store.get('emojiSettings').then((saved: unknown) => {
+      if (saved) setEmojiSettings({ ...defaultEmojiSettings, ...(saved as Partial<EmojiSettings>) })
+    })
+    window.electron.store.get('typographySettings').then((saved: unknown) => {
+      if (saved) setTypographySettings({ ...defaultTypographySettings, ...(saved as Partial<TypographySettings>) })
+    })
+    window.electron.store.get('lintSettings').then((saved: unknown) => {
+      if (saved) setLintSettings({ ...defaultLintSettings, ...(saved as Partial<LintSettings>) })
+    })
+    window.electron.spellcheck.getLanguages().then((result: { success: boolean; languages: string[] }) => {
+      if (result.success) setSpellcheckLanguages(result.languages)
+    })
   }, [])
 
   // Save theme when changed
@@ -240,6 +299,57 @@ function App() {
     window.electron.store.set('filebarFolders', folders)
   }, [folders])
 
+  useEffect(() => {
+    window.electron.store.set('imageSettings', imageSettings)
+  }, [imageSettings])
+
+  useEffect(() => {
+    window.electron.store.set('emojiSettings', emojiSettings)
+  }, [emojiSettings])
+
+  useEffect(() => {
+    window.electron.store.set('typographySettings', typographySettings)
+  }, [typographySettings])
+
+  useEffect(() => {
+    window.electron.store.set('lintSettings', lintSettings)
+  }, [lintSettings])
+
+  // Lint with the configuration that markdownlint would use for the open file
+  useEffect(() => {
+    let cancelled = false
+    if (!filePath) {
+      setLintConfig({ config: {}, path: null })
+      return
+    }
+    window.electron.markdownlint.findConfig(filePath, fileFolder).then((result: { success: boolean; path?: string; text?: string }) => {
+      if (cancelled) return
+      if (!result.success || !result.path || result.text === undefined) {
+        setLintConfig({ config: {}, path: null })
+        return
+      }
+      try {
+        setLintConfig({ config: parseLintConfig(result.text), path: result.path })
+      } catch (error) {
+        console.error(`Failed to read ${result.path}:`, error)
+        setLintConfig({ config: {}, path: null })
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [filePath, fileFolder])
+
+  useEffect(() => {
+    window.electron.store.set('spellcheckSettings', spellcheckSettings)
+    window.electron.spellcheck.configure(spellcheckSettings)
+  }, [spellcheckSettings])
+
+  // Words added to the dictionary go to a word list in the open folders
+  useEffect(() => {
+    window.electron.spellcheck.setWorkspace(folderPaths)
+  }, [folderPaths])
+
   /**
    * Adds a folder to the filebar, checking if it's inside a git repo.
    * If it's inside a git repo, adds the git root instead.
@@ -462,6 +572,9 @@ function App() {
 
     const unsubExternalChange = window.electron.file.onExternalChange(async (data: { content: string }) => {
       const { content: externalContent } = data
+      // Ignore changes the tab already has, such as from a workspace replace
+      if (externalContent === activeTab?.savedContent) return
+
       const result = await window.electron.dialog.showMessage({
         type: 'question',
         title: 'File Changed',
@@ -486,7 +599,7 @@ function App() {
       unsubRequestContent()
       unsubExternalChange()
     }
-  }, [content, activeTabId, activeTab?.fileType, createNewTab, openFileInTab, openBinaryFileInTab, updateTabContent, markTabSaved])
+  }, [content, activeTabId, activeTab?.fileType, activeTab?.savedContent, createNewTab, openFileInTab, openBinaryFileInTab, updateTabContent, markTabSaved])
 
   // Handle menu events
   useEffect(() => {
@@ -517,6 +630,13 @@ function App() {
     }
   }, [content, activeTabId, markTabSaved])
 
+  // Show the search sidebar and focus its search field
+  const openWorkspaceSearch = useCallback(() => {
+    setShowFilebar(true)
+    setSidebarView('search')
+    setSearchFocusRequest(n => n + 1)
+  }, [])
+
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -535,6 +655,11 @@ function App() {
         e.preventDefault()
         setShowFilebar(v => !v)
       }
+      // Ctrl+Shift+F - Search in folders
+      if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key === 'F') {
+        e.preventDefault()
+        openWorkspaceSearch()
+      }
       // Ctrl+T - New tab
       if ((e.metaKey || e.ctrlKey) && e.key === 't') {
         e.preventDefault()
@@ -553,7 +678,7 @@ function App() {
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [handleSaveAs, createNewTab, closeTab, activeTabId])
+  }, [handleSaveAs, createNewTab, closeTab, openWorkspaceSearch, activeTabId])
 
   // Handle opening folder from filebar
   const handleOpenFolder = useCallback(async () => {
@@ -568,9 +693,195 @@ function App() {
     await window.electron.file.openPath(openFilePath)
   }, [])
 
+  /**
+   * Opens a file and, once it is shown, runs `reveal` on its editor.
+   * Only markdown files are revealed in.
+   */
+  const openAndReveal = useCallback(async (openPath: string, reveal: (editor: FileViewerHandle) => void) => {
+    if (activeTab?.filePath === openPath) {
+      if (activeTab.fileType === 'markdown' && editorRef.current) {
+        reveal(editorRef.current)
+      }
+      return
+    }
+
+    pendingRevealRef.current = { filePath: openPath, reveal }
+    await window.electron.file.openPath(openPath)
+  }, [activeTab])
+
+  // Reveal what is pending when its file becomes the active tab
+  useEffect(() => {
+    const pending = pendingRevealRef.current
+    if (!pending || activeTab?.filePath !== pending.filePath) return
+
+    pendingRevealRef.current = null
+    if (activeTab.fileType === 'markdown') {
+      // Wait for the editor to show the file's content
+      requestAnimationFrame(() => {
+        if (editorRef.current) pending.reveal(editorRef.current)
+      })
+    }
+  }, [activeTab])
+
+  // Open a file from the search sidebar and select the match
+  const handleOpenSearchMatch = useCallback((matchPath: string, query: SearchQuery, location: SourceMatch) => {
+    return openAndReveal(matchPath, editor => editor.revealMatch(query, location))
+  }, [openAndReveal])
+
+  // Open a note from the backlinks sidebar at the line of the link
+  const handleOpenBacklink = useCallback((linkPath: string, line: number) => {
+    return openAndReveal(linkPath, editor => editor.scrollToSourceLine(line - 1))
+  }, [openAndReveal])
+
+  // Rescan the workspace notes when the folders change and when a file is opened or saved
+  useEffect(() => {
+    refreshNotes()
+  }, [refreshNotes, filePath, activeTab?.savedContent])
+
+  /**
+   * Opens the target of a wiki link, scrolled to its heading. Links to
+   * notes that do not exist yet offer to create the note next to this file.
+   */
+  const handleOpenWikiLink = useCallback(async (link: WikiLink) => {
+    const { target, heading } = link
+    if (!target) {
+      if (heading) editorRef.current?.scrollToHeading(heading)
+      return
+    }
+
+    const reveal = (editor: FileViewerHandle) => {
+      if (heading) editor.scrollToHeading(heading)
+    }
+    const note = resolveWikiLink(target, notes, filePath)
+    if (note) {
+      await openAndReveal(note.filePath, reveal)
+      return
+    }
+
+    const directory = filePath ? dirname(filePath) : folderPaths[0]
+    if (!directory) return
+    const confirmed = await window.electron.dialog.showMessage({
+      type: 'question',
+      title: 'Create Note',
+      message: `"${target}" does not exist yet. Create it?`,
+      buttons: ['Create', 'Cancel']
+    })
+    if (confirmed.response !== 0) return
+
+    const notePath = resolveRelativePath(directory, /\.(md|markdown)$/i.test(target) ? target : target + '.md')
+    const result = await window.electron.explorer.createFile(notePath)
+    if (result.success) {
+      await window.electron.file.openPath(notePath)
+      refreshNotes()
+    } else {
+      await window.electron.dialog.showMessage({
+        type: 'error',
+        title: 'Create Note',
+        message: result.error || 'Failed to create the note',
+        buttons: ['OK']
+      })
+    }
+  }, [notes, filePath, folderPaths, openAndReveal, refreshNotes])
+
+  /**
+   * Opens a link of the editor: web and mail links in the browser, `#anchor`
+   * links at their heading in this file, and relative paths in a tab,
+   * at the heading of their anchor if they have one.
+   */
+  const handleOpenLink = useCallback(async (href: string) => {
+    if (/^(https?|mailto):/i.test(href)) {
+      window.electron.shell.openExternal(href)
+      return
+    }
+
+    const hash = href.indexOf('#')
+    const anchor = hash >= 0 ? href.slice(hash + 1) : ''
+    if (hash === 0) {
+      editorRef.current?.scrollToHeading(anchor)
+      return
+    }
+    if (!filePath || !isRelativeUrl(href)) return
+
+    await openAndReveal(resolveRelativePath(dirname(filePath), href), editor => {
+      if (anchor) editor.scrollToHeading(anchor)
+    })
+  }, [filePath, openAndReveal])
+
+  /**
+   * Saves an image pasted or dropped into the editor to the assets folder next
+   * to the document, and returns its path relative to the document.
+   */
+  const handleSaveImage = useCallback(async (file: File) => {
+    if (!filePath) {
+      await window.electron.dialog.showMessage({
+        type: 'info',
+        title: 'Insert Image',
+        message: 'Save the document first, so the image can be stored next to it.',
+        buttons: ['OK']
+      })
+      return null
+    }
+
+    const image = imageSettings.convertToWebp ? await convertToWebp(file, imageSettings.webpQuality) : file
+    const data = new Uint8Array(await image.arrayBuffer())
+    const result = await window.electron.file.saveImage(filePath, imageSettings.assetsFolder, imageFileName(file, image.type), data)
+    if (!result.success || !result.path) {
+      await window.electron.dialog.showMessage({
+        type: 'error',
+        title: 'Insert Image',
+        message: result.error || 'Failed to save the image',
+        buttons: ['OK']
+      })
+      return null
+    }
+    return encodeUrlPath(relativePath(dirname(filePath), result.path))
+  }, [filePath, imageSettings])
+
+  const handlePickEmoji = useCallback((name: string) => {
+    setEmojiSettings(settings => ({ ...settings, recent: addRecentEmoji(settings.recent, name) }))
+  }, [])
+
+  // Pick the folder pasted images go to, stored relative to the open document
+  const chooseImageAssetsFolder = useCallback(async () => {
+    if (!filePath) return
+    const directory = dirname(filePath)
+    const result = await window.electron.explorer.openFolder(resolveRelativePath(directory, imageSettings.assetsFolder))
+    if (result.success && result.path) {
+      setImageSettings(settings => ({ ...settings, assetsFolder: relativePath(directory, result.path!) || '.' }))
+    }
+  }, [filePath, imageSettings.assetsFolder])
+
+  // Files of the filebar folders, suggested as link targets in the editor
+  const listWorkspaceFiles = useCallback(async () => {
+    if (folderPaths.length === 0) return []
+    const result = await window.electron.explorer.listFiles(folderPaths)
+    return result.files ?? []
+  }, [folderPaths])
+
+  /**
+   * Updates open tabs with files changed on disk by a workspace replace or its undo.
+   * Tabs with unsaved changes are left alone.
+   */
+  const handleFilesChanged = useCallback((files: Array<{ filePath: string; content: string }>) => {
+    const changed = new Map(files.map(f => [f.filePath, f.content]))
+
+    setTabs(prev => prev.map(tab => {
+      const newContent = tab.filePath ? changed.get(tab.filePath) : undefined
+      if (newContent === undefined || tab.isDirty) return tab
+      return { ...tab, content: newContent, savedContent: newContent }
+    }))
+
+    const activeContent = activeTab?.filePath ? changed.get(activeTab.filePath) : undefined
+    if (activeContent !== undefined && !activeTab?.isDirty && activeTab?.fileType === 'markdown') {
+      editorRef.current?.setContent(activeContent)
+    }
+  }, [activeTab])
+
   // Handle drag and drop
   useEffect(() => {
     const handleDrop = async (e: DragEvent) => {
+      // Already handled by the editor, which inserts dropped images
+      if (e.defaultPrevented) return
       e.preventDefault()
       e.stopPropagation()
 
@@ -619,6 +930,15 @@ function App() {
     setCharCount(newCharCount)
   }, [activeTabId, updateTabContent])
 
+  // Keep the editor and the split view preview scrolled to the same source line
+  const handleEditorScroll = useCallback((line: number) => {
+    previewRef.current?.scrollToSourceLine(line)
+  }, [])
+
+  const handlePreviewScroll = useCallback((line: number) => {
+    editorRef.current?.scrollToSourceLine(line)
+  }, [])
+
   const handleSave = useCallback(async () => {
     const currentContent = editorRef.current?.getContent() || content
     if (filePath) {
@@ -642,10 +962,49 @@ function App() {
     { id: 'save', label: 'Save', shortcut: 'Ctrl+S', action: handleSave },
     { id: 'saveAs', label: 'Save As...', shortcut: 'Ctrl+Shift+S', action: handleSaveAs },
     { id: 'filebar', label: 'Toggle Filebar', shortcut: 'Ctrl+B', action: () => setShowFilebar(v => !v) },
+    { id: 'searchFolders', label: 'Search in Folders', shortcut: 'Ctrl+Shift+F', action: openWorkspaceSearch },
     { id: 'split', label: 'Toggle Split View', shortcut: 'Ctrl+\\', action: () => setShowSplitView(v => !v) },
     { id: 'theme-light', label: 'Light Theme', action: () => setTheme('light') },
     { id: 'theme-dark', label: 'Dark Theme', action: () => setTheme('dark') },
     { id: 'theme-system', label: 'System Theme', action: () => setTheme('system') },
+    ...(filePath ? [{
+      id: 'imageAssetsFolder',
+      label: `Set Image Assets Folder... (${imageSettings.assetsFolder})`,
+      action: chooseImageAssetsFolder
+    }] : []),
+    {
+      id: 'imageWebp',
+      label: imageSettings.convertToWebp ? 'Keep Pasted Images in Their Format' : 'Convert Pasted Images to WebP',
+      action: () => setImageSettings(settings => ({ ...settings, convertToWebp: !settings.convertToWebp }))
+    },
+    ...(fileFolder ? [{
+      id: 'emojiStyle',
+      label: emojiStyle === 'unicode' ? 'Write Emoji as Shortcodes in This Folder' : 'Write Emoji as Unicode in This Folder',
+      action: () => setEmojiSettings(settings => ({
+        ...settings,
+        folderStyles: { ...settings.folderStyles, [fileFolder]: emojiStyle === 'unicode' ? 'shortcode' : 'unicode' }
+      }))
+    }] : []),
+    {
+      id: 'typography',
+      label: typographySettings.enabled ? 'Disable Smart Typography' : 'Enable Smart Typography',
+      action: () => setTypographySettings(settings => ({ ...settings, enabled: !settings.enabled }))
+    },
+    {
+      id: 'lint',
+      label: lintSettings.enabled ? 'Disable Markdown Lint' : 'Enable Markdown Lint',
+      action: () => setLintSettings(settings => ({ ...settings, enabled: !settings.enabled }))
+    },
+    ...(problems.some(problem => problem.fix) ? [{
+      id: 'lintFixAll',
+      label: 'Fix All Lint Problems',
+      action: () => editorRef.current?.fixProblems(null)
+    }] : []),
+    {
+      id: 'spellcheck',
+      label: spellcheckSettings.enabled ? 'Disable Spell Check' : 'Enable Spell Check',
+      action: () => setSpellcheckSettings(settings => ({ ...settings, enabled: !settings.enabled }))
+    },
     ...(isGitRepo ? [
       { id: 'git', label: 'Git Panel', action: () => setShowGitPanel(v => !v) },
     ] : [])
@@ -679,17 +1038,92 @@ function App() {
               className="flex flex-col border-r border-border flex-shrink-0 overflow-hidden"
               style={{ width: filebarWidth }}
             >
-              <Filebar
-                folders={folders}
-                onFoldersChange={setFolders}
-                onOpenFile={handleOpenFileFromExplorer}
-                onConflict={(conflictContent) => {
-                  const conflict = parseConflicts(conflictContent, filePath || '')
-                  if (conflict.sections.length > 0) {
-                    setActiveConflict(conflict)
-                  }
-                }}
-              />
+              {/* Sidebar view switcher */}
+              <div className="flex items-center gap-0.5 px-1 py-1 border-b border-border">
+                <button
+                  onClick={() => setSidebarView('files')}
+                  className={cn('p-1 rounded hover:bg-accent', sidebarView === 'files' && 'bg-accent')}
+                  title="Files"
+                >
+                  <Files className="w-4 h-4 text-muted-foreground" />
+                </button>
+                <button
+                  onClick={openWorkspaceSearch}
+                  className={cn('p-1 rounded hover:bg-accent', sidebarView === 'search' && 'bg-accent')}
+                  title="Search in folders (Ctrl+Shift+F)"
+                >
+                  <Search className="w-4 h-4 text-muted-foreground" />
+                </button>
+                <button
+                  onClick={() => setSidebarView('outline')}
+                  className={cn('p-1 rounded hover:bg-accent', sidebarView === 'outline' && 'bg-accent')}
+                  title="Outline"
+                >
+                  <ListTree className="w-4 h-4 text-muted-foreground" />
+                </button>
+                <button
+                  onClick={() => setSidebarView('backlinks')}
+                  className={cn('p-1 rounded hover:bg-accent', sidebarView === 'backlinks' && 'bg-accent')}
+                  title="Backlinks"
+                >
+                  <Link2 className="w-4 h-4 text-muted-foreground" />
+                </button>
+                <button
+                  onClick={() => setSidebarView('problems')}
+                  className={cn('p-1 rounded hover:bg-accent', sidebarView === 'problems' && 'bg-accent')}
+                  title="Problems"
+                >
+                  <AlertTriangle className="w-4 h-4 text-muted-foreground" />
+                </button>
+              </div>
+              {/* Both views stay mounted so switching keeps their state */}
+              <div className={cn('flex-1 overflow-hidden', sidebarView !== 'files' && 'hidden')}>
+                <Filebar
+                  folders={folders}
+                  onFoldersChange={setFolders}
+                  onOpenFile={handleOpenFileFromExplorer}
+                  onConflict={(conflictContent) => {
+                    const conflict = parseConflicts(conflictContent, filePath || '')
+                    if (conflict.sections.length > 0) {
+                      setActiveConflict(conflict)
+                    }
+                  }}
+                />
+              </div>
+              <div className={cn('flex-1 overflow-hidden', sidebarView !== 'search' && 'hidden')}>
+                <WorkspaceSearch
+                  folders={folderPaths}
+                  dirtyFiles={dirtyFilePaths}
+                  focusRequest={searchFocusRequest}
+                  onOpenMatch={handleOpenSearchMatch}
+                  onFilesChanged={handleFilesChanged}
+                />
+              </div>
+              <div className={cn('flex-1 overflow-hidden', sidebarView !== 'outline' && 'hidden')}>
+                <Outline
+                  state={outline}
+                  onSelect={(pos) => editorRef.current?.revealHeading(pos)}
+                  onMoveSection={(from, to) => editorRef.current?.moveSection(from, to)}
+                />
+              </div>
+              <div className={cn('flex-1 overflow-hidden', sidebarView !== 'backlinks' && 'hidden')}>
+                <Backlinks
+                  filePath={filePath}
+                  notes={notes}
+                  isScanning={isScanningNotes}
+                  hasFolders={folderPaths.length > 0}
+                  onOpenLink={handleOpenBacklink}
+                />
+              </div>
+              <div className={cn('flex-1 overflow-hidden', sidebarView !== 'problems' && 'hidden')}>
+                <Problems
+                  problems={problems}
+                  enabled={lintSettings.enabled}
+                  configPath={lintConfig.path}
+                  onSelect={(index) => editorRef.current?.revealProblem(index)}
+                  onFix={(index) => editorRef.current?.fixProblems(index)}
+                />
+              </div>
             </div>
             {/* Resize handle */}
             <div
@@ -734,13 +1168,32 @@ function App() {
                   tab={activeTab}
                   onContentChange={handleContentChange}
                   onSave={handleSave}
+                  onScrollSourceLine={showSplitView ? handleEditorScroll : undefined}
+                  notes={notes}
+                  onOpenWikiLink={handleOpenWikiLink}
+                  onOutlineChange={setOutline}
+                  listFiles={listWorkspaceFiles}
+                  onOpenLink={handleOpenLink}
+                  onSaveImage={handleSaveImage}
+                  emojiStyle={emojiStyle}
+                  recentEmoji={emojiSettings.recent}
+                  onPickEmoji={handlePickEmoji}
+                  typography={typographySettings}
+                  lint={lintSettings.enabled ? lintConfig.config : null}
+                  onLintChange={setProblems}
                 />
               </div>
             </div>
             {/* Markdown preview split view (only for markdown files) */}
             {showSplitView && activeTab.fileType === 'markdown' && (
-              <div className="w-1/2 border-l border-border overflow-auto">
-                <MarkdownPreview content={content} />
+              <div className="w-1/2 border-l border-border overflow-hidden">
+                <MarkdownPreview
+                  ref={previewRef}
+                  content={content}
+                  filePath={filePath}
+                  onScrollSourceLine={handlePreviewScroll}
+                  onOpenWikiLink={handleOpenWikiLink}
+                />
               </div>
             )}
           </>
@@ -754,6 +1207,16 @@ function App() {
         filePath={filePath}
         isGitRepo={isGitRepo}
         onGitClick={() => setShowGitPanel(true)}
+        spellcheck={spellcheckSettings}
+        spellcheckLanguages={spellcheckLanguages}
+        onSpellcheckChange={setSpellcheckSettings}
+        typography={typographySettings}
+        onTypographyChange={setTypographySettings}
+        problemCount={lintSettings.enabled ? problems.length : null}
+        onProblemsClick={() => {
+          setShowFilebar(true)
+          setSidebarView('problems')
+        }}
       />
 
       <CommandPalette
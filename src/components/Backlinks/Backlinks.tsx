@@ -0,0 +1,99 @@
+/**
+ * Backlinks Component
+ *
+ * Sidebar panel listing every note in the filebar folders with a wiki link to
+ * the open file. Clicking a link opens the linking note at its line.
+ */
+
+import { useState, useMemo } from 'react'
+import { ChevronDown, ChevronRight, FileText, Loader2 } from 'lucide-react'
+import { findBacklinks, Backlink, WorkspaceNote } from '../../lib/wikiLinks'
+
+interface BacklinksProps {
+  filePath: string | null
+  notes: WorkspaceNote[]
+  isScanning: boolean
+  hasFolders: boolean
+  onOpenLink: (filePath: string, line: number) => void
+}
+
+function BacklinkFile({ backlink, onOpenLink }: {
+  backlink: Backlink
+  onOpenLink: (filePath: string, line: number) => void
+}) {
+  const [isExpanded, setIsExpanded] = useState(true)
+  const { note, links } = backlink
+  const slash = note.relativePath.lastIndexOf('/')
+  const name = note.relativePath.slice(slash + 1)
+  const directory = slash >= 0 ? note.relativePath.slice(0, slash) : ''
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(v => !v)}
+        className="w-full flex items-center gap-1 px-1 py-0.5 text-sm rounded hover:bg-accent"
+        title={note.filePath}
+      >
+        {isExpanded ? <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" />}
+        <FileText className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+        <span className="truncate">{name}</span>
+        {directory && <span className="truncate text-xs text-muted-foreground">{directory}</span>}
+        <span className="ml-auto px-1.5 rounded-full bg-muted text-xs text-muted-foreground">{links.length}</span>
+      </button>
+
+      {isExpanded && links.map((link, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => onOpenLink(note.filePath, link.line)}
+          className="w-full flex items-baseline gap-2 pl-6 pr-1 py-0.5 text-xs text-left rounded hover:bg-accent"
+        >
+          <span className="flex-shrink-0 text-muted-foreground tabular-nums">{link.line}</span>
+          <span className="truncate">{link.preview}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export function Backlinks({ filePath, notes, isScanning, hasFolders, onOpenLink }: BacklinksProps) {
+  const backlinks = useMemo(() => filePath ? findBacklinks(notes, filePath) : [], [notes, filePath])
+
+  let status: string | null = null
+  if (!hasFolders) {
+    status = 'Add a folder to find backlinks'
+  } else if (!filePath) {
+    status = 'Open a file to see its backlinks'
+  } else if (backlinks.length === 0) {
+    status = isScanning ? null : 'No notes link to this file'
+  } else {
+    status = `${backlinks.length} linking ${backlinks.length === 1 ? 'note' : 'notes'}`
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-muted/20 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Backlinks
+        </span>
+        {isScanning && <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />}
+      </div>
+
+      {status && (
+        <div className="px-3 py-2 text-xs text-muted-foreground">{status}</div>
+      )}
+
+      <div className="flex-1 overflow-auto filebar-scroll p-1">
+        {backlinks.map(backlink => (
+          <BacklinkFile
+            key={backlink.note.filePath}
+            backlink={backlink}
+            onOpenLink={onOpenLink}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
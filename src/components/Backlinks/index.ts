@@ -0,0 +1,8 @@
+/**
+ * Backlinks Components
+ *
+ * Sidebar panel listing the notes that link to the open file.
+ */
+
+export { Backlinks } from './Backlinks'
+export { useWorkspaceNotes } from './useWorkspaceNotes'
@@ -0,0 +1,42 @@
+/**
+ * Workspace Notes Hook
+ *
+ * Keeps the list of markdown files in the filebar folders, with their headings
+ * and wiki links, as scanned by the main process. Results of a scan that was
+ * overtaken by a newer one are dropped.
+ */
+
+import { useState, useCallback, useRef } from 'react'
+import { WorkspaceNote } from '../../lib/wikiLinks'
+
+interface UseWorkspaceNotesReturn {
+  notes: WorkspaceNote[]
+  isScanning: boolean
+  refresh: () => Promise<void>
+}
+
+export function useWorkspaceNotes(folders: string[]): UseWorkspaceNotesReturn {
+  const [notes, setNotes] = useState<WorkspaceNote[]>([])
+  const [isScanning, setIsScanning] = useState(false)
+  const scanRef = useRef(0)
+
+  const refresh = useCallback(async () => {
+    const scan = ++scanRef.current
+    if (folders.length === 0) {
+      setNotes([])
+      setIsScanning(false)
+      return
+    }
+
+    setIsScanning(true)
+    const result = await window.electron.explorer.scanNotes(folders)
+    if (scan !== scanRef.current) return
+
+    if (result.success && result.notes) {
+      setNotes(result.notes)
+    }
+    setIsScanning(false)
+  }, [folders])
+
+  return { notes, isScanning, refresh }
+}
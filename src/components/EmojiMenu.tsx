@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react'
+import { EmojiMenuState } from '../editor/plugins/emoji'
+import { EmojiSuggestion } from '../lib/emoji'
+import { cn } from '../lib/utils'
+
+interface EmojiMenuProps {
+  state: EmojiMenuState
+  onSelect: (suggestion: EmojiSuggestion) => void
+}
+
+export function EmojiMenu({ state, onSelect }: EmojiMenuProps) {
+  const selectedRef = useRef<HTMLButtonElement>(null)
+
+  // Scroll selected item into view
+  useEffect(() => {
+    if (selectedRef.current) {
+      selectedRef.current.scrollIntoView({ block: 'nearest' })
+    }
+  }, [state.selectedIndex])
+
+  if (!state.active || !state.position) {
+    return null
+  }
+
+  return (
+    <div
+      className="slash-menu fixed z-50 max-h-80 max-w-sm overflow-y-auto"
+      // Keep the editor focused so typing continues the query
+      onMouseDown={(e) => e.preventDefault()}
+      style={{
+        top: state.position.top + 4,
+        left: state.position.left
+      }}
+    >
+      {state.items.length === 0 ? (
+        <div className="px-3 py-2 text-sm text-muted-foreground">
+          No matching emoji
+        </div>
+      ) : (
+        state.items.map((item, index) => (
+          <button
+            key={item.name}
+            ref={index === state.selectedIndex ? selectedRef : null}
+            className={cn(
+              'slash-menu-item w-full text-left',
+              index === state.selectedIndex && 'bg-accent'
+            )}
+            onClick={() => onSelect(item)}
+          >
+            <span className="slash-menu-item-icon flex items-center justify-center flex-shrink-0 text-base leading-none">{item.emoji}</span>
+            <span className="slash-menu-item-label truncate">:{item.name}:</span>
+          </button>
+        ))
+      )}
+    </div>
+  )
+}
@@ -7,6 +7,12 @@
 
 import { forwardRef, useImperativeHandle, useRef } from 'react'
 import { ProseMirrorEditor, ProseMirrorEditorHandle } from '../../editor/ProseMirrorEditor'
+import { SearchQuery, SourceMatch } from '../../editor/search'
+import { OutlineState } from '../../editor/plugins/outline'
+import { LintConfig, LintProblem } from '../../editor/lint'
+import { WikiLink, WorkspaceNote } from '../../lib/wikiLinks'
+import { EmojiStyle } from '../../lib/emoji'
+import { TypographySettings } from '../../lib/typography'
 import { ImageViewer } from './ImageViewer'
 import { VideoPlayer } from './VideoPlayer'
 import { JsonEditor } from './JsonEditor'
@@ -19,11 +25,31 @@ interface FileViewerProps {
   tab: Tab
   onContentChange: (content: string, wordCount: number, charCount: number) => void
   onSave: () => void
+  onScrollSourceLine?: (line: number) => void
+  notes?: WorkspaceNote[]
+  onOpenWikiLink?: (link: WikiLink) => void
+  onOutlineChange?: (outline: OutlineState) => void
+  listFiles?: () => Promise<string[]>
+  onOpenLink?: (href: string) => void
+  onSaveImage?: (file: File) => Promise<string | null>
+  emojiStyle?: EmojiStyle
+  recentEmoji?: string[]
+  onPickEmoji?: (name: string) => void
+  typography?: TypographySettings
+  lint?: LintConfig | null
+  onLintChange?: (problems: LintProblem[]) => void
 }
 
 export interface FileViewerHandle {
   setContent: (content: string) => void
   getContent: () => string
+  scrollToSourceLine: (line: number) => void
+  revealMatch: (query: SearchQuery, location: SourceMatch) => void
+  scrollToHeading: (heading: string) => void
+  revealHeading: (pos: number) => void
+  moveSection: (from: number, to: number | null) => void
+  revealProblem: (index: number) => void
+  fixProblems: (index: number | null) => void
 }
 
 /**
@@ -45,7 +71,7 @@ function UnsupportedViewer({ filePath }: { filePath: string | null }) {
 }
 
 export const FileViewer = forwardRef<FileViewerHandle, FileViewerProps>(
-  function FileViewer({ tab, onContentChange, onSave }, ref) {
+  function FileViewer({ tab, onContentChange, onSave, onScrollSourceLine, notes, onOpenWikiLink, onOutlineChange, listFiles, onOpenLink, onSaveImage, emojiStyle, recentEmoji, onPickEmoji, typography, lint, onLintChange }, ref) {
     const proseMirrorRef = useRef<ProseMirrorEditorHandle>(null)
 
     // Expose methods for parent components (mainly used by markdown editor)
@@ -60,6 +86,27 @@ export const FileViewer = forwardRef<FileViewerHandle, FileViewerProps>(
           return proseMirrorRef.current.getContent()
         }
         return tab.content
+      },
+      scrollToSourceLine: (line: number) => {
+        proseMirrorRef.current?.scrollToSourceLine(line)
+      },
+      revealMatch: (query: SearchQuery, location: SourceMatch) => {
+        proseMirrorRef.current?.revealMatch(query, location)
+      },
+      scrollToHeading: (heading: string) => {
+        proseMirrorRef.current?.scrollToHeading(heading)
+      },
+      revealHeading: (pos: number) => {
+        proseMirrorRef.current?.revealHeading(pos)
+      },
+      moveSection: (from: number, to: number | null) => {
+        proseMirrorRef.current?.moveSection(from, to)
+      },
+      revealProblem: (index: number) => {
+        proseMirrorRef.current?.revealProblem(index)
+      },
+      fixProblems: (index: number | null) => {
+        proseMirrorRef.current?.fixProblems(index)
       }
     }), [tab.content])
 
@@ -79,6 +126,19 @@ export const FileViewer = forwardRef<FileViewerHandle, FileViewerProps>(
             filePath={tab.filePath}
             onChange={onContentChange}
             onSave={onSave}
+            onScrollSourceLine={onScrollSourceLine}
+            notes={notes}
+            onOpenWikiLink={onOpenWikiLink}
+            onOutlineChange={onOutlineChange}
+            listFiles={listFiles}
+            onOpenLink={onOpenLink}
+            onSaveImage={onSaveImage}
+            emojiStyle={emojiStyle}
+            recentEmoji={recentEmoji}
+            onPickEmoji={onPickEmoji}
+            typography={typography}
+            lint={lint}
+            onLintChange={onLintChange}
           />
         )
 
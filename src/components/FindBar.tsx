@@ -0,0 +1,179 @@
+import { useEffect, useRef } from 'react'
+import {
+  ArrowDown,
+  ArrowUp,
+  CaseSensitive,
+  ChevronDown,
+  ChevronRight,
+  Regex,
+  Replace,
+  ReplaceAll,
+  TextSelect,
+  WholeWord,
+  X
+} from 'lucide-react'
+import { SearchState } from '../editor/plugins/search'
+import { SearchQuery } from '../editor/search'
+import { cn } from '../lib/utils'
+
+interface FindBarProps {
+  state: SearchState
+  onQueryChange: (query: Partial<SearchQuery>) => void
+  onToggleReplace: () => void
+  onToggleInSelection: () => void
+  onFindNext: () => void
+  onFindPrevious: () => void
+  onReplace: () => void
+  onReplaceAll: () => void
+  onClose: () => void
+}
+
+function ToggleButton({ title, active, onClick, children }: {
+  title: string
+  active: boolean
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-pressed={active}
+      onClick={onClick}
+      className={cn('find-bar-button', active && 'bg-accent text-foreground ring-1 ring-primary/40')}
+    >
+      {children}
+    </button>
+  )
+}
+
+export function FindBar({
+  state,
+  onQueryChange,
+  onToggleReplace,
+  onToggleInSelection,
+  onFindNext,
+  onFindPrevious,
+  onReplace,
+  onReplaceAll,
+  onClose
+}: FindBarProps) {
+  const searchRef = useRef<HTMLInputElement>(null)
+
+  // Focus and select the search field whenever the bar is opened with Mod-f
+  useEffect(() => {
+    if (state.open && searchRef.current) {
+      searchRef.current.focus()
+      searchRef.current.select()
+    }
+  }, [state.open, state.focusRequest])
+
+  if (!state.open) {
+    return null
+  }
+
+  const { query, matches, current, error } = state
+  const hasMatches = matches.length > 0
+
+  let status = ''
+  if (error) {
+    status = 'Invalid pattern'
+  } else if (query.search) {
+    status = !hasMatches
+      ? 'No results'
+      : current >= 0 ? `${current + 1} of ${matches.length}` : `${matches.length} found`
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, field: 'search' | 'replace') => {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (field === 'replace') {
+        if (e.metaKey || e.ctrlKey) onReplaceAll()
+        else onReplace()
+      } else if (e.shiftKey) {
+        onFindPrevious()
+      } else {
+        onFindNext()
+      }
+    } else if (e.key === 'f' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      searchRef.current?.select()
+    }
+  }
+
+  return (
+    <div className="find-bar absolute top-2 right-4 z-40 flex items-start gap-1">
+      <button
+        type="button"
+        title={state.showReplace ? 'Hide replace' : 'Show replace'}
+        onClick={onToggleReplace}
+        className="find-bar-button self-stretch"
+      >
+        {state.showReplace ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center gap-1">
+          <input
+            ref={searchRef}
+            value={query.search}
+            placeholder="Find"
+            spellCheck={false}
+            onChange={(e) => onQueryChange({ search: e.target.value })}
+            onKeyDown={(e) => handleKeyDown(e, 'search')}
+            className={cn('find-bar-input', error && 'border-destructive')}
+            title={error || undefined}
+          />
+          <ToggleButton title="Match case" active={query.caseSensitive} onClick={() => onQueryChange({ caseSensitive: !query.caseSensitive })}>
+            <CaseSensitive className="w-4 h-4" />
+          </ToggleButton>
+          <ToggleButton title="Match whole word" active={query.wholeWord} onClick={() => onQueryChange({ wholeWord: !query.wholeWord })}>
+            <WholeWord className="w-4 h-4" />
+          </ToggleButton>
+          <ToggleButton title="Use regular expression" active={query.regexp} onClick={() => onQueryChange({ regexp: !query.regexp })}>
+            <Regex className="w-4 h-4" />
+          </ToggleButton>
+          <ToggleButton title="Find in selection" active={state.range !== null} onClick={onToggleInSelection}>
+            <TextSelect className="w-4 h-4" />
+          </ToggleButton>
+
+          <span className={cn('find-bar-status', (error || (query.search && !hasMatches)) && 'text-destructive')}>
+            {status}
+          </span>
+
+          <button type="button" title="Previous match (Shift+Enter)" disabled={!hasMatches} onClick={onFindPrevious} className="find-bar-button">
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button type="button" title="Next match (Enter)" disabled={!hasMatches} onClick={onFindNext} className="find-bar-button">
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          <button type="button" title="Close (Escape)" onClick={onClose} className="find-bar-button">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {state.showReplace && (
+          <div className="flex items-center gap-1">
+            <input
+              value={query.replace}
+              placeholder="Replace"
+              spellCheck={false}
+              onChange={(e) => onQueryChange({ replace: e.target.value })}
+              onKeyDown={(e) => handleKeyDown(e, 'replace')}
+              className="find-bar-input"
+            />
+            <button type="button" title="Replace (Enter)" disabled={!hasMatches} onClick={onReplace} className="find-bar-button">
+              <Replace className="w-4 h-4" />
+            </button>
+            <button type="button" title="Replace all (Ctrl+Enter)" disabled={!hasMatches} onClick={onReplaceAll} className="find-bar-button">
+              <ReplaceAll className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+import { Command } from 'prosemirror-state'
+import { toggleMark } from 'prosemirror-commands'
+import {
+  Bold,
+  Code,
+  Heading1,
+  Heading2,
+  Heading3,
+  Italic,
+  Link,
+  List,
+  ListOrdered,
+  Quote,
+  Strikethrough
+} from 'lucide-react'
+import { FormatToolbarState } from '../editor/plugins/formatToolbar'
+import { openLinkEditor } from '../editor/plugins/linkPopover'
+import { toggleBlockquote, toggleHeading, toggleList } from '../editor/commands/format'
+import { schema } from '../editor/schema'
+import { cn } from '../lib/utils'
+
+interface FormatToolbarProps {
+  state: FormatToolbarState
+  onCommand: (command: Command) => void
+}
+
+interface ToolbarButton {
+  title: string
+  icon: typeof Bold
+  command: Command
+  active: boolean
+  disabled?: boolean
+}
+
+// Room needed above the selection, below that the toolbar goes under it
+const MIN_TOP = 48
+
+export function FormatToolbar({ state, onCommand }: FormatToolbarProps) {
+  if (!state.active || !state.position) {
+    return null
+  }
+
+  const { marks, heading, blockquote, list, position } = state
+  const above = position.top > MIN_TOP
+
+  const groups: ToolbarButton[][] = [
+    [
+      { title: 'Bold (Ctrl+B)', icon: Bold, command: toggleMark(schema.marks.strong), active: marks.strong.active, disabled: !marks.strong.enabled },
+      { title: 'Italic (Ctrl+I)', icon: Italic, command: toggleMark(schema.marks.em), active: marks.em.active, disabled: !marks.em.enabled },
+      {
+        title: 'Strikethrough (Ctrl+Shift+X)',
+        icon: Strikethrough,
+        command: toggleMark(schema.marks.strikethrough),
+        active: marks.strikethrough.active,
+        disabled: !marks.strikethrough.enabled
+      },
+      { title: 'Code (Ctrl+`)', icon: Code, command: toggleMark(schema.marks.code), active: marks.code.active, disabled: !marks.code.enabled },
+      { title: 'Link (Ctrl+K)', icon: Link, command: openLinkEditor, active: marks.link.active, disabled: !marks.link.enabled }
+    ],
+    [
+      { title: 'Heading 1', icon: Heading1, command: toggleHeading(1), active: heading === 1 },
+      { title: 'Heading 2', icon: Heading2, command: toggleHeading(2), active: heading === 2 },
+      { title: 'Heading 3', icon: Heading3, command: toggleHeading(3), active: heading === 3 }
+    ],
+    [
+      { title: 'Quote', icon: Quote, command: toggleBlockquote, active: blockquote },
+      { title: 'Bullet list', icon: List, command: toggleList(schema.nodes.bullet_list), active: list === 'bullet_list' },
+      { title: 'Numbered list', icon: ListOrdered, command: toggleList(schema.nodes.ordered_list), active: list === 'ordered_list' }
+    ]
+  ]
+
+  return (
+    <div
+      className={cn('format-toolbar fixed z-40 flex items-center gap-1', above ? 'format-toolbar-above' : 'format-toolbar-below')}
+      style={{
+        top: above ? position.top - 6 : position.bottom + 6,
+        left: position.left
+      }}
+      // Keep the editor focused so commands apply to the selection
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {groups.map((buttons, index) => (
+        <div key={index} className="flex items-center">
+          {index > 0 && <div className="w-px h-4 bg-border mx-1" />}
+          {buttons.map(({ title, icon: Icon, command, active, disabled }) => (
+            <button
+              key={title}
+              type="button"
+              title={title}
+              disabled={disabled}
+              onClick={() => onCommand(command)}
+              className={cn('format-toolbar-button', active && 'bg-accent text-foreground')}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
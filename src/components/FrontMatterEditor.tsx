@@ -0,0 +1,260 @@
+/**
+ * Front Matter Editor Component
+ *
+ * Key/value form for YAML front matter shown at the top of markdown documents.
+ * Supports strings, numbers, booleans, dates and lists of strings.
+ * Falls back to raw YAML editing when the front matter is too complex
+ * for the form, and the raw view is always available via the toggle.
+ */
+
+import { useState, useEffect, useMemo, KeyboardEvent } from 'react'
+import { X, Plus, Code, ListTree, Trash2 } from 'lucide-react'
+import {
+  FrontMatterValue,
+  parseFrontMatterFields,
+  setFrontMatterField,
+  deleteFrontMatterField,
+  isDateValue
+} from '../editor/frontMatter'
+import { cn } from '../lib/utils'
+
+interface FrontMatterEditorProps {
+  yaml: string
+  onChange: (yaml: string) => void
+  onRemove: () => void
+}
+
+const inputClass = 'w-full bg-transparent px-2 py-1 rounded border border-transparent hover:border-border focus:border-input focus:outline-none'
+
+/**
+ * Text input that keeps a local draft and commits on blur or Enter,
+ * so typing does not create a document transaction per keystroke.
+ */
+function DraftInput({ value, type = 'text', placeholder, onCommit }: {
+  value: string
+  type?: 'text' | 'number' | 'date'
+  placeholder?: string
+  onCommit: (value: string) => void
+}) {
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft)
+  }
+
+  return (
+    <input
+      type={type}
+      className={inputClass}
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault()
+          commit()
+        } else if (e.key === 'Escape') {
+          setDraft(value)
+        }
+      }}
+    />
+  )
+}
+
+/**
+ * Editor for list values, shown as removable chips with an input for new items.
+ */
+function ListInput({ items, onChange }: { items: string[]; onChange: (items: string[]) => void }) {
+  const [draft, setDraft] = useState('')
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && draft.trim()) {
+      e.preventDefault()
+      onChange([...items, draft.trim()])
+      setDraft('')
+    } else if (e.key === 'Backspace' && !draft && items.length > 0) {
+      onChange(items.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-2 py-1">
+      {items.map((item, index) => (
+        <span key={`${item}-${index}`} className="flex items-center gap-0.5 px-1.5 py-0.5 text-xs bg-muted rounded">
+          {item}
+          <button
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            className="text-muted-foreground hover:text-foreground"
+            title="Remove"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        className="flex-1 min-w-[80px] bg-transparent text-sm focus:outline-none"
+        value={draft}
+        placeholder="Add..."
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+    </div>
+  )
+}
+
+/**
+ * Picks the right input for a field value type.
+ */
+function ValueInput({ value, onChange }: { value: FrontMatterValue; onChange: (value: FrontMatterValue) => void }) {
+  if (typeof value === 'boolean') {
+    return (
+      <div className="px-2 py-1">
+        <input
+          type="checkbox"
+          className="w-4 h-4 accent-primary"
+          checked={value}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      </div>
+    )
+  }
+
+  if (Array.isArray(value)) {
+    return <ListInput items={value} onChange={onChange} />
+  }
+
+  if (typeof value === 'number') {
+    return (
+      <DraftInput
+        type="number"
+        value={String(value)}
+        onCommit={(v) => onChange(v === '' ? null : Number(v))}
+      />
+    )
+  }
+
+  if (isDateValue(value)) {
+    return <DraftInput type="date" value={value} onCommit={(v) => onChange(v)} />
+  }
+
+  return <DraftInput value={value ?? ''} placeholder="Empty" onCommit={(v) => onChange(v)} />
+}
+
+export function FrontMatterEditor({ yaml, onChange, onRemove }: FrontMatterEditorProps) {
+  const fields = useMemo(() => parseFrontMatterFields(yaml), [yaml])
+  const [showRaw, setShowRaw] = useState(false)
+  const [rawDraft, setRawDraft] = useState(yaml)
+  const [newKey, setNewKey] = useState('')
+
+  useEffect(() => {
+    setRawDraft(yaml)
+  }, [yaml])
+
+  const rawMode = showRaw || fields === null
+
+  const handleAddField = () => {
+    const key = newKey.trim()
+    if (!key || fields?.some(f => f.key === key)) return
+    onChange(setFrontMatterField(yaml, key, ''))
+    setNewKey('')
+  }
+
+  return (
+    <div className="front-matter-editor border border-border rounded-lg mb-6 text-sm not-prose">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-border bg-muted/50">
+        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Properties
+        </span>
+        <div className="flex items-center gap-0.5">
+          <button
+            onClick={() => setShowRaw(v => !v)}
+            className="p-1 hover:bg-accent rounded disabled:opacity-50"
+            title={rawMode ? 'Edit as form' : 'Edit raw YAML'}
+            disabled={fields === null}
+          >
+            {rawMode
+              ? <ListTree className="w-3.5 h-3.5 text-muted-foreground hover:text-foreground" />
+              : <Code className="w-3.5 h-3.5 text-muted-foreground hover:text-foreground" />}
+          </button>
+          <button
+            onClick={onRemove}
+            className="p-1 hover:bg-accent rounded"
+            title="Remove front matter"
+          >
+            <Trash2 className="w-3.5 h-3.5 text-muted-foreground hover:text-foreground" />
+          </button>
+        </div>
+      </div>
+
+      {rawMode ? (
+        <div className="p-2">
+          {fields === null && (
+            <p className="px-1 pb-2 text-xs text-muted-foreground">
+              This front matter can only be edited as raw YAML.
+            </p>
+          )}
+          <textarea
+            className="w-full min-h-[6rem] p-2 font-mono text-xs bg-muted rounded resize-y focus:outline-none"
+            value={rawDraft}
+            spellCheck={false}
+            onChange={(e) => setRawDraft(e.target.value)}
+            onBlur={() => rawDraft !== yaml && onChange(rawDraft)}
+          />
+        </div>
+      ) : (
+        <div className="py-1">
+          {fields.map(field => (
+            <div key={field.key} className="group flex items-center gap-2 px-2">
+              <span className="w-32 flex-shrink-0 truncate text-muted-foreground" title={field.key}>
+                {field.key}
+              </span>
+              <div className="flex-1 min-w-0">
+                <ValueInput
+                  value={field.value}
+                  onChange={(value) => onChange(setFrontMatterField(yaml, field.key, value))}
+                />
+              </div>
+              <button
+                onClick={() => onChange(deleteFrontMatterField(yaml, field.key))}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-accent transition-opacity"
+                title="Remove property"
+              >
+                <X className="w-3.5 h-3.5 text-muted-foreground hover:text-foreground" />
+              </button>
+            </div>
+          ))}
+
+          {/* Add property */}
+          <div className="flex items-center gap-2 px-2 pt-1">
+            <input
+              className={cn(inputClass, 'w-32 flex-shrink-0 text-muted-foreground')}
+              value={newKey}
+              placeholder="New property"
+              onChange={(e) => setNewKey(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  handleAddField()
+                }
+              }}
+            />
+            <button
+              onClick={handleAddField}
+              className="p-1 hover:bg-accent rounded disabled:opacity-50"
+              title="Add property"
+              disabled={!newKey.trim()}
+            >
+              <Plus className="w-3.5 h-3.5 text-muted-foreground hover:text-foreground" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
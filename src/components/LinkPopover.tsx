@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Check, ExternalLink, FileText, Globe, Hash, Pencil, Unlink } from 'lucide-react'
+import { LinkPopoverState } from '../editor/plugins/linkPopover'
+import { suggestLinks } from '../lib/links'
+import { WorkspaceNote } from '../lib/wikiLinks'
+import { cn } from '../lib/utils'
+
+interface LinkPopoverProps {
+  state: LinkPopoverState
+  filePath: string | null
+  notes: WorkspaceNote[]
+  // Lists the files of the workspace, for relative path suggestions
+  listFiles: () => Promise<string[]>
+  onApply: (href: string, title: string, text: string) => void
+  onRemove: () => void
+  onEdit: () => void
+  onOpen: (href: string) => void
+  onClose: () => void
+}
+
+export function LinkPopover({ state, onRemove, onEdit, onOpen, ...formProps }: LinkPopoverProps) {
+  if (!state.mode || !state.position) {
+    return null
+  }
+
+  const style = { top: state.position.top + 4, left: state.position.left }
+
+  if (state.mode === 'edit') {
+    // Keyed by the focus request, so the form starts over whenever it is opened with Mod-k
+    return <LinkForm key={state.focusRequest} state={state} style={style} onRemove={onRemove} {...formProps} />
+  }
+
+  const isExternal = /^[a-z][a-z0-9+.-]*:/i.test(state.href)
+  return (
+    <div
+      className="link-popover fixed z-40 flex items-center gap-1"
+      style={style}
+      // Keep the editor focused so the cursor stays on the link
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <button
+        type="button"
+        onClick={() => onOpen(state.href)}
+        className="flex items-center gap-1.5 min-w-0 max-w-xs px-1 text-sm text-primary hover:underline"
+        title={state.title || state.href}
+      >
+        {isExternal ? <Globe className="w-3.5 h-3.5 flex-shrink-0" /> : <FileText className="w-3.5 h-3.5 flex-shrink-0" />}
+        <span className="truncate">{state.href}</span>
+      </button>
+      <div className="w-px h-4 bg-border mx-1" />
+      <button type="button" title="Open link" onClick={() => onOpen(state.href)} className="link-popover-button">
+        <ExternalLink className="w-4 h-4" />
+      </button>
+      <button type="button" title="Edit link (Ctrl+K)" onClick={onEdit} className="link-popover-button">
+        <Pencil className="w-4 h-4" />
+      </button>
+      <button type="button" title="Remove link" onClick={onRemove} className="link-popover-button hover:text-destructive">
+        <Unlink className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
+
+type LinkFormProps = Pick<LinkPopoverProps, 'state' | 'filePath' | 'notes' | 'listFiles' | 'onApply' | 'onRemove' | 'onClose'> & {
+  style: React.CSSProperties
+}
+
+function LinkForm({ state, style, filePath, notes, listFiles, onApply, onRemove, onClose }: LinkFormProps) {
+  const [href, setHref] = useState(state.href)
+  const [title, setTitle] = useState(state.title)
+  const [text, setText] = useState('')
+  const [files, setFiles] = useState<string[]>([])
+  const [selectedIndex, setSelectedIndex] = useState(-1)
+  const [showSuggestions, setShowSuggestions] = useState(!state.href)
+  const firstInputRef = useRef<HTMLInputElement>(null)
+  const selectedRef = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    firstInputRef.current?.focus()
+    firstInputRef.current?.select()
+  }, [])
+
+  // The file list is loaded each time the form opens, so it follows the workspace
+  useEffect(() => {
+    let cancelled = false
+    listFiles().then(result => {
+      if (!cancelled) setFiles(result)
+    })
+    return () => { cancelled = true }
+  }, [listFiles])
+
+  const suggestions = useMemo(
+    () => suggestLinks(href, { files, notes, headings: state.headings, filePath }),
+    [href, files, notes, state.headings, filePath]
+  )
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [selectedIndex])
+
+  const needsText = state.from === state.to
+  const suggestionsOpen = showSuggestions && suggestions.length > 0
+
+  const pickSuggestion = (index: number) => {
+    setHref(suggestions[index].href)
+    setSelectedIndex(-1)
+    setShowSuggestions(false)
+  }
+
+  const apply = () => {
+    if (href.trim()) onApply(href.trim(), title.trim(), text)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, field: 'text' | 'href' | 'title') => {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      if (suggestionsOpen && field === 'href') {
+        setShowSuggestions(false)
+      } else {
+        onClose()
+      }
+    } else if (field === 'href' && suggestionsOpen && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault()
+      // Cycles through the suggestions and back to the typed href at -1
+      const count = suggestions.length + 1
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setSelectedIndex((selectedIndex + 1 + step + count) % count - 1)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (field === 'href' && suggestionsOpen && selectedIndex >= 0 && selectedIndex < suggestions.length) {
+        pickSuggestion(selectedIndex)
+      } else {
+        apply()
+      }
+    }
+  }
+
+  return (
+    <div
+      className="link-popover fixed z-40 flex flex-col gap-1 w-96"
+      style={style}
+    >
+      {needsText && (
+        <input
+          ref={firstInputRef}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => handleKeyDown(e, 'text')}
+          placeholder="Text"
+          className="link-popover-input"
+        />
+      )}
+      <div className="flex items-center gap-1">
+        <input
+          ref={needsText ? undefined : firstInputRef}
+          value={href}
+          onChange={(e) => {
+            setHref(e.target.value)
+            setSelectedIndex(-1)
+            setShowSuggestions(true)
+          }}
+          onKeyDown={(e) => handleKeyDown(e, 'href')}
+          onBlur={() => setShowSuggestions(false)}
+          onFocus={() => setShowSuggestions(true)}
+          placeholder="URL, file path or #heading"
+          className="link-popover-input flex-1"
+        />
+        <button type="button" title="Apply (Enter)" onClick={apply} disabled={!href.trim()} className="link-popover-button">
+          <Check className="w-4 h-4" />
+        </button>
+        {state.isLink && (
+          <button type="button" title="Remove link" onClick={onRemove} className="link-popover-button hover:text-destructive">
+            <Unlink className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {suggestionsOpen && (
+        <div
+          className="max-h-60 overflow-y-auto"
+          // Keep the focus in the URL field
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.href}
+              ref={index === selectedIndex ? selectedRef : null}
+              type="button"
+              onClick={() => pickSuggestion(index)}
+              className={cn('slash-menu-item w-full text-left py-1', index === selectedIndex && 'bg-accent')}
+            >
+              {suggestion.href.includes('#')
+                ? <Hash className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                : <FileText className="w-4 h-4 flex-shrink-0 text-muted-foreground" />}
+              <div className="flex flex-col min-w-0">
+                <span className="text-sm truncate">{suggestion.label}</span>
+                <span className="slash-menu-item-description truncate">{suggestion.detail}</span>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => handleKeyDown(e, 'title')}
+        placeholder="Title (optional)"
+        className="link-popover-input"
+      />
+    </div>
+  )
+}
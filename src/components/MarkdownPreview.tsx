@@ -1,92 +1,196 @@
-import { useMemo } from 'react'
+import { useMemo, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react'
+import DOMPurify from 'dompurify'
+import { renderMarkdown } from '../editor/markdown'
+import { isDiagramLanguage, renderDiagram } from '../editor/diagrams'
+import { loadImage, localImagePath } from '../lib/images'
+import { isRelativeUrl } from '../lib/paths'
+import { lineAtOffset, measureBlock, offsetOfLine, SourceBlock } from '../lib/scrollSync'
+import { WikiLink } from '../lib/wikiLinks'
 
 interface MarkdownPreviewProps {
   content: string
+  filePath?: string | null
+  onScrollSourceLine?: (line: number) => void
+  onOpenWikiLink?: (link: WikiLink) => void
 }
 
-// Simple markdown to HTML conversion for preview
-function markdownToHtml(markdown: string): string {
-  let html = markdown
-
-  // Escape HTML
-  html = html
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
+export interface MarkdownPreviewHandle {
+  scrollToSourceLine: (line: number) => void
+}
 
-  // Code blocks (must be before other processing)
-  html = html.replace(/```(\w*)\n([\s\S]*?)```/g, (_, lang, code) => {
-    return `<pre><code class="language-${lang}">${code.trim()}</code></pre>`
+/**
+ * Replaces diagram code blocks inside the container with their rendered diagrams.
+ * Returns a function that stops pending renders from touching the DOM.
+ */
+function renderDiagrams(container: HTMLElement) {
+  let cancelled = false
+
+  container.querySelectorAll('pre > code[class^="language-"]').forEach(code => {
+    const language = code.className.replace(/^language-/, '')
+    if (!isDiagramLanguage(language)) return
+
+    const pre = code.parentElement!
+    renderDiagram(language, code.textContent || '').then(
+      (svg) => {
+        if (cancelled) return
+        const diagram = document.createElement('div')
+        diagram.className = 'diagram not-prose'
+        diagram.innerHTML = svg
+        pre.replaceWith(diagram)
+      },
+      (error: unknown) => {
+        if (cancelled) return
+        const message = document.createElement('div')
+        message.className = 'diagram-error'
+        message.textContent = error instanceof Error ? error.message : String(error)
+        pre.after(message)
+      }
+    )
   })
 
-  // Inline code
-  html = html.replace(/`([^`]+)`/g, '<code>$1</code>')
-
-  // Headers
-  html = html.replace(/^###### (.+)$/gm, '<h6>$1</h6>')
-  html = html.replace(/^##### (.+)$/gm, '<h5>$1</h5>')
-  html = html.replace(/^#### (.+)$/gm, '<h4>$1</h4>')
-  html = html.replace(/^### (.+)$/gm, '<h3>$1</h3>')
-  html = html.replace(/^## (.+)$/gm, '<h2>$1</h2>')
-  html = html.replace(/^# (.+)$/gm, '<h1>$1</h1>')
-
-  // Bold and italic
-  html = html.replace(/\*\*\*(.+?)\*\*\*/g, '<strong><em>$1</em></strong>')
-  html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-  html = html.replace(/\*(.+?)\*/g, '<em>$1</em>')
-  html = html.replace(/___(.+?)___/g, '<strong><em>$1</em></strong>')
-  html = html.replace(/__(.+?)__/g, '<strong>$1</strong>')
-  html = html.replace(/_(.+?)_/g, '<em>$1</em>')
-
-  // Strikethrough
-  html = html.replace(/~~(.+?)~~/g, '<s>$1</s>')
-
-  // Links
-  html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>')
-
-  // Images
-  html = html.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '<img src="$2" alt="$1" />')
-
-  // Blockquotes
-  html = html.replace(/^> (.+)$/gm, '<blockquote>$1</blockquote>')
-
-  // Horizontal rules
-  html = html.replace(/^(?:---|\*\*\*|___)$/gm, '<hr />')
-
-  // Unordered lists (simple version)
-  html = html.replace(/^[*-] (.+)$/gm, '<li>$1</li>')
-  html = html.replace(/(<li>.*<\/li>\n?)+/g, '<ul>$&</ul>')
-
-  // Ordered lists (simple version)
-  html = html.replace(/^\d+\. (.+)$/gm, '<li>$1</li>')
-
-  // Paragraphs (wrap non-block content)
-  html = html.split('\n\n').map(block => {
-    if (
-      block.startsWith('<h') ||
-      block.startsWith('<ul') ||
-      block.startsWith('<ol') ||
-      block.startsWith('<pre') ||
-      block.startsWith('<blockquote') ||
-      block.startsWith('<hr')
-    ) {
-      return block
-    }
-    if (block.trim()) {
-      return `<p>${block.replace(/\n/g, '<br />')}</p>`
-    }
-    return ''
-  }).join('\n')
-
-  return html
+  return () => {
+    cancelled = true
+  }
 }
 
-export function MarkdownPreview({ content }: MarkdownPreviewProps) {
-  const html = useMemo(() => markdownToHtml(content), [content])
+/**
+ * Loads images with paths relative to the open file, which the renderer cannot
+ * read directly, as data URLs. Loaded images are kept in `cache` by path.
+ * Returns a function that stops pending loads from touching the DOM.
+ */
+function resolveImages(container: HTMLElement, filePath: string, cache: Map<string, Promise<string | null>>) {
+  let cancelled = false
+
+  container.querySelectorAll('img[data-src]').forEach(img => {
+    const src = img.getAttribute('data-src') || ''
+    loadImage(src, filePath, cache).then(url => {
+      if (cancelled) return
+      if (url) {
+        img.setAttribute('src', url)
+      } else {
+        img.classList.add('preview-image-missing')
+        img.setAttribute('title', `Image not found: ${localImagePath(src, filePath) ?? src}`)
+      }
+    })
+  })
 
-  return (
-    <div className="p-4 prose prose-slate dark:prose-invert max-w-none">
-      <div dangerouslySetInnerHTML={{ __html: html }} />
-    </div>
-  )
+  return () => {
+    cancelled = true
+  }
 }
+
+export const MarkdownPreview = forwardRef<MarkdownPreviewHandle, MarkdownPreviewProps>(
+  ({ content, filePath, onScrollSourceLine, onOpenWikiLink }, ref) => {
+    const scrollRef = useRef<HTMLDivElement>(null)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const imageCache = useRef(new Map<string, Promise<string | null>>())
+    // Scroll position set by scrollToSourceLine, whose scroll event is not reported back
+    const syncedScrollTop = useRef<number | null>(null)
+
+    const fragment = useMemo(() => {
+      // Ids get a `user-content-` prefix, so headings like "Title" cannot clobber document properties
+      const sanitized = DOMPurify.sanitize(renderMarkdown(content), { RETURN_DOM_FRAGMENT: true, SANITIZE_NAMED_PROPS: true })
+      // Relative images are loaded by resolveImages; keep the browser from requesting them
+      sanitized.querySelectorAll('img[src]').forEach(img => {
+        const src = img.getAttribute('src') || ''
+        if (!isRelativeUrl(src)) return
+        img.setAttribute('data-src', src)
+        img.removeAttribute('src')
+      })
+      return sanitized
+    }, [content])
+
+    // Images may have changed on disk, or be relative to a different directory
+    useEffect(() => {
+      imageCache.current = new Map()
+    }, [filePath])
+
+    useEffect(() => {
+      const container = containerRef.current
+      if (!container) return
+      container.replaceChildren(fragment.cloneNode(true))
+
+      const cancelDiagrams = renderDiagrams(container)
+      const cancelImages = filePath ? resolveImages(container, filePath, imageCache.current) : undefined
+      return () => {
+        cancelDiagrams()
+        cancelImages?.()
+      }
+    }, [fragment, filePath])
+
+    const sourceBlocks = useCallback((): SourceBlock[] => {
+      const scroller = scrollRef.current
+      const container = containerRef.current
+      if (!scroller || !container) return []
+      return Array.from(container.querySelectorAll('[data-source-line]'), element =>
+        measureBlock(scroller, element, Number(element.getAttribute('data-source-line')))
+      )
+    }, [])
+
+    useImperativeHandle(ref, () => ({
+      scrollToSourceLine: (line: number) => {
+        const scroller = scrollRef.current
+        if (!scroller) return
+        const maxScrollTop = scroller.scrollHeight - scroller.clientHeight
+        const target = Math.round(Math.min(Math.max(offsetOfLine(sourceBlocks(), line), 0), maxScrollTop))
+        if (Math.abs(target - scroller.scrollTop) < 1) return
+        syncedScrollTop.current = target
+        scroller.scrollTop = target
+      }
+    }), [sourceBlocks])
+
+    const handleScroll = useCallback(() => {
+      const scroller = scrollRef.current
+      if (!scroller) return
+      if (syncedScrollTop.current !== null && Math.abs(scroller.scrollTop - syncedScrollTop.current) < 2) {
+        syncedScrollTop.current = null
+        return
+      }
+      syncedScrollTop.current = null
+      onScrollSourceLine?.(lineAtOffset(sourceBlocks(), scroller.scrollTop))
+    }, [onScrollSourceLine, sourceBlocks])
+
+    // Follow in-document links inside the preview, open web links externally
+    // and wiki links in the editor
+    const handleClick = useCallback((event: React.MouseEvent) => {
+      const wikiLink = (event.target as HTMLElement).closest('a.wiki-link')
+      if (wikiLink) {
+        event.preventDefault()
+        onOpenWikiLink?.({
+          target: wikiLink.getAttribute('data-target') || '',
+          heading: wikiLink.getAttribute('data-heading'),
+          alias: null
+        })
+        return
+      }
+
+      const link = (event.target as HTMLElement).closest('a[href]')
+      if (!link) return
+      event.preventDefault()
+
+      const href = link.getAttribute('href') || ''
+      if (href.startsWith('#')) {
+        let anchor = href.slice(1)
+        try {
+          anchor = decodeURIComponent(anchor)
+        } catch {
+          // Keep malformed escapes as written
+        }
+        const target = containerRef.current?.querySelector(`#${CSS.escape(`user-content-${anchor}`)}`)
+        target?.scrollIntoView({ block: 'start' })
+      } else if (/^(https?|mailto):/i.test(href)) {
+        window.electron.shell.openExternal(href)
+      }
+    }, [onOpenWikiLink])
+
+    return (
+      <div ref={scrollRef} onScroll={handleScroll} className="h-full overflow-auto thin-scrollbar">
+        <div className="p-4 prose prose-slate dark:prose-invert max-w-none">
+          <div ref={containerRef} className="markdown-preview" onClick={handleClick} />
+        </div>
+      </div>
+    )
+  }
+)
+
+MarkdownPreview.displayName = 'MarkdownPreview'
@@ -0,0 +1,215 @@
+/**
+ * Outline Component
+ *
+ * Sidebar panel listing the headings of the open document. The section at the
+ * top of the editor is highlighted, clicking a heading jumps to it, sections
+ * can be collapsed one by one or down to a level, and dragging a heading moves
+ * its whole section in front of the heading it is dropped on.
+ */
+
+import { useState, useMemo } from 'react'
+import { ChevronDown, ChevronRight, ChevronsUpDown } from 'lucide-react'
+import { OutlineState } from '../editor/plugins/outline'
+import { OutlineHeading } from '../editor/commands/outline'
+import { cn } from '../lib/utils'
+
+interface OutlineProps {
+  state: OutlineState
+  onSelect: (pos: number) => void
+  onMoveSection: (from: number, to: number | null) => void
+}
+
+const LEVELS = [1, 2, 3]
+
+/**
+ * Keys headings by level and text, numbered among equal headings, so collapsed
+ * headings stay collapsed while positions change with edits.
+ */
+function headingKeys(headings: OutlineHeading[]): string[] {
+  const seen = new Map<string, number>()
+  return headings.map(heading => {
+    const key = `${heading.level}:${heading.text}`
+    const count = seen.get(key) ?? 0
+    seen.set(key, count + 1)
+    return `${key}:${count}`
+  })
+}
+
+// Whether the heading at `index` has subsections
+function hasChildren(headings: OutlineHeading[], index: number) {
+  const next = headings[index + 1]
+  return !!next && next.pos < headings[index].end
+}
+
+export function Outline({ state, onSelect, onMoveSection }: OutlineProps) {
+  const { headings, activeIndex } = state
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  // Index of the heading a section is dropped in front of, headings.length for the end
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const keys = useMemo(() => headingKeys(headings), [headings])
+
+  // Headings not inside a collapsed section
+  const visible = useMemo(() => {
+    const result: boolean[] = []
+    let hiddenUntil = -1
+    headings.forEach((heading, index) => {
+      result.push(heading.pos >= hiddenUntil)
+      if (result[index] && collapsed.has(keys[index])) hiddenUntil = heading.end
+    })
+    return result
+  }, [headings, keys, collapsed])
+
+  // Highlight the closest visible heading when the current one is collapsed away
+  let highlighted = activeIndex
+  while (highlighted > 0 && !visible[highlighted]) highlighted--
+
+  const toggleCollapsed = (index: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(keys[index])) {
+        next.delete(keys[index])
+      } else {
+        next.add(keys[index])
+      }
+      return next
+    })
+  }
+
+  // Collapse the headings up to `level` whose subsections go deeper
+  const collapseToLevel = (level: number) => {
+    setCollapsed(new Set(keys.filter((_, index) =>
+      headings[index].level <= level && hasChildren(headings, index) && headings[index + 1].level > level
+    )))
+  }
+
+  // Sections cannot be dropped inside themselves or right where they already are
+  const canDrop = (index: number) => {
+    if (dragIndex === null) return false
+    const section = headings[dragIndex]
+    // The last heading's section always ends at the end of the document
+    const target = index < headings.length ? headings[index].pos : headings[headings.length - 1].end
+    return target < section.pos || target > section.end
+  }
+
+  const handleDragOver = (event: React.DragEvent, index: number) => {
+    if (!canDrop(index)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    setDropIndex(index)
+  }
+
+  const handleDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault()
+    if (dragIndex !== null && canDrop(index)) {
+      onMoveSection(headings[dragIndex].pos, index < headings.length ? headings[index].pos : null)
+    }
+    setDragIndex(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-muted/20 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Outline
+        </span>
+        {headings.length > 0 && (
+          <div className="flex items-center gap-0.5">
+            {LEVELS.map(level => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => collapseToLevel(level)}
+                className="px-1 rounded text-xs text-muted-foreground hover:text-foreground hover:bg-accent"
+                title={`Collapse to level ${level}`}
+              >
+                H{level}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setCollapsed(new Set())}
+              className="p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-accent"
+              title="Expand all"
+            >
+              <ChevronsUpDown className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {headings.length === 0 && (
+        <div className="px-3 py-2 text-xs text-muted-foreground">
+          No headings in this document
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto filebar-scroll p-1">
+        {headings.map((heading, index) => visible[index] && (
+          <div
+            key={keys[index]}
+            draggable
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move'
+              event.dataTransfer.setData('text/plain', heading.text)
+              setDragIndex(index)
+            }}
+            onDragEnd={() => {
+              setDragIndex(null)
+              setDropIndex(null)
+            }}
+            onDragOver={(event) => handleDragOver(event, index)}
+            onDrop={(event) => handleDrop(event, index)}
+            className={cn(
+              'flex items-center rounded border-t-2 border-transparent hover:bg-accent',
+              index === highlighted && 'bg-accent/60 text-foreground',
+              dropIndex === index && 'border-primary',
+              dragIndex === index && 'opacity-50'
+            )}
+            style={{ paddingLeft: (heading.level - 1) * 12 }}
+          >
+            {hasChildren(headings, index) ? (
+              <button
+                type="button"
+                onClick={() => toggleCollapsed(index)}
+                className="p-0.5 rounded text-muted-foreground hover:text-foreground"
+                title={collapsed.has(keys[index]) ? 'Expand' : 'Collapse'}
+              >
+                {collapsed.has(keys[index]) ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+              </button>
+            ) : (
+              <span className="w-[18px] flex-shrink-0" />
+            )}
+            <button
+              type="button"
+              onClick={() => onSelect(heading.pos)}
+              className={cn(
+                'flex-1 min-w-0 px-1 py-0.5 text-sm text-left truncate',
+                index === highlighted ? 'font-medium' : 'text-muted-foreground',
+                !heading.text && 'italic'
+              )}
+              title={heading.text}
+            >
+              {heading.text || 'Untitled'}
+            </button>
+          </div>
+        ))}
+
+        {/* Drop zone for moving a section to the end of the document */}
+        {dragIndex !== null && (
+          <div
+            onDragOver={(event) => handleDragOver(event, headings.length)}
+            onDrop={(event) => handleDrop(event, headings.length)}
+            className={cn(
+              'h-6 rounded border-t-2 border-transparent',
+              dropIndex === headings.length && 'border-primary'
+            )}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+/**
+ * Problems Component
+ *
+ * Sidebar panel listing the markdown lint problems of the open document.
+ * Clicking a problem moves the cursor to it, and problems with a quick fix
+ * can be fixed one at a time or all at once.
+ */
+
+import { AlertTriangle, Wrench } from 'lucide-react'
+import { LintProblem } from '../editor/lint'
+
+interface ProblemsProps {
+  problems: LintProblem[]
+  enabled: boolean
+  // The .markdownlint.json in use, null for markdownlint's defaults
+  configPath: string | null
+  onSelect: (index: number) => void
+  // Fixes one problem, or all that can be fixed when index is null
+  onFix: (index: number | null) => void
+}
+
+export function Problems({ problems, enabled, configPath, onSelect, onFix }: ProblemsProps) {
+  const fixable = problems.filter(problem => problem.fix).length
+
+  let status: string
+  if (!enabled) {
+    status = 'Markdown lint is off'
+  } else if (problems.length === 0) {
+    status = 'No problems in this document'
+  } else {
+    status = `${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}`
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-muted/20 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Problems
+        </span>
+        {fixable > 1 && (
+          <button
+            type="button"
+            onClick={() => onFix(null)}
+            className="flex items-center gap-1 px-1 rounded text-xs text-muted-foreground hover:text-foreground hover:bg-accent"
+            title="Apply the quick fix of every problem that has one"
+          >
+            <Wrench className="w-3 h-3" />
+            Fix All
+          </button>
+        )}
+      </div>
+
+      <div className="px-3 py-1 text-xs text-muted-foreground">
+        <div>{status}</div>
+        {enabled && (
+          <div className="truncate" title={configPath ?? undefined}>
+            {configPath ? `Rules from ${configPath.split(/[\\/]/).pop()}` : 'Default rules'}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto filebar-scroll p-1">
+        {problems.map((problem, index) => (
+          <div key={index} className="flex items-start rounded hover:bg-accent">
+            <button
+              type="button"
+              onClick={() => onSelect(index)}
+              className="flex-1 min-w-0 flex items-start gap-1.5 px-1 py-1 text-left"
+              title={`${problem.rule}/${problem.alias}`}
+            >
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-yellow-600 dark:text-yellow-500" />
+              <span className="min-w-0">
+                <span className="block text-sm">{problem.description}</span>
+                {problem.detail && <span className="block text-xs text-muted-foreground truncate">{problem.detail}</span>}
+                <span className="block text-xs text-muted-foreground tabular-nums">
+                  {problem.rule} · Ln {problem.line + 1}
+                </span>
+              </span>
+            </button>
+            {problem.fix && (
+              <button
+                type="button"
+                onClick={() => onFix(index)}
+                className="p-1 m-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-background"
+                title={problem.fix.label}
+              >
+                <Wrench className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
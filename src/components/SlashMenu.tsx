@@ -1,13 +1,52 @@
 import { useEffect, useRef } from 'react'
-import { SlashMenuState, SlashMenuItem } from '../editor/plugins/slashMenu'
+import { SlashMenuState, SlashMenuItem, MAX_TABLE_SIZE } from '../editor/plugins/slashMenu'
+import { TableSize } from '../editor/commands/table'
 import { cn } from '../lib/utils'
 
 interface SlashMenuProps {
   state: SlashMenuState
   onSelect: (item: SlashMenuItem) => void
+  onSizeChange: (size: TableSize) => void
+  onSizePick: (size: TableSize) => void
 }
 
-export function SlashMenu({ state, onSelect }: SlashMenuProps) {
+function TableSizePicker({ size, onSizeChange, onSizePick }: {
+  size: TableSize
+  onSizeChange: (size: TableSize) => void
+  onSizePick: (size: TableSize) => void
+}) {
+  return (
+    <div className="p-2">
+      <div
+        className="grid gap-0.5"
+        style={{ gridTemplateColumns: `repeat(${MAX_TABLE_SIZE.cols}, 1rem)` }}
+      >
+        {Array.from({ length: MAX_TABLE_SIZE.rows }, (_, row) =>
+          Array.from({ length: MAX_TABLE_SIZE.cols }, (_, col) => {
+            const cellSize = { rows: Math.max(row + 1, 2), cols: col + 1 }
+            return (
+              <button
+                key={`${row}-${col}`}
+                className={cn(
+                  'table-size-cell',
+                  row < size.rows && col < size.cols && 'table-size-cell-selected',
+                  row === 0 && 'table-size-cell-header'
+                )}
+                onMouseEnter={() => onSizeChange(cellSize)}
+                onClick={() => onSizePick(cellSize)}
+              />
+            )
+          })
+        )}
+      </div>
+      <div className="pt-2 text-xs text-center text-muted-foreground">
+        {size.cols} × {size.rows} · Enter to insert
+      </div>
+    </div>
+  )
+}
+
+export function SlashMenu({ state, onSelect, onSizeChange, onSizePick }: SlashMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null)
   const selectedRef = useRef<HTMLButtonElement>(null)
 
@@ -26,12 +65,16 @@ export function SlashMenu({ state, onSelect }: SlashMenuProps) {
     <div
       ref={menuRef}
       className="slash-menu fixed z-50 max-h-80 overflow-y-auto"
+      // Keep the editor focused so the keyboard keeps working in the size picker
+      onMouseDown={(e) => e.preventDefault()}
       style={{
         top: state.position.top + 4,
         left: state.position.left
       }}
     >
-      {state.items.length === 0 ? (
+      {state.tableSize ? (
+        <TableSizePicker size={state.tableSize} onSizeChange={onSizeChange} onSizePick={onSizePick} />
+      ) : state.items.length === 0 ? (
         <div className="px-3 py-2 text-sm text-muted-foreground">
           No results found
         </div>
@@ -1,4 +1,6 @@
-import { GitBranch, FileText } from 'lucide-react'
+import { AlertTriangle, GitBranch, FileText, SpellCheck, Quote } from 'lucide-react'
+import { languageName, SpellcheckSettings } from '../lib/spellcheck'
+import { QUOTE_STYLES, QuoteStyle, TypographySettings } from '../lib/typography'
 
 interface StatusBarProps {
   wordCount: number
@@ -7,6 +9,15 @@ interface StatusBarProps {
   filePath: string | null
   isGitRepo: boolean
   onGitClick: () => void
+  spellcheck: SpellcheckSettings
+  // Languages the spellchecker can check, empty where it follows the system (macOS)
+  spellcheckLanguages: string[]
+  onSpellcheckChange: (settings: SpellcheckSettings) => void
+  typography: TypographySettings
+  onTypographyChange: (settings: TypographySettings) => void
+  // Lint problems in the open document, null when linting is off
+  problemCount: number | null
+  onProblemsClick: () => void
 }
 
 export function StatusBar({
@@ -15,8 +26,27 @@ export function StatusBar({
   isDirty,
   filePath,
   isGitRepo,
-  onGitClick
+  onGitClick,
+  spellcheck,
+  spellcheckLanguages,
+  onSpellcheckChange,
+  typography,
+  onTypographyChange,
+  problemCount,
+  onProblemsClick
 }: StatusBarProps) {
+  const handleSpellcheckChange = (value: string) => {
+    onSpellcheckChange(value === 'off'
+      ? { ...spellcheck, enabled: false }
+      : { enabled: true, language: value || null })
+  }
+
+  const handleTypographyChange = (value: string) => {
+    onTypographyChange(value === 'off'
+      ? { ...typography, enabled: false }
+      : { enabled: true, quoteStyle: value as QuoteStyle })
+  }
+
   return (
     <div className="h-6 bg-muted/50 border-t border-border flex items-center justify-between px-3 text-xs text-muted-foreground">
       <div className="flex items-center gap-4">
@@ -37,6 +67,43 @@ export function StatusBar({
             <span>Git</span>
           </button>
         )}
+        {problemCount !== null && (
+          <button
+            onClick={onProblemsClick}
+            className="flex items-center gap-1 hover:text-foreground transition-colors"
+            title="Markdown lint problems"
+          >
+            <AlertTriangle className="w-3 h-3" />
+            <span>{problemCount}</span>
+          </button>
+        )}
+        <label className="flex items-center gap-1 hover:text-foreground transition-colors" title="Smart quotes and typography">
+          <Quote className="w-3 h-3" />
+          <select
+            value={typography.enabled ? typography.quoteStyle : 'off'}
+            onChange={(e) => handleTypographyChange(e.target.value)}
+            className="bg-transparent outline-none cursor-pointer"
+          >
+            <option value="off">Off</option>
+            {Object.entries(QUOTE_STYLES).map(([style, quotes]) => (
+              <option key={style} value={style}>{quotes.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 hover:text-foreground transition-colors" title="Spell check language">
+          <SpellCheck className="w-3 h-3" />
+          <select
+            value={spellcheck.enabled ? spellcheck.language ?? '' : 'off'}
+            onChange={(e) => handleSpellcheckChange(e.target.value)}
+            className="bg-transparent outline-none cursor-pointer"
+          >
+            <option value="off">Off</option>
+            <option value="">System language</option>
+            {spellcheckLanguages.map(language => (
+              <option key={language} value={language}>{languageName(language)}</option>
+            ))}
+          </select>
+        </label>
         <span>{wordCount} words</span>
         <span>{charCount} chars</span>
       </div>
@@ -0,0 +1,118 @@
+import { Command } from 'prosemirror-state'
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  ArrowDown,
+  ArrowUp,
+  BetweenHorizontalEnd,
+  BetweenHorizontalStart,
+  BetweenVerticalEnd,
+  BetweenVerticalStart,
+  Columns,
+  PanelTop,
+  Rows,
+  Trash2
+} from 'lucide-react'
+import { TableToolbarState } from '../editor/plugins/tableToolbar'
+import {
+  addColumnAfter,
+  addColumnBefore,
+  addRowAfter,
+  addRowBefore,
+  ColumnAlignment,
+  deleteColumn,
+  deleteRow,
+  deleteTable,
+  moveRowDown,
+  moveRowUp,
+  setColumnAlignment,
+  toggleHeaderRow
+} from '../editor/commands/table'
+import { cn } from '../lib/utils'
+
+interface TableToolbarProps {
+  state: TableToolbarState
+  onCommand: (command: Command) => void
+}
+
+interface ToolbarButton {
+  title: string
+  icon: typeof Rows
+  command: Command
+  disabled?: boolean
+  active?: boolean
+  destructive?: boolean
+}
+
+export function TableToolbar({ state, onCommand }: TableToolbarProps) {
+  if (!state.active || !state.position) {
+    return null
+  }
+
+  const { rows, cols, row, alignment } = state
+  const align = (value: ColumnAlignment) => setColumnAlignment(alignment === value ? null : value)
+
+  const groups: ToolbarButton[][] = [
+    [
+      { title: 'Insert row above', icon: BetweenHorizontalStart, command: addRowBefore },
+      { title: 'Insert row below', icon: BetweenHorizontalEnd, command: addRowAfter },
+      { title: 'Move row up', icon: ArrowUp, command: moveRowUp, disabled: row === 0 },
+      { title: 'Move row down', icon: ArrowDown, command: moveRowDown, disabled: row === rows - 1 },
+      { title: 'Delete row', icon: Rows, command: deleteRow, disabled: rows <= 2, destructive: true }
+    ],
+    [
+      { title: 'Insert column left', icon: BetweenVerticalStart, command: addColumnBefore },
+      { title: 'Insert column right', icon: BetweenVerticalEnd, command: addColumnAfter },
+      { title: 'Delete column', icon: Columns, command: deleteColumn, disabled: cols <= 1, destructive: true }
+    ],
+    [
+      { title: 'Align left', icon: AlignLeft, command: align('left'), active: alignment === 'left' },
+      { title: 'Align center', icon: AlignCenter, command: align('center'), active: alignment === 'center' },
+      { title: 'Align right', icon: AlignRight, command: align('right'), active: alignment === 'right' }
+    ],
+    [
+      {
+        title: row === 0 ? 'Move header into body' : 'Use as header row',
+        icon: PanelTop,
+        command: toggleHeaderRow,
+        active: row === 0
+      },
+      { title: 'Delete table', icon: Trash2, command: deleteTable, destructive: true }
+    ]
+  ]
+
+  return (
+    <div
+      className="table-toolbar fixed z-40 flex items-center gap-1"
+      style={{
+        top: Math.max(state.position.top - 4, 0),
+        left: state.position.left
+      }}
+      // Keep the editor focused so commands apply to the current cell
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {groups.map((buttons, index) => (
+        <div key={index} className="flex items-center">
+          {index > 0 && <div className="w-px h-4 bg-border mx-1" />}
+          {buttons.map(({ title, icon: Icon, command, disabled, active, destructive }) => (
+            <button
+              key={title}
+              type="button"
+              title={title}
+              disabled={disabled}
+              onClick={() => onCommand(command)}
+              className={cn(
+                'table-toolbar-button',
+                active && 'bg-accent text-foreground',
+                destructive && 'hover:text-destructive'
+              )}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react'
+import { FileText, Hash } from 'lucide-react'
+import { WikiLinkMenuState } from '../editor/plugins/wikiLinks'
+import { WikiLinkSuggestion } from '../lib/wikiLinks'
+import { cn } from '../lib/utils'
+
+interface WikiLinkMenuProps {
+  state: WikiLinkMenuState
+  onSelect: (suggestion: WikiLinkSuggestion) => void
+}
+
+export function WikiLinkMenu({ state, onSelect }: WikiLinkMenuProps) {
+  const selectedRef = useRef<HTMLButtonElement>(null)
+
+  // Scroll selected item into view
+  useEffect(() => {
+    if (selectedRef.current) {
+      selectedRef.current.scrollIntoView({ block: 'nearest' })
+    }
+  }, [state.selectedIndex])
+
+  if (!state.active || !state.position) {
+    return null
+  }
+
+  return (
+    <div
+      className="slash-menu fixed z-50 max-h-80 max-w-sm overflow-y-auto"
+      // Keep the editor focused so typing continues the query
+      onMouseDown={(e) => e.preventDefault()}
+      style={{
+        top: state.position.top + 4,
+        left: state.position.left
+      }}
+    >
+      {state.items.length === 0 ? (
+        <div className="px-3 py-2 text-sm text-muted-foreground">
+          {state.query.includes('#') ? 'No matching headings' : 'No matching notes'}
+        </div>
+      ) : (
+        state.items.map((item, index) => (
+          <button
+            key={index}
+            ref={index === state.selectedIndex ? selectedRef : null}
+            className={cn(
+              'slash-menu-item w-full text-left',
+              index === state.selectedIndex && 'bg-accent'
+            )}
+            onClick={() => onSelect(item)}
+          >
+            {item.link.heading
+              ? <Hash className="slash-menu-item-icon flex-shrink-0" />
+              : <FileText className="slash-menu-item-icon flex-shrink-0" />}
+            <div className="flex flex-col min-w-0">
+              <span className="slash-menu-item-label truncate">{item.label}</span>
+              <span className="slash-menu-item-description truncate">{item.detail}</span>
+            </div>
+          </button>
+        ))
+      )}
+    </div>
+  )
+}
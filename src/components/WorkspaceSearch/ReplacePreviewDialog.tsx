@@ -0,0 +1,177 @@
+/**
+ * ReplacePreviewDialog Component
+ *
+ * Modal that shows the lines a workspace replace would change in each file
+ * before anything is written, and runs the replace once confirmed.
+ */
+
+import { useState, useEffect } from 'react'
+import { X, Loader2, FileText } from 'lucide-react'
+import { cn } from '../../lib/utils'
+
+export interface WorkspaceReplaceOptions {
+  query: { search: string; caseSensitive: boolean; wholeWord: boolean; regexp: boolean }
+  replace: string
+  files: Array<{ filePath: string; excluded: number[]; matchCount: number; truncated?: boolean }>
+}
+
+interface ReplaceFilePreview {
+  filePath: string
+  count: number
+  lines: Array<{ line: number; before: string; after: string }>
+}
+
+interface ReplacePreviewDialogProps {
+  options: WorkspaceReplaceOptions | null
+  // Files with matches that are left out because they have unsaved changes
+  skippedFiles: string[]
+  labelFor: (filePath: string) => string
+  onClose: () => void
+  onConfirm: () => Promise<void>
+}
+
+export function ReplacePreviewDialog({ options, skippedFiles, labelFor, onClose, onConfirm }: ReplacePreviewDialogProps) {
+  const [files, setFiles] = useState<ReplaceFilePreview[] | null>(null)
+  const [isReplacing, setIsReplacing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load the preview whenever the dialog opens
+  useEffect(() => {
+    if (!options) return
+    let cancelled = false
+    setFiles(null)
+    setError(null)
+
+    window.electron.explorer.previewReplace(options).then((result: { success: boolean; files?: ReplaceFilePreview[]; error?: string }) => {
+      if (cancelled) return
+      if (result.success && result.files) {
+        setFiles(result.files)
+      } else {
+        setError(result.error || 'Failed to preview the replace')
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [options])
+
+  if (!options) return null
+
+  const count = files?.reduce((sum, file) => sum + file.count, 0) ?? 0
+
+  const handleConfirm = async () => {
+    setIsReplacing(true)
+    setError(null)
+    try {
+      await onConfirm()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsReplacing(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onClose}
+      />
+
+      {/* Dialog */}
+      <div className="relative bg-background border border-border rounded-lg shadow-lg w-full max-w-3xl max-h-[80vh] mx-4 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h2 className="text-sm font-semibold">
+            Replace “{options.query.search}” with “{options.replace}”
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-accent rounded"
+          >
+            <X className="w-4 h-4 text-muted-foreground" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {!files && !error && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading preview…
+            </div>
+          )}
+
+          {files?.map(file => (
+            <div key={file.filePath} className="border border-border rounded overflow-hidden">
+              <div className="flex items-center gap-1.5 px-2 py-1 bg-muted/50 text-sm border-b border-border">
+                <FileText className="w-3.5 h-3.5 text-muted-foreground" />
+                <span className="truncate">{labelFor(file.filePath)}</span>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {file.count} {file.count === 1 ? 'change' : 'changes'}
+                </span>
+              </div>
+              <div className="font-mono text-xs">
+                {file.lines.map(line => (
+                  <div key={line.line}>
+                    <div className="flex gap-2 px-2 bg-red-500/10">
+                      <span className="w-8 flex-shrink-0 text-right text-muted-foreground">{line.line}</span>
+                      <span className="text-red-600 dark:text-red-400">-</span>
+                      <span className="whitespace-pre-wrap break-all">{line.before}</span>
+                    </div>
+                    <div className="flex gap-2 px-2 bg-green-500/10">
+                      <span className="w-8 flex-shrink-0" />
+                      <span className="text-green-600 dark:text-green-400">+</span>
+                      <span className="whitespace-pre-wrap break-all">{line.after}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {skippedFiles.length > 0 && (
+            <div className="text-xs text-muted-foreground">
+              <p className="mb-1">Not replaced because they have unsaved changes:</p>
+              <ul className="list-disc pl-5">
+                {skippedFiles.map(filePath => <li key={filePath}>{labelFor(filePath)}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-border">
+          <button
+            onClick={onClose}
+            disabled={isReplacing}
+            className="px-3 py-1.5 text-sm rounded border border-border hover:bg-accent disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isReplacing || !files || count === 0}
+            className={cn(
+              'px-3 py-1.5 text-sm rounded',
+              'bg-primary text-primary-foreground',
+              'hover:bg-primary/90',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+          >
+            {isReplacing
+              ? 'Replacing...'
+              : `Replace ${count} ${count === 1 ? 'occurrence' : 'occurrences'} in ${files?.length ?? 0} ${files?.length === 1 ? 'file' : 'files'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,486 @@
+/**
+ * Workspace Search Component
+ *
+ * Sidebar panel that searches the contents of all filebar folders.
+ * Results are grouped by file; clicking a match opens the file and selects the match.
+ * In replace mode, single matches or files can be left out, the changes are
+ * previewed before they are written, and the last replace can be undone.
+ */
+
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import {
+  CaseSensitive,
+  ChevronDown,
+  ChevronRight,
+  FileText,
+  Loader2,
+  MoreHorizontal,
+  Regex,
+  ReplaceAll,
+  Undo2,
+  WholeWord,
+  X
+} from 'lucide-react'
+import { compileQuery, replacementFor, SearchQuery, SourceMatch } from '../../editor/search'
+import { useWorkspaceSearch, SearchFileResult, SearchLineMatch } from './useWorkspaceSearch'
+import { ReplacePreviewDialog, WorkspaceReplaceOptions } from './ReplacePreviewDialog'
+import { cn } from '../../lib/utils'
+
+interface ChangedFile {
+  filePath: string
+  content: string
+}
+
+interface WorkspaceSearchProps {
+  folders: string[]
+  // Files open with unsaved changes, which are left out of replaces
+  dirtyFiles: string[]
+  // Incremented whenever the panel is asked to focus its search field
+  focusRequest: number
+  onOpenMatch: (filePath: string, query: SearchQuery, location: SourceMatch) => void
+  onFilesChanged: (files: ChangedFile[]) => void
+}
+
+// A single match of a result line, numbered within its file
+interface MatchRow {
+  match: SearchLineMatch
+  range: SearchLineMatch['ranges'][number]
+  occurrence: number
+}
+
+const SEARCH_DELAY = 300
+
+function ToggleButton({ title, active, onClick, children }: {
+  title: string
+  active: boolean
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-pressed={active}
+      onClick={onClick}
+      className={cn(
+        'p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-accent',
+        active && 'bg-accent text-foreground ring-1 ring-primary/40'
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
+function matchRows(result: SearchFileResult): MatchRow[] {
+  const rows: MatchRow[] = []
+  result.matches.forEach(match => {
+    match.ranges.forEach(range => rows.push({ match, range, occurrence: rows.length }))
+  })
+  return rows
+}
+
+/**
+ * Returns the text a match would be replaced with. Capture groups are taken
+ * from matching the query against the preview again, which has enough of the
+ * line around the match in all but unusual cases.
+ */
+function replacementPreview(query: SearchQuery, regexp: RegExp, row: MatchRow): string {
+  const matched = row.match.preview.slice(row.range.start, row.range.end)
+  if (!query.regexp) return replacementFor(query, { from: 0, to: 0, groups: [matched] })
+
+  const sticky = new RegExp(regexp.source, regexp.flags.replace('g', '') + 'y')
+  sticky.lastIndex = row.range.start
+  const match = sticky.exec(row.match.preview)
+  return replacementFor(query, { from: 0, to: 0, groups: match ? [...match] : [matched], named: match?.groups })
+}
+
+/**
+ * Renders the preview line of a match with the match highlighted, or shown
+ * as replaced when a replacement is given.
+ */
+function MatchPreview({ row, replacement }: { row: MatchRow; replacement: string | null }) {
+  const { preview } = row.match
+  const { start, end } = row.range
+  return (
+    <span className="truncate">
+      {preview.slice(0, start)}
+      {replacement === null ? (
+        <mark className="workspace-search-match">{preview.slice(start, end)}</mark>
+      ) : (
+        <>
+          <del className="workspace-search-removed">{preview.slice(start, end)}</del>
+          <ins className="workspace-search-inserted">{replacement}</ins>
+        </>
+      )}
+      {preview.slice(end)}
+    </span>
+  )
+}
+
+function FileResult({ result, query, regexp, showReplace, isDirty, excluded, onToggleExcluded, onOpenMatch }: {
+  result: SearchFileResult
+  query: SearchQuery
+  regexp: RegExp | null
+  showReplace: boolean
+  isDirty: boolean
+  excluded: Set<number> | undefined
+  onToggleExcluded: (occurrences: number[], exclude: boolean) => void
+  onOpenMatch: (row: MatchRow, total: number) => void
+}) {
+  const [isExpanded, setIsExpanded] = useState(true)
+  const rows = useMemo(() => matchRows(result), [result])
+  const slash = result.relativePath.lastIndexOf('/')
+  const name = result.relativePath.slice(slash + 1)
+  const directory = slash >= 0 ? result.relativePath.slice(0, slash) : ''
+  const canReplace = showReplace && !isDirty
+  const allExcluded = excluded?.size === rows.length
+
+  return (
+    <div className="group/file">
+      <div className="flex items-center hover:bg-accent rounded">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(v => !v)}
+          className="flex-1 min-w-0 flex items-center gap-1 px-1 py-0.5 text-sm"
+          title={result.filePath}
+        >
+          {isExpanded ? <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" />}
+          <FileText className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+          <span className={cn('truncate', canReplace && allExcluded && 'line-through opacity-50')}>{name}</span>
+          {directory && <span className="truncate text-xs text-muted-foreground">{directory}</span>}
+          {showReplace && isDirty && (
+            <span className="flex-shrink-0 text-xs text-yellow-600 dark:text-yellow-500" title="Save or close the file to replace in it">
+              unsaved
+            </span>
+          )}
+          <span className="ml-auto px-1.5 rounded-full bg-muted text-xs text-muted-foreground">{rows.length}</span>
+        </button>
+        {canReplace && (
+          <button
+            type="button"
+            onClick={() => onToggleExcluded(rows.map(row => row.occurrence), !allExcluded)}
+            className="p-0.5 mr-0.5 rounded hover:bg-background opacity-0 group-hover/file:opacity-100"
+            title={allExcluded ? 'Include file' : 'Exclude file'}
+          >
+            <X className="w-3.5 h-3.5 text-muted-foreground" />
+          </button>
+        )}
+      </div>
+
+      {isExpanded && rows.map(row => {
+        const isExcluded = excluded?.has(row.occurrence) ?? false
+        const replacement = canReplace && regexp && !isExcluded ? replacementPreview(query, regexp, row) : null
+        return (
+          <div key={row.occurrence} className="group/match flex items-center hover:bg-accent rounded">
+            <button
+              type="button"
+              onClick={() => onOpenMatch(row, rows.length)}
+              className={cn(
+                'flex-1 min-w-0 flex items-baseline gap-2 pl-6 pr-1 py-0.5 text-xs text-left',
+                canReplace && isExcluded && 'line-through opacity-50'
+              )}
+            >
+              <span className="flex-shrink-0 text-muted-foreground tabular-nums">{row.match.line}</span>
+              <MatchPreview row={row} replacement={replacement} />
+            </button>
+            {canReplace && (
+              <button
+                type="button"
+                onClick={() => onToggleExcluded([row.occurrence], !isExcluded)}
+                className="p-0.5 mr-0.5 rounded hover:bg-background opacity-0 group-hover/match:opacity-100"
+                title={isExcluded ? 'Include match' : 'Exclude match'}
+              >
+                <X className="w-3.5 h-3.5 text-muted-foreground" />
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export function WorkspaceSearch({ folders, dirtyFiles, focusRequest, onOpenMatch, onFilesChanged }: WorkspaceSearchProps) {
+  const [query, setQuery] = useState<SearchQuery>({
+    search: '',
+    replace: '',
+    caseSensitive: false,
+    wholeWord: false,
+    regexp: false
+  })
+  const [include, setInclude] = useState('')
+  const [exclude, setExclude] = useState('')
+  const [showFilters, setShowFilters] = useState(false)
+  const [showReplace, setShowReplace] = useState(false)
+  // Matches left out of the replace, by file
+  const [excluded, setExcluded] = useState<Map<string, Set<number>>>(new Map())
+  const [replaceOptions, setReplaceOptions] = useState<WorkspaceReplaceOptions | null>(null)
+  const [lastReplace, setLastReplace] = useState<{ batchId: string; fileCount: number } | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  // Incremented to search again after files were changed
+  const [searchVersion, setSearchVersion] = useState(0)
+  const searchRef = useRef<HTMLInputElement>(null)
+  const { results, summary, isSearching, error, search, clear } = useWorkspaceSearch()
+
+  const { search: searchText, caseSensitive, wholeWord, regexp: useRegexp } = query
+  const searchQuery = useMemo(
+    () => ({ search: searchText, caseSensitive, wholeWord, regexp: useRegexp }),
+    [searchText, caseSensitive, wholeWord, useRegexp]
+  )
+  const compiled = useMemo(() => compileQuery({ ...searchQuery, replace: '' }), [searchQuery])
+  const patternError = typeof compiled === 'string' ? compiled : null
+  const dirty = useMemo(() => new Set(dirtyFiles), [dirtyFiles])
+
+  useEffect(() => {
+    if (focusRequest > 0 && searchRef.current) {
+      searchRef.current.focus()
+      searchRef.current.select()
+    }
+  }, [focusRequest])
+
+  // Search again shortly after the query, the filters or the folders change
+  useEffect(() => {
+    if (!(compiled instanceof RegExp) || folders.length === 0) {
+      clear()
+      return
+    }
+
+    const timeout = setTimeout(() => {
+      setExcluded(new Map())
+      search({ folders, query: searchQuery, include, exclude })
+    }, SEARCH_DELAY)
+    return () => clearTimeout(timeout)
+  }, [compiled, searchQuery, include, exclude, folders, searchVersion, search, clear])
+
+  const toggleExcluded = useCallback((filePath: string, occurrences: number[], exclude: boolean) => {
+    setExcluded(prev => {
+      const next = new Map(prev)
+      const fileExcluded = new Set(prev.get(filePath))
+      occurrences.forEach(occurrence => exclude ? fileExcluded.add(occurrence) : fileExcluded.delete(occurrence))
+      next.set(filePath, fileExcluded)
+      return next
+    })
+  }, [])
+
+  // Files to replace in, leaving out files with unsaved changes or without included matches
+  const replaceFiles = useMemo(() => results
+    .filter(result => !dirty.has(result.filePath))
+    .map(result => ({
+      filePath: result.filePath,
+      excluded: Array.from(excluded.get(result.filePath) ?? []),
+      matchCount: result.matches.reduce((count, match) => count + match.ranges.length, 0),
+      truncated: result.truncated
+    }))
+    .filter(file => file.excluded.length < file.matchCount),
+  [results, dirty, excluded])
+
+  const skippedFiles = useMemo(
+    () => results.filter(result => dirty.has(result.filePath)).map(result => result.filePath),
+    [results, dirty]
+  )
+
+  const labelFor = useCallback((filePath: string) => {
+    return results.find(result => result.filePath === filePath)?.relativePath ?? filePath
+  }, [results])
+
+  const canReplaceAll = !isSearching && !!summary && !summary.limitHit && replaceFiles.length > 0
+
+  const handleReplace = useCallback(async () => {
+    if (!replaceOptions) return
+    const result = await window.electron.explorer.replace(replaceOptions)
+    if (!result.success || !result.batchId || !result.files) {
+      throw new Error(result.error || 'Failed to replace')
+    }
+
+    onFilesChanged(result.files)
+    setLastReplace({ batchId: result.batchId, fileCount: result.files.length })
+    setNotice(`Replaced ${result.count} ${result.count === 1 ? 'occurrence' : 'occurrences'} in ${result.files.length} ${result.files.length === 1 ? 'file' : 'files'}`)
+    setSearchVersion(v => v + 1)
+  }, [replaceOptions, onFilesChanged])
+
+  const handleUndo = useCallback(async () => {
+    if (!lastReplace) return
+    const result = await window.electron.explorer.undoReplace(lastReplace.batchId, dirtyFiles)
+    setLastReplace(null)
+    if (!result.success || !result.files) {
+      setNotice(result.error || 'Failed to undo the replace')
+      return
+    }
+
+    onFilesChanged(result.files)
+    const skipped = result.skipped?.length ?? 0
+    setNotice(skipped > 0
+      ? `Restored ${result.files.length} of ${lastReplace.fileCount} files; ${skipped} changed since and ${skipped === 1 ? 'was' : 'were'} left as is`
+      : `Restored ${result.files.length} ${result.files.length === 1 ? 'file' : 'files'}`)
+    setSearchVersion(v => v + 1)
+  }, [lastReplace, dirtyFiles, onFilesChanged])
+
+  let status = ''
+  if (patternError) {
+    status = 'Invalid pattern'
+  } else if (error) {
+    status = error
+  } else if (isSearching) {
+    status = 'Searching…'
+  } else if (summary) {
+    status = summary.matchCount === 0
+      ? 'No results'
+      : `${summary.matchCount} ${summary.matchCount === 1 ? 'result' : 'results'} in ${summary.fileCount} ${summary.fileCount === 1 ? 'file' : 'files'}`
+    if (summary.limitHit) status += ' (search stopped, refine your query)'
+  } else if (query.search && folders.length === 0) {
+    status = 'Add a folder to search'
+  }
+
+  const updateQuery = (update: Partial<SearchQuery>) => setQuery(prev => ({ ...prev, ...update }))
+
+  return (
+    <div className="h-full flex flex-col bg-muted/20 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Search
+        </span>
+        {isSearching && <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="flex gap-1 p-2 border-b border-border">
+        <button
+          type="button"
+          onClick={() => setShowReplace(v => !v)}
+          className="p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-accent self-start mt-1"
+          title={showReplace ? 'Hide replace' : 'Show replace'}
+        >
+          {showReplace ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+
+        <div className="flex-1 min-w-0 flex flex-col gap-1.5">
+          <div className={cn(
+            'flex items-center gap-0.5 pr-1 bg-background border border-border rounded focus-within:ring-1 focus-within:ring-primary',
+            patternError && 'border-destructive'
+          )}>
+            <input
+              ref={searchRef}
+              value={query.search}
+              placeholder="Search in folders"
+              spellCheck={false}
+              onChange={(e) => updateQuery({ search: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 text-sm bg-transparent outline-none"
+              title={patternError || undefined}
+            />
+            <ToggleButton title="Match case" active={query.caseSensitive} onClick={() => updateQuery({ caseSensitive: !query.caseSensitive })}>
+              <CaseSensitive className="w-4 h-4" />
+            </ToggleButton>
+            <ToggleButton title="Match whole word" active={query.wholeWord} onClick={() => updateQuery({ wholeWord: !query.wholeWord })}>
+              <WholeWord className="w-4 h-4" />
+            </ToggleButton>
+            <ToggleButton title="Use regular expression" active={query.regexp} onClick={() => updateQuery({ regexp: !query.regexp })}>
+              <Regex className="w-4 h-4" />
+            </ToggleButton>
+          </div>
+
+          {showReplace && (
+            <div className="flex items-center gap-0.5">
+              <input
+                value={query.replace}
+                placeholder="Replace"
+                spellCheck={false}
+                onChange={(e) => updateQuery({ replace: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 text-sm bg-background border border-border rounded outline-none focus:ring-1 focus:ring-primary"
+              />
+              <button
+                type="button"
+                onClick={() => setReplaceOptions({ query: searchQuery, replace: query.replace, files: replaceFiles })}
+                disabled={!canReplaceAll}
+                className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent disabled:opacity-50 disabled:pointer-events-none"
+                title="Replace all…"
+              >
+                <ReplaceAll className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className={cn('text-xs text-muted-foreground truncate', (patternError || error) && 'text-destructive')}>
+              {status}
+            </span>
+            <ToggleButton title="Toggle search filters" active={showFilters} onClick={() => setShowFilters(v => !v)}>
+              <MoreHorizontal className="w-4 h-4" />
+            </ToggleButton>
+          </div>
+
+          {showFilters && (
+            <>
+              <input
+                value={include}
+                placeholder="Files to include (e.g. *.md, docs/**)"
+                spellCheck={false}
+                onChange={(e) => setInclude(e.target.value)}
+                className="px-2 py-1 text-xs bg-background border border-border rounded outline-none focus:ring-1 focus:ring-primary"
+              />
+              <input
+                value={exclude}
+                placeholder="Files to exclude"
+                spellCheck={false}
+                onChange={(e) => setExclude(e.target.value)}
+                className="px-2 py-1 text-xs bg-background border border-border rounded outline-none focus:ring-1 focus:ring-primary"
+              />
+            </>
+          )}
+
+          {notice && (
+            <div className="flex items-center gap-1 text-xs">
+              <span className="flex-1 min-w-0 truncate" title={notice}>{notice}</span>
+              {lastReplace && (
+                <button
+                  type="button"
+                  onClick={handleUndo}
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-accent"
+                  title="Restore the files changed by the last replace"
+                >
+                  <Undo2 className="w-3.5 h-3.5" />
+                  Undo
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setNotice(null)}
+                className="p-0.5 rounded hover:bg-accent"
+                title="Dismiss"
+              >
+                <X className="w-3.5 h-3.5 text-muted-foreground" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-auto filebar-scroll p-1">
+        {results.map(result => (
+          <FileResult
+            key={result.filePath}
+            result={result}
+            query={query}
+            regexp={compiled instanceof RegExp ? compiled : null}
+            showReplace={showReplace}
+            isDirty={dirty.has(result.filePath)}
+            excluded={excluded.get(result.filePath)}
+            onToggleExcluded={(occurrences, exclude) => toggleExcluded(result.filePath, occurrences, exclude)}
+            onOpenMatch={(row, total) =>
+              onOpenMatch(result.filePath, query, { line: row.match.line - 1, occurrence: row.occurrence, total })
+            }
+          />
+        ))}
+      </div>
+
+      <ReplacePreviewDialog
+        options={replaceOptions}
+        skippedFiles={skippedFiles}
+        labelFor={labelFor}
+        onClose={() => setReplaceOptions(null)}
+        onConfirm={handleReplace}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,8 @@
+/**
+ * Workspace Search Components
+ *
+ * Sidebar panel for searching the contents of all filebar folders.
+ */
+
+export { WorkspaceSearch } from './WorkspaceSearch'
+export { useWorkspaceSearch } from './useWorkspaceSearch'
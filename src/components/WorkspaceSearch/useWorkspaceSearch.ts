@@ -0,0 +1,139 @@
+/**
+ * Workspace Search Hook
+ *
+ * Runs a search across the filebar folders in the main process and collects
+ * the results it streams back. Starting a new search cancels the running one.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react'
+
+export interface SearchLineMatch {
+  line: number // 1-based line number
+  preview: string
+  // Match ranges within the preview; matches cut off by the preview are empty
+  ranges: Array<{ start: number; end: number }>
+}
+
+export interface SearchFileResult {
+  filePath: string
+  folder: string
+  relativePath: string
+  matches: SearchLineMatch[]
+  // Whether the search stopped before listing all matches of the file
+  truncated: boolean
+}
+
+interface WorkspaceSearchOptions {
+  folders: string[]
+  query: { search: string; caseSensitive: boolean; wholeWord: boolean; regexp: boolean }
+  include: string
+  exclude: string
+}
+
+export interface WorkspaceSearchSummary {
+  fileCount: number
+  matchCount: number
+  limitHit: boolean
+}
+
+interface UseWorkspaceSearchReturn {
+  results: SearchFileResult[]
+  summary: WorkspaceSearchSummary | null
+  isSearching: boolean
+  error: string | null
+  search: (options: WorkspaceSearchOptions) => Promise<void>
+  clear: () => void
+}
+
+export function useWorkspaceSearch(): UseWorkspaceSearchReturn {
+  const [results, setResults] = useState<SearchFileResult[]>([])
+  const [summary, setSummary] = useState<WorkspaceSearchSummary | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const searchIdRef = useRef<string | null>(null)
+  // Results received since the last render, added to the list once per frame
+  const pendingRef = useRef<SearchFileResult[]>([])
+  const frameRef = useRef<number | null>(null)
+
+  const flushPending = useCallback(() => {
+    frameRef.current = null
+    const pending = pendingRef.current
+    pendingRef.current = []
+    if (pending.length > 0) {
+      setResults(prev => [...prev, ...pending])
+    }
+  }, [])
+
+  /**
+   * Cancels the running search and drops its undelivered results.
+   */
+  const cancel = useCallback(() => {
+    if (searchIdRef.current) {
+      window.electron.explorer.cancelSearch(searchIdRef.current)
+      searchIdRef.current = null
+    }
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+      frameRef.current = null
+    }
+    pendingRef.current = []
+  }, [])
+
+  useEffect(() => {
+    const unsubscribe = window.electron.explorer.onSearchResult((data: { searchId: string; result: SearchFileResult }) => {
+      if (data.searchId !== searchIdRef.current) return
+      pendingRef.current.push(data.result)
+      if (frameRef.current === null) {
+        frameRef.current = requestAnimationFrame(flushPending)
+      }
+    })
+
+    return () => {
+      unsubscribe()
+      cancel()
+    }
+  }, [flushPending, cancel])
+
+  const search = useCallback(async (options: WorkspaceSearchOptions) => {
+    cancel()
+    const searchId = crypto.randomUUID()
+    searchIdRef.current = searchId
+
+    setResults([])
+    setSummary(null)
+    setError(null)
+    setIsSearching(true)
+
+    const result = await window.electron.explorer.search(searchId, options)
+    if (searchIdRef.current !== searchId) return
+
+    // Results are sent before the search finishes, so all of them have arrived
+    searchIdRef.current = null
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+    }
+    flushPending()
+
+    if (result.success) {
+      setSummary({
+        fileCount: result.fileCount ?? 0,
+        matchCount: result.matchCount ?? 0,
+        limitHit: result.limitHit ?? false
+      })
+    } else {
+      setError(result.error || 'Search failed')
+    }
+    setIsSearching(false)
+  }, [cancel, flushPending])
+
+  const clear = useCallback(() => {
+    cancel()
+    setResults([])
+    setSummary(null)
+    setError(null)
+    setIsSearching(false)
+  }, [cancel])
+
+  return { results, summary, isSearching, error, search, clear }
+}
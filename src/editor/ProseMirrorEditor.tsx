@@ -1,21 +1,86 @@
 import { useEffect, useRef, useCallback, useState, forwardRef, useImperativeHandle } from 'react'
-import { EditorState, Transaction } from 'prosemirror-state'
+import { Command, EditorState, Selection, Transaction, TextSelection } from 'prosemirror-state'
 import { EditorView } from 'prosemirror-view'
 import { history } from 'prosemirror-history'
 import { dropCursor } from 'prosemirror-dropcursor'
 import { gapCursor } from 'prosemirror-gapcursor'
 import { schema } from './schema'
-import { markdownParser, markdownSerializer } from './markdown'
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { markdownParser, markdownSerializer, blockSourceLines } from './markdown'
 import { buildInputRules } from './plugins/inputRules'
 import { buildKeymap } from './plugins/keymap'
-import { createSlashMenuPlugin, SlashMenuState, slashMenuPluginKey } from './plugins/slashMenu'
+import {
+  createSlashMenuPlugin,
+  SlashMenuState,
+  SlashMenuItem,
+  selectSlashMenuItem,
+  setSlashMenuSize,
+  pickSlashMenuSize
+} from './plugins/slashMenu'
 import { createPlaceholderPlugin } from './plugins/placeholder'
 import { createDiffHighlightPlugin, setDiffHunks, DiffHunk } from './plugins/diffHighlight'
+import { createFootnotesPlugin } from './plugins/footnotes'
+import { createCodeHighlightPlugin } from './plugins/codeHighlight'
+import { createTableToolbarPlugin, inactiveTableToolbar, TableToolbarState } from './plugins/tableToolbar'
+import { createFormatToolbarPlugin, inactiveFormatToolbar, FormatToolbarState } from './plugins/formatToolbar'
+import { TableSize } from './commands/table'
+import {
+  createSearchPlugin,
+  initialSearchState,
+  SearchState,
+  getSearchState,
+  updateSearch,
+  findNext,
+  findPrevious,
+  replaceNext,
+  replaceAll,
+  closeSearch,
+  revealMatch
+} from './plugins/search'
+import { createOutlinePlugin, OutlineState } from './plugins/outline'
+import { moveSection } from './commands/outline'
+import { createWikiLinksPlugin, closedWikiLinkMenu, WikiLinkMenuState, selectWikiLinkSuggestion } from './plugins/wikiLinks'
+import { createEmojiPlugin, closedEmojiMenu, EmojiMenuState, selectEmojiSuggestion } from './plugins/emoji'
+import { createLintPlugin, getLintProblems, refreshLint } from './plugins/lint'
+import { fixAllLintProblems, fixLintProblems } from './commands/lint'
+import { LintConfig, LintProblem } from './lint'
+import {
+  createLinkPopoverPlugin,
+  closedLinkPopover,
+  LinkPopoverState,
+  openLinkEditor,
+  closeLinkEditor
+} from './plugins/linkPopover'
+import { removeLink, setLink } from './commands/link'
+import { createImageUploadPlugin } from './plugins/imageUpload'
+import { SearchQuery, SourceMatch } from './search'
+import { buildNodeViews } from './nodeViews'
+import { lineAtOffset, measureBlock, offsetOfLine, SourceBlock } from '../lib/scrollSync'
+import { suggestWikiLinks, WikiLink, WikiLinkSuggestion, WorkspaceNote } from '../lib/wikiLinks'
+import { DEFAULT_EMOJI_STYLE, EmojiStyle, EmojiSuggestion, searchEmoji } from '../lib/emoji'
+import { defaultTypographySettings, TypographySettings } from '../lib/typography'
+import { headingAnchors, slugify } from '../lib/links'
+import { loadImage, localImagePath } from '../lib/images'
+import { dirname, encodeUrlPath, relativePath } from '../lib/paths'
 import { SlashMenu } from '../components/SlashMenu'
+import { WikiLinkMenu } from '../components/WikiLinkMenu'
+import { EmojiMenu } from '../components/EmojiMenu'
+import { TableToolbar } from '../components/TableToolbar'
+import { FormatToolbar } from '../components/FormatToolbar'
+import { FindBar } from '../components/FindBar'
+import { LinkPopover } from '../components/LinkPopover'
 
 export interface ProseMirrorEditorHandle {
   getContent: () => string
   setContent: (content: string) => void
+  scrollToSourceLine: (line: number) => void
+  revealMatch: (query: SearchQuery, location: SourceMatch) => void
+  scrollToHeading: (heading: string) => void
+  revealHeading: (pos: number) => void
+  moveSection: (from: number, to: number | null) => void
+  revealProblem: (index: number) => void
+  // Applies the quick fix of one problem, or of all of them when index is null
+  fixProblems: (index: number | null) => void
 }
 
 interface ProseMirrorEditorProps {
@@ -23,24 +88,86 @@ interface ProseMirrorEditorProps {
   filePath?: string | null
   onChange?: (content: string, wordCount: number, charCount: number) => void
   onSave?: () => void
+  onScrollSourceLine?: (line: number) => void
+  // Markdown files of the workspace, suggested when typing a wiki link
+  notes?: WorkspaceNote[]
+  onOpenWikiLink?: (link: WikiLink) => void
+  onOutlineChange?: (outline: OutlineState) => void
+  // Files of the workspace, suggested as link targets
+  listFiles?: () => Promise<string[]>
+  onOpenLink?: (href: string) => void
+  // Stores a pasted or dropped image, returning the src to insert it with
+  onSaveImage?: (file: File) => Promise<string | null>
+  // How picked emoji are written, and the recently picked ones to suggest first
+  emojiStyle?: EmojiStyle
+  recentEmoji?: string[]
+  onPickEmoji?: (name: string) => void
+  // Smart quotes, dashes and symbols while typing
+  typography?: TypographySettings
+  // Markdown lint configuration, null when linting is off
+  lint?: LintConfig | null
+  onLintChange?: (problems: LintProblem[]) => void
+}
+
+const noFiles = () => Promise.resolve([])
+
+/**
+ * Asks for the file of a missing image and returns the src to link it with,
+ * relative to the document when it has been saved.
+ */
+async function locateImage(src: string, filePath: string | null | undefined): Promise<string | null> {
+  const missing = localImagePath(src, filePath)
+  const result = await window.electron.dialog.chooseImage(missing ? dirname(missing) : filePath ? dirname(filePath) : undefined)
+  if (!result.success || !result.path) return null
+  return filePath
+    ? encodeUrlPath(relativePath(dirname(filePath), result.path))
+    : encodeURI(result.path.replace(/\\/g, '/'))
 }
 
 export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirrorEditorProps>(
-  ({ initialContent = '', filePath, onChange, onSave }, ref) => {
+  ({ initialContent = '', filePath, onChange, onSave, onScrollSourceLine, notes, onOpenWikiLink, onOutlineChange, listFiles = noFiles, onOpenLink, onSaveImage, emojiStyle = DEFAULT_EMOJI_STYLE, recentEmoji, onPickEmoji, typography = defaultTypographySettings, lint = null, onLintChange }, ref) => {
     const editorRef = useRef<HTMLDivElement>(null)
     const viewRef = useRef<EditorView | null>(null)
     // Use ref to always have access to the latest onSave callback
     // This avoids stale closure issues where filePath might be null
     const onSaveRef = useRef(onSave)
     onSaveRef.current = onSave
+    // The wiki links plugin is created once, so it reads these through refs
+    const notesRef = useRef({ notes, filePath })
+    notesRef.current = { notes, filePath }
+    const onOpenWikiLinkRef = useRef(onOpenWikiLink)
+    onOpenWikiLinkRef.current = onOpenWikiLink
+    const onOutlineChangeRef = useRef(onOutlineChange)
+    onOutlineChangeRef.current = onOutlineChange
+    const onSaveImageRef = useRef(onSaveImage)
+    onSaveImageRef.current = onSaveImage
+    const emojiRef = useRef({ style: emojiStyle, recent: recentEmoji, onPick: onPickEmoji })
+    emojiRef.current = { style: emojiStyle, recent: recentEmoji, onPick: onPickEmoji }
+    const typographyRef = useRef(typography)
+    typographyRef.current = typography
+    const lintRef = useRef({ config: lint, onChange: onLintChange })
+    lintRef.current = { config: lint, onChange: onLintChange }
+    // Images loaded from disk by path
+    const imageCache = useRef(new Map<string, Promise<string | null>>())
 
     const [slashMenuState, setSlashMenuState] = useState<SlashMenuState>({
       active: false,
       query: '',
       items: [],
       selectedIndex: 0,
-      position: null
+      position: null,
+      tableSize: null
     })
+    const [tableToolbarState, setTableToolbarState] = useState<TableToolbarState>(inactiveTableToolbar)
+    const [formatToolbarState, setFormatToolbarState] = useState<FormatToolbarState>(inactiveFormatToolbar)
+    const [searchState, setSearchState] = useState<SearchState>(initialSearchState)
+    const [wikiLinkMenuState, setWikiLinkMenuState] = useState<WikiLinkMenuState>(closedWikiLinkMenu)
+    const [emojiMenuState, setEmojiMenuState] = useState<EmojiMenuState>(closedEmojiMenu)
+    const [linkPopoverState, setLinkPopoverState] = useState<LinkPopoverState>(closedLinkPopover)
+    // Source lines of the top-level blocks, for scroll syncing with the preview
+    const sourceLinesRef = useRef<{ doc: ProseMirrorNode, lines: number[] } | null>(null)
+    // Scroll position set by scrollToSourceLine, whose scroll event is not reported back
+    const syncedScrollTop = useRef<number | null>(null)
 
     const getContent = useCallback(() => {
       if (!viewRef.current) return ''
@@ -60,9 +187,136 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
       viewRef.current.updateState(newState)
     }, [])
 
+    // Source lines the top-level blocks of the document start at
+    const sourceLines = useCallback((doc: ProseMirrorNode) => {
+      if (sourceLinesRef.current?.doc !== doc) {
+        sourceLinesRef.current = { doc, lines: blockSourceLines(markdownSerializer.serialize(doc)) }
+      }
+      return sourceLinesRef.current.lines
+    }, [])
+
+    // Measures the top-level blocks of the document along with the source line each starts at
+    const sourceBlocks = useCallback((): SourceBlock[] => {
+      const view = viewRef.current
+      const scroller = editorRef.current
+      if (!view || !scroller) return []
+
+      const { doc } = view.state
+      const lines = sourceLines(doc)
+
+      const blocks: SourceBlock[] = []
+      doc.forEach((_node, offset, index) => {
+        const dom = view.nodeDOM(offset)
+        if (index < lines.length && dom instanceof HTMLElement) {
+          blocks.push(measureBlock(scroller, dom, lines[index]))
+        }
+      })
+      return blocks
+    }, [sourceLines])
+
+    const scrollToSourceLine = useCallback((line: number) => {
+      const scroller = editorRef.current
+      if (!scroller) return
+      const maxScrollTop = scroller.scrollHeight - scroller.clientHeight
+      const target = Math.round(Math.min(Math.max(offsetOfLine(sourceBlocks(), line), 0), maxScrollTop))
+      if (Math.abs(target - scroller.scrollTop) < 1) return
+      syncedScrollTop.current = target
+      scroller.scrollTop = target
+    }, [sourceBlocks])
+
+    const handleScroll = useCallback(() => {
+      const scroller = editorRef.current
+      if (!scroller || !onScrollSourceLine) return
+      if (syncedScrollTop.current !== null && Math.abs(scroller.scrollTop - syncedScrollTop.current) < 2) {
+        syncedScrollTop.current = null
+        return
+      }
+      syncedScrollTop.current = null
+      onScrollSourceLine(lineAtOffset(sourceBlocks(), scroller.scrollTop))
+    }, [onScrollSourceLine, sourceBlocks])
+
+    // Selects a match found in the markdown source, or scrolls to its line if it
+    // cannot be found in the document
+    const revealSourceMatch = useCallback((query: SearchQuery, location: SourceMatch) => {
+      const view = viewRef.current
+      if (!view) return
+
+      const { doc } = view.state
+      const lines = sourceLines(doc)
+      let blockPos = 0
+      doc.forEach((_node, offset, index) => {
+        if (index < lines.length && lines[index] <= location.line) blockPos = offset
+      })
+
+      if (!revealMatch(query, location, blockPos)(view.state, view.dispatch)) {
+        scrollToSourceLine(location.line)
+      }
+    }, [sourceLines, scrollToSourceLine])
+
+    // Moves the cursor to the heading at a position and scrolls it to the top
+    const revealHeading = useCallback((pos: number) => {
+      const view = viewRef.current
+      if (!view || view.state.doc.nodeAt(pos)?.type !== schema.nodes.heading) return
+
+      view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, pos + 1)))
+      const dom = view.nodeDOM(pos)
+      if (dom instanceof HTMLElement) dom.scrollIntoView({ block: 'start' })
+      view.focus()
+    }, [])
+
+    // Moves the cursor to the first heading with the given text, or the heading with the given anchor
+    const scrollToHeading = useCallback((heading: string) => {
+      const view = viewRef.current
+      if (!view) return
+
+      const headings: Array<{ pos: number, text: string }> = []
+      view.state.doc.descendants((node, pos) => {
+        if (node.type === schema.nodes.heading) headings.push({ pos, text: node.textContent })
+        return !node.isTextblock
+      })
+      const index = headingAnchors(headings.map(h => h.text)).indexOf(slugify(heading))
+      if (index >= 0) revealHeading(headings[index].pos)
+    }, [revealHeading])
+
+    const moveOutlineSection = useCallback((from: number, to: number | null) => {
+      const view = viewRef.current
+      if (!view) return
+      moveSection(from, to)(view.state, view.dispatch)
+      view.focus()
+    }, [])
+
+    // Moves the cursor to a lint problem and scrolls it into view
+    const revealProblem = useCallback((index: number) => {
+      const view = viewRef.current
+      const problem = view && getLintProblems(view.state)[index]
+      if (!view || !problem) return
+
+      view.dispatch(view.state.tr.setSelection(Selection.near(view.state.doc.resolve(problem.from))).scrollIntoView())
+      view.focus()
+    }, [])
+
+    const fixProblems = useCallback((index: number | null) => {
+      const view = viewRef.current
+      if (!view) return
+      const config = lintRef.current.config
+      if (index === null) {
+        if (config) fixAllLintProblems(config)(view.state, view.dispatch)
+      } else {
+        fixLintProblems(getLintProblems(view.state).slice(index, index + 1))(view.state, view.dispatch)
+      }
+      view.focus()
+    }, [])
+
     useImperativeHandle(ref, () => ({
       getContent,
-      setContent
+      setContent,
+      scrollToSourceLine,
+      revealMatch: revealSourceMatch,
+      scrollToHeading,
+      revealHeading,
+      moveSection: moveOutlineSection,
+      revealProblem,
+      fixProblems
     }))
 
     const countWords = useCallback((text: string): number => {
@@ -84,14 +338,36 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
       const handleSave = () => onSaveRef.current?.()
 
       const plugins = [
-        buildInputRules(),
+        buildInputRules(() => typographyRef.current),
+        // Before the keymap, so Enter and Tab pick a suggestion while the menu is open
+        createWikiLinksPlugin(setWikiLinkMenuState, {
+          getSuggestions: (query) => suggestWikiLinks(query, notesRef.current.notes ?? [], notesRef.current.filePath),
+          onOpenLink: (link) => onOpenWikiLinkRef.current?.(link)
+        }),
+        createEmojiPlugin(setEmojiMenuState, {
+          getSuggestions: (query) => searchEmoji(query, emojiRef.current.recent ?? []),
+          getStyle: () => emojiRef.current.style,
+          onPick: (name) => emojiRef.current.onPick?.(name)
+        }),
         buildKeymap(handleSave),
         history(),
         dropCursor(),
         gapCursor(),
         createSlashMenuPlugin(setSlashMenuState),
         createPlaceholderPlugin(),
-        createDiffHighlightPlugin()
+        createDiffHighlightPlugin(),
+        createFootnotesPlugin(),
+        createCodeHighlightPlugin(),
+        createTableToolbarPlugin(setTableToolbarState),
+        createFormatToolbarPlugin(setFormatToolbarState),
+        createSearchPlugin(setSearchState),
+        createLintPlugin(
+          (problems) => lintRef.current.onChange?.(problems),
+          () => lintRef.current.config
+        ),
+        createOutlinePlugin((outline) => onOutlineChangeRef.current?.(outline)),
+        createLinkPopoverPlugin(setLinkPopoverState),
+        createImageUploadPlugin(async (file) => onSaveImageRef.current ? onSaveImageRef.current(file) : null)
       ]
 
       const state = EditorState.create({
@@ -101,6 +377,12 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
 
       const view = new EditorView(editorRef.current, {
         state,
+        nodeViews: buildNodeViews({
+          images: {
+            loadImage: (src) => loadImage(src, notesRef.current.filePath, imageCache.current),
+            locateImage: (src) => locateImage(src, notesRef.current.filePath)
+          }
+        }),
         dispatchTransaction(transaction: Transaction) {
           const newState = view.state.apply(transaction)
           view.updateState(newState)
@@ -112,7 +394,9 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
           }
         },
         attributes: {
-          class: 'prose prose-slate dark:prose-invert max-w-none'
+          class: 'prose prose-slate dark:prose-invert max-w-none',
+          // Code is excluded by the schema and the code block views
+          spellcheck: 'true'
         }
       })
 
@@ -134,6 +418,16 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
       }
     }, []) // Only run on mount
 
+    // Images may have changed on disk, or be relative to a different directory
+    useEffect(() => {
+      imageCache.current = new Map()
+    }, [filePath])
+
+    // Lint again with the new configuration
+    useEffect(() => {
+      if (viewRef.current) refreshLint(viewRef.current)
+    }, [lint])
+
     // Load diff data when file path changes
     const loadDiffData = useCallback(async () => {
       if (!viewRef.current || !filePath) {
@@ -160,28 +454,137 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
     }, [loadDiffData])
 
     // Handle slash menu item selection
-    const handleSlashMenuSelect = useCallback((item: { action: (view: EditorView) => void }) => {
+    const handleSlashMenuSelect = useCallback((item: SlashMenuItem) => {
       if (!viewRef.current) return
+      selectSlashMenuItem(viewRef.current, item)
+    }, [])
+
+    const handleSlashMenuSizeChange = useCallback((size: TableSize) => {
+      if (!viewRef.current) return
+      setSlashMenuSize(viewRef.current, size)
+    }, [])
 
+    const handleSlashMenuSizePick = useCallback((size: TableSize) => {
+      if (!viewRef.current) return
+      pickSlashMenuSize(viewRef.current, size)
+    }, [])
+
+    const handleWikiLinkSelect = useCallback((suggestion: WikiLinkSuggestion) => {
+      if (!viewRef.current) return
+      selectWikiLinkSuggestion(viewRef.current, suggestion)
+    }, [])
+
+    const handleEmojiSelect = useCallback((suggestion: EmojiSuggestion) => {
+      if (!viewRef.current) return
+      selectEmojiSuggestion(viewRef.current, suggestion.name, emojiRef.current.style)
+      emojiRef.current.onPick?.(suggestion.name)
+    }, [])
+
+    // Apply a link popover command and return to the editor
+    const handleLinkCommand = useCallback((command: Command) => {
+      if (!viewRef.current) return
+      command(viewRef.current.state, viewRef.current.dispatch)
+      viewRef.current.focus()
+    }, [])
+
+    // Run a table toolbar command on the current cell
+    const handleTableCommand = useCallback((command: Command) => {
+      if (!viewRef.current) return
+      command(viewRef.current.state, viewRef.current.dispatch)
+      viewRef.current.focus()
+    }, [])
+
+    // Run a formatting toolbar command on the selection
+    const handleFormatCommand = useCallback((command: Command) => {
+      if (!viewRef.current) return
+      command(viewRef.current.state, viewRef.current.dispatch)
+      viewRef.current.focus()
+    }, [])
+
+    // Run a find bar command, leaving the focus in the find bar
+    const handleSearchCommand = useCallback((command: Command) => {
+      if (!viewRef.current) return
+      command(viewRef.current.state, viewRef.current.dispatch)
+    }, [])
+
+    const handleSearchQueryChange = useCallback((query: Partial<SearchQuery>) => {
+      const view = viewRef.current
+      if (!view) return
+      updateSearch(view, { query })
+      // Move to the nearest match while the query is edited
+      if (query.replace === undefined) findNext(true)(view.state, view.dispatch)
+    }, [])
+
+    const handleSearchToggleReplace = useCallback(() => {
       const view = viewRef.current
+      const search = view && getSearchState(view.state)
+      if (!view || !search) return
+      updateSearch(view, { showReplace: !search.showReplace })
+    }, [])
 
-      // Delete the slash and query
-      const { $from } = view.state.selection
-      const textBefore = $from.parent.textContent.slice(0, $from.parentOffset)
-      const slashIndex = textBefore.lastIndexOf('/')
-      const from = $from.pos - (textBefore.length - slashIndex)
-      const tr = view.state.tr.delete(from, $from.pos)
-      view.dispatch(tr.setMeta(slashMenuPluginKey, { active: false, query: '', selectedIndex: 0, position: null }))
+    const handleSearchToggleInSelection = useCallback(() => {
+      const view = viewRef.current
+      const search = view && getSearchState(view.state)
+      if (!view || !search) return
+      const { from, to, empty } = view.state.selection
+      if (search.range || !empty) {
+        updateSearch(view, { range: search.range ? null : { from, to } })
+      }
+    }, [])
 
-      item.action(view)
+    const handleSearchClose = useCallback(() => {
+      if (!viewRef.current) return
+      closeSearch(viewRef.current.state, viewRef.current.dispatch)
+      viewRef.current.focus()
     }, [])
 
     return (
       <div className="relative h-full">
-        <div ref={editorRef} className="h-full overflow-auto thin-scrollbar" />
+        <div ref={editorRef} onScroll={handleScroll} className="h-full overflow-auto thin-scrollbar" />
         <SlashMenu
           state={slashMenuState}
           onSelect={handleSlashMenuSelect}
+          onSizeChange={handleSlashMenuSizeChange}
+          onSizePick={handleSlashMenuSizePick}
+        />
+        <WikiLinkMenu
+          state={wikiLinkMenuState}
+          onSelect={handleWikiLinkSelect}
+        />
+        <EmojiMenu
+          state={emojiMenuState}
+          onSelect={handleEmojiSelect}
+        />
+        <TableToolbar
+          state={tableToolbarState}
+          onCommand={handleTableCommand}
+        />
+        <FormatToolbar
+          state={formatToolbarState}
+          onCommand={handleFormatCommand}
+        />
+        <LinkPopover
+          state={linkPopoverState}
+          filePath={filePath ?? null}
+          notes={notes ?? []}
+          listFiles={listFiles}
+          onApply={(href, title, text) =>
+            handleLinkCommand(setLink(linkPopoverState.from, linkPopoverState.to, href, title, text))}
+          onRemove={() => handleLinkCommand(removeLink(linkPopoverState.from, linkPopoverState.to))}
+          onEdit={() => handleLinkCommand(openLinkEditor)}
+          onOpen={(href) => onOpenLink?.(href)}
+          onClose={() => handleLinkCommand(closeLinkEditor)}
+        />
+        <FindBar
+          state={searchState}
+          onQueryChange={handleSearchQueryChange}
+          onToggleReplace={handleSearchToggleReplace}
+          onToggleInSelection={handleSearchToggleInSelection}
+          onFindNext={() => handleSearchCommand(findNext())}
+          onFindPrevious={() => handleSearchCommand(findPrevious)}
+          onReplace={() => handleSearchCommand(replaceNext)}
+          onReplaceAll={() => handleSearchCommand(replaceAll)}
+          onClose={handleSearchClose}
         />
       </div>
     )
@@ -0,0 +1,71 @@
+/**
+ * Code Block Commands
+ */
+
+import { Command, EditorState } from 'prosemirror-state'
+
+const INDENT = '  '
+
+/**
+ * Returns the start positions of the lines touched by a selection inside a code block,
+ * or null if the selection is not inside a single code block.
+ */
+function selectedLineStarts(state: EditorState): number[] | null {
+  const { $from, $to, from, to } = state.selection
+  if (!$from.parent.type.spec.code || !$from.sameParent($to)) return null
+
+  const start = $from.start()
+  const text = $from.parent.textContent
+  let end = to - start
+  // A selection ending at the very start of a line does not include that line
+  if (to > from && text[end - 1] === '\n') end--
+
+  const starts: number[] = []
+  let lineStart = text.lastIndexOf('\n', from - start - 1) + 1
+  for (;;) {
+    starts.push(start + lineStart)
+    const next = text.indexOf('\n', lineStart)
+    if (next === -1 || next >= end) break
+    lineStart = next + 1
+  }
+  return starts
+}
+
+/**
+ * Indents the selected lines of a code block, or inserts an indent at the cursor.
+ * Returns true for any selection inside a code block so Tab never leaves it.
+ */
+export const indentCode: Command = (state, dispatch) => {
+  const lineStarts = selectedLineStarts(state)
+  if (!lineStarts) return false
+
+  if (dispatch) {
+    const tr = state.tr
+    if (state.selection.empty) {
+      tr.insertText(INDENT)
+    } else {
+      for (const pos of lineStarts.reverse()) tr.insertText(INDENT, pos)
+    }
+    dispatch(tr.scrollIntoView())
+  }
+  return true
+}
+
+/**
+ * Removes one level of indentation (two spaces or a tab) from the selected lines of a code block.
+ */
+export const dedentCode: Command = (state, dispatch) => {
+  const lineStarts = selectedLineStarts(state)
+  if (!lineStarts) return false
+
+  if (dispatch) {
+    const tr = state.tr
+    for (const pos of lineStarts.reverse()) {
+      const line = state.doc.textBetween(pos, Math.min(pos + INDENT.length, state.selection.$from.end()))
+      const remove = line.startsWith('\t') ? 1 : line.length - line.replace(/^ +/, '').length
+      if (remove > 0) tr.delete(pos, pos + remove)
+    }
+    if (tr.docChanged) dispatch(tr.scrollIntoView())
+  }
+  return true
+}
@@ -0,0 +1,28 @@
+/**
+ * Footnote Commands
+ */
+
+import { Command, TextSelection } from 'prosemirror-state'
+import { schema } from '../schema'
+import { nextFootnoteLabel } from '../footnotes'
+
+/**
+ * Inserts a footnote reference at the cursor and an empty definition
+ * at the end of the document, then moves the cursor into the definition.
+ */
+export const insertFootnote: Command = (state, dispatch) => {
+  const { footnote_reference, footnote_definition, paragraph } = schema.nodes
+  const { $from } = state.selection
+  if (!$from.parent.inlineContent || $from.parent.type.spec.code) return false
+
+  if (dispatch) {
+    const label = nextFootnoteLabel(state.doc)
+    const tr = state.tr.replaceSelectionWith(footnote_reference.create({ label }), false)
+
+    const definitionPos = tr.doc.content.size
+    tr.insert(definitionPos, footnote_definition.create({ label }, paragraph.create()))
+    tr.setSelection(TextSelection.create(tr.doc, definitionPos + 2))
+    dispatch(tr.scrollIntoView())
+  }
+  return true
+}
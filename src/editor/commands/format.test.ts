@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { markdownParser } from '../markdown'
+import { schema } from '../schema'
+import { createState, runCommand } from '../../test/commands'
+import { headingLevel, listType, toggleBlockquote, toggleHeading, toggleList } from './format'
+
+describe('Format Commands', () => {
+  it('should toggle headings', () => {
+    const heading = runCommand(createState('Title\n', 1), toggleHeading(2))
+    expect(heading.markdown).toBe('## Title\n')
+    expect(headingLevel(heading.state)).toBe(2)
+    expect(runCommand(createState('## Title\n', 1), toggleHeading(2)).markdown).toBe('Title\n')
+    expect(runCommand(createState('## Title\n', 1), toggleHeading(3)).markdown).toBe('### Title\n')
+  })
+
+  it('should join the lines of wrapped text made an ATX heading', () => {
+    const heading = runCommand(createState('Wrapped para\nsecond line\n', 1), toggleHeading(2)).markdown
+    expect(heading).toBe('## Wrapped para second line\n')
+    expect(runCommand(heading, toggleHeading(2)).markdown).toBe('Wrapped para second line\n')
+    const setext = runCommand(createState('Multi\nline\n=====\n', 1), toggleHeading(3)).markdown
+    expect(setext).toBe('### Multi line\n')
+    expect(markdownParser.parse(setext).childCount).toBe(1)
+  })
+
+  it('should toggle blockquotes', () => {
+    expect(runCommand(createState('Quote\n', 1), toggleBlockquote).markdown).toBe('> Quote\n')
+    expect(runCommand(createState('> Quote\n', 2), toggleBlockquote).markdown).toBe('Quote\n')
+    expect(runCommand(createState('> - Item\n', 4), toggleBlockquote).markdown).toBe('- Item\n')
+  })
+
+  it('should toggle and switch lists', () => {
+    const bullet = runCommand(createState('Item\n', 1), toggleList(schema.nodes.bullet_list))
+    expect(bullet.markdown).toBe('- Item\n')
+    expect(listType(bullet.state)).toBe(schema.nodes.bullet_list)
+    expect(runCommand(createState('- Item\n', 3), toggleList(schema.nodes.bullet_list)).markdown).toBe('Item\n')
+    expect(runCommand(createState('- One\n- Two\n', 3), toggleList(schema.nodes.ordered_list)).markdown).toBe('1. One\n2. Two\n')
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Format Commands
+ *
+ * Block formatting toggles shared by the keymap and the formatting toolbar.
+ * Applying a format the selection already has removes it again.
+ */
+
+import { Command, EditorState } from 'prosemirror-state'
+import { NodeType } from 'prosemirror-model'
+import { setBlockType, wrapIn } from 'prosemirror-commands'
+import { liftListItem, wrapInList } from 'prosemirror-schema-list'
+import { schema } from '../schema'
+
+/**
+ * Returns the depth of the innermost ancestor of the selection start that
+ * matches, or null.
+ */
+function findAncestor(state: EditorState, matches: (type: NodeType) => boolean): number | null {
+  const { $from } = state.selection
+  for (let depth = $from.depth; depth > 0; depth--) {
+    if (matches($from.node(depth).type)) return depth
+  }
+  return null
+}
+
+/**
+ * Returns the level of the heading the selection starts in, or null.
+ */
+export function headingLevel(state: EditorState): number | null {
+  const { parent } = state.selection.$from
+  return parent.type === schema.nodes.heading ? parent.attrs.level : null
+}
+
+export function isInBlockquote(state: EditorState): boolean {
+  return findAncestor(state, type => type === schema.nodes.blockquote) !== null
+}
+
+/**
+ * Returns the type of the innermost list the selection starts in, or null.
+ */
+export function listType(state: EditorState): NodeType | null {
+  const depth = findAncestor(state, type => type === schema.nodes.bullet_list || type === schema.nodes.ordered_list)
+  return depth === null ? null : state.selection.$from.node(depth).type
+}
+
+// Toggle heading at a specific level
+export function toggleHeading(level: number): Command {
+  return (state, dispatch) => {
+    if (headingLevel(state) === level) {
+      return setBlockType(schema.nodes.paragraph)(state, dispatch)
+    }
+    return setBlockType(schema.nodes.heading, { level })(state, dispatch)
+  }
+}
+
+/**
+ * Wraps the selected blocks in a blockquote, or lifts them out of the
+ * blockquote they are in.
+ */
+export const toggleBlockquote: Command = (state, dispatch) => {
+  if (!isInBlockquote(state)) return wrapIn(schema.nodes.blockquote)(state, dispatch)
+
+  const { $from, $to } = state.selection
+  const range = $from.blockRange($to, node => node.type === schema.nodes.blockquote)
+  if (!range) return false
+  // Blockquotes only sit where any block can, so their content fits one level up
+  if (dispatch) dispatch(state.tr.lift(range, range.depth - 1).scrollIntoView())
+  return true
+}
+
+/**
+ * Wraps the selected blocks in a list of the given type. Inside a list of
+ * that type the items are lifted out of it; inside a list of the other type
+ * the list changes type.
+ */
+export function toggleList(type: NodeType): Command {
+  return (state, dispatch) => {
+    const depth = findAncestor(state, nodeType => nodeType === schema.nodes.bullet_list || nodeType === schema.nodes.ordered_list)
+    if (depth === null) return wrapInList(type)(state, dispatch)
+
+    const list = state.selection.$from.node(depth)
+    if (list.type === type) return liftListItem(schema.nodes.list_item)(state, dispatch)
+
+    if (dispatch) {
+      const pos = state.selection.$from.before(depth)
+      dispatch(state.tr.setNodeMarkup(pos, type, { tight: list.attrs.tight }).scrollIntoView())
+    }
+    return true
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Front Matter Commands
+ */
+
+import { Command } from 'prosemirror-state'
+import { schema } from '../schema'
+
+/**
+ * Adds an empty front matter block at the top of the document.
+ * Does nothing if the document already has front matter.
+ */
+export const insertFrontMatter: Command = (state, dispatch) => {
+  if (state.doc.firstChild?.type === schema.nodes.front_matter) return false
+
+  if (dispatch) {
+    dispatch(state.tr.insert(0, schema.nodes.front_matter.create({ yaml: 'title: ""' })).scrollIntoView())
+  }
+  return true
+}
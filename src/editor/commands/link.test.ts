@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { markdownParser } from '../markdown'
+import { runCommand } from '../../test/commands'
+import { findLink, removeLink, setLink } from './link'
+
+const DOC = 'See [the docs](https://x.dev "Docs") now\n'
+
+// Positions of "the docs" in DOC
+const LINK_FROM = 5
+const LINK_TO = 13
+
+describe('Link Commands', () => {
+  it('should find the whole link around a position', () => {
+    const doc = markdownParser.parse(DOC)
+    for (const pos of [LINK_FROM, 8, LINK_TO]) {
+      const link = findLink(doc.resolve(pos))
+      expect(link && [link.from, link.to, link.mark.attrs.href, link.mark.attrs.title])
+        .toEqual([LINK_FROM, LINK_TO, 'https://x.dev', 'Docs'])
+    }
+    expect(findLink(doc.resolve(2))).toBeNull()
+  })
+
+  it('should link the selected text or insert a new link', () => {
+    expect(runCommand('Read this\n', setLink(6, 10, 'notes/a%20b.md', '')).markdown).toBe('Read [this](notes/a%20b.md)\n')
+    expect(runCommand('Read\n', setLink(5, 5, 'https://x.dev', '', 'site')).markdown).toBe('Read[site](https://x.dev)\n')
+    expect(runCommand('Read\n', setLink(5, 5, 'https://x.dev', '')).markdown).toBe('Read<https://x.dev>\n')
+  })
+
+  it('should change and remove links', () => {
+    expect(runCommand(DOC, setLink(LINK_FROM, LINK_TO, '#intro', 'Intro')).markdown)
+      .toBe('See [the docs](#intro "Intro") now\n')
+    expect(runCommand(DOC, removeLink(LINK_FROM, LINK_TO)).markdown).toBe('See the docs now\n')
+    expect(runCommand(DOC, removeLink(1, 4)).applied).toBe(false)
+  })
+
+  it('should not link inside code blocks', () => {
+    expect(runCommand('```\ncode\n```\n', setLink(1, 5, 'https://x.dev', '')).applied).toBe(false)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Link Commands
+ *
+ * Creating, changing and removing links. A link covers the whole run of text
+ * carrying the same `link` mark, which is what the link popover edits.
+ */
+
+import { Command, TextSelection } from 'prosemirror-state'
+import { Mark, ResolvedPos } from 'prosemirror-model'
+import { schema } from '../schema'
+
+export interface LinkRange {
+  from: number
+  to: number
+  mark: Mark
+}
+
+/**
+ * Finds the link at a position, including positions right before or after it.
+ */
+export function findLink($pos: ResolvedPos): LinkRange | null {
+  const type = schema.marks.link
+  const mark = type.isInSet($pos.nodeAfter?.marks ?? []) ?? type.isInSet($pos.nodeBefore?.marks ?? [])
+  if (!mark) return null
+
+  const start = $pos.start()
+  let range: LinkRange | null = null
+  let runStart = -1
+  $pos.parent.forEach((child, offset) => {
+    if (!mark.isInSet(child.marks)) {
+      runStart = -1
+      return
+    }
+    const childStart = start + offset
+    if (runStart < 0) runStart = childStart
+    if (runStart <= $pos.pos && childStart + child.nodeSize >= $pos.pos) {
+      range = { from: runStart, to: childStart + child.nodeSize, mark }
+    }
+  })
+  return range
+}
+
+/**
+ * Whether links can be added in the textblock holding the range.
+ */
+export function canLink($from: ResolvedPos, $to: ResolvedPos): boolean {
+  return $from.sameParent($to) && $from.parent.inlineContent && $from.parent.type.allowsMarkType(schema.marks.link)
+}
+
+/**
+ * Links the text between `from` and `to`, replacing any link on it. For an
+ * empty range, `text` (or the href itself) is inserted as the link text.
+ * The cursor is put after the link.
+ */
+export function setLink(from: number, to: number, href: string, title: string, text?: string): Command {
+  return (state, dispatch) => {
+    const $from = state.doc.resolve(from)
+    if (!href || !canLink($from, state.doc.resolve(to))) return false
+
+    if (dispatch) {
+      const link = schema.marks.link.create({ href, title: title || null })
+      const tr = state.tr
+      let end = to
+      if (from === to) {
+        const content = text || href
+        tr.insert(from, schema.text(content, link.addToSet($from.marks())))
+        end = from + content.length
+      } else {
+        tr.removeMark(from, to, schema.marks.link).addMark(from, to, link)
+      }
+      tr.setSelection(TextSelection.create(tr.doc, end))
+      dispatch(tr.scrollIntoView())
+    }
+    return true
+  }
+}
+
+export function removeLink(from: number, to: number): Command {
+  return (state, dispatch) => {
+    if (!state.doc.rangeHasMark(from, to, schema.marks.link)) return false
+    if (dispatch) dispatch(state.tr.removeMark(from, to, schema.marks.link))
+    return true
+  }
+}
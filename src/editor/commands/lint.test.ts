@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { lintDocument, lintMarkdown } from '../lint'
+import { createState, runCommand } from '../../test/commands'
+import { fixAllLintProblems, fixLintProblems } from './lint'
+
+function fixAll(markdown: string, config = {}) {
+  return runCommand(markdown, fixAllLintProblems(config))
+}
+
+describe('Lint Commands', () => {
+  it('should fix heading levels, trailing punctuation and duplicates at once', () => {
+    const { applied, markdown } = fixAll('# Title\n\n### Skipped:\n\n## Notes\n\n## Notes!!\n\n## Notes\n')
+    expect(applied).toBe(true)
+    expect(markdown).toBe('# Title\n\n## Skipped\n\n## Notes\n\n## Notes (2)\n\n## Notes (3)\n')
+    expect(lintMarkdown(markdown, {})).toEqual([])
+  })
+
+  it('should fix a single problem', () => {
+    const state = createState('# Title\n\n### One:\n\n### Two:\n')
+    const [problem] = lintDocument(state.doc, {})
+    expect(runCommand(state, fixLintProblems([problem])).markdown).toBe('# Title\n\n## One:\n\n### Two:\n')
+  })
+
+  it('should keep inline nodes at the end of a heading', () => {
+    const { markdown } = fixAll('# Title $x$.\n')
+    expect(markdown).toBe('# Title $x$\n')
+    expect(fixAll('# Title $x$\n').applied).toBe(false)
+  })
+
+  it('should do nothing without fixable problems', () => {
+    expect(fixAll('Text\n').applied).toBe(false)
+  })
+})
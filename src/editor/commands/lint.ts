@@ -0,0 +1,87 @@
+/**
+ * Lint Commands
+ *
+ * Quick fixes for lint problems. All of them change headings: their level,
+ * punctuation at their end, or text appended to tell duplicates apart.
+ */
+
+import { Command, Transaction } from 'prosemirror-state'
+import { schema } from '../schema'
+import { LintConfig, LintFix, lintDocument } from '../lint'
+
+interface FixableProblem {
+  pos: number
+  fix?: LintFix
+}
+
+function applyFix(tr: Transaction, pos: number, fix: LintFix) {
+  const node = tr.doc.nodeAt(pos)
+  if (node?.type !== schema.nodes.heading) return
+  const end = pos + node.nodeSize - 1
+
+  switch (fix.kind) {
+    case 'headingLevel':
+      tr.setNodeMarkup(pos, undefined, { ...node.attrs, level: fix.level })
+      break
+    case 'trimEnd': {
+      // Only text at the end of the heading is trimmed, not inline nodes
+      const last = node.lastChild
+      let length = 0
+      while (last?.isText && length < last.text!.length && fix.punctuation.includes(last.text![last.text!.length - 1 - length])) {
+        length++
+      }
+      if (length > 0) tr.delete(end - length, end)
+      break
+    }
+    case 'appendText':
+      tr.insertText(fix.text, end)
+      break
+  }
+}
+
+// Fixes are applied from the end of the document, so earlier positions stay valid
+function applyFixes(tr: Transaction, problems: FixableProblem[]) {
+  const fixable = problems.filter(problem => problem.fix).sort((a, b) => b.pos - a.pos)
+  for (const problem of fixable) applyFix(tr, problem.pos, problem.fix!)
+}
+
+// Passes of Fix All, in case fixes keep causing new problems
+const MAX_FIX_PASSES = 5
+
+/**
+ * Applies the quick fixes of problems in one transaction.
+ */
+export function fixLintProblems(problems: FixableProblem[]): Command {
+  return (state, dispatch) => {
+    const tr = state.tr
+    applyFixes(tr, problems)
+    if (!tr.docChanged) return false
+
+    if (dispatch) dispatch(tr)
+    return true
+  }
+}
+
+/**
+ * Fixes every fixable problem of the document in one transaction. The
+ * document is linted again after each pass until nothing changes, as fixes
+ * can cause new problems: trimming `Notes!` can make it a duplicate of `Notes`.
+ * Duplicates are only renamed once the other fixes are done, so the numbers
+ * they get are unique among the final headings.
+ */
+export function fixAllLintProblems(config: LintConfig): Command {
+  return (state, dispatch) => {
+    const tr = state.tr
+    for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+      const problems = lintDocument(tr.doc, config)
+      const before = tr.doc
+      applyFixes(tr, problems.filter(problem => problem.fix?.kind !== 'appendText'))
+      if (tr.doc.eq(before)) applyFixes(tr, problems)
+      if (tr.doc.eq(before)) break
+    }
+    if (!tr.docChanged) return false
+
+    if (dispatch) dispatch(tr)
+    return true
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Math Commands
+ */
+
+import { Command, NodeSelection } from 'prosemirror-state'
+import { schema } from '../schema'
+
+/**
+ * Inserts a display math block, replacing the current textblock if it is empty
+ * and adding it after the textblock otherwise. The new block is selected,
+ * which opens its TeX source for editing.
+ */
+export const insertMathBlock: Command = (state, dispatch) => {
+  const { math_block } = schema.nodes
+  const { $from } = state.selection
+  if (!$from.parent.isTextblock || $from.depth === 0) return false
+
+  const parent = $from.node(-1)
+  const index = $from.index(-1)
+  const replace = $from.parent.content.size === 0 && parent.canReplaceWith(index, index + 1, math_block)
+  if (!replace && !parent.canReplaceWith(index + 1, index + 1, math_block)) return false
+
+  if (dispatch) {
+    const pos = replace ? $from.before() : $from.after()
+    const tr = replace
+      ? state.tr.replaceWith(pos, $from.after(), math_block.create())
+      : state.tr.insert(pos, math_block.create())
+    tr.setSelection(NodeSelection.create(tr.doc, pos))
+    dispatch(tr.scrollIntoView())
+  }
+  return true
+}
+
+/**
+ * Inserts inline math at the cursor, using the selected text as the TeX source.
+ * The new node is selected, which opens its source for editing.
+ */
+export const insertMathInline: Command = (state, dispatch) => {
+  const { $from, from, to } = state.selection
+  if (!$from.parent.inlineContent || $from.parent.type.spec.code) return false
+
+  if (dispatch) {
+    const tex = state.doc.textBetween(from, to)
+    const tr = state.tr.replaceSelectionWith(schema.nodes.math_inline.create({ tex }), false)
+    tr.setSelection(NodeSelection.create(tr.doc, from))
+    dispatch(tr.scrollIntoView())
+  }
+  return true
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { markdownParser } from '../markdown'
+import { runCommand } from '../../test/commands'
+import { getOutline, moveSection } from './outline'
+
+const DOC = '# A\n\na\n\n## A1\n\na1\n\n# B\n\nb\n\n> # Quoted\n\n# C\n'
+
+function headingPos(text: string) {
+  return getOutline(markdownParser.parse(DOC)).find(heading => heading.text === text)!.pos
+}
+
+describe('Outline Commands', () => {
+  it('should list top-level headings with their sections', () => {
+    const doc = markdownParser.parse(DOC)
+    const outline = getOutline(doc)
+    expect(outline.map(h => [h.text, h.level])).toEqual([['A', 1], ['A1', 2], ['B', 1], ['C', 1]])
+    // A's section takes in its subsection, A1's ends at the next level 1 heading
+    expect(outline[0].end).toBe(outline[2].pos)
+    expect(outline[1].end).toBe(outline[2].pos)
+    expect(outline[3].end).toBe(doc.content.size)
+  })
+
+  it('should move a section with its subsections', () => {
+    const { applied, markdown, state } = runCommand(DOC, moveSection(headingPos('A'), headingPos('C')))
+    expect(applied).toBe(true)
+    expect(markdown).toBe('# B\n\nb\n\n> # Quoted\n\n# A\n\na\n\n## A1\n\na1\n\n# C\n')
+    expect(state.selection.$from.parent.textContent).toBe('A')
+  })
+
+  it('should move a section to the end of the document', () => {
+    const { markdown } = runCommand(DOC, moveSection(headingPos('A1'), null))
+    expect(markdown).toBe('# A\n\na\n\n# B\n\nb\n\n> # Quoted\n\n# C\n\n## A1\n\na1\n')
+  })
+
+  it('should not move a section into itself or to a non-heading position', () => {
+    expect(runCommand(DOC, moveSection(headingPos('A'), headingPos('A1'))).applied).toBe(false)
+    expect(runCommand(DOC, moveSection(headingPos('C'), null)).applied).toBe(false)
+    expect(runCommand(DOC, moveSection(headingPos('B'), 1)).applied).toBe(false)
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * Outline Commands
+ *
+ * The outline is made of the top-level headings of the document. A heading's
+ * section runs from the heading up to the next heading of the same or a higher
+ * level, so moving a section takes its subsections along.
+ */
+
+import { Command, TextSelection } from 'prosemirror-state'
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { schema } from '../schema'
+
+export interface OutlineHeading {
+  pos: number
+  // End of the heading's section
+  end: number
+  level: number
+  text: string
+}
+
+/**
+ * Lists the top-level headings of a document with the extent of their sections.
+ */
+export function getOutline(doc: ProseMirrorNode): OutlineHeading[] {
+  const headings: OutlineHeading[] = []
+  doc.forEach((node, pos) => {
+    if (node.type !== schema.nodes.heading) return
+    headings.push({ pos, end: doc.content.size, level: node.attrs.level, text: node.textContent })
+  })
+
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(other => other.level <= heading.level)
+    if (next) heading.end = next.pos
+  })
+  return headings
+}
+
+/**
+ * Moves the section of the heading at `from` to the top-level position `to`,
+ * which is the start of another heading or null for the end of the document.
+ * The cursor is put at the start of the moved heading.
+ */
+export function moveSection(from: number, to: number | null): Command {
+  return (state, dispatch) => {
+    const section = getOutline(state.doc).find(heading => heading.pos === from)
+    const target = to ?? state.doc.content.size
+    if (!section || (target >= section.pos && target <= section.end)) return false
+
+    const $target = state.doc.resolve(target)
+    if ($target.depth !== 0 || (target < state.doc.content.size && $target.nodeAfter?.type !== schema.nodes.heading)) {
+      return false
+    }
+
+    if (dispatch) {
+      const content = state.doc.slice(section.pos, section.end).content
+      const tr = state.tr.delete(section.pos, section.end)
+      const insertAt = tr.mapping.map(target)
+      tr.insert(insertAt, content)
+      tr.setSelection(TextSelection.create(tr.doc, insertAt + 1))
+      dispatch(tr.scrollIntoView())
+    }
+    return true
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { markdownParser } from '../markdown'
+import { createState, runCommand } from '../../test/commands'
+import {
+  addColumnAfter,
+  addRowBefore,
+  deleteColumn,
+  deleteRow,
+  findTable,
+  goToCell,
+  insertTable,
+  moveRowDown,
+  setColumnAlignment,
+  toggleHeaderRow
+} from './table'
+
+const TABLE = '| a | b |\n| - | - |\n| 1 | 2 |\n| 3 | 4 |\n'
+
+/**
+ * Creates a state for the markdown with the cursor in the cell containing `text`.
+ */
+function stateAt(markdown: string, text: string) {
+  const doc = markdownParser.parse(markdown)
+  let pos = -1
+  doc.descendants((node, nodePos) => {
+    if (pos < 0 && node.isText && node.text === text) pos = nodePos
+  })
+  return createState(markdown, pos)
+}
+
+describe('Table Commands', () => {
+  it('should find the row and column of the cursor', () => {
+    const context = findTable(stateAt(TABLE, '3').selection.$from)
+    expect(context?.row).toBe(2)
+    expect(context?.col).toBe(0)
+  })
+
+  it('should insert a table with a header row', () => {
+    const { markdown, state: result } = runCommand(createState(''), insertTable({ rows: 2, cols: 3 }))
+    expect(markdown).toBe('|     |     |     |\n| --- | --- | --- |\n|     |     |     |')
+    expect(findTable(result.selection.$from)).toMatchObject({ row: 0, col: 0 })
+  })
+
+  it('should add and delete rows and columns', () => {
+    expect(runCommand(stateAt(TABLE, '1'), addRowBefore).markdown).toBe(
+      '| a   | b   |\n| --- | --- |\n|     |     |\n| 1   | 2   |\n| 3   | 4   |\n'
+    )
+    expect(runCommand(stateAt(TABLE, '1'), addColumnAfter).markdown).toBe(
+      '| a   |     | b   |\n| --- | --- | --- |\n| 1   |     | 2   |\n| 3   |     | 4   |\n'
+    )
+    expect(runCommand(stateAt(TABLE, '1'), deleteRow).markdown).toBe('| a   | b   |\n| --- | --- |\n| 3   | 4   |\n')
+    expect(runCommand(stateAt(TABLE, '1'), deleteColumn).markdown).toBe('| b   |\n| --- |\n| 2   |\n| 4   |\n')
+  })
+
+  it('should keep at least one body row', () => {
+    expect(runCommand(stateAt('| a |\n| - |\n| 1 |\n', '1'), deleteRow).applied).toBe(false)
+  })
+
+  it('should move rows and swap the header row', () => {
+    expect(runCommand(stateAt(TABLE, '1'), moveRowDown).markdown).toBe(
+      '| a   | b   |\n| --- | --- |\n| 3   | 4   |\n| 1   | 2   |\n'
+    )
+    expect(runCommand(stateAt(TABLE, '3'), toggleHeaderRow).markdown).toBe(
+      '| 3   | 4   |\n| --- | --- |\n| a   | b   |\n| 1   | 2   |\n'
+    )
+  })
+
+  it('should set the alignment of a column', () => {
+    expect(runCommand(stateAt(TABLE, '2'), setColumnAlignment('center')).markdown).toBe(
+      '| a   | b   |\n| --- | :-: |\n| 1   | 2   |\n| 3   | 4   |\n'
+    )
+  })
+
+  it('should move between cells and add a row after the last cell', () => {
+    const next = runCommand(stateAt(TABLE, '2'), goToCell(1)).state
+    expect(findTable(next.selection.$from)).toMatchObject({ row: 2, col: 0 })
+    expect(next.doc.textBetween(next.selection.from, next.selection.to)).toBe('3')
+
+    const added = runCommand(stateAt(TABLE, '4'), goToCell(1))
+    expect(findTable(added.state.selection.$from)).toMatchObject({ row: 3, col: 0 })
+    expect(added.markdown.split('\n')).toHaveLength(6)
+  })
+
+  it('should escape pipes typed into cells', () => {
+    const state = stateAt(TABLE, '1')
+    const { markdown } = runCommand(state, (s, dispatch) => {
+      dispatch?.(s.tr.insertText('a|b', s.selection.from, s.selection.from + 1))
+      return true
+    })
+    expect(markdown).toContain('| a\\|b | 2   |')
+  })
+})
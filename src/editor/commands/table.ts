@@ -0,0 +1,301 @@
+/**
+ * Table Commands
+ *
+ * Markdown tables are plain grids: the first row is always the header row and
+ * cells cannot span rows or columns. The commands below therefore read the table
+ * into a grid of cells, restructure the grid, and write the whole table back,
+ * moving the cursor to the cell it belongs in afterwards.
+ */
+
+import { Command, EditorState, TextSelection, Transaction } from 'prosemirror-state'
+import { Attrs, Node as ProseMirrorNode, ResolvedPos } from 'prosemirror-model'
+import { schema } from '../schema'
+
+export type ColumnAlignment = 'left' | 'center' | 'right' | null
+
+export interface TableSize {
+  rows: number
+  cols: number
+}
+
+interface TableContext {
+  table: ProseMirrorNode
+  pos: number
+  grid: ProseMirrorNode[][]
+  row: number
+  col: number
+}
+
+/**
+ * Finds the table around a position, along with the row and column of the cell it is in.
+ */
+export function findTable($pos: ResolvedPos): TableContext | null {
+  for (let depth = $pos.depth; depth > 2; depth--) {
+    const cell = $pos.node(depth)
+    if (cell.type !== schema.nodes.table_cell && cell.type !== schema.nodes.table_header) continue
+
+    const table = $pos.node(depth - 3)
+    // Rows are numbered across the head and body sections
+    let row = $pos.index(depth - 2)
+    for (let i = 0; i < $pos.index(depth - 3); i++) row += table.child(i).childCount
+    return { table, pos: $pos.before(depth - 3), grid: tableGrid(table), row, col: $pos.index(depth - 1) }
+  }
+  return null
+}
+
+export function isInTable(state: EditorState) {
+  return findTable(state.selection.$from) !== null
+}
+
+function tableGrid(table: ProseMirrorNode) {
+  const grid: ProseMirrorNode[][] = []
+  table.forEach(section => section.forEach(row => {
+    const cells: ProseMirrorNode[] = []
+    row.forEach(cell => cells.push(cell))
+    grid.push(cells)
+  }))
+  return grid
+}
+
+function emptyCell(alignment: ColumnAlignment = null) {
+  return schema.nodes.table_cell.create({ alignment })
+}
+
+/**
+ * Builds a table from a grid of cells. The first row becomes the header row,
+ * and short rows are padded so every row has the same number of cells.
+ */
+function buildTable(attrs: Attrs | null, grid: ProseMirrorNode[][]) {
+  const { table, table_head, table_body, table_row, table_header, table_cell } = schema.nodes
+  const cols = Math.max(...grid.map(cells => cells.length))
+  const rows = grid.map((cells, index) => {
+    const type = index === 0 ? table_header : table_cell
+    const padded = [...cells]
+    while (padded.length < cols) padded.push(emptyCell(grid[0][padded.length]?.attrs.alignment))
+    return table_row.create(null, padded.map(cell => type.create(cell.attrs, cell.content, cell.marks)))
+  })
+  return table.create(attrs, [table_head.create(null, rows[0]), table_body.create(null, rows.slice(1))])
+}
+
+/**
+ * Returns the position of the start of a cell's content in a table at `tablePos`.
+ */
+function cellStart(table: ProseMirrorNode, tablePos: number, row: number, col: number) {
+  let pos = tablePos + 1
+  let index = 0
+  let result = -1
+  table.forEach(section => {
+    let rowPos = pos + 1
+    section.forEach(rowNode => {
+      if (index++ === row) {
+        let cellPos = rowPos + 1
+        rowNode.forEach((cell, _offset, i) => {
+          if (i < col) cellPos += cell.nodeSize
+        })
+        result = cellPos + 1
+      }
+      rowPos += rowNode.nodeSize
+    })
+    pos += section.nodeSize
+  })
+  return result
+}
+
+/**
+ * Puts the cursor in a cell of the table at `tablePos`, selecting the cell's text if `selectText` is set.
+ */
+function selectCell(tr: Transaction, tablePos: number, row: number, col: number, selectText = false) {
+  const table = tr.doc.nodeAt(tablePos)
+  if (!table) return tr
+  const start = cellStart(table, tablePos, row, col)
+  if (start < 0) return tr
+  const end = selectText ? start + tr.doc.resolve(start).parent.content.size : start
+  return tr.setSelection(TextSelection.create(tr.doc, start, end))
+}
+
+/**
+ * Creates a command that rewrites the table around the cursor. `change` edits
+ * the grid in place and returns the cell to put the cursor in, or false if the
+ * change does not apply.
+ */
+function tableCommand(change: (context: TableContext) => { row: number, col: number } | false): Command {
+  return (state, dispatch) => {
+    const context = findTable(state.selection.$from)
+    if (!context) return false
+
+    const grid = context.grid.map(cells => [...cells])
+    const target = change({ ...context, grid })
+    if (!target) return false
+
+    if (dispatch) {
+      const { table, pos } = context
+      const tr = state.tr.replaceWith(pos, pos + table.nodeSize, buildTable(table.attrs, grid))
+      dispatch(selectCell(tr, pos, target.row, target.col).scrollIntoView())
+    }
+    return true
+  }
+}
+
+function columnAlignments(grid: ProseMirrorNode[][]) {
+  return grid[0].map(cell => cell.attrs.alignment as ColumnAlignment)
+}
+
+function addRow(side: 0 | 1): Command {
+  return tableCommand(({ grid, row, col }) => {
+    const index = row + side
+    grid.splice(index, 0, columnAlignments(grid).map(emptyCell))
+    return { row: index, col }
+  })
+}
+
+/** Inserts an empty row above the current one. Inserting above the header row makes the new row the header. */
+export const addRowBefore = addRow(0)
+export const addRowAfter = addRow(1)
+
+/**
+ * Deletes the current row. A table keeps at least a header row and one body row,
+ * so deleting the header row promotes the first body row to header.
+ */
+export const deleteRow = tableCommand(({ grid, row, col }) => {
+  if (grid.length <= 2) return false
+  grid.splice(row, 1)
+  return { row: Math.min(row, grid.length - 1), col }
+})
+
+function moveRow(direction: -1 | 1): Command {
+  return tableCommand(({ grid, row, col }) => {
+    const target = row + direction
+    if (target < 0 || target >= grid.length) return false
+    ;[grid[row], grid[target]] = [grid[target], grid[row]]
+    return { row: target, col }
+  })
+}
+
+export const moveRowUp = moveRow(-1)
+export const moveRowDown = moveRow(1)
+
+/**
+ * Makes the current row the header row, moving the old header to the top of the body.
+ * On the header row itself, it swaps the header with the first body row instead.
+ */
+export const toggleHeaderRow = tableCommand(({ grid, row, col }) => {
+  if (grid.length < 2) return false
+  const target = row === 0 ? 1 : 0
+  const [moved] = grid.splice(row, 1)
+  grid.splice(target, 0, moved)
+  return { row: target, col }
+})
+
+function addColumn(side: 0 | 1): Command {
+  return tableCommand(({ grid, row, col }) => {
+    const index = col + side
+    for (const cells of grid) cells.splice(index, 0, emptyCell())
+    return { row, col: index }
+  })
+}
+
+export const addColumnBefore = addColumn(0)
+export const addColumnAfter = addColumn(1)
+
+export const deleteColumn = tableCommand(({ grid, row, col }) => {
+  if (grid[0].length <= 1) return false
+  for (const cells of grid) cells.splice(col, 1)
+  return { row, col: Math.min(col, grid[0].length - 1) }
+})
+
+/**
+ * Sets the alignment of the current column, written to markdown as `:--`, `:-:` or `--:`.
+ */
+export function setColumnAlignment(alignment: ColumnAlignment): Command {
+  return tableCommand(({ grid, row, col }) => {
+    if (grid[0][col]?.attrs.alignment === alignment) return false
+    for (const cells of grid) {
+      const cell = cells[col]
+      if (cell) cells[col] = cell.type.create({ ...cell.attrs, alignment }, cell.content, cell.marks)
+    }
+    return { row, col }
+  })
+}
+
+/**
+ * Returns the alignment of the column the cursor is in, or undefined outside tables.
+ */
+export function currentColumnAlignment(state: EditorState): ColumnAlignment | undefined {
+  const context = findTable(state.selection.$from)
+  if (!context) return undefined
+  return context.grid[0][context.col]?.attrs.alignment ?? null
+}
+
+export const deleteTable: Command = (state, dispatch) => {
+  const context = findTable(state.selection.$from)
+  if (!context) return false
+
+  if (dispatch) {
+    const { table, pos } = context
+    const tr = state.tr.replaceWith(pos, pos + table.nodeSize, schema.nodes.paragraph.create())
+    tr.setSelection(TextSelection.create(tr.doc, pos + 1))
+    dispatch(tr.scrollIntoView())
+  }
+  return true
+}
+
+/**
+ * Moves to the next or previous cell, selecting its text. Moving past the last
+ * cell adds a new row. Returns true anywhere in a table so Tab never leaves it.
+ */
+export function goToCell(direction: -1 | 1): Command {
+  return (state, dispatch) => {
+    const context = findTable(state.selection.$from)
+    if (!context) return false
+
+    const { grid, row, col, pos } = context
+    const cols = grid[0].length
+    const index = row * cols + col + direction
+    if (index < 0) return true
+
+    if (index >= grid.length * cols) {
+      return addRowAfter(state, dispatch && (tr => dispatch(selectCell(tr, pos, row + 1, 0))))
+    }
+
+    if (dispatch) {
+      dispatch(selectCell(state.tr, pos, Math.floor(index / cols), index % cols, true).scrollIntoView())
+    }
+    return true
+  }
+}
+
+/**
+ * Creates an empty table with a header row, `rows - 1` body rows and `cols` columns.
+ */
+export function createTable({ rows, cols }: TableSize) {
+  const grid = Array.from({ length: Math.max(2, rows) }, () =>
+    Array.from({ length: Math.max(1, cols) }, () => emptyCell())
+  )
+  return buildTable(null, grid)
+}
+
+/**
+ * Inserts an empty table, replacing the current textblock if it is empty and
+ * adding it after the textblock otherwise. The cursor goes to the first header cell.
+ */
+export function insertTable(size: TableSize): Command {
+  return (state, dispatch) => {
+    const { $from } = state.selection
+    if (!$from.parent.isTextblock || $from.depth === 0) return false
+
+    const table = createTable(size)
+    const parent = $from.node(-1)
+    const index = $from.index(-1)
+    const replace = $from.parent.content.size === 0 && parent.canReplaceWith(index, index + 1, table.type)
+    if (!replace && !parent.canReplaceWith(index + 1, index + 1, table.type)) return false
+
+    if (dispatch) {
+      const pos = replace ? $from.before() : $from.after()
+      const tr = replace
+        ? state.tr.replaceWith(pos, $from.after(), table)
+        : state.tr.insert(pos, table)
+      dispatch(selectCell(tr, pos, 0, 0).scrollIntoView())
+    }
+    return true
+  }
+}
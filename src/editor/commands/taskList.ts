@@ -0,0 +1,89 @@
+/**
+ * Task List Commands
+ *
+ * Commands for GFM task list items. A task item is a regular `list_item`
+ * whose `checked` attribute is a boolean instead of null.
+ */
+
+import { Command, EditorState } from 'prosemirror-state'
+import { ResolvedPos } from 'prosemirror-model'
+import { splitListItem, wrapInList } from 'prosemirror-schema-list'
+import { schema } from '../schema'
+
+/**
+ * Finds the depth of the closest list item around a resolved position.
+ * Returns -1 when the position is not inside a list item.
+ */
+function findListItemDepth($pos: ResolvedPos): number {
+  for (let depth = $pos.depth; depth > 0; depth--) {
+    if ($pos.node(depth).type === schema.nodes.list_item) {
+      return depth
+    }
+  }
+  return -1
+}
+
+/**
+ * Returns true if the selection is inside a task list item.
+ */
+export function isInTaskItem(state: EditorState): boolean {
+  const { $from } = state.selection
+  const depth = findListItemDepth($from)
+  return depth !== -1 && $from.node(depth).attrs.checked !== null
+}
+
+/**
+ * Toggles the checkbox of the task item containing the selection.
+ */
+export const toggleTaskItem: Command = (state, dispatch) => {
+  const { $from } = state.selection
+  const depth = findListItemDepth($from)
+  if (depth === -1) return false
+
+  const item = $from.node(depth)
+  if (item.attrs.checked === null) return false
+
+  if (dispatch) {
+    dispatch(state.tr.setNodeMarkup($from.before(depth), undefined, {
+      ...item.attrs,
+      checked: !item.attrs.checked
+    }))
+  }
+  return true
+}
+
+/**
+ * Wraps the selection in a bullet list whose item is an unchecked task.
+ * If the selection is already in a regular list item, that item becomes a task.
+ */
+export const wrapInTaskList: Command = (state, dispatch) => {
+  const { $from } = state.selection
+  const depth = findListItemDepth($from)
+
+  if (depth !== -1) {
+    const item = $from.node(depth)
+    if (item.attrs.checked !== null) return false
+    if (dispatch) {
+      dispatch(state.tr.setNodeMarkup($from.before(depth), undefined, { ...item.attrs, checked: false }))
+    }
+    return true
+  }
+
+  return wrapInList(schema.nodes.bullet_list)(state, dispatch && (tr => {
+    const $pos = tr.selection.$from
+    const itemDepth = findListItemDepth($pos)
+    if (itemDepth !== -1) {
+      tr.setNodeMarkup($pos.before(itemDepth), undefined, { ...$pos.node(itemDepth).attrs, checked: false })
+    }
+    dispatch(tr)
+  }))
+}
+
+/**
+ * Splits a list item on Enter. New items created from a task item
+ * start out as unchecked tasks, so checklists can be typed continuously.
+ */
+export const splitListItemKeepingTask: Command = (state, dispatch) => {
+  const itemAttrs = isInTaskItem(state) ? { checked: false } : undefined
+  return splitListItem(schema.nodes.list_item, itemAttrs)(state, dispatch)
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { isDiagramLanguage, renderDiagram } from './diagrams'
+
+describe('Diagrams', () => {
+  it('should recognize mermaid code blocks', () => {
+    expect(isDiagramLanguage('mermaid')).toBe(true)
+    expect(isDiagramLanguage('Mermaid')).toBe(true)
+    expect(isDiagramLanguage('mermaid title="Flow"')).toBe(true)
+  })
+
+  it('should not treat other languages as diagrams', () => {
+    expect(isDiagramLanguage('')).toBe(false)
+    expect(isDiagramLanguage('javascript')).toBe(false)
+    expect(isDiagramLanguage('mermaidjs')).toBe(false)
+  })
+
+  it('should reject unsupported languages', async () => {
+    await expect(renderDiagram('python', 'print(1)')).rejects.toThrow('Unsupported diagram language')
+  })
+})
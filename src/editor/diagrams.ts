@@ -0,0 +1,53 @@
+/**
+ * Diagram Rendering
+ *
+ * Renders diagram code blocks (```` ```mermaid ````) to SVG. Shared by the
+ * code block node view and the markdown preview so both show the same output;
+ * PDF export prints the editor, so it gets the same diagrams too.
+ * Mermaid is loaded on first use to keep it out of the startup bundle.
+ */
+
+const DIAGRAM_LANGUAGES = ['mermaid']
+const CACHE_SIZE = 50
+
+const cache = new Map<string, string>()
+let renderCount = 0
+
+/**
+ * Returns true if code blocks in the given language are rendered as diagrams.
+ * Only the first word of the info string counts (```` ```mermaid title ```` is mermaid).
+ */
+export function isDiagramLanguage(language: string): boolean {
+  return DIAGRAM_LANGUAGES.includes(language.trim().split(/\s/)[0].toLowerCase())
+}
+
+/**
+ * Renders diagram source to an SVG string, matching the current light/dark theme.
+ * Rejects with the renderer's message when the source is invalid.
+ */
+export async function renderDiagram(language: string, source: string): Promise<string> {
+  if (!isDiagramLanguage(language)) {
+    throw new Error(`Unsupported diagram language: ${language}`)
+  }
+
+  const theme = document.documentElement.classList.contains('dark') ? 'dark' : 'default'
+  const key = theme + '\n' + source
+  const cached = cache.get(key)
+  if (cached) return cached
+
+  const { default: mermaid } = await import('mermaid')
+  mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme })
+
+  const id = `diagram-${++renderCount}`
+  try {
+    const { svg } = await mermaid.render(id, source)
+    if (cache.size >= CACHE_SIZE) {
+      cache.delete(cache.keys().next().value!)
+    }
+    cache.set(key, svg)
+    return svg
+  } finally {
+    // Mermaid leaves its temporary render container behind when parsing fails
+    document.getElementById('d' + id)?.remove()
+  }
+}
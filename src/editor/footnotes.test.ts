@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { EditorState } from 'prosemirror-state'
+import { markdownParser } from './markdown'
+import { schema } from './schema'
+import { collectFootnoteDefinitions } from './footnotes'
+
+describe('Footnotes', () => {
+  describe('collectFootnoteDefinitions', () => {
+    it('should move definitions above other content to the end', () => {
+      const doc = markdownParser.parse('Text[^1] and[^2]\n\n[^1]: One\n\n[^2]: Two\n')
+      // Content added below the definitions, and one of them dragged into a quote
+      const tr = EditorState.create({ doc }).tr
+      tr.insert(tr.doc.content.size, schema.nodes.paragraph.create(null, schema.text('After')))
+      const second = doc.child(2)
+      tr.delete(doc.content.size - second.nodeSize, doc.content.size)
+      tr.insert(0, schema.nodes.blockquote.create(null, [schema.nodes.paragraph.create(null, schema.text('Quote')), second]))
+
+      expect(collectFootnoteDefinitions(tr)).toBe(true)
+      const children: string[] = []
+      tr.doc.forEach(child => children.push(`${child.type.name}:${child.textContent}`))
+      expect(children).toEqual([
+        'blockquote:Quote',
+        'paragraph:Text and',
+        'paragraph:After',
+        'footnote_definition:One',
+        'footnote_definition:Two'
+      ])
+      expect(collectFootnoteDefinitions(tr)).toBe(false)
+    })
+
+    it('should sort the definitions at the end by number', () => {
+      const { footnote_reference: reference, footnote_definition: definition, paragraph } = schema.nodes
+      const doc = schema.nodes.doc.create(null, [
+        paragraph.create(null, [schema.text('A'), reference.create({ label: 'b' }), schema.text(' and'), reference.create({ label: 'a' })]),
+        definition.create({ label: 'a' }, paragraph.create(null, schema.text('First in the file'))),
+        definition.create({ label: 'b' }, paragraph.create(null, schema.text('Referenced first')))
+      ])
+      const tr = EditorState.create({ doc }).tr
+
+      expect(collectFootnoteDefinitions(tr)).toBe(true)
+      const labels: string[] = []
+      tr.doc.forEach(child => {
+        if (child.type === schema.nodes.footnote_definition) labels.push(child.attrs.label)
+      })
+      expect(labels).toEqual(['b', 'a'])
+      expect(collectFootnoteDefinitions(tr)).toBe(false)
+    })
+  })
+})
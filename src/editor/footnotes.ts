@@ -0,0 +1,145 @@
+/**
+ * Footnote Utilities
+ *
+ * Footnotes are stored as `footnote_reference` inline nodes and
+ * `footnote_definition` block nodes linked by their `label` attribute.
+ * Numbers follow the order of first reference, with unreferenced
+ * definitions numbered after all referenced ones. Definitions are
+ * collected at the end of the document and sorted by number, in the
+ * editor as in the file.
+ */
+
+import { Fragment, Node as ProseMirrorNode } from 'prosemirror-model'
+import { Transaction } from 'prosemirror-state'
+import { schema } from './schema'
+
+/**
+ * Returns the display number for every footnote label in the document.
+ */
+export function getFootnoteNumbers(doc: ProseMirrorNode): Map<string, number> {
+  const numbers = new Map<string, number>()
+
+  doc.descendants(node => {
+    if (node.type === schema.nodes.footnote_reference && !numbers.has(node.attrs.label)) {
+      numbers.set(node.attrs.label, numbers.size + 1)
+    }
+  })
+
+  doc.descendants(node => {
+    if (node.type === schema.nodes.footnote_definition && !numbers.has(node.attrs.label)) {
+      numbers.set(node.attrs.label, numbers.size + 1)
+    }
+  })
+
+  return numbers
+}
+
+/**
+ * Finds the definition node and its position for a footnote label.
+ */
+export function findFootnoteDefinition(doc: ProseMirrorNode, label: string): { node: ProseMirrorNode; pos: number } | null {
+  let result: { node: ProseMirrorNode; pos: number } | null = null
+
+  doc.descendants((node, pos) => {
+    if (result) return false
+    if (node.type === schema.nodes.footnote_definition && node.attrs.label === label) {
+      result = { node, pos }
+      return false
+    }
+  })
+
+  return result
+}
+
+/**
+ * Moves footnote definitions that are not at the end of the document, for
+ * example after content was added below them or one was dragged elsewhere,
+ * to the definitions there, and sorts them all by number. Returns false if
+ * all of them were in place.
+ */
+export function collectFootnoteDefinitions(tr: Transaction): boolean {
+  const { doc } = tr
+  let end = doc.content.size
+  const trailing: ProseMirrorNode[] = []
+  for (let i = doc.childCount - 1; i >= 0 && doc.child(i).type === schema.nodes.footnote_definition; i--) {
+    end -= doc.child(i).nodeSize
+    trailing.unshift(doc.child(i))
+  }
+
+  const misplaced: { node: ProseMirrorNode; pos: number }[] = []
+  doc.nodesBetween(0, end, (node, pos) => {
+    if (node.type === schema.nodes.footnote_definition) {
+      misplaced.push({ node, pos })
+      return false
+    }
+    return !node.isTextblock
+  })
+
+  const numbers = getFootnoteNumbers(doc)
+  const number = (node: ProseMirrorNode) => numbers.get(node.attrs.label) ?? 0
+  const definitions = [...trailing, ...misplaced.map(({ node }) => node)].sort((a, b) => number(a) - number(b))
+  if (misplaced.length === 0 && definitions.every((node, i) => node === trailing[i])) return false
+
+  const steps = tr.steps.length
+  for (const { node, pos } of [...misplaced].reverse()) tr.delete(pos, pos + node.nodeSize)
+  tr.replaceWith(tr.mapping.slice(steps).map(end), tr.doc.content.size, definitions)
+  return true
+}
+
+/**
+ * Returns the next free numeric label for a new footnote.
+ */
+export function nextFootnoteLabel(doc: ProseMirrorNode): string {
+  const numbers = getFootnoteNumbers(doc)
+  let next = numbers.size + 1
+  while (numbers.has(String(next))) next++
+  return String(next)
+}
+
+/**
+ * Prepares a document for saving:
+ * - Numeric labels are renumbered in reference order (named labels are kept).
+ * - Definitions are moved to the end of the document, sorted by number.
+ */
+export function normalizeFootnotes(doc: ProseMirrorNode): ProseMirrorNode {
+  const numbers = getFootnoteNumbers(doc)
+  if (numbers.size === 0) return doc
+
+  const relabel = (label: string) => /^\d+$/.test(label) ? String(numbers.get(label)) : label
+
+  const mapContent = (fragment: Fragment): Fragment => {
+    const children: ProseMirrorNode[] = []
+    fragment.forEach(child => {
+      if (child.type === schema.nodes.footnote_reference) {
+        children.push(child.type.create({ ...child.attrs, label: relabel(child.attrs.label) }))
+      } else if (child.isLeaf) {
+        children.push(child)
+      } else {
+        children.push(child.copy(mapContent(child.content)))
+      }
+    })
+    return Fragment.fromArray(children)
+  }
+
+  const body: ProseMirrorNode[] = []
+  const definitions: { number: number; node: ProseMirrorNode }[] = []
+  const seen = new Set<string>()
+
+  doc.forEach(child => {
+    if (child.type !== schema.nodes.footnote_definition) {
+      body.push(child.copy(mapContent(child.content)))
+      return
+    }
+    // Duplicate definitions cannot be referenced, keep only the first one
+    if (seen.has(child.attrs.label)) return
+    seen.add(child.attrs.label)
+    definitions.push({
+      number: numbers.get(child.attrs.label) ?? 0,
+      node: child.type.create({ ...child.attrs, label: relabel(child.attrs.label) }, mapContent(child.content))
+    })
+  })
+
+  definitions.sort((a, b) => a.number - b.number)
+
+  return doc.copy(Fragment.fromArray([...body, ...definitions.map(d => d.node)]))
+}
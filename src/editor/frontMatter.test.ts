@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import {
+  splitFrontMatter,
+  parseFrontMatterFields,
+  setFrontMatterField,
+  deleteFrontMatterField,
+  isDateValue
+} from './frontMatter'
+
+describe('Front Matter', () => {
+  describe('splitFrontMatter', () => {
+    it('should split front matter from the body', () => {
+      const result = splitFrontMatter('---\ntitle: Test\n---\n# Body')
+      expect(result).toEqual({ yaml: 'title: Test', closing: '---', body: '# Body' })
+    })
+
+    it('should support empty front matter and ... closing fences', () => {
+      expect(splitFrontMatter('---\n---\nText')?.yaml).toBe('')
+      expect(splitFrontMatter('---\na: 1\n...\n')?.closing).toBe('...')
+    })
+
+    it('should return null without leading front matter', () => {
+      expect(splitFrontMatter('# Title\n\n---\na: 1\n---')).toBeNull()
+      expect(splitFrontMatter('---\nunterminated')).toBeNull()
+    })
+  })
+
+  describe('parseFrontMatterFields', () => {
+    it('should parse scalar and list fields', () => {
+      const fields = parseFrontMatterFields('title: Hi\ncount: 3\ndraft: false\ndate: 2024-01-02\ntags: [a, b]')
+      expect(fields).toEqual([
+        { key: 'title', value: 'Hi' },
+        { key: 'count', value: 3 },
+        { key: 'draft', value: false },
+        { key: 'date', value: '2024-01-02' },
+        { key: 'tags', value: ['a', 'b'] }
+      ])
+    })
+
+    it('should return null for nested structures and invalid YAML', () => {
+      expect(parseFrontMatterFields('author:\n  name: Someone')).toBeNull()
+      expect(parseFrontMatterFields('key: [unclosed')).toBeNull()
+      expect(parseFrontMatterFields('- just\n- a list')).toBeNull()
+    })
+  })
+
+  describe('setFrontMatterField', () => {
+    it('should keep comments, quoting and list style', () => {
+      const yaml = 'title: "Hi"\n# comment\ntags: [a, b]'
+      expect(setFrontMatterField(yaml, 'title', 'New')).toBe('title: "New"\n# comment\ntags: [a, b]')
+      expect(setFrontMatterField(yaml, 'tags', ['a', 'b', 'c'])).toBe('title: "Hi"\n# comment\ntags: [a, b, c]')
+    })
+
+    it('should add new fields', () => {
+      expect(setFrontMatterField('', 'title', 'New')).toBe('title: New')
+    })
+  })
+
+  it('should delete fields', () => {
+    expect(deleteFrontMatterField('a: 1\nb: 2', 'a')).toBe('b: 2')
+    expect(deleteFrontMatterField('a: 1', 'a')).toBe('')
+  })
+
+  it('should detect date values', () => {
+    expect(isDateValue('2024-01-02')).toBe(true)
+    expect(isDateValue('January')).toBe(false)
+    expect(isDateValue(true)).toBe(false)
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * YAML Front Matter Utilities
+ *
+ * Front matter is split off before markdown-it runs (otherwise `---` would be
+ * parsed as a horizontal rule) and stored verbatim in a `front_matter` node.
+ * The form editor only rewrites the YAML when a field is actually changed.
+ */
+
+import { parseDocument, isMap, isScalar, isSeq, Document } from 'yaml'
+
+const FRONT_MATTER = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(---|\.\.\.)[ \t]*(?:\r?\n|$)/
+
+export interface FrontMatterSplit {
+  yaml: string
+  closing: string
+  body: string
+}
+
+/**
+ * Splits leading YAML front matter from a markdown document.
+ * Returns null if the document does not start with front matter.
+ */
+export function splitFrontMatter(markdown: string): FrontMatterSplit | null {
+  const match = markdown.match(FRONT_MATTER)
+  if (!match) return null
+
+  return {
+    yaml: match[1] ?? '',
+    closing: match[2],
+    body: markdown.slice(match[0].length)
+  }
+}
+
+export type FrontMatterValue = string | number | boolean | null | string[]
+
+export interface FrontMatterField {
+  key: string
+  value: FrontMatterValue
+}
+
+/**
+ * Parses front matter into editable fields.
+ * Returns null when the YAML is invalid or too complex for the form
+ * (nested maps, lists of objects, ...), in which case only raw editing is offered.
+ */
+export function parseFrontMatterFields(yaml: string): FrontMatterField[] | null {
+  const doc = parseDocument(yaml)
+  if (doc.errors.length > 0) return null
+  if (doc.contents === null) return []
+  if (!isMap(doc.contents)) return null
+
+  const fields: FrontMatterField[] = []
+  for (const pair of doc.contents.items) {
+    if (!isScalar(pair.key)) return null
+    const key = String(pair.key.value)
+
+    if (pair.value === null || isScalar(pair.value)) {
+      const value = pair.value?.value ?? null
+      if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) return null
+      fields.push({ key, value: value as FrontMatterValue })
+    } else if (isSeq(pair.value)) {
+      if (!pair.value.items.every(item => isScalar(item))) return null
+      fields.push({ key, value: pair.value.items.map(item => String((item as { value: unknown }).value)) })
+    } else {
+      return null
+    }
+  }
+
+  return fields
+}
+
+function toYaml(doc: Document): string {
+  if (isMap(doc.contents) && doc.contents.items.length === 0 && !doc.commentBefore && !doc.comment) {
+    return ''
+  }
+  return doc.toString({ flowCollectionPadding: false }).replace(/\n$/, '')
+}
+
+/**
+ * Sets a field value, keeping comments and the formatting of other fields.
+ * Scalars keep their quoting style and lists keep their flow (`[a, b]`) or block style.
+ */
+export function setFrontMatterField(yaml: string, key: string, value: FrontMatterValue): string {
+  const doc = parseDocument(yaml)
+  const previous = doc.get(key, true)
+
+  if (isScalar(previous) && !Array.isArray(value)) {
+    previous.value = value
+    return toYaml(doc)
+  }
+
+  const node = doc.createNode(value)
+  if (isSeq(previous) && isSeq(node)) {
+    node.flow = previous.flow
+  }
+
+  doc.set(key, node)
+  return toYaml(doc)
+}
+
+/**
+ * Removes a field from the front matter.
+ */
+export function deleteFrontMatterField(yaml: string, key: string): string {
+  const doc = parseDocument(yaml)
+  doc.delete(key)
+  return toYaml(doc)
+}
+
+/**
+ * Returns true if a string looks like a YAML date (YYYY-MM-DD).
+ */
+export function isDateValue(value: FrontMatterValue): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+}
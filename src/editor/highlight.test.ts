@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { highlightCode } from './highlight'
+
+describe('Code Highlighting', () => {
+  it('should return class ranges for a known language', () => {
+    const code = 'const answer = 42'
+    const ranges = highlightCode('javascript', code)
+
+    const keyword = ranges.find((range) => range.className === 'hljs-keyword')
+    expect(keyword && code.slice(keyword.from, keyword.to)).toBe('const')
+    const number = ranges.find((range) => range.className === 'hljs-number')
+    expect(number && code.slice(number.from, number.to)).toBe('42')
+  })
+
+  it('should use the first word of the info string', () => {
+    expect(highlightCode('JS title="x"', 'let a')).toEqual(
+      highlightCode('javascript', 'let a')
+    )
+  })
+
+  it('should not highlight unknown or missing languages', () => {
+    expect(highlightCode('', 'const a = 1')).toEqual([])
+    expect(highlightCode('notalanguage', 'const a = 1')).toEqual([])
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Code Highlighting
+ *
+ * Tokenizes code block content with lowlight (highlight.js grammars) into
+ * class ranges that the code highlight plugin turns into decorations.
+ * Only blocks with a known language are highlighted; there is no auto-detection.
+ */
+
+import { createLowlight, common } from 'lowlight'
+
+const lowlight = createLowlight(common)
+
+export interface HighlightRange {
+  from: number
+  to: number
+  className: string
+}
+
+/**
+ * Languages offered in the code block language picker, as [value, label] pairs.
+ */
+export const CODE_LANGUAGES: [string, string][] = [
+  ['', 'Plain text'],
+  ['bash', 'Bash'],
+  ['c', 'C'],
+  ['cpp', 'C++'],
+  ['csharp', 'C#'],
+  ['css', 'CSS'],
+  ['diff', 'Diff'],
+  ['go', 'Go'],
+  ['graphql', 'GraphQL'],
+  ['html', 'HTML'],
+  ['java', 'Java'],
+  ['javascript', 'JavaScript'],
+  ['json', 'JSON'],
+  ['kotlin', 'Kotlin'],
+  ['lua', 'Lua'],
+  ['makefile', 'Makefile'],
+  ['markdown', 'Markdown'],
+  ['mermaid', 'Mermaid'],
+  ['php', 'PHP'],
+  ['python', 'Python'],
+  ['ruby', 'Ruby'],
+  ['rust', 'Rust'],
+  ['scss', 'SCSS'],
+  ['shell', 'Shell session'],
+  ['sql', 'SQL'],
+  ['swift', 'Swift'],
+  ['typescript', 'TypeScript'],
+  ['xml', 'XML'],
+  ['yaml', 'YAML']
+]
+
+/**
+ * Returns the highlighting ranges for code in the given language,
+ * or an empty list if the language is unknown.
+ */
+export function highlightCode(language: string, code: string): HighlightRange[] {
+  const name = language.trim().split(/\s/)[0].toLowerCase()
+  if (!name || !code || !lowlight.registered(name)) return []
+
+  const ranges: HighlightRange[] = []
+  let offset = 0
+
+  // Walk the HAST tree, emitting a range for every element with classes
+  type HastNode = ReturnType<typeof lowlight.highlight>['children'][number]
+  const walk = (nodes: HastNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        offset += node.value.length
+      } else if (node.type === 'element') {
+        const from = offset
+        walk(node.children as HastNode[])
+        const className = node.properties?.className
+        if (Array.isArray(className) && offset > from) {
+          ranges.push({ from, to: offset, className: className.join(' ') })
+        }
+      }
+    }
+  }
+  walk(lowlight.highlight(name, code).children)
+
+  return ranges
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { lintDocument, lintMarkdown, parseLintConfig } from './lint'
+import { markdownParser } from './markdown'
+
+function rules(markdown: string, config = {}) {
+  return lintMarkdown(markdown, config).map(violation => `${violation.line}:${violation.rule}`)
+}
+
+describe('lintMarkdown', () => {
+  it('should report headings that skip levels', () => {
+    const [violation] = lintMarkdown('# Title\n\n### Deep\n\n## Back\n', {})
+    expect(violation).toMatchObject({ rule: 'MD001', alias: 'heading-increment', line: 2, detail: 'Expected: h2; Actual: h3' })
+    expect(violation.fix).toMatchObject({ kind: 'headingLevel', level: 2 })
+  })
+
+  it('should report duplicate headings, optionally among siblings only', () => {
+    const markdown = '# Title\n\n## A\n\n### Notes\n\n## B\n\n### Notes\n\n## A\n'
+    expect(rules(markdown)).toEqual(['8:MD024', '10:MD024'])
+    expect(rules(markdown, { MD024: { siblings_only: true } })).toEqual(['10:MD024'])
+    expect(lintMarkdown('# Title\n\n## A\n\n## A (2)\n\n## A\n', {})[0].fix).toMatchObject({ kind: 'appendText', text: ' (3)' })
+  })
+
+  it('should report more than one top-level heading after a title', () => {
+    expect(rules('# One\n\n# Two\n')).toEqual(['2:MD025'])
+    expect(rules('Intro\n\n# One\n\n# Two\n', { MD041: false })).toEqual([])
+    expect(rules('---\ntitle: Page\n---\n# One\n')).toEqual(['3:MD025'])
+  })
+
+  it('should report trailing punctuation in headings', () => {
+    expect(lintMarkdown('# Title!\n\n## Why?\n', {}).map(v => [v.rule, v.detail])).toEqual([['MD026', "Punctuation: '!'"]])
+    expect(rules('# Title\n\n## Why?\n', { 'no-trailing-punctuation': { punctuation: '?' } })).toEqual(['2:MD026'])
+    expect(rules('# Title &copy;\n')).toEqual([])
+  })
+
+  it('should report code, links, images and emphasis that markdownlint rejects', () => {
+    const markdown = [
+      '# Title',
+      '',
+      'See https://example.com and <https://example.com>.',
+      '',
+      '**Not a heading**',
+      '',
+      '[empty](#) ![](image.png) <img src="a.png">',
+      '',
+      '```',
+      'code',
+      '```',
+      ''
+    ].join('\n')
+    expect(rules(markdown)).toEqual(['2:MD034', '4:MD036', '6:MD033', '6:MD042', '6:MD045', '6:MD045', '8:MD040'])
+  })
+
+  it('should run every markdownlint rule, including on preserved markup', () => {
+    expect(rules('# T\n\n' + 'word '.repeat(40).trim() + '\n\n* a\n\n- b\n')).toEqual(['2:MD013', '6:MD004'])
+  })
+
+  it('should report violations on the line of a wrapped paragraph they are on', () => {
+    expect(rules('# T\n\nfirst line\nsee https://x.dev here\n')).toEqual(['3:MD034'])
+  })
+
+  it('should want a top-level heading first', () => {
+    expect(rules('Text\n')).toEqual(['0:MD041'])
+    expect(rules('<!-- comment -->\n\n# Title\n')).toEqual([])
+    expect(rules('## Title\n', { 'first-line-heading': { level: 2 } })).toEqual([])
+  })
+
+  it('should apply the default, rule names, aliases and tags in order', () => {
+    const markdown = 'Text\n\n# One\n\n### Two!\n'
+    expect(rules(markdown)).toEqual(['0:MD041', '4:MD001', '4:MD026'])
+    expect(rules(markdown, { default: false, md026: true })).toEqual(['4:MD026'])
+    expect(rules(markdown, { headings: false, 'heading-increment': true })).toEqual(['4:MD001'])
+    expect(rules(markdown, { 'heading-increment': true, headings: false })).toEqual([])
+  })
+})
+
+describe('parseLintConfig', () => {
+  it('should read JSON with comments and trailing commas', () => {
+    expect(parseLintConfig('{\n  // Long lines are fine\n  "MD013": false,\n  "MD024": { "siblings_only": true, },\n  "url": "http://x" /* kept */\n}'))
+      .toEqual({ MD013: false, MD024: { siblings_only: true }, url: 'http://x' })
+    expect(() => parseLintConfig('[]')).toThrow()
+  })
+})
+
+describe('lintDocument', () => {
+  it('should locate violations at the textblock they are in', () => {
+    const doc = markdownParser.parse('# Title\n\n> ### Deep\n\n| a | b |\n| - | - |\n| c | https://x.io |\n')
+    const problems = lintDocument(doc, {})
+    const located = problems.map(problem => [problem.rule, doc.textBetween(problem.from, problem.to)])
+    expect(located).toEqual([['MD001', 'Deep'], ['MD034', 'https://x.io']])
+    expect(doc.nodeAt(problems[0].pos)?.type.name).toBe('heading')
+  })
+
+  it('should mark blocks without text as a whole', () => {
+    const doc = markdownParser.parse('# Title\n\n```\ncode\n```\n\n---\n')
+    const [problem] = lintDocument(doc, {})
+    expect(problem.rule).toBe('MD040')
+    expect(doc.nodeAt(problem.pos)?.type.name).toBe('code_block')
+    expect(problem.from).toBe(problem.pos + 1)
+  })
+})
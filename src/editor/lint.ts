@@ -0,0 +1,201 @@
+/**
+ * Markdown Lint
+ *
+ * Checks the markdown the serializer writes with markdownlint, so problems
+ * that CI would report show up while writing. The configuration is the
+ * contents of a `.markdownlint.json`, passed to markdownlint as it is.
+ *
+ * markdownlint reports violations on source lines. They are located in the
+ * document at the textblock they are in, or the top-level block for blocks
+ * without text, and heading problems get quick fixes that edit the document.
+ */
+
+import type Token from 'markdown-it/lib/token'
+import { lint } from 'markdownlint/sync'
+import type { Configuration, LintError } from 'markdownlint'
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { blockSourceLines, markdownSerializer, parseBody } from './markdown'
+
+export type LintConfig = Configuration
+
+export interface LintSettings {
+  enabled: boolean
+}
+
+export const defaultLintSettings: LintSettings = {
+  enabled: true
+}
+
+export type LintFix = { label: string } & (
+  | { kind: 'headingLevel'; level: number }
+  | { kind: 'trimEnd'; punctuation: string }
+  | { kind: 'appendText'; text: string }
+)
+
+export interface LintViolation {
+  rule: string
+  alias: string
+  description: string
+  // 0-based source line
+  line: number
+  detail?: string
+  fix?: LintFix
+}
+
+export interface LintProblem extends LintViolation {
+  // Position of the block the violation is in
+  pos: number
+  // Range to underline: the block's text, or the whole block when it has none
+  from: number
+  to: number
+}
+
+interface Heading {
+  // Source text of the heading
+  text: string
+  line: number
+}
+
+/**
+ * Returns the quick fix for a heading violation, if there is one. Duplicate
+ * headings are renamed with the first number that makes them unique.
+ */
+function headingFix(error: LintError, headings: Heading[]): LintFix | undefined {
+  const [rule] = error.ruleNames
+  if (rule === 'MD001') {
+    const level = error.errorDetail?.match(/^Expected: h(\d)/)?.[1]
+    if (level) return { label: `Change to heading level ${level}`, kind: 'headingLevel', level: Number(level) }
+  } else if (rule === 'MD026') {
+    const punctuation = error.errorDetail?.match(/^Punctuation: '(.+)'$/)?.[1]
+    if (punctuation) return { label: 'Remove trailing punctuation', kind: 'trimEnd', punctuation }
+  } else if (rule === 'MD024') {
+    const heading = headings.find(heading => heading.line === error.lineNumber - 1)
+    if (!heading) return undefined
+    const texts = new Set(headings.map(heading => heading.text))
+    let number = 2
+    while (texts.has(`${heading.text} (${number})`)) number++
+    const text = ` (${number})`
+    // Later duplicates of the same text get the next number
+    headings.push({ text: heading.text + text, line: -1 })
+    return { label: `Rename to "${heading.text}${text}"`, kind: 'appendText', text }
+  }
+  return undefined
+}
+
+/**
+ * Reads a `.markdownlint.json` file, which may have comments and trailing
+ * commas like markdownlint allows. Throws if it is not valid.
+ */
+export function parseLintConfig(text: string): LintConfig {
+  // Strings are matched first so comment markers inside them are kept
+  const json = text
+    .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_match, string) => string ?? '')
+    .replace(/("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g, (_match, string, end) => string ?? end)
+  const config = JSON.parse(json)
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error('The configuration is not an object')
+  }
+  return config
+}
+
+/**
+ * Checks markdown with markdownlint. Violations are sorted by line.
+ */
+export function lintMarkdown(markdown: string, config: LintConfig): LintViolation[] {
+  const { tokens } = parseBody(markdown, { htmlImages: true })
+  const headings: Heading[] = []
+  tokens.forEach((token, index) => {
+    if (token.type === 'heading_open' && token.map) {
+      headings.push({ text: tokens[index + 1].content.trim(), line: token.map[0] })
+    }
+  })
+
+  const errors = lint({ strings: { markdown }, config }).markdown ?? []
+  return [...errors]
+    .sort((a, b) => a.lineNumber - b.lineNumber || a.ruleNames[0].localeCompare(b.ruleNames[0]))
+    .map((error): LintViolation => ({
+      rule: error.ruleNames[0],
+      alias: error.ruleNames[1] ?? error.ruleNames[0],
+      description: error.ruleDescription,
+      line: error.lineNumber - 1,
+      detail: error.errorDetail ?? error.errorContext ?? undefined,
+      fix: headingFix(error, headings)
+    }))
+}
+
+// Tokens of textblocks without inline content
+const TEXT_TOKENS = new Set(['code_block', 'fence', 'html_block'])
+
+/**
+ * Returns the source line of each textblock, in document order. Table cells
+ * have no line of their own and get the line of their row.
+ */
+function textblockLines(tokens: Token[]): number[] {
+  const lines: number[] = []
+  let line = 0
+  for (const token of tokens) {
+    if (token.map) line = token.map[0]
+    if (token.type === 'inline' || TEXT_TOKENS.has(token.type)) lines.push(line)
+  }
+  // Footnote definitions are moved to the end of the token stream
+  return lines.sort((a, b) => a - b)
+}
+
+/**
+ * Finds the block of the document each violation is in. Within a top-level
+ * block, textblocks are matched up with the source lines they start at; when
+ * their counts differ the whole top-level block is used.
+ */
+export function locateViolations(doc: ProseMirrorNode, markdown: string, violations: LintViolation[]): LintProblem[] {
+  const blockLines = blockSourceLines(markdown)
+  const lines = textblockLines(parseBody(markdown, { htmlImages: true }).tokens)
+
+  const blocks: { pos: number; node: ProseMirrorNode; line: number }[] = []
+  doc.forEach((node, pos, index) => {
+    if (index < blockLines.length) blocks.push({ pos, node, line: blockLines[index] })
+  })
+  if (blocks.length === 0) return []
+
+  return violations.map(violation => {
+    let index = 0
+    while (index + 1 < blocks.length && blocks[index + 1].line <= violation.line) index++
+    const block = blocks[index]
+    const end = index + 1 < blocks.length ? blocks[index + 1].line : Infinity
+
+    const textblocks: { pos: number; node: ProseMirrorNode }[] = []
+    if (block.node.isTextblock) {
+      textblocks.push(block)
+    } else {
+      block.node.descendants((node, offset) => {
+        if (node.isTextblock) textblocks.push({ pos: block.pos + 1 + offset, node })
+        return !node.isTextblock
+      })
+    }
+
+    const starts = lines.filter(line => line >= block.line && line < end)
+    let target: { pos: number; node: ProseMirrorNode } = block
+    if (starts.length === textblocks.length) {
+      const line = Math.max(...starts.filter(start => start <= violation.line))
+      // Of textblocks on the same line, like table cells, the one with the offending text
+      const candidates = textblocks.filter((_, i) => starts[i] === line)
+      target = candidates.find(({ node }) => violation.detail && node.textContent.includes(violation.detail)) ?? candidates[0] ?? block
+    }
+
+    const { pos, node } = target
+    const hasText = node.isTextblock && node.content.size > 0
+    return {
+      ...violation,
+      pos,
+      from: hasText ? pos + 1 : pos,
+      to: hasText ? pos + node.nodeSize - 1 : pos + node.nodeSize
+    }
+  })
+}
+
+/**
+ * Lints a document as the serializer writes it and locates the violations.
+ */
+export function lintDocument(doc: ProseMirrorNode, config: LintConfig): LintProblem[] {
+  const markdown = markdownSerializer.serialize(doc)
+  return locateViolations(doc, markdown, lintMarkdown(markdown, config))
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { markdownParser, markdownSerializer } from './markdown'
+import { markdownParser, markdownSerializer, renderMarkdown, blockSourceLines } from './markdown'
 import { schema } from './schema'
+import { EditorState } from 'prosemirror-state'
 
 describe('Markdown Parser', () => {
   it('should parse plain text', () => {
@@ -55,6 +56,192 @@ describe('Markdown Parser', () => {
     expect(list?.type.name).toBe('ordered_list')
   })
 
+  it('should parse task list items', () => {
+    const doc = markdownParser.parse('- [ ] Todo\n- [x] Done\n- Regular')
+    const list = doc?.firstChild
+    expect(list?.type.name).toBe('bullet_list')
+    expect(list?.child(0).attrs.checked).toBe(false)
+    expect(list?.child(0).textContent).toBe('Todo')
+    expect(list?.child(1).attrs.checked).toBe(true)
+    expect(list?.child(1).textContent).toBe('Done')
+    expect(list?.child(2).attrs.checked).toBeNull()
+  })
+
+  it('should parse task items that start with formatting', () => {
+    const doc = markdownParser.parse('- [X] **Bold** task')
+    const item = doc?.firstChild?.firstChild
+    expect(item?.attrs.checked).toBe(true)
+    expect(item?.textContent).toBe('Bold task')
+  })
+
+  it('should not treat brackets outside list items as tasks', () => {
+    const doc = markdownParser.parse('[ ] not a task')
+    expect(doc?.firstChild?.type.name).toBe('paragraph')
+    expect(doc?.textContent).toBe('[ ] not a task')
+  })
+
+  it('should parse footnote references and definitions', () => {
+    const doc = markdownParser.parse('Text[^1] more[^note]\n\n[^1]: First note\n\n[^note]: Named note')
+    const paragraph = doc?.firstChild
+    const references: string[] = []
+    paragraph?.forEach(node => {
+      if (node.type.name === 'footnote_reference') references.push(node.attrs.label)
+    })
+    expect(references).toEqual(['1', 'note'])
+    expect(doc?.child(1).type.name).toBe('footnote_definition')
+    expect(doc?.child(1).attrs.label).toBe('1')
+    expect(doc?.child(1).textContent).toBe('First note')
+    expect(doc?.child(2).attrs.label).toBe('note')
+  })
+
+  it('should keep unreferenced footnote definitions', () => {
+    const doc = markdownParser.parse('Text\n\n[^orphan]: Still here')
+    expect(doc?.lastChild?.type.name).toBe('footnote_definition')
+    expect(doc?.lastChild?.textContent).toBe('Still here')
+  })
+
+  it('should parse inline footnotes into labeled definitions', () => {
+    const doc = markdownParser.parse('Text^[inline note] and[^1]\n\n[^1]: Numbered')
+    const labels: string[] = []
+    doc?.forEach(node => {
+      if (node.type.name === 'footnote_definition') labels.push(node.attrs.label)
+    })
+    // The inline footnote must not reuse the existing label "1"
+    expect(labels).toHaveLength(2)
+    expect(new Set(labels).size).toBe(2)
+  })
+
+  it('should parse soft line breaks as nodes that read as spaces', () => {
+    const doc = markdownParser.parse('A wrapped\nparagraph')
+    const paragraph = doc?.firstChild
+    expect(paragraph?.child(1).type.name).toBe('soft_break')
+    expect(paragraph?.textContent).toBe('A wrapped paragraph')
+  })
+
+  it('should parse raw HTML blocks', () => {
+    const doc = markdownParser.parse('<details>\n<summary>More</summary>\n\nBody\n\n</details>')
+    expect(doc?.child(0).type.name).toBe('html_block')
+    expect(doc?.child(0).textContent).toBe('<details>\n<summary>More</summary>')
+    expect(doc?.child(1).type.name).toBe('paragraph')
+    expect(doc?.child(2).textContent).toBe('</details>')
+  })
+
+  it('should parse inline HTML', () => {
+    const doc = markdownParser.parse('Logo <img width="20" src="a.png"> here')
+    const html = doc?.firstChild?.child(1)
+    expect(html?.type.name).toBe('html_inline')
+    expect(html?.attrs.html).toBe('<img width="20" src="a.png">')
+  })
+
+  it('should parse resized and captioned images written as HTML', () => {
+    const doc = markdownParser.parse(
+      'A <img src="a.png" alt="A" width="20"> icon\n\n' +
+      '<figure>\n<img src="b.png" title="B" width="300">\n<figcaption>Fig &amp; more</figcaption>\n</figure>\n'
+    )
+    expect(doc.child(0).child(1).type.name).toBe('image')
+    expect(doc.child(0).child(1).attrs).toMatchObject({ src: 'a.png', alt: 'A', width: 20, caption: null })
+    expect(doc.child(1).type.name).toBe('paragraph')
+    expect(doc.child(1).firstChild?.attrs).toMatchObject({ src: 'b.png', title: 'B', width: 300, caption: 'Fig & more' })
+  })
+
+  it('should parse GitHub alerts as callouts', () => {
+    const doc = markdownParser.parse('> [!WARNING]\n> Mind *the* gap\n\n> [!faq] Why?\n\n> [!NOTE]: not an alert\n')
+    expect(doc.child(0).type.name).toBe('callout')
+    expect(doc.child(0).attrs).toMatchObject({ kind: 'warning', marker: 'WARNING', title: null })
+    expect(doc.child(0).textContent).toBe('Mind the gap')
+    expect(doc.child(1).attrs).toMatchObject({ kind: 'faq', title: 'Why?' })
+    expect(doc.child(1).childCount).toBe(1)
+    expect(doc.child(2).type.name).toBe('blockquote')
+  })
+
+  it('should parse highlight, underline, subscript, superscript and keyboard marks', () => {
+    const doc = markdownParser.parse('==Lit== <u>under</u> H~2~O 2^10^ <kbd>Ctrl</kbd> x^a\\ b^')
+    const marked = (name: string) => {
+      const texts: string[] = []
+      doc.descendants(node => {
+        if (node.isText && node.marks.some(mark => mark.type.name === name)) texts.push(node.text!)
+      })
+      return texts
+    }
+    expect(marked('highlight')).toEqual(['Lit'])
+    expect(marked('underline')).toEqual(['under'])
+    expect(marked('subscript')).toEqual(['2'])
+    expect(marked('superscript')).toEqual(['10', 'a b'])
+    expect(marked('kbd')).toEqual(['Ctrl'])
+  })
+
+  it('should keep unmatched and spaced delimiters as text', () => {
+    const doc = markdownParser.parse('a == b == c, x ~ y ~ z, 5^ and <u>open')
+    expect(doc.textContent).toBe('a == b == c, x ~ y ~ z, 5^ and open')
+    expect(doc.firstChild?.lastChild?.type.name).toBe('text')
+    expect(doc.firstChild?.child(1).attrs.html).toBe('<u>')
+  })
+
+  it('should parse emoji shortcodes with known names', () => {
+    const doc = markdownParser.parse('Ship it :tada: :+1: :not_an_emoji: \\:tada: `:tada:` 10:30')
+    const names: string[] = []
+    doc.descendants(node => {
+      if (node.type.name === 'emoji') names.push(node.attrs.name)
+    })
+    expect(names).toEqual(['tada', '+1'])
+    expect(doc.textContent).toBe('Ship it 🎉 👍 :not_an_emoji: :tada: :tada: 10:30')
+  })
+
+  it('should parse inline math', () => {
+    const doc = markdownParser.parse('Euler: $e^{i\\pi} + 1 = 0$.')
+    const math = doc?.firstChild?.child(1)
+    expect(math?.type.name).toBe('math_inline')
+    expect(math?.attrs.tex).toBe('e^{i\\pi} + 1 = 0')
+  })
+
+  it('should not parse dollar amounts as math', () => {
+    const doc = markdownParser.parse('Costs $5 or $10 and $ 3 $')
+    expect(doc?.firstChild?.childCount).toBe(1)
+    expect(doc?.textContent).toBe('Costs $5 or $10 and $ 3 $')
+  })
+
+  it('should parse math blocks', () => {
+    const doc = markdownParser.parse('$$\na^2 + b^2\n= c^2\n$$\n\n$$ x $$')
+    expect(doc?.child(0).type.name).toBe('math_block')
+    expect(doc?.child(0).attrs.tex).toBe('a^2 + b^2\n= c^2')
+    expect(doc?.child(1).attrs.tex).toBe('x')
+  })
+
+  it('should parse wiki links with headings and aliases', () => {
+    const doc = markdownParser.parse('See [[Ideas]], [[notes/Plan#Next steps|the plan]] and [[#Top]]')
+    const links: Array<Record<string, unknown>> = []
+    doc?.descendants(node => {
+      if (node.type.name === 'wiki_link') links.push(node.attrs)
+    })
+    expect(links).toEqual([
+      { target: 'Ideas', heading: null, alias: null },
+      { target: 'notes/Plan', heading: 'Next steps', alias: 'the plan' },
+      { target: '', heading: 'Top', alias: null }
+    ])
+  })
+
+  it('should not parse wiki links with brackets or line breaks', () => {
+    const doc = markdownParser.parse('[[a [b]]] and [[c\nd]] and [[]]')
+    let count = 0
+    doc?.descendants(node => {
+      if (node.type.name === 'wiki_link') count++
+    })
+    expect(count).toBe(0)
+  })
+
+  it('should parse YAML front matter into a front_matter node', () => {
+    const doc = markdownParser.parse('---\ntitle: Hello\ntags: [a, b]\n---\n\n# Heading')
+    expect(doc?.firstChild?.type.name).toBe('front_matter')
+    expect(doc?.firstChild?.attrs.yaml).toBe('title: Hello\ntags: [a, b]')
+    expect(doc?.child(1).type.name).toBe('heading')
+  })
+
+  it('should not treat a later horizontal rule as front matter', () => {
+    const doc = markdownParser.parse('Text\n\n---\n\nMore')
+    expect(doc?.firstChild?.type.name).toBe('paragraph')
+    expect(doc?.child(1).type.name).toBe('horizontal_rule')
+  })
+
   it('should parse blockquotes', () => {
     const doc = markdownParser.parse('> Quote text')
     expect(doc).toBeDefined()
@@ -179,6 +366,201 @@ describe('Markdown Serializer', () => {
     expect(markdown).toContain('- Item 2')
   })
 
+  it('should serialize task list items', () => {
+    const doc = schema.nodes.doc.create(null, [
+      schema.nodes.bullet_list.create(null, [
+        schema.nodes.list_item.create({ checked: false }, [
+          schema.nodes.paragraph.create(null, schema.text('Todo'))
+        ]),
+        schema.nodes.list_item.create({ checked: true }, [
+          schema.nodes.paragraph.create(null, schema.text('Done'))
+        ])
+      ])
+    ])
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toContain('- [ ] Todo')
+    expect(markdown).toContain('- [x] Done')
+  })
+
+  it('should not end empty task items in a space', () => {
+    const item = (checked: boolean) => schema.nodes.list_item.create({ checked }, schema.nodes.paragraph.create())
+    const doc = schema.nodes.doc.create(null, schema.nodes.bullet_list.create({ tight: true }, [item(false), item(true)]))
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toBe('- [ ]\n- [x]')
+    expect(markdownParser.parse(markdown).eq(doc)).toBe(true)
+  })
+
+  it('should round-trip task lists', () => {
+    const doc = markdownParser.parse('- [ ] One\n- [x] Two')
+    const markdown = markdownSerializer.serialize(doc!)
+    const reparsed = markdownParser.parse(markdown)
+    expect(reparsed?.eq(doc!)).toBe(true)
+  })
+
+  it('should renumber footnotes in reference order when serializing', () => {
+    const doc = markdownParser.parse('A[^5] B[^note] C[^2]\n\n[^2]: Two\n\n[^note]: Named\n\n[^5]: Five')
+    const markdown = markdownSerializer.serialize(doc!)
+    expect(markdown).toContain('A[^1] B[^note] C[^3]')
+    const definitions = markdown.slice(markdown.indexOf('[^1]:'))
+    expect(definitions).toBe('[^1]: Five\n\n[^note]: Named\n\n[^3]: Two')
+  })
+
+  it('should move footnote definitions to the end when serializing', () => {
+    const doc = schema.nodes.doc.create(null, [
+      schema.nodes.paragraph.create(null, [
+        schema.text('Text'),
+        schema.nodes.footnote_reference.create({ label: '1' })
+      ]),
+      schema.nodes.footnote_definition.create({ label: '1' }, schema.nodes.paragraph.create(null, schema.text('Note'))),
+      schema.nodes.paragraph.create(null, schema.text('After'))
+    ])
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toBe('Text[^1]\n\nAfter\n\n[^1]: Note')
+  })
+
+  it('should round-trip raw HTML byte-for-byte', () => {
+    const markdown = [
+      '<details>',
+      '<summary>Click <b>me</b></summary>',
+      '',
+      'Hidden *content*',
+      '',
+      '</details>',
+      '',
+      'Text <img width="20" src="a.png"> and <!-- note --> more',
+      '',
+      '<!-- multi',
+      'line comment -->',
+      '',
+      '> <div align="center">',
+      '>   quoted',
+      '> </div>'
+    ].join('\n')
+    const doc = markdownParser.parse(markdown)
+    expect(markdownSerializer.serialize(doc!)).toBe(markdown)
+  })
+
+  it('should write untouched front matter back unchanged', () => {
+    const markdown = '---\ntitle: "Quoted"   # comment\ndate: 2024-05-01\ntags:\n  - one\n  - two\n---\n\n# Body'
+    const doc = markdownParser.parse(markdown)
+    expect(markdownSerializer.serialize(doc!)).toBe(markdown)
+  })
+
+  it('should escape dollars that would become math', () => {
+    const doc = schema.nodes.doc.create(null, [
+      schema.nodes.paragraph.create(null, schema.text('$a$ costs $5'))
+    ])
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toBe('\\$a\\$ costs \\$5')
+    expect(markdownParser.parse(markdown)?.textContent).toBe('$a$ costs $5')
+  })
+
+  it('should escape markers that would become highlights or superscripts', () => {
+    const doc = schema.nodes.doc.create(null, [
+      schema.nodes.paragraph.create(null, [
+        schema.text('==no== 2^10^ '),
+        schema.text('a b^c', [schema.marks.superscript.create()])
+      ])
+    ])
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toBe('\\=\\=no\\=\\= 2\\^10\\^ ^a\\ b\\^c^')
+    expect(markdownParser.parse(markdown)?.firstChild?.childCount).toBe(2)
+    expect(markdownParser.parse(markdown)?.textContent).toBe('==no== 2^10^ a b^c')
+  })
+
+  it('should escape colons that would become an emoji', () => {
+    const doc = schema.nodes.doc.create(null, [
+      schema.nodes.paragraph.create(null, [schema.text('Type :tada: for '), schema.nodes.emoji.create({ name: 'tada' })])
+    ])
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toBe('Type \\:tada: for :tada:')
+    expect(markdownParser.parse(markdown)?.firstChild?.childCount).toBe(2)
+  })
+
+  it('should only escape the opening colon of shortcodes', () => {
+    const text = (value: string) => schema.nodes.doc.create(null, schema.nodes.paragraph.create(null, schema.text(value)))
+    expect(markdownSerializer.serialize(text('At 10:30 say :tada: ok'))).toBe('At 10:30 say \\:tada: ok')
+    const markdown = markdownSerializer.serialize(text(':tada:tada:'))
+    expect(markdown).toBe('\\:tada\\:tada:')
+    expect(markdownParser.parse(markdown)?.textContent).toBe(':tada:tada:')
+  })
+
+  it('should escape angle brackets that would become raw HTML', () => {
+    const text = (...values: string[]) => schema.nodes.doc.create(null, values.map(value =>
+      schema.nodes.paragraph.create(null, schema.text(value))))
+    const cases: [string, string][] = [
+      ['Use <br> here', 'Use \\<br> here'],
+      ['<div>', '\\<div>'],
+      ['a <!-- b --> c', 'a \\<!-- b --> c'],
+      ['<u>x</u>', '\\<u>x\\</u>'],
+      ['<div class="a', '\\<div class="a'],
+      ['1 < 2 and a<b, x <- y', '1 < 2 and a<b, x <- y']
+    ]
+    for (const [value, expected] of cases) {
+      const markdown = markdownSerializer.serialize(text(value))
+      expect(markdown).toBe(expected)
+      const doc = markdownParser.parse(markdown)!
+      expect(doc.childCount).toBe(1)
+      expect(doc.firstChild?.type.name).toBe('paragraph')
+      expect(doc.textContent).toBe(value)
+    }
+  })
+
+  it('should only keep raw HTML next to other blocks where it stays a block', () => {
+    const html = (text: string) => schema.nodes.html_block.create({ blankBefore: false, blankAfter: false }, schema.text(text))
+    const paragraph = (text: string) => schema.nodes.paragraph.create(null, schema.text(text))
+    const doc = schema.nodes.doc.create(null, [
+      paragraph('a'), html('<custom>'), paragraph('b'), html('<div>x</div>'), paragraph('c'), html('<!-- d -->'), paragraph('e')
+    ])
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toBe('a\n\n<custom>\n\nb\n<div>x</div>\n\nc\n<!-- d -->\ne')
+    expect(markdownParser.parse(markdown).childCount).toBe(7)
+  })
+
+  it('should escape a block tag name starting a line of a paragraph', () => {
+    const doc = schema.nodes.doc.create(null, schema.nodes.paragraph.create(null, [
+      schema.text('first'), schema.nodes.soft_break.create(), schema.text('<section and more')
+    ]))
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toBe('first\n\\<section and more')
+    expect(markdownParser.parse(markdown)?.firstChild?.textContent).toBe('first <section and more')
+  })
+
+  it('should escape brackets that would become a wiki link', () => {
+    const doc = schema.nodes.doc.create(null, [
+      schema.nodes.paragraph.create(null, schema.text('[[not a link]]'))
+    ])
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdownParser.parse(markdown)?.firstChild?.childCount).toBe(1)
+    expect(markdownParser.parse(markdown)?.textContent).toBe('[[not a link]]')
+  })
+
+  it('should escape the alias separator of wiki links in table cells', () => {
+    const link = schema.nodes.wiki_link.create({ target: 'Plan', alias: 'the plan' })
+    const doc = schema.nodes.doc.create(null, [
+      schema.nodes.table.create(null, [
+        schema.nodes.table_head.create(null, [
+          schema.nodes.table_row.create(null, [schema.nodes.table_header.create(null, schema.text('Link'))])
+        ]),
+        schema.nodes.table_body.create(null, [
+          schema.nodes.table_row.create(null, [schema.nodes.table_cell.create(null, link)])
+        ])
+      ])
+    ])
+    const markdown = markdownSerializer.serialize(doc)
+    expect(markdown).toContain('[[Plan\\|the plan]]')
+    let parsed: Record<string, unknown> | null = null
+    markdownParser.parse(markdown).descendants(node => {
+      if (node.type.name === 'wiki_link') parsed = node.attrs
+    })
+    expect(parsed).toEqual({ target: 'Plan', heading: null, alias: 'the plan' })
+  })
+
+  it('should serialize documents with only front matter', () => {
+    const doc = markdownParser.parse('---\ndraft: true\n---\n')
+    expect(markdownSerializer.serialize(doc!)).toBe('---\ndraft: true\n---\n')
+  })
+
   it('should serialize blockquotes', () => {
     const doc = schema.nodes.doc.create(null, [
       schema.nodes.blockquote.create(null, [
@@ -215,3 +597,130 @@ describe('Markdown Serializer', () => {
     expect(markdown).toContain('---')
   })
 })
+
+describe('Markdown Round-Trip', () => {
+  const corpus: Record<string, string> = {
+    'bullet characters': '* one\n* two\n  + nested\n\n- other list\n',
+    'loose lists': '- first\n\n- second\n',
+    'ordered list delimiters': '1) a\n2) b\n\n1. x\n1. y\n1. z\n',
+    'ordered lists past nine': '8. eight\n9. nine\n10. ten\n',
+    'task lists': '- [ ] todo\n- [x] done\n- [ ]\n',
+    'setext headings': 'Title\n=====\n\nSubtitle\n---\n\n## ATX heading\n',
+    'escaped HTML': 'Use \\<br> and \\<u>x\\</u>, a \\<!-- b --> c\n\n\\<div>\n',
+    'closing hashes': '# Head #\n\n## Other  ###\n\n> ### Quoted ###\n',
+    'list marker padding': '-   item\n    continued\n-   next\n\n1.  one\n2.  two\n\n> *  quoted\n',
+    'emphasis delimiters': '_em_ and __strong__ next to *em* and **strong**, ***both*** and snake_case\n',
+    'code fences': '~~~~python\nprint(1)\n[ref]: not a link\n~~~~\n\n```\nplain\n```\n',
+    'indented code': 'Text\n\n    indented\n\n    code\n',
+    'thematic breaks': '* * *\n\n___\n',
+    'compact tables': 'Intro\n\n|a|b|\n|:-|--:|\n|1|2|\n',
+    'padded tables': '| Name  | Value |\n| ----- | :---: |\n| x     | y     |\n',
+    'wrapped paragraphs': 'A paragraph that\nis wrapped over\nthree lines.\n',
+    'blockquotes': '> Quote that\n> wraps\n>\n> Setext\n> ======\n',
+    'CRLF line endings': 'line\r\nnext\r\n\r\n* a\r\n* b\r\n',
+    'no final newline': '# Title\n\nText',
+    'front matter': '---\ntitle: Doc\n---\n\n# Doc\n',
+    'front matter without a blank line': '---\ntitle: x\n---\n# Hi\n',
+    'footnotes': 'Text[^1]\n\n[^1]: Note\n',
+    'wiki links': 'See [[Ideas]] and [[notes/Plan#Next steps|the plan]]\n\n| Link |\n| - |\n| [[Plan\\|plan]] |\n',
+    'math': 'Inline $x^2$ math\n\n$$\n\\frac{a}{b}\n$$\n\n> $$\n> y\n> $$\n',
+    'raw HTML': '<div align="center">\n\n**Bold**\n\n</div>\n',
+    'raw HTML without blank lines': '<details>\n<summary>x\n\nbody\n</details>\n',
+    'raw HTML interrupting a paragraph': 'para\n<div>x</div>\n\n<!-- note -->\n- item\n',
+    'resized images': 'A <img src="a.png" alt="A" width="20"> icon\n\n<img src="b%20c.png" width="300">\nText below *it*\n',
+    'callouts': '> [!NOTE]\n> Some *text*\n> more\n\n> [!tip] Custom **title**\n\n> [!WARNING]\n>\n> - a\n> - b\n\n- item\n\n  > [!CAUTION]\n  > nested\n',
+    'inline marks': '==Highlight== <u>under</u> H~2~O, 2^10^ and x^a\\ b^, <kbd>Ctrl</kbd>+<kbd>C</kbd>\n',
+    'emoji': 'Done :white_check_mark: :+1:\n\n**Ship :rocket:** and <https://example.com/:tada:>\n\nAt 10:30 say \\:tada: ok\n',
+    'captioned images': '<figure>\n<img src="d.png" alt="D &quot;x&quot;">\n<figcaption>Fig &lt;1&gt;</figcaption>\n</figure>\n\n> <figure>\n> <img src="e.png" width="10">\n> <figcaption>E</figcaption>\n> </figure>\n'
+  }
+
+  for (const [name, markdown] of Object.entries(corpus)) {
+    it(`should preserve ${name}`, () => {
+      const once = markdownSerializer.serialize(markdownParser.parse(markdown)!)
+      expect(once).toBe(markdown)
+      expect(markdownSerializer.serialize(markdownParser.parse(once)!)).toBe(once)
+    })
+  }
+
+  it('should use default markup for new content', () => {
+    const doc = schema.nodes.doc.create(null, [
+      schema.nodes.heading.create({ level: 1 }, schema.text('Title')),
+      schema.nodes.bullet_list.create(null, [
+        schema.nodes.list_item.create(null, schema.nodes.paragraph.create(null, [
+          schema.text('bold', [schema.marks.strong.create()]),
+          schema.text(' and '),
+          schema.text('em', [schema.marks.em.create()])
+        ]))
+      ]),
+      schema.nodes.code_block.create(null, schema.text('code'))
+    ])
+    expect(markdownSerializer.serialize(doc)).toBe('# Title\n\n- **bold** and *em*\n\n```\ncode\n```')
+  })
+
+  it('should normalize tables whose cells changed', () => {
+    const doc = markdownParser.parse('|a|b|\n|-|:-:|\n|1|2|\n')!
+    let end = 0
+    doc.descendants((node, pos) => {
+      if (node.isText && node.text === '2') end = pos + node.nodeSize
+    })
+    const edited = EditorState.create({ doc }).tr.insertText('2', end).doc
+    expect(markdownSerializer.serialize(edited)).toBe('| a   | b   |\n| --- | :-: |\n| 1   | 22  |\n')
+  })
+
+  it('should fall back to asterisks when underscore emphasis touches a word', () => {
+    const doc = markdownParser.parse('_em_ word')!
+    // Delete the space after the emphasized text
+    const edited = EditorState.create({ doc }).tr.delete(3, 4).doc
+    expect(markdownSerializer.serialize(edited)).toBe('*em*word')
+  })
+})
+
+describe('Markdown Rendering', () => {
+  it('should render nested lists, tables and code with the full parser', () => {
+    const html = renderMarkdown('- a\n  1. b\n\n| x |\n| - |\n| 1 |\n\n```\n2 * 3 * 4\n```\n')
+    expect(html).toContain('<ol data-source-line="1">')
+    expect(html).toContain('<td>1</td>')
+    expect(html).toContain('2 * 3 * 4')
+  })
+
+  it('should give headings the anchors links to them use', () => {
+    const html = renderMarkdown('# Intro *to* `code`\n\nSetup, part\n1\n---\n\n> ## Intro to code\n\n[Go](#setup-part-1)\n')
+    expect(html).toContain('<h1 data-source-line="0" id="intro-to-code">')
+    expect(html).toContain('<h2 data-source-line="2" id="setup-part-1">')
+    expect(html).toContain('<h2 data-source-line="6" id="intro-to-code-1">')
+  })
+
+  it('should render wiki links as anchors with their target', () => {
+    const html = renderMarkdown('[[notes/Plan#Next & last|<plan>]] [[Ideas]]')
+    expect(html).toContain('<a class="wiki-link" data-target="notes/Plan" data-heading="Next &amp; last">&lt;plan&gt;</a>')
+    expect(html).toContain('<a class="wiki-link" data-target="Ideas">Ideas</a>')
+  })
+
+  it('should render images written as HTML as they are', () => {
+    const html = renderMarkdown('<figure>\n<img src="d.png" width="30">\n<figcaption>D</figcaption>\n</figure>\n')
+    expect(html).toContain('<figure>\n<img src="d.png" width="30">\n<figcaption>D</figcaption>\n</figure>')
+  })
+
+  it('should render callouts with their icon and title', () => {
+    const html = renderMarkdown('> [!TIP]\n> Use it\n\n> [!todo] Before *Friday*\n')
+    expect(html).toContain('<div data-source-line="0" class="markdown-alert markdown-alert-tip">')
+    expect(html).toMatch(/<p class="markdown-alert-title"><svg[^]*<\/svg>Tip<\/p>\n<p data-source-line="1">Use it<\/p>/)
+    expect(html).toContain('</svg>Before <em>Friday</em></p>')
+  })
+
+  it('should render emoji shortcodes as the emoji', () => {
+    expect(renderMarkdown('Ship it :tada:')).toContain('Ship it <span class="emoji" title=":tada:">🎉</span>')
+  })
+
+  it('should leave out front matter and count lines from the start of the file', () => {
+    const html = renderMarkdown('---\ntitle: x\n---\n# Hi\n')
+    expect(html).not.toContain('title')
+    expect(html).toContain('<h1 data-source-line="3" id="hi">Hi</h1>')
+  })
+
+  it('should list the source line of each top-level block', () => {
+    const markdown = '---\na: 1\n---\n# Hi\n\n> q\n> r\n\ntext\n'
+    expect(blockSourceLines(markdown)).toEqual([0, 3, 5, 8])
+    expect(markdownParser.parse(markdown).childCount).toBe(4)
+  })
+})
@@ -1,94 +1,320 @@
 import { MarkdownParser, MarkdownSerializer, MarkdownSerializerState } from 'prosemirror-markdown'
 import MarkdownIt from 'markdown-it'
+import type Token from 'markdown-it/lib/token'
 import { schema } from './schema'
 import { Mark, Node } from 'prosemirror-model'
+import { taskListsPlugin } from './markdownIt/taskLists'
+import { footnotesPlugin } from './markdownIt/footnotes'
+import { sourceMarkupPlugin } from './markdownIt/sourceMarkup'
+import { mathPlugin } from './markdownIt/math'
+import { wikiLinksPlugin } from './markdownIt/wikiLinks'
+import { calloutsPlugin } from './markdownIt/callouts'
+import { inlineMarksPlugin } from './markdownIt/inlineMarks'
+import { emojiPlugin, shortcodeColons } from './markdownIt/emoji'
+import { formatFigure, formatImageTag, htmlImagesPlugin, ImageTagAttrs } from './markdownIt/htmlImages'
+import { normalizeFootnotes } from './footnotes'
+import { splitFrontMatter } from './frontMatter'
+import { formatWikiLink, WikiLink } from '../lib/wikiLinks'
+import { headingAnchors } from '../lib/links'
 
-// Extended type to access internal 'out' property for table cell serialization
-interface MarkdownSerializerStateWithOut extends MarkdownSerializerState {
+// Extended type to access internal serializer state: 'out' and 'delim' for table cell
+// serialization and verbatim output, 'flushClose' for controlling blank lines between blocks
+interface MarkdownSerializerStateInternals extends MarkdownSerializerState {
   out: string
+  delim: string
+  flushClose(size?: number): void
 }
 
+// html: true keeps raw HTML as html_block/html_inline tokens so it can be preserved verbatim
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-const md = new (MarkdownIt as any)()
+const md = new (MarkdownIt as any)({ html: true })
+md.use(taskListsPlugin)
+md.use(footnotesPlugin)
+md.use(mathPlugin)
+md.use(wikiLinksPlugin)
+md.use(inlineMarksPlugin)
+md.use(emojiPlugin)
+md.use(htmlImagesPlugin)
+md.use(calloutsPlugin)
+md.use(sourceMarkupPlugin)
+
+/**
+ * Parser that splits off YAML front matter before handing the rest to markdown-it,
+ * so `---` blocks at the top are not mistaken for horizontal rules.
+ * The file's line endings and final newline are recorded on the doc node.
+ */
+class DocumentParser extends MarkdownParser {
+  parse(text: string, markdownEnv: object = {}) {
+    const attrs = {
+      lineEnding: /\r\n/.test(text) ? '\r\n' : '\n',
+      trailingNewline: /\n$/.test(text)
+    }
+    text = text.replace(/\r\n?/g, '\n')
+
+    const frontMatter = splitFrontMatter(text)
+    // Resized and captioned images are read back from their HTML
+    const body = super.parse(frontMatter ? frontMatter.body : text, { ...markdownEnv, htmlImages: true })
+    const children: Node[] = []
+    if (frontMatter) {
+      children.push(schema.nodes.front_matter.create({
+        yaml: frontMatter.yaml,
+        closing: frontMatter.closing,
+        blankLine: !frontMatter.body.trim() || /^[ \t]*\n/.test(frontMatter.body)
+      }))
+    }
+    body.forEach(child => children.push(child))
+    return schema.nodes.doc.create(attrs, children)
+  }
+}
+
+/**
+ * Returns true if the list starting at token `index` has no blank lines between its items.
+ */
+function listIsTight(tokens: Token[], index: number) {
+  return tokens[index + 2]?.type === 'paragraph_open' && tokens[index + 2].hidden
+}
+
+/**
+ * Returns false if every item of the ordered list starting at token `index`
+ * repeats the same number (`1.` `1.` `1.`).
+ */
+function listIsIncrementing(tokens: Token[], index: number) {
+  const level = tokens[index].level + 1
+  const numbers: string[] = []
+  for (let i = index + 1; i < tokens.length && tokens[i].level >= level; i++) {
+    if (tokens[i].type === 'list_item_open' && tokens[i].level === level) {
+      numbers.push(tokens[i].info)
+    }
+  }
+  return numbers.length < 2 || numbers.some(n => n !== numbers[0])
+}
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const markdownParser = new MarkdownParser(schema, md as any, {
+export const markdownParser = new DocumentParser(schema, md as any, {
   blockquote: { block: 'blockquote' },
+  callout: { block: 'callout', getAttrs: (tok) => tok.meta },
   paragraph: { block: 'paragraph' },
-  list_item: { block: 'list_item' },
-  bullet_list: { block: 'bullet_list' },
-  ordered_list: { block: 'ordered_list', getAttrs: (tok) => ({ order: +(tok.attrGet('start') || 1) }) },
-  heading: { block: 'heading', getAttrs: (tok) => ({ level: +tok.tag.slice(1) }) },
-  code_block: { block: 'code_block', noCloseToken: true },
-  fence: { block: 'code_block', getAttrs: (tok) => ({ language: tok.info || '' }), noCloseToken: true },
-  hr: { node: 'horizontal_rule' },
+  list_item: { block: 'list_item', getAttrs: (tok) => ({
+    checked: typeof tok.meta?.checked === 'boolean' ? tok.meta.checked : null
+  })},
+  bullet_list: { block: 'bullet_list', getAttrs: (tok, tokens, i) => ({
+    bullet: tok.markup,
+    tight: listIsTight(tokens, i),
+    padding: tok.meta?.padding ?? 1
+  })},
+  ordered_list: { block: 'ordered_list', getAttrs: (tok, tokens, i) => ({
+    order: +(tok.attrGet('start') || 1),
+    delimiter: tok.markup,
+    incrementing: listIsIncrementing(tokens, i),
+    tight: listIsTight(tokens, i),
+    padding: tok.meta?.padding ?? 1
+  })},
+  heading: { block: 'heading', getAttrs: (tok) => ({
+    level: +tok.tag.slice(1),
+    setext: tok.meta?.underline ?? null,
+    closing: tok.meta?.closing ?? null
+  })},
+  code_block: { block: 'code_block', getAttrs: () => ({ fence: '' }), noCloseToken: true },
+  fence: { block: 'code_block', getAttrs: (tok) => ({ language: tok.info || '', fence: tok.markup }), noCloseToken: true },
+  hr: { node: 'horizontal_rule', getAttrs: (tok) => ({ markup: tok.meta?.markup ?? tok.markup }) },
   image: { node: 'image', getAttrs: (tok) => ({
     src: tok.attrGet('src'),
     title: tok.attrGet('title') || null,
-    alt: tok.children?.[0]?.content || null
+    alt: tok.children?.[0]?.content || null,
+    width: tok.meta?.width ?? null,
+    caption: tok.meta?.caption ?? null
   })},
   hardbreak: { node: 'hard_break' },
-  em: { mark: 'em' },
-  strong: { mark: 'strong' },
+  softbreak: { node: 'soft_break' },
+  em: { mark: 'em', getAttrs: (tok) => ({ markup: tok.markup }) },
+  strong: { mark: 'strong', getAttrs: (tok) => ({ markup: tok.markup }) },
   link: { mark: 'link', getAttrs: (tok) => ({
     href: tok.attrGet('href'),
     title: tok.attrGet('title') || null
   })},
   code_inline: { mark: 'code' },
   s: { mark: 'strikethrough' },
+  mark: { mark: 'highlight' },
+  underline: { mark: 'underline' },
+  sub: { mark: 'subscript' },
+  sup: { mark: 'superscript' },
+  kbd: { mark: 'kbd' },
   // Table token handlers
-  table: { block: 'table' },
+  table: { block: 'table', getAttrs: (tok) => ({
+    source: tok.meta?.source ?? null,
+    cells: tok.meta?.cells ?? null
+  })},
   thead: { block: 'table_head' },
   tbody: { block: 'table_body' },
   tr: { block: 'table_row' },
   th: { block: 'table_header', getAttrs: (tok) => ({ alignment: tok.attrGet('style')?.match(/text-align:(\w+)/)?.[1] || null }) },
   td: { block: 'table_cell', getAttrs: (tok) => ({ alignment: tok.attrGet('style')?.match(/text-align:(\w+)/)?.[1] || null }) },
-  // Ignore other unsupported tokens
-  html_block: { ignore: true, noCloseToken: true },
-  html_inline: { ignore: true, noCloseToken: true }
+  // Footnotes - the wrapping block and back-reference anchors carry no content
+  footnote_block: { ignore: true },
+  footnote: { block: 'footnote_definition', getAttrs: (tok) => ({ label: tok.meta.label }) },
+  footnote_ref: { node: 'footnote_reference', getAttrs: (tok) => ({ label: tok.meta.label }) },
+  footnote_anchor: { ignore: true, noCloseToken: true },
+  // Raw HTML is kept as-is so it survives a load/save cycle
+  html_block: { block: 'html_block', noCloseToken: true, getAttrs: (tok) => ({
+    blankBefore: tok.meta?.blankBefore ?? true,
+    blankAfter: tok.meta?.blankAfter ?? true
+  })},
+  html_inline: { node: 'html_inline', getAttrs: (tok) => ({ html: tok.content }) },
+  math_inline: { node: 'math_inline', getAttrs: (tok) => ({ tex: tok.content }) },
+  math_block: { node: 'math_block', getAttrs: (tok) => ({ tex: tok.content }) },
+  wiki_link: { node: 'wiki_link', getAttrs: (tok) => tok.meta },
+  emoji: { node: 'emoji', getAttrs: (tok) => ({ name: tok.markup }) }
 })
 
-export const markdownSerializer = new MarkdownSerializer({
+/**
+ * Serializer that renumbers footnotes and moves their definitions
+ * to the end of the document before writing markdown, and restores
+ * the line endings and final newline recorded by the parser.
+ */
+class DocumentSerializer extends MarkdownSerializer {
+  serialize(content: Node, options?: Parameters<MarkdownSerializer['serialize']>[1]) {
+    let markdown = super.serialize(normalizeFootnotes(content), options)
+    if (content.attrs.trailingNewline && markdown) {
+      markdown += '\n'
+    }
+    if (content.attrs.lineEnding === '\r\n') {
+      markdown = markdown.replace(/\n/g, '\r\n')
+    }
+    return markdown
+  }
+}
+
+export const markdownSerializer = new DocumentSerializer({
+  front_matter(state, node) {
+    const yaml = node.attrs.yaml
+    state.write('---\n' + (yaml ? yaml + '\n' : '') + node.attrs.closing)
+    // Content directly below the closing fence stays there
+    if (node.attrs.blankLine) state.closeBlock(node)
+    else state.ensureNewLine()
+  },
   blockquote(state, node) {
     state.wrapBlock('> ', null, node, () => state.renderContent(node))
   },
+  callout(state, node) {
+    const { kind, marker, title, loose } = node.attrs
+    // Keep the marker as written unless the kind was changed
+    const name = marker && marker.toLowerCase() === kind ? marker : kind.toUpperCase()
+    state.wrapBlock('> ', null, node, () => {
+      state.write(`[!${name}]` + (title ? ` ${title}` : ''))
+      // A callout with nothing but the marker holds one empty paragraph
+      if (node.childCount === 1 && node.firstChild!.type === schema.nodes.paragraph && node.firstChild!.content.size === 0) {
+        state.closeBlock(node)
+        return
+      }
+      if (loose) state.closeBlock(node)
+      else state.ensureNewLine()
+      state.renderContent(node)
+    })
+  },
   code_block(state, node) {
     const language = node.attrs.language || ''
-    state.write('```' + language + '\n')
-    state.text(node.textContent, false)
+    // Indented code blocks cannot carry a language and cannot be empty
+    const fence = node.attrs.fence || (language || !node.textContent ? '```' : '')
+    if (!fence) {
+      state.wrapBlock('    ', null, node, () => writeVerbatim(state, node.textContent))
+      return
+    }
+    state.write(fence + language + '\n')
+    writeVerbatim(state, node.textContent)
     state.ensureNewLine()
-    state.write('```')
+    state.write(fence)
     state.closeBlock(node)
   },
+  html_block(state, node) {
+    const html = node.textContent
+    // Only blocks that can interrupt a paragraph may follow the previous block directly
+    if (!node.attrs.blankBefore && HTML_BLOCK_START.test(html)) {
+      (state as MarkdownSerializerStateInternals).flushClose(1)
+    }
+    writeVerbatim(state, html)
+    // Blocks ending at a blank line would take in the next block without one
+    if (!node.attrs.blankAfter && HTML_BLOCK_WITH_END.test(html)) state.ensureNewLine()
+    else state.closeBlock(node)
+  },
+  html_inline(state, node) {
+    state.text(node.attrs.html, false)
+  },
+  math_block(state, node) {
+    state.write('$$\n')
+    writeVerbatim(state, node.attrs.tex)
+    state.ensureNewLine()
+    state.write('$$')
+    state.closeBlock(node)
+  },
+  math_inline(state, node) {
+    state.write('$' + node.attrs.tex + '$')
+  },
+  wiki_link(state, node) {
+    state.write(formatWikiLink(node.attrs as WikiLink))
+  },
+  emoji(state, node) {
+    state.write(`:${node.attrs.name}:`)
+  },
   heading(state, node) {
-    state.write(state.repeat('#', node.attrs.level) + ' ')
-    state.renderInline(node)
+    const { level, setext } = node.attrs
+    if (isSetextHeading(node)) {
+      state.renderInline(node)
+      state.ensureNewLine()
+      state.write(setext)
+    } else {
+      state.write(state.repeat('#', level) + ' ')
+      state.renderInline(node)
+      if (node.attrs.closing && node.content.size > 0) state.write(node.attrs.closing)
+    }
     state.closeBlock(node)
   },
   horizontal_rule(state, node) {
-    state.write(node.attrs.markup || '---')
+    state.write(node.attrs.markup)
     state.closeBlock(node)
   },
-  bullet_list(state, node) {
-    state.renderList(node, '  ', () => '- ')
+  bullet_list(state, node, parent, index) {
+    separateFromPreviousList(state, node, parent, index, 'bullet')
+    const padding = state.repeat(' ', node.attrs.padding)
+    state.renderList(node, ' ' + padding, () => node.attrs.bullet + padding)
   },
-  ordered_list(state, node) {
-    const start = node.attrs.order || 1
-    const maxW = String(start + node.childCount - 1).length
-    const space = state.repeat(' ', maxW + 2)
-    state.renderList(node, space, (i) => {
-      const nStr = String(start + i)
-      return state.repeat(' ', maxW - nStr.length) + nStr + '. '
-    })
+  ordered_list(state, node, parent, index) {
+    separateFromPreviousList(state, node, parent, index, 'delimiter')
+    const { order, delimiter, incrementing } = node.attrs
+    const start = order ?? 1
+    const maxW = String(incrementing ? start + node.childCount - 1 : start).length
+    const padding = state.repeat(' ', node.attrs.padding)
+    const space = state.repeat(' ', maxW + 1) + padding
+    state.renderList(node, space, (i) => String(incrementing ? start + i : start) + delimiter + padding)
   },
   list_item(state, node) {
+    if (node.attrs.checked !== null) {
+      // An empty item would end in the space after the checkbox
+      const empty = node.childCount === 1 && node.firstChild!.content.size === 0
+      state.write((node.attrs.checked ? '[x]' : '[ ]') + (empty ? '' : ' '))
+    }
     state.renderContent(node)
   },
   paragraph(state, node) {
-    state.renderInline(node)
+    const image = node.childCount === 1 ? node.firstChild! : null
+    if (image?.type === schema.nodes.image && image.attrs.caption) {
+      writeVerbatim(state, formatFigure(image.attrs as ImageTagAttrs, image.attrs.caption))
+    } else {
+      state.renderInline(node)
+    }
     state.closeBlock(node)
   },
+  footnote_definition(state, node) {
+    state.wrapBlock('    ', '[^' + node.attrs.label + ']: ', node, () => state.renderContent(node))
+  },
+  footnote_reference(state, node) {
+    state.write('[^' + node.attrs.label + ']')
+  },
   image(state, node) {
+    // Captions are only kept for images on their own line, see paragraph
+    if (node.attrs.width) {
+      state.write(formatImageTag(node.attrs as ImageTagAttrs))
+      return
+    }
     state.write('![' + state.esc(node.attrs.alt || '') + '](' + node.attrs.src +
       (node.attrs.title ? ' "' + node.attrs.title.replace(/"/g, '\\"') + '"' : '') + ')')
   },
@@ -100,14 +326,37 @@ export const markdownSerializer = new MarkdownSerializer({
       }
     }
   },
-  text(state, node) {
-    state.text(node.text || '')
+  soft_break(state, _node, parent) {
+    // ATX headings end at the line break, so their lines are joined
+    if (parent.type === schema.nodes.heading && !isSetextHeading(parent)) state.write(' ')
+    else state.text('\n', false)
+  },
+  text(state, node, parent, index) {
+    const text = node.text || ''
+    // The text of autolinks (`<https://...>`) is written as it is
+    if (node.marks.some(mark => mark.type === schema.marks.link && mark.attrs.href === text && /^\w+:/.test(text))) {
+      state.text(text, false)
+      return
+    }
+    let start = 0
+    const previous = index > 0 ? parent.child(index - 1).type : null
+    const lineStart = !previous || previous === schema.nodes.soft_break || previous === schema.nodes.hard_break
+    for (const position of markupEscapes(text, node.marks, lineStart)) {
+      state.text(text.slice(start, position))
+      state.write('\\' + text[position])
+      start = position + 1
+    }
+    state.text(text.slice(start))
   },
   // Table serialization - we handle the entire table structure here
   table(state, node) {
     const rows: { cells: string[], alignments: (string | null)[] }[] = []
     let columnAlignments: (string | null)[] = []
 
+    // Separate from the previous block now, cell rendering below would swallow the pending blank line
+    const internals = state as MarkdownSerializerStateInternals
+    internals.flushClose()
+
     // Collect all rows and cells
     node.forEach(section => {
       const isHead = section.type.name === 'table_head'
@@ -126,14 +375,18 @@ export const markdownSerializer = new MarkdownSerializer({
           })
           // Handle marks (bold, italic, code, etc.)
           if (cell.childCount > 0) {
-            const tempState = state as MarkdownSerializerStateWithOut
-            const oldOut = tempState.out
-            tempState.out = ''
+            // Render without the line prefix of enclosing blocks (blockquote "> ")
+            const oldOut = internals.out
+            const oldDelim = internals.delim
+            internals.out = ''
+            internals.delim = ''
             state.renderInline(cell)
-            cellContent = tempState.out.trim()
-            tempState.out = oldOut
+            cellContent = internals.out.trim()
+            internals.out = oldOut
+            internals.delim = oldDelim
           }
-          cells.push(cellContent)
+          // A bare pipe would end the cell
+          cells.push(cellContent.replace(/\\?\|/g, pipe => pipe.length === 2 ? pipe : '\\|'))
           alignments.push(cell.attrs.alignment)
         })
         rows.push({ cells, alignments })
@@ -146,6 +399,13 @@ export const markdownSerializer = new MarkdownSerializer({
 
     if (rows.length === 0) return
 
+    // Unedited tables are written back exactly as they were parsed
+    if (node.attrs.source && tableMatchesSource(node.attrs.source, node.attrs.cells, rows, columnAlignments)) {
+      writeVerbatim(state, node.attrs.source)
+      state.closeBlock(node)
+      return
+    }
+
     // Calculate column widths for nice formatting
     const columnCount = Math.max(...rows.map(r => r.cells.length))
     const columnWidths: number[] = []
@@ -176,17 +436,16 @@ export const markdownSerializer = new MarkdownSerializer({
       }
       state.write(' ' + sep + ' |')
     }
-    state.write('\n')
 
     // Write body rows
     for (let rowIdx = 1; rowIdx < rows.length; rowIdx++) {
       const row = rows[rowIdx]
+      state.write('\n')
       state.write('|')
       for (let i = 0; i < columnCount; i++) {
         const cell = row.cells[i] || ''
         state.write(' ' + cell.padEnd(columnWidths[i]) + ' |')
       }
-      state.write('\n')
     }
 
     state.closeBlock(node)
@@ -209,14 +468,14 @@ export const markdownSerializer = new MarkdownSerializer({
   }
 }, {
   em: {
-    open: '*',
-    close: '*',
+    open: (_state, mark: Mark, parent: Node, index: number) => emphasisDelimiter(mark, parent, index, 1),
+    close: (_state, mark: Mark, parent: Node, index: number) => emphasisDelimiter(mark, parent, index, -1),
     mixable: true,
     expelEnclosingWhitespace: true
   },
   strong: {
-    open: '**',
-    close: '**',
+    open: (_state, mark: Mark, parent: Node, index: number) => emphasisDelimiter(mark, parent, index, 1),
+    close: (_state, mark: Mark, parent: Node, index: number) => emphasisDelimiter(mark, parent, index, -1),
     mixable: true,
     expelEnclosingWhitespace: true
   },
@@ -244,9 +503,237 @@ export const markdownSerializer = new MarkdownSerializer({
     close: '~~',
     mixable: true,
     expelEnclosingWhitespace: true
+  },
+  highlight: {
+    open: '==',
+    close: '==',
+    mixable: true,
+    expelEnclosingWhitespace: true
+  },
+  underline: {
+    open: '<u>',
+    close: '</u>',
+    mixable: true
+  },
+  subscript: {
+    open: '~',
+    close: '~',
+    expelEnclosingWhitespace: true
+  },
+  superscript: {
+    open: '^',
+    close: '^',
+    expelEnclosingWhitespace: true
+  },
+  kbd: {
+    open: '<kbd>',
+    close: '</kbd>',
+    mixable: true
   }
 })
 
+/**
+ * Parses the markdown body with markdown-it, skipping front matter.
+ * Token line maps are shifted so they count from the start of the whole document.
+ */
+export function parseBody(markdown: string, env: object) {
+  const text = markdown.replace(/\r\n?/g, '\n')
+  const frontMatter = splitFrontMatter(text)
+  const body = frontMatter ? frontMatter.body : text
+  const lineOffset = text.slice(0, text.length - body.length).split('\n').length - 1
+
+  const tokens: Token[] = md.parse(body, env)
+  for (const token of tokens) {
+    if (token.map) token.map = [token.map[0] + lineOffset, token.map[1] + lineOffset]
+  }
+  return { tokens, hasFrontMatter: frontMatter !== null }
+}
+
+/**
+ * Renders markdown to HTML with the same markdown-it setup the editor parses with.
+ * Front matter is left out, and block elements get a `data-source-line`
+ * attribute with their (0-based) line in the source, used for scroll syncing.
+ * The output is not sanitized.
+ */
+export function renderMarkdown(markdown: string): string {
+  const env = {}
+  const { tokens } = parseBody(markdown, env)
+  const headings: { token: Token; text: string }[] = []
+  tokens.forEach((token, i) => {
+    if (token.map && token.block && token.nesting !== -1) {
+      token.attrSet('data-source-line', String(token.map[0]))
+    }
+    if (token.type === 'heading_open') headings.push({ token, text: inlineText(tokens[i + 1]) })
+  })
+  // Headings get the anchors the editor links to, so `#anchor` links work in the preview
+  const anchors = headingAnchors(headings.map(heading => heading.text))
+  headings.forEach(({ token }, i) => {
+    if (anchors[i]) token.attrSet('id', anchors[i])
+  })
+  return md.renderer.render(tokens, md.options, env)
+}
+
+/**
+ * Returns the text of an inline token the way the editor shows it, which is
+ * the text heading anchors are made from.
+ */
+function inlineText(token: Token): string {
+  return (token.children ?? []).map(child => {
+    if (child.type === 'softbreak') return ' '
+    return child.type === 'text' || child.type === 'code_inline' || child.type === 'emoji' ? child.content : ''
+  }).join('')
+}
+
+/**
+ * Returns the (0-based) source line of each top-level block of a document,
+ * in the same order as the children of the parsed doc node.
+ */
+export function blockSourceLines(markdown: string): number[] {
+  const { tokens, hasFrontMatter } = parseBody(markdown, {})
+  const lines = hasFrontMatter ? [0] : []
+  for (const token of tokens) {
+    if (token.map && token.level === 0 && token.nesting !== -1) lines.push(token.map[0])
+  }
+  return lines
+}
+
+// Text that markdown-it would parse as inline math (see markdownIt/math.ts)
+const INLINE_MATH = /\$(?:[^\s$]|[^\s$][^$]*[^\s$\\])\$(?!\d)/
+
+// Text that markdown-it would parse as a highlight or superscript (see markdownIt/inlineMarks.ts)
+const HIGHLIGHT = /==[^\s=](?:.*[^\s=])?==/
+const SUPERSCRIPT = /\^[^\s^]+\^/
+
+// A tag, closing tag, comment or other markup markdown-it would keep as raw HTML
+const HTML_TAG = new RegExp('^<(?:' + [
+  '[A-Za-z][A-Za-z0-9-]*(?:\\s+[A-Za-z_:][\\w.:-]*(?:\\s*=\\s*(?:[^"\'=<>`\\x00-\\x20]+|\'[^\']*\'|"[^"]*"))?)*\\s*\\/?>',
+  '\\/[A-Za-z][A-Za-z0-9-]*\\s*>',
+  '!---?>|!--(?:[^-]|-[^-]|--[^>])*-->',
+  '\\?[\\s\\S]*?\\?>',
+  '![A-Za-z][^>]*>',
+  '!\\[CDATA\\[[\\s\\S]*?\\]\\]>'
+].join('|') + ')')
+
+// The start of a line that markdown-it would read as an HTML block, even without the rest of a tag
+const HTML_BLOCK_START = new RegExp('^<(?:!|\\?|\\/?(?:' + [
+  'script|pre|style|textarea|address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup',
+  'dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header',
+  'hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section',
+  'summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul'
+].join('|') + ')(?=[\\s/>]|$))', 'i')
+
+// The start of an HTML block that ends at its closing markup (`-->`, `</script>`) rather than a blank line
+const HTML_BLOCK_WITH_END = /^<(?:!|\?|(?:script|pre|style|textarea)(?=[\s>]|$))/i
+
+/**
+ * Finds the characters of a text node that need a backslash so they are not
+ * read as markup, and returns their positions in order. Most are escaped by
+ * `state.text`, but dollars, colons, `=`, `^` and `<` only where they would now
+ * be read as inline math, an emoji, a highlight, a superscript or raw HTML. At
+ * the start of a line (`lineStart`), a block tag name alone starts raw HTML.
+ * Spaces are escaped within subscripts and superscripts, which cannot contain
+ * them otherwise.
+ */
+function markupEscapes(text: string, marks: readonly Mark[], lineStart: boolean): number[] {
+  const superscript = marks.some(mark => mark.type === schema.marks.superscript)
+  const script = superscript || marks.some(mark => mark.type === schema.marks.subscript)
+
+  let characters = ''
+  if (INLINE_MATH.test(text)) characters += '$'
+  if (HIGHLIGHT.test(text)) characters += '='
+  if (superscript || SUPERSCRIPT.test(text)) characters += '^'
+  if (script) characters += ' '
+
+  const positions = shortcodeColons(text)
+  for (const match of text.matchAll(/</g)) {
+    const rest = text.slice(match.index)
+    const blockStart = lineStart && /^[ \t]*$/.test(text.slice(0, match.index)) && HTML_BLOCK_START.test(rest)
+    if (blockStart || HTML_TAG.test(rest)) positions.push(match.index!)
+  }
+  if (characters) {
+    for (const match of text.matchAll(new RegExp(`[${characters.replace('^', '\\^')}]`, 'g'))) positions.push(match.index!)
+  }
+  return positions.sort((a, b) => a - b)
+}
+
+/**
+ * Writes text line by line without escaping. Unlike `state.text(text, false)`,
+ * this never escapes lines that look like link reference definitions,
+ * and blank lines do not get trailing whitespace from the line prefix.
+ */
+function writeVerbatim(state: MarkdownSerializerState, text: string) {
+  const output = state as MarkdownSerializerStateInternals
+  text.split('\n').forEach((line, i) => {
+    if (i > 0) output.out += '\n'
+    state.write()
+    if (!line) output.out = output.out.replace(/[ \t]+$/, '')
+    output.out += line
+  })
+}
+
+/**
+ * Returns true if a heading is written with its setext underline, which
+ * only levels 1 and 2 have.
+ */
+function isSetextHeading(node: Node) {
+  const { level, setext } = node.attrs
+  return !!setext && node.content.size > 0 && setext[0] === (level === 1 ? '=' : level === 2 ? '-' : '')
+}
+
+/**
+ * renderList puts two blank lines between adjacent lists of the same type so they
+ * do not merge. Lists with different markers never merge, so one blank line is enough.
+ */
+function separateFromPreviousList(state: MarkdownSerializerState, node: Node, parent: Node, index: number, marker: string) {
+  const previous = index > 0 ? parent.child(index - 1) : null
+  if (previous?.type === node.type && previous.attrs[marker] !== node.attrs[marker]) {
+    (state as MarkdownSerializerStateInternals).flushClose(2)
+  }
+}
+
+/**
+ * Returns the delimiter for an em or strong mark. Underscores only work at word
+ * boundaries, so they fall back to asterisks when the marked text is now
+ * directly next to a letter or digit.
+ */
+function emphasisDelimiter(mark: Mark, parent: Node, index: number, side: number) {
+  const markup: string = mark.attrs.markup
+  if (markup[0] !== '_') return markup
+
+  let start = index
+  let end = index
+  if (side > 0) {
+    while (end < parent.childCount && mark.isInSet(parent.child(end).marks)) end++
+  } else {
+    while (start > 0 && mark.isInSet(parent.child(start - 1).marks)) start--
+  }
+  const before = start > 0 ? parent.child(start - 1).text?.slice(-1) : ''
+  const after = end < parent.childCount ? parent.child(end).text?.[0] : ''
+  return /\w/.test((before || '') + (after || '')) ? markup.replace(/_/g, '*') : markup
+}
+
+/**
+ * Returns true if a table still has the cells and column alignments it was parsed with.
+ */
+function tableMatchesSource(
+  source: string,
+  cells: string[][] | null,
+  rows: { cells: string[] }[],
+  alignments: (string | null)[]
+) {
+  // markdown-it drops the backslash of escaped pipes from the cell contents
+  const unescaped = rows.map(row => row.cells.map(cell => cell.replace(/\\\|/g, '|')))
+  if (JSON.stringify(unescaped) !== JSON.stringify(cells)) return false
+
+  const separator = source.split('\n')[1] || ''
+  const sourceAlignments = separator.trim().replace(/^\||\|$/g, '').split('|').map(cell => {
+    const left = cell.trim().startsWith(':')
+    const right = cell.trim().endsWith(':')
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null
+  })
+  return JSON.stringify(sourceAlignments) === JSON.stringify(alignments)
+}
+
 function backticksFor(node: Node, side: number) {
   const ticks = /`+/g
   let m: RegExpExecArray | null
@@ -0,0 +1,94 @@
+/**
+ * Callouts markdown-it Plugin
+ *
+ * Recognizes GitHub alerts, blockquotes whose first line is a `[!KIND]`
+ * marker, optionally followed by a title as Obsidian allows:
+ *
+ *     > [!WARNING] Mind the gap
+ *     > Text of the callout
+ *
+ * The blockquote tokens become `callout_open` / `callout_close` with the kind,
+ * the marker as written, the title and whether a blank line follows the
+ * marker in `meta`. The marker line is removed from the content. The preview
+ * renderer emits the alert with its icon and title.
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateCore from 'markdown-it/lib/rules_core/state_core'
+import type Token from 'markdown-it/lib/token'
+import { calloutIcon, calloutLabel } from '../../lib/callouts'
+
+const CALLOUT_MARKER = /^\[!([a-zA-Z][\w-]*)\](?:[ \t]+(.*))?$/
+
+export interface CalloutMeta {
+  kind: string
+  marker: string
+  title: string | null
+  loose: boolean
+}
+
+/**
+ * Removes the inline children up to and including the first line break.
+ */
+function removeFirstLine(children: Token[]): Token[] {
+  const lineBreak = children.findIndex(child => child.type === 'softbreak')
+  return lineBreak >= 0 ? children.slice(lineBreak + 1) : []
+}
+
+// Returns true if a blank line comes between two blocks
+function isSeparated(block: Token, next: Token | undefined): boolean {
+  return !!block.map && !!next?.map && next.map[0] > block.map[1]
+}
+
+function calloutRule(state: StateCore) {
+  const tokens = state.tokens
+
+  for (let i = 0; i < tokens.length - 2; i++) {
+    const open = tokens[i]
+    const inline = tokens[i + 2]
+    if (open.type !== 'blockquote_open' || tokens[i + 1].type !== 'paragraph_open' || inline.type !== 'inline') continue
+
+    const [firstLine, ...rest] = inline.content.split('\n')
+    const match = CALLOUT_MARKER.exec(firstLine)
+    if (!match || !inline.children?.[0] || inline.children[0].type !== 'text') continue
+
+    const close = tokens.findIndex((token, index) => index > i && token.type === 'blockquote_close' && token.level === open.level)
+    if (close < 0) continue
+
+    const meta: CalloutMeta = {
+      kind: match[1].toLowerCase(),
+      marker: match[1],
+      title: match[2]?.trim() || null,
+      loose: rest.length === 0 && isSeparated(tokens[i + 1], tokens[i + 4])
+    }
+    open.type = 'callout_open'
+    open.tag = 'div'
+    open.meta = meta
+    tokens[close].type = 'callout_close'
+    tokens[close].tag = 'div'
+
+    if (rest.length > 0) {
+      inline.content = rest.join('\n')
+      inline.children = removeFirstLine(inline.children)
+      // The paragraph now starts on the line after the marker
+      const paragraph = tokens[i + 1]
+      if (paragraph.map) paragraph.map = [paragraph.map[0] + 1, paragraph.map[1]]
+    } else {
+      // The marker was all of the first paragraph
+      tokens.splice(i + 1, 3)
+    }
+  }
+}
+
+export function calloutsPlugin(md: MarkdownIt) {
+  md.core.ruler.push('callouts', calloutRule)
+
+  md.renderer.rules.callout_open = (tokens, idx, _options, _env, self) => {
+    const token = tokens[idx]
+    const { kind, title } = token.meta as CalloutMeta
+    token.attrJoin('class', `markdown-alert markdown-alert-${kind}`)
+    const heading = title ? md.renderInline(title) : calloutLabel(kind)
+    return `<div${self.renderAttrs(token)}>\n<p class="markdown-alert-title">${calloutIcon(kind)}${heading}</p>\n`
+  }
+  md.renderer.rules.callout_close = () => '</div>\n'
+}
@@ -0,0 +1,110 @@
+/**
+ * Emoji markdown-it Plugin
+ *
+ * Turns `:shortcode:`s with a known name (`:tada:`, `:+1:`) into `emoji`
+ * tokens with the name as markup. Escaped colons (`\:tada:`), code and
+ * autolinks are left alone. The preview renders them as the emoji itself.
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateCore from 'markdown-it/lib/rules_core/state_core'
+import type Token from 'markdown-it/lib/token'
+import { emojiByName } from '../../lib/emoji'
+
+const SHORTCODE = /:([a-z0-9_+-]+):/g
+
+/**
+ * Finds the shortcodes of known emoji in a text. The closing colon of an
+ * unknown name can open the next shortcode (`:a:tada:`).
+ */
+function findShortcodes(text: string): { index: number; name: string }[] {
+  const found: { index: number; name: string }[] = []
+  const pattern = new RegExp(SHORTCODE)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    if (emojiByName(match[1])) {
+      found.push({ index: match.index, name: match[1] })
+    } else {
+      pattern.lastIndex--
+    }
+  }
+  return found
+}
+
+/**
+ * Returns the positions of the colons that need a backslash so no shortcode
+ * in the text is read as an emoji: the opening colon of each one. Text after
+ * an escaped colon is searched again, as its closing colon can then open
+ * another shortcode (`\:tada:tada:`).
+ */
+export function shortcodeColons(text: string): number[] {
+  const colons: number[] = []
+  let offset = 0
+  for (;;) {
+    const [first] = findShortcodes(text.slice(offset))
+    if (!first) return colons
+    colons.push(offset + first.index)
+    offset += first.index + 1
+  }
+}
+
+/**
+ * Splits a text token at its shortcodes, or returns null if it has none.
+ */
+function splitShortcodes(state: StateCore, token: Token): Token[] | null {
+  const text = token.content
+  const shortcodes = findShortcodes(text)
+  if (shortcodes.length === 0) return null
+
+  const tokens: Token[] = []
+  const pushText = (content: string) => {
+    if (!content) return
+    const part = new state.Token('text', '', 0)
+    part.content = content
+    tokens.push(part)
+  }
+
+  let start = 0
+  for (const { index, name } of shortcodes) {
+    pushText(text.slice(start, index))
+    const emoji = new state.Token('emoji', '', 0)
+    emoji.markup = name
+    emoji.content = emojiByName(name)!.emoji
+    tokens.push(emoji)
+    start = index + name.length + 2
+  }
+  pushText(text.slice(start))
+  return tokens
+}
+
+function emojiRule(state: StateCore) {
+  for (const block of state.tokens) {
+    if (block.type !== 'inline' || !block.children) continue
+
+    const children: Token[] = []
+    let autolink = 0
+    for (const token of block.children) {
+      if (token.type === 'link_open' && token.markup === 'autolink') autolink++
+      if (token.type === 'link_close' && token.markup === 'autolink') autolink--
+
+      const split = token.type === 'text' && !autolink ? splitShortcodes(state, token) : null
+      if (split) {
+        for (const part of split) part.level = token.level
+        children.push(...split)
+      } else {
+        children.push(token)
+      }
+    }
+    block.children = children
+  }
+}
+
+export function emojiPlugin(md: MarkdownIt) {
+  // Before escaped characters are joined with the text around them
+  md.core.ruler.before('text_join', 'emoji', emojiRule)
+
+  md.renderer.rules.emoji = (tokens, idx) => {
+    const { content, markup } = tokens[idx]
+    return `<span class="emoji" title=":${markup}:">${content}</span>`
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Footnotes markdown-it Plugin
+ *
+ * Wraps markdown-it-footnote with two adjustments for round-tripping:
+ * - Definitions that are never referenced are kept instead of dropped,
+ *   so saving a document does not silently delete them.
+ * - Inline footnotes (`^[text]`) get a numeric label that does not clash
+ *   with existing labels, so they can be serialized as `[^n]` references.
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateCore from 'markdown-it/lib/rules_core/state_core'
+import type Token from 'markdown-it/lib/token'
+import markdownItFootnote from 'markdown-it-footnote'
+
+interface FootnoteEntry {
+  label?: string
+  count: number
+  content?: string
+  tokens?: Token[]
+}
+
+interface FootnoteEnv {
+  footnotes?: {
+    refs?: Record<string, number>
+    list?: FootnoteEntry[]
+  }
+}
+
+function labelInlineRefs(tokens: Token[], id: number, label: string) {
+  for (const token of tokens) {
+    if (token.type === 'footnote_ref' && token.meta.id === id) {
+      token.meta.label = label
+    }
+    if (token.children) {
+      labelInlineRefs(token.children, id, label)
+    }
+  }
+}
+
+function keepAllFootnotesRule(state: StateCore) {
+  const env = state.env as FootnoteEnv
+  if (!env.footnotes) return
+
+  const refs = env.footnotes.refs || (env.footnotes.refs = {})
+  const list = env.footnotes.list || (env.footnotes.list = [])
+
+  // Register unreferenced definitions so footnote_tail emits them too
+  for (const key of Object.keys(refs)) {
+    if (refs[key] < 0) {
+      refs[key] = list.length
+      list.push({ label: key.slice(1), count: 0 })
+    }
+  }
+
+  // Give inline footnotes a label that is not used elsewhere in the document
+  let next = 1
+  list.forEach((entry, id) => {
+    if (entry.label !== undefined) return
+    while (refs[':' + next] !== undefined) next++
+    entry.label = String(next)
+    refs[':' + next] = id
+    labelInlineRefs(state.tokens, id, entry.label)
+  })
+}
+
+export function footnotesPlugin(md: MarkdownIt) {
+  md.use(markdownItFootnote)
+  md.core.ruler.before('footnote_tail', 'footnote_keep_all', keepAllFootnotesRule)
+}
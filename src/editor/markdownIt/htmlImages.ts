@@ -0,0 +1,155 @@
+/**
+ * HTML Images markdown-it Plugin
+ *
+ * Markdown has no syntax for the size of an image or a caption, so the editor
+ * writes resized images as `<img>` tags and captioned ones as a `<figure>`:
+ *
+ *     <figure>
+ *     <img src="a.png" alt="A" width="320">
+ *     <figcaption>The caption</figcaption>
+ *     </figure>
+ *
+ * This plugin reads those back as image tokens, with the width and caption in
+ * the token's meta, so they stay editable images. Only HTML exactly as the
+ * editor writes it is read, other HTML is kept byte for byte. Only applies when
+ * the env sets `htmlImages`, which the editor's parser does; the preview
+ * renders the HTML as it is.
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateCore from 'markdown-it/lib/rules_core/state_core'
+import type Token from 'markdown-it/lib/token'
+
+export interface ImageTagAttrs {
+  src: string
+  alt: string | null
+  title: string | null
+  width: number | null
+}
+
+const IMAGE_ATTRIBUTES = new Set(['src', 'alt', 'title', 'width'])
+const IMAGE_TAG = /^<img\b((?:\s+[a-zA-Z-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>$/i
+const ATTRIBUTE = /([a-zA-Z-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+const FIGURE = /^<figure>\n(<img\b[^>]*>)\n<figcaption>([^<\n]*)<\/figcaption>\n<\/figure>$/
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", '#x27': "'" }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|#39|#x27);/g, (_, name: string) => ENTITIES[name])
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Reads an `<img>` tag that only has a src and optionally alt, title and a
+ * width in pixels. Returns null for anything else.
+ */
+export function parseImageTag(html: string): ImageTagAttrs | null {
+  const tag = IMAGE_TAG.exec(html.trim())
+  if (!tag) return null
+
+  const values = new Map<string, string>()
+  let match: RegExpExecArray | null
+  ATTRIBUTE.lastIndex = 0
+  while ((match = ATTRIBUTE.exec(tag[1]))) {
+    const name = match[1].toLowerCase()
+    if (!IMAGE_ATTRIBUTES.has(name) || values.has(name)) return null
+    values.set(name, decodeEntities(match[2] ?? match[3] ?? match[4] ?? ''))
+  }
+
+  const src = values.get('src')
+  const width = values.get('width')
+  if (!src || (width !== undefined && !/^\d+$/.test(width))) return null
+  return {
+    src,
+    alt: values.get('alt') || null,
+    title: values.get('title') || null,
+    width: width ? Number(width) : null
+  }
+}
+
+export function formatImageTag(attrs: ImageTagAttrs): string {
+  return `<img src="${escapeHtml(attrs.src)}"` +
+    (attrs.alt ? ` alt="${escapeHtml(attrs.alt)}"` : '') +
+    (attrs.title ? ` title="${escapeHtml(attrs.title)}"` : '') +
+    (attrs.width ? ` width="${attrs.width}"` : '') + '>'
+}
+
+export function formatFigure(attrs: ImageTagAttrs, caption: string): string {
+  return `<figure>\n${formatImageTag(attrs)}\n<figcaption>${escapeHtml(caption)}</figcaption>\n</figure>`
+}
+
+// Reads an image tag only if the editor would write it the same way
+function readImageTag(html: string): ImageTagAttrs | null {
+  const attrs = parseImageTag(html)
+  return attrs && formatImageTag(attrs) === html ? attrs : null
+}
+
+function imageToken(state: StateCore, attrs: ImageTagAttrs, caption: string | null): Token {
+  const token = new state.Token('image', 'img', 0)
+  token.attrs = [['src', attrs.src]]
+  if (attrs.title) token.attrs.push(['title', attrs.title])
+  // The alt text is read from the children, as for markdown images
+  const alt = new state.Token('text', '', 0)
+  alt.content = attrs.alt ?? ''
+  token.children = attrs.alt ? [alt] : []
+  token.content = attrs.alt ?? ''
+  token.meta = { width: attrs.width, caption }
+  return token
+}
+
+/**
+ * Turns an HTML block starting with an image or holding a figure into a
+ * paragraph. A line starting with a tag begins an HTML block that runs up to
+ * the next blank line, so text on the lines after the image belongs to it.
+ */
+function imageParagraph(state: StateCore, token: Token): Token[] | null {
+  const content = token.content.replace(/\n$/, '')
+  const figure = FIGURE.exec(content)
+  const [first, ...rest] = content.split('\n')
+  const attrs = figure ? parseImageTag(figure[1]) : readImageTag(first)
+  if (!attrs || (figure && formatFigure(attrs, decodeEntities(figure[2])) !== content)) return null
+
+  const open = new state.Token('paragraph_open', 'p', 1)
+  const inline = new state.Token('inline', '', 0)
+  const close = new state.Token('paragraph_close', 'p', -1)
+  open.map = token.map
+  open.level = token.level
+  close.level = token.level
+  inline.level = token.level + 1
+  inline.content = token.content
+  inline.children = [imageToken(state, attrs, figure ? decodeEntities(figure[2]) : null)]
+  if (!figure && rest.length > 0) {
+    inline.children.push(new state.Token('softbreak', 'br', 0))
+    inline.children.push(...(state.md.parseInline(rest.join('\n'), state.env)[0].children ?? []))
+  }
+  return [open, inline, close]
+}
+
+function readHtmlImages(state: StateCore) {
+  if (!state.env?.htmlImages) return
+
+  const tokens: Token[] = []
+  for (const token of state.tokens) {
+    if (token.type === 'html_block') {
+      const paragraph = imageParagraph(state, token)
+      if (paragraph) {
+        tokens.push(...paragraph)
+        continue
+      }
+    } else if (token.type === 'inline' && token.children) {
+      token.children = token.children.map(child => {
+        const attrs = child.type === 'html_inline' ? readImageTag(child.content) : null
+        return attrs ? imageToken(state, attrs, null) : child
+      })
+    }
+    tokens.push(token)
+  }
+  state.tokens = tokens
+}
+
+export function htmlImagesPlugin(md: MarkdownIt) {
+  md.core.ruler.push('html_images', readHtmlImages)
+}
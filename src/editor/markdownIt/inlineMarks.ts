@@ -0,0 +1,190 @@
+/**
+ * Inline Marks markdown-it Plugin
+ *
+ * Adds the inline formats CommonMark lacks:
+ *
+ * - `==highlight==`, delimited like `~~strikethrough~~`
+ * - `~subscript~` and `^superscript^` as in Pandoc, whose text cannot contain
+ *   unescaped spaces (`H~2~O`, `2^10^`, `x^a\ b^`) and is not parsed further
+ * - `<u>underline</u>` and `<kbd>keys</kbd>`, whose matching HTML tags within
+ *   a paragraph become `underline` and `kbd` tokens instead of raw HTML
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateCore from 'markdown-it/lib/rules_core/state_core'
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline'
+import type Token from 'markdown-it/lib/token'
+
+const EQUALS = 0x3D
+
+// Backslash escapes allowed in subscript and superscript text, including spaces
+const UNESCAPE = /\\([ \\!"#$%&'()*+,./:;<=>?@[\]^_`{|}~-])/g
+
+// Unescaped whitespace ends a subscript or superscript
+const UNESCAPED_SPACE = /(^|[^\\])(\\\\)*\s/
+
+const HTML_MARKS: Record<string, string> = { u: 'underline', kbd: 'kbd' }
+const HTML_MARK_TAG = /^<(\/?)(u|kbd)>$/i
+
+/**
+ * Pushes a text token for each pair of `=` and records it as a delimiter,
+ * to be matched up by markdown-it's `balance_pairs` rule.
+ */
+function highlightRule(state: StateInline, silent: boolean) {
+  if (silent || state.src.charCodeAt(state.pos) !== EQUALS) return false
+
+  const scanned = state.scanDelims(state.pos, true)
+  let length = scanned.length
+  if (length < 2) return false
+
+  if (length % 2) {
+    state.push('text', '', 0).content = '='
+    length--
+  }
+  for (let i = 0; i < length; i += 2) {
+    state.push('text', '', 0).content = '=='
+    if (!scanned.can_open && !scanned.can_close) continue
+    state.delimiters.push({
+      marker: EQUALS,
+      length: 0,
+      token: state.tokens.length - 1,
+      end: -1,
+      open: scanned.can_open,
+      close: scanned.can_close
+    })
+  }
+
+  state.pos += scanned.length
+  return true
+}
+
+/**
+ * Turns the matched `==` delimiters into mark tokens.
+ */
+function convertHighlights(state: StateInline, delimiters: StateInline.Delimiter[]) {
+  const loneMarkers: number[] = []
+
+  for (const delimiter of delimiters) {
+    if (delimiter.marker !== EQUALS || delimiter.end === -1) continue
+    const closing = delimiters[delimiter.end]
+
+    const open = state.tokens[delimiter.token]
+    open.type = 'mark_open'
+    open.tag = 'mark'
+    open.nesting = 1
+    open.markup = '=='
+    open.content = ''
+
+    const close = state.tokens[closing.token]
+    close.type = 'mark_close'
+    close.tag = 'mark'
+    close.nesting = -1
+    close.markup = '=='
+    close.content = ''
+
+    const before = state.tokens[closing.token - 1]
+    if (before.type === 'text' && before.content === '=') loneMarkers.push(closing.token - 1)
+  }
+
+  // An odd `=` before a closing delimiter (`==a===`) belongs after the closed marks
+  while (loneMarkers.length) {
+    const index = loneMarkers.pop()!
+    let last = index + 1
+    while (last < state.tokens.length && state.tokens[last].type === 'mark_close') last++
+    last--
+    if (last !== index) {
+      const token = state.tokens[last]
+      state.tokens[last] = state.tokens[index]
+      state.tokens[index] = token
+    }
+  }
+}
+
+function highlightPostProcess(state: StateInline) {
+  convertHighlights(state, state.delimiters)
+  for (const meta of state.tokens_meta) {
+    if (meta?.delimiters) convertHighlights(state, meta.delimiters)
+  }
+  return true
+}
+
+/**
+ * Parses text between a pair of single `marker` characters, like `~sub~`.
+ */
+function scriptRule(marker: string, type: string, tag: string) {
+  return (state: StateInline, silent: boolean) => {
+    const start = state.pos
+    const max = state.posMax
+    if (silent || state.src[start] !== marker || start + 2 >= max) return false
+
+    state.pos = start + 1
+    let found = false
+    while (state.pos < max) {
+      if (state.src[state.pos] === marker) {
+        found = true
+        break
+      }
+      state.md.inline.skipToken(state)
+    }
+
+    const content = state.src.slice(start + 1, state.pos)
+    if (!found || !content || UNESCAPED_SPACE.test(content)) {
+      state.pos = start
+      return false
+    }
+
+    state.push(`${type}_open`, tag, 1).markup = marker
+    state.push('text', '', 0).content = content.replace(UNESCAPE, '$1')
+    state.push(`${type}_close`, tag, -1).markup = marker
+
+    state.pos += 1
+    return true
+  }
+}
+
+/**
+ * Turns matching `<u>` and `<kbd>` tags within each paragraph into mark tokens.
+ * Tags left unmatched stay raw HTML.
+ */
+function convertHtmlMarks(children: Token[]) {
+  const open: { tag: string; token: Token }[] = []
+
+  for (const token of children) {
+    const match = token.type === 'html_inline' ? HTML_MARK_TAG.exec(token.content) : null
+    if (!match) continue
+
+    const tag = match[2].toLowerCase()
+    if (!match[1]) {
+      open.push({ tag, token })
+      continue
+    }
+
+    const index = open.map(opening => opening.tag).lastIndexOf(tag)
+    if (index < 0) continue
+    const [opening] = open.splice(index, 1)
+    setMarkToken(opening.token, `${HTML_MARKS[tag]}_open`, tag, 1)
+    setMarkToken(token, `${HTML_MARKS[tag]}_close`, tag, -1)
+  }
+}
+
+function setMarkToken(token: Token, type: string, tag: string, nesting: 1 | -1) {
+  token.type = type
+  token.tag = tag
+  token.nesting = nesting
+  token.markup = token.content
+  token.content = ''
+}
+
+function htmlMarksRule(state: StateCore) {
+  for (const token of state.tokens) {
+    if (token.type === 'inline' && token.children) convertHtmlMarks(token.children)
+  }
+}
+
+export function inlineMarksPlugin(md: MarkdownIt) {
+  md.inline.ruler.before('emphasis', 'mark', highlightRule)
+  md.inline.ruler2.before('emphasis', 'mark', highlightPostProcess)
+  md.inline.ruler.after('emphasis', 'sub', scriptRule('~', 'sub', 'sub'))
+  md.inline.ruler.after('emphasis', 'sup', scriptRule('^', 'sup', 'sup'))
+  md.core.ruler.after('inline', 'html_marks', htmlMarksRule)
+}
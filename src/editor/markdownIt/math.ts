@@ -0,0 +1,93 @@
+/**
+ * Math markdown-it Plugin
+ *
+ * Parses TeX math into `math_inline` (`$...$`) and `math_block` (`$$...$$`) tokens.
+ * Inline math follows the Pandoc rules so prices like "$5 and $10" stay text:
+ * the opening `$` must be followed by a non-space, and the closing `$` must be
+ * preceded by a non-space and not followed by a digit.
+ * The preview renderer typesets math with KaTeX.
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline'
+import type StateBlock from 'markdown-it/lib/rules_block/state_block'
+import katex from 'katex'
+
+function mathInlineRule(state: StateInline, silent: boolean) {
+  const src = state.src
+  const start = state.pos + 1
+  if (src[state.pos] !== '$' || src[start] === '$' || !src[start] || /\s/.test(src[start])) return false
+
+  // Find the closing dollar, skipping escaped ones (\$ is a literal dollar in TeX)
+  let end = start
+  do {
+    end = src.indexOf('$', end + 1)
+  } while (end !== -1 && src[end - 1] === '\\')
+
+  if (end === -1 || /\s/.test(src[end - 1]) || /\d/.test(src[end + 1] || '')) return false
+
+  if (!silent) {
+    const token = state.push('math_inline', 'math', 0)
+    token.markup = '$'
+    token.content = src.slice(start, end)
+  }
+  state.pos = end + 1
+  return true
+}
+
+function mathBlockRule(state: StateBlock, startLine: number, endLine: number, silent: boolean) {
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false
+
+  const start = state.bMarks[startLine] + state.tShift[startLine]
+  const firstLine = state.src.slice(start, state.eMarks[startLine])
+  if (!firstLine.startsWith('$$')) return false
+
+  // Single line: $$ x^2 $$
+  const rest = firstLine.slice(2).trim()
+  if (rest.length >= 2 && rest.endsWith('$$')) {
+    if (silent) return true
+    pushMathBlock(state, rest.slice(0, -2).trim(), startLine, startLine + 1)
+    return true
+  }
+
+  // Multiple lines up to a line ending in $$, within the current container
+  let nextLine = startLine
+  let lastLine = ''
+  for (;;) {
+    nextLine++
+    if (nextLine >= endLine || state.sCount[nextLine] < state.blkIndent) return false
+    lastLine = state.src.slice(state.bMarks[nextLine] + state.tShift[nextLine], state.eMarks[nextLine]).trim()
+    if (lastLine.endsWith('$$')) break
+  }
+  if (silent) return true
+
+  let content = state.getLines(startLine + 1, nextLine, state.blkIndent, false)
+  if (rest) content = rest + '\n' + content
+  const closingText = lastLine.slice(0, -2).trim()
+  content = closingText ? content + closingText : content.replace(/\n$/, '')
+
+  pushMathBlock(state, content, startLine, nextLine + 1)
+  return true
+}
+
+function pushMathBlock(state: StateBlock, content: string, startLine: number, nextLine: number) {
+  const token = state.push('math_block', 'math', 0)
+  token.block = true
+  token.markup = '$$'
+  token.content = content
+  token.map = [startLine, nextLine]
+  state.line = nextLine
+}
+
+export function mathPlugin(md: MarkdownIt) {
+  md.inline.ruler.after('escape', 'math_inline', mathInlineRule)
+  md.block.ruler.before('fence', 'math_block', mathBlockRule, {
+    alt: ['paragraph', 'reference', 'blockquote', 'list']
+  })
+
+  md.renderer.rules.math_inline = (tokens, idx) =>
+    katex.renderToString(tokens[idx].content, { throwOnError: false })
+  md.renderer.rules.math_block = (tokens, idx, _options, _env, self) =>
+    '<div class="math-block"' + self.renderAttrs(tokens[idx]) + '>' +
+    katex.renderToString(tokens[idx].content, { displayMode: true, throwOnError: false }) + '</div>\n'
+}
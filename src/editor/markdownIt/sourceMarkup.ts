@@ -0,0 +1,78 @@
+/**
+ * Source Markup markdown-it Plugin
+ *
+ * Records details of the original markdown that markdown-it tokens do not carry,
+ * so the serializer can write unchanged content back exactly as it was:
+ *
+ * - setext heading underlines (`Title\n=====`) and closing hashes of ATX headings (`# Title #`)
+ * - the spaces after list markers (`-   item`)
+ * - the exact characters of thematic breaks (`* * *`)
+ * - whether raw HTML blocks had a blank line before and after them
+ * - the source lines and cell contents of top-level tables
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateCore from 'markdown-it/lib/rules_core/state_core'
+import type Token from 'markdown-it/lib/token'
+
+function recordBlockMarkup(state: StateCore) {
+  const lines = state.src.split('\n')
+  const tokens = state.tokens
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (!token.map) continue
+
+    if (token.type === 'heading_open' && (token.markup === '=' || token.markup === '-')) {
+      // Lines inside containers start with their prefix ("> "), so only take the marker run
+      const underline = lines[token.map[1] - 1]?.match(/([=-])\1*(?=[ \t]*$)/)
+      if (underline) token.meta = { ...token.meta, underline: underline[0] }
+    } else if (token.type === 'heading_open') {
+      const closing = lines[token.map[0]]?.match(/[ \t]+#+(?=[ \t]*$)/)
+      // A heading of nothing but hashes has no closing sequence
+      if (closing && tokens[i + 1]?.content) token.meta = { ...token.meta, closing: closing[0] }
+    } else if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+      // Up to four spaces, more make the content an indented code block
+      const padding = lines[token.map[0]]?.match(/^[ \t>]*(?:[-+*]|\d{1,9}[.)])( {1,4})\S/)
+      if (padding) token.meta = { ...token.meta, padding: padding[1].length }
+    } else if (token.type === 'hr') {
+      const rule = lines[token.map[0]]?.match(/([-*_])(?:[ \t]*\1)*(?=[ \t]*$)/)
+      if (rule) token.meta = { ...token.meta, markup: rule[0] }
+    } else if (token.type === 'html_block') {
+      token.meta = {
+        ...token.meta,
+        blankBefore: isBlank(lines[token.map[0] - 1]),
+        blankAfter: isBlank(lines[token.map[1]])
+      }
+    } else if (token.type === 'table_open' && token.level === 0) {
+      token.meta = {
+        ...token.meta,
+        source: lines.slice(token.map[0], token.map[1]).join('\n'),
+        cells: tableCells(tokens, i)
+      }
+    }
+  }
+}
+
+/**
+ * Returns true for a missing line, or one with nothing but container prefixes (`> `).
+ */
+function isBlank(line: string | undefined): boolean {
+  return line === undefined || /^[ \t>]*$/.test(line)
+}
+
+/**
+ * Collects the inline source of every cell, row by row, in the table starting at `start`.
+ */
+function tableCells(tokens: Token[], start: number): string[][] {
+  const rows: string[][] = []
+  for (let i = start + 1; i < tokens.length && tokens[i].type !== 'table_close'; i++) {
+    if (tokens[i].type === 'tr_open') rows.push([])
+    if (tokens[i].type === 'inline') rows[rows.length - 1].push(tokens[i].content)
+  }
+  return rows
+}
+
+export function sourceMarkupPlugin(md: MarkdownIt) {
+  md.core.ruler.after('block', 'source_markup', recordBlockMarkup)
+}
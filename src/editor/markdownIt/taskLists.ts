@@ -0,0 +1,51 @@
+/**
+ * Task List markdown-it Plugin
+ *
+ * Recognizes GFM task list items (`- [ ] todo`, `- [x] done`) and records
+ * their state on the `list_item_open` token as `meta.checked`.
+ * The `[ ]` / `[x]` marker is stripped from the item text so the editor only
+ * sees the content, and the preview renderer emits a disabled checkbox.
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateCore from 'markdown-it/lib/rules_core/state_core'
+
+const TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/
+
+function taskListRule(state: StateCore) {
+  const tokens = state.tokens
+
+  for (let i = 2; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token.type !== 'inline') continue
+    if (tokens[i - 1].type !== 'paragraph_open' || tokens[i - 2].type !== 'list_item_open') continue
+
+    const match = token.content.match(TASK_MARKER)
+    if (!match) continue
+
+    const firstChild = token.children?.[0]
+    if (!firstChild || firstChild.type !== 'text' || !firstChild.content.startsWith(match[0].trimEnd())) continue
+
+    const checked = match[1] !== ' '
+    const itemToken = tokens[i - 2]
+    itemToken.meta = { ...itemToken.meta, checked }
+    itemToken.attrJoin('class', 'task-list-item')
+
+    token.content = token.content.slice(match[0].length)
+    firstChild.content = firstChild.content.slice(match[0].length).replace(/^[ \t]+/, '')
+  }
+}
+
+export function taskListsPlugin(md: MarkdownIt) {
+  md.core.ruler.after('inline', 'task_lists', taskListRule)
+
+  const defaultRender = md.renderer.rules.list_item_open ||
+    ((tokens, idx, options, _env, self) => self.renderToken(tokens, idx, options))
+
+  md.renderer.rules.list_item_open = (tokens, idx, options, env, self) => {
+    const token = tokens[idx]
+    const html = defaultRender(tokens, idx, options, env, self)
+    if (typeof token.meta?.checked !== 'boolean') return html
+    return html + `<input type="checkbox" class="task-list-item-checkbox" disabled${token.meta.checked ? ' checked' : ''}> `
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Wiki Links markdown-it Plugin
+ *
+ * Parses `[[Target]]`, `[[Target#Heading]]` and `[[Target|Alias]]` into
+ * `wiki_link` tokens with the parsed link in their meta. The link text cannot
+ * contain brackets or line breaks. The preview renders them as anchors with
+ * the target in data attributes, as they do not have a URL of their own.
+ */
+
+import type MarkdownIt from 'markdown-it'
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline'
+import { parseWikiLink, wikiLinkText } from '../../lib/wikiLinks'
+
+function wikiLinkRule(state: StateInline, silent: boolean) {
+  const src = state.src
+  if (!src.startsWith('[[', state.pos)) return false
+
+  const end = src.indexOf(']]', state.pos + 2)
+  if (end === -1) return false
+  const content = src.slice(state.pos + 2, end)
+  if (/[[\]\n]/.test(content)) return false
+
+  const link = parseWikiLink(content)
+  if (!link) return false
+
+  if (!silent) {
+    const token = state.push('wiki_link', '', 0)
+    token.markup = '[['
+    token.content = content
+    token.meta = link
+  }
+  state.pos = end + 2
+  return true
+}
+
+export function wikiLinksPlugin(md: MarkdownIt) {
+  md.inline.ruler.before('link', 'wiki_link', wikiLinkRule)
+
+  md.renderer.rules.wiki_link = (tokens, idx) => {
+    const { target, heading } = tokens[idx].meta
+    const escape = md.utils.escapeHtml
+    return '<a class="wiki-link" data-target="' + escape(target) + '"' +
+      (heading ? ' data-heading="' + escape(heading) + '"' : '') + '>' +
+      escape(wikiLinkText(tokens[idx].meta)) + '</a>'
+  }
+}
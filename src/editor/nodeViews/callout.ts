@@ -0,0 +1,98 @@
+/**
+ * Callout Node View
+ *
+ * Shows a callout with a header holding its icon, a picker for its kind and
+ * its title, which defaults to the kind's label. Kinds other than GitHub's
+ * five are added to the picker so they are not lost.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { EditorView, NodeView, ViewMutationRecord } from 'prosemirror-view'
+import { CALLOUT_KINDS, calloutIcon, calloutLabel, isStandardCalloutKind } from '../../lib/callouts'
+
+export class CalloutView implements NodeView {
+  dom: HTMLElement
+  contentDOM: HTMLElement
+  private header: HTMLElement
+  private icon: HTMLElement
+  private kindSelect: HTMLSelectElement
+  private titleInput: HTMLInputElement
+  private renderedKind: string | null = null
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined
+  ) {
+    this.dom = document.createElement('div')
+
+    this.header = document.createElement('div')
+    this.header.className = 'callout-header'
+    this.header.contentEditable = 'false'
+
+    this.icon = document.createElement('span')
+    this.icon.className = 'callout-icon'
+
+    this.kindSelect = document.createElement('select')
+    this.kindSelect.className = 'callout-kind'
+    this.kindSelect.title = 'Callout type'
+    this.kindSelect.addEventListener('change', () => {
+      this.setAttrs({ kind: this.kindSelect.value })
+      this.view.focus()
+    })
+
+    this.titleInput = document.createElement('input')
+    this.titleInput.className = 'callout-title'
+    this.titleInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' || event.key === 'Escape') {
+        event.preventDefault()
+        if (event.key === 'Escape') this.titleInput.value = this.node.attrs.title ?? ''
+        this.view.focus()
+      }
+    })
+    this.titleInput.addEventListener('blur', () => this.setAttrs({ title: this.titleInput.value.trim() || null }))
+
+    this.header.append(this.icon, this.kindSelect, this.titleInput)
+    this.contentDOM = document.createElement('div')
+    this.contentDOM.className = 'callout-content'
+    this.dom.append(this.header, this.contentDOM)
+    this.render()
+  }
+
+  private render() {
+    const { kind, title } = this.node.attrs
+    if (kind !== this.renderedKind) {
+      this.renderedKind = kind
+      this.dom.className = `callout callout-${isStandardCalloutKind(kind) ? kind : 'custom'}`
+      this.icon.innerHTML = calloutIcon(kind)
+      const kinds = isStandardCalloutKind(kind) ? CALLOUT_KINDS : [...CALLOUT_KINDS, kind]
+      this.kindSelect.replaceChildren(...kinds.map(value => new Option(calloutLabel(value), value)))
+      this.kindSelect.value = kind
+      this.titleInput.placeholder = calloutLabel(kind)
+    }
+    if (document.activeElement !== this.titleInput) this.titleInput.value = title ?? ''
+  }
+
+  private setAttrs(attrs: { kind?: string; title?: string | null }) {
+    const pos = this.getPos()
+    if (pos === undefined || !this.view.editable) return
+    if (Object.entries(attrs).every(([name, value]) => this.node.attrs[name] === value)) return
+    this.view.dispatch(this.view.state.tr.setNodeMarkup(pos, undefined, { ...this.node.attrs, ...attrs }))
+  }
+
+  update(node: ProseMirrorNode) {
+    if (node.type !== this.node.type) return false
+    this.node = node
+    this.render()
+    return true
+  }
+
+  stopEvent(event: Event) {
+    return this.header.contains(event.target as Node)
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord) {
+    if (mutation.type === 'selection') return false
+    return !this.contentDOM.contains(mutation.target)
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Code Block Node View
+ *
+ * Every code block gets a header with a language picker and a copy button,
+ * and a line number gutter beside its source. Syntax highlighting itself comes
+ * from the code highlight plugin's decorations.
+ *
+ * Diagram code blocks (see diagrams.ts) show the rendered diagram instead of
+ * their source. Clicking the diagram, or the header toggle, switches to the
+ * source with a live preview beneath it; render errors are shown inline.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { EditorView, NodeView, ViewMutationRecord } from 'prosemirror-view'
+import { TextSelection } from 'prosemirror-state'
+import { isDiagramLanguage, renderDiagram } from '../diagrams'
+import { CODE_LANGUAGES } from '../highlight'
+
+const PREVIEW_DELAY = 300
+const COPIED_DELAY = 1500
+
+export class CodeBlockView implements NodeView {
+  dom: HTMLElement
+  contentDOM: HTMLElement
+  private header: HTMLElement
+  private languageSelect: HTMLSelectElement
+  private copyButton: HTMLButtonElement
+  private lineNumbers: HTMLElement
+  private lineCount = 0
+  private diagram: HTMLElement | null = null
+  private toggle: HTMLButtonElement | null = null
+  private isDiagram: boolean
+  private showSource = false
+  private renderTimer: ReturnType<typeof setTimeout> | null = null
+  private copiedTimer: ReturnType<typeof setTimeout> | null = null
+  private renderedText: string | null = null
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined
+  ) {
+    this.isDiagram = isDiagramLanguage(node.attrs.language)
+
+    this.dom = document.createElement('div')
+    this.dom.className = 'code-block'
+
+    this.header = document.createElement('div')
+    this.header.className = 'code-block-header'
+    this.header.contentEditable = 'false'
+
+    this.languageSelect = document.createElement('select')
+    this.languageSelect.className = 'code-block-language'
+    this.languageSelect.title = 'Language'
+    this.languageSelect.addEventListener('change', () => this.setLanguage(this.languageSelect.value))
+    this.header.appendChild(this.languageSelect)
+
+    const actions = document.createElement('div')
+    actions.className = 'code-block-actions'
+    this.header.appendChild(actions)
+
+    if (this.isDiagram) {
+      this.toggle = this.createButton(() => this.setShowSource(!this.showSource))
+      actions.appendChild(this.toggle)
+    }
+
+    this.copyButton = this.createButton(() => this.copy())
+    this.copyButton.textContent = 'Copy'
+    actions.appendChild(this.copyButton)
+
+    const source = document.createElement('pre')
+    source.spellcheck = false
+    this.lineNumbers = document.createElement('div')
+    this.lineNumbers.className = 'code-line-numbers'
+    this.lineNumbers.contentEditable = 'false'
+    this.lineNumbers.setAttribute('aria-hidden', 'true')
+    this.contentDOM = document.createElement('code')
+    source.append(this.lineNumbers, this.contentDOM)
+
+    this.dom.append(this.header, source)
+    this.updateLanguage()
+    this.updateLineNumbers()
+
+    if (this.isDiagram) {
+      this.dom.classList.add('code-block-diagram')
+
+      this.diagram = document.createElement('div')
+      this.diagram.className = 'diagram'
+      this.diagram.contentEditable = 'false'
+      this.diagram.title = 'Click to edit'
+      this.diagram.addEventListener('mousedown', (event) => event.preventDefault())
+      this.diagram.addEventListener('click', () => this.editSource())
+      this.dom.appendChild(this.diagram)
+
+      this.setShowSource(false)
+    }
+  }
+
+  private createButton(onClick: () => void) {
+    const button = document.createElement('button')
+    button.type = 'button'
+    button.addEventListener('mousedown', (event) => event.preventDefault())
+    button.addEventListener('click', onClick)
+    return button
+  }
+
+  /**
+   * Syncs the language picker and the language class with the node's language attr.
+   * Languages that are not in the picker's list are added so they are not lost.
+   */
+  private updateLanguage() {
+    const language = this.node.attrs.language
+    this.contentDOM.className = language ? `language-${language}` : ''
+
+    const options = CODE_LANGUAGES.some(([value]) => value === language)
+      ? CODE_LANGUAGES
+      : [...CODE_LANGUAGES, [language, language] as [string, string]]
+    if (this.languageSelect.options.length !== options.length) {
+      this.languageSelect.replaceChildren(
+        ...options.map(([value, label]) => new Option(label, value))
+      )
+    }
+    this.languageSelect.value = language
+  }
+
+  private setLanguage(language: string) {
+    const pos = this.getPos()
+    if (pos === undefined) return
+    this.view.dispatch(
+      this.view.state.tr.setNodeMarkup(pos, undefined, { ...this.node.attrs, language })
+    )
+    this.view.focus()
+  }
+
+  private updateLineNumbers() {
+    const count = this.node.textContent.split('\n').length
+    if (count === this.lineCount) return
+    this.lineCount = count
+    this.lineNumbers.textContent = Array.from({ length: count }, (_, i) => i + 1).join('\n')
+  }
+
+  private copy() {
+    navigator.clipboard.writeText(this.node.textContent).then(
+      () => {
+        this.copyButton.textContent = 'Copied'
+        if (this.copiedTimer) clearTimeout(this.copiedTimer)
+        this.copiedTimer = setTimeout(() => {
+          this.copyButton.textContent = 'Copy'
+        }, COPIED_DELAY)
+      },
+      (error: unknown) => console.error('Failed to copy code block:', error)
+    )
+  }
+
+  private setShowSource(show: boolean) {
+    this.showSource = show
+    this.dom.classList.toggle('show-source', show)
+    if (this.toggle) this.toggle.textContent = show ? 'Diagram' : 'Source'
+    this.renderDiagram()
+  }
+
+  /**
+   * Shows the source and puts the cursor at its end.
+   */
+  private editSource() {
+    this.setShowSource(true)
+    const pos = this.getPos()
+    if (pos === undefined || !this.view.editable) return
+    const end = pos + this.node.nodeSize - 1
+    this.view.dispatch(this.view.state.tr.setSelection(TextSelection.create(this.view.state.doc, end)))
+    this.view.focus()
+  }
+
+  private renderDiagram() {
+    const diagram = this.diagram
+    const text = this.node.textContent
+    if (!diagram || text === this.renderedText) return
+    this.renderedText = text
+
+    if (!text.trim()) {
+      diagram.className = 'diagram diagram-empty'
+      diagram.textContent = 'Empty diagram'
+      return
+    }
+
+    renderDiagram(this.node.attrs.language, text).then(
+      (svg) => {
+        if (this.renderedText !== text) return
+        diagram.className = 'diagram'
+        diagram.innerHTML = svg
+      },
+      (error: unknown) => {
+        if (this.renderedText !== text) return
+        diagram.className = 'diagram diagram-error'
+        diagram.textContent = error instanceof Error ? error.message : String(error)
+      }
+    )
+  }
+
+  update(node: ProseMirrorNode) {
+    if (node.type !== this.node.type) return false
+    // Switching between diagram and plain code needs a different DOM structure
+    if (isDiagramLanguage(node.attrs.language) !== this.isDiagram) return false
+
+    this.node = node
+    this.updateLanguage()
+    this.updateLineNumbers()
+    if (this.isDiagram) {
+      // Re-render after typing pauses rather than on every keystroke
+      if (this.renderTimer) clearTimeout(this.renderTimer)
+      this.renderTimer = setTimeout(() => this.renderDiagram(), PREVIEW_DELAY)
+    }
+    return true
+  }
+
+  selectNode() {
+    this.dom.classList.add('ProseMirror-selectednode')
+    if (this.isDiagram) this.setShowSource(true)
+  }
+
+  deselectNode() {
+    this.dom.classList.remove('ProseMirror-selectednode')
+  }
+
+  stopEvent(event: Event) {
+    const target = event.target as Node
+    return !!(this.header.contains(target) || this.diagram?.contains(target))
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord) {
+    if (mutation.type === 'selection') return false
+    return !this.contentDOM.contains(mutation.target)
+  }
+
+  destroy() {
+    if (this.renderTimer) clearTimeout(this.renderTimer)
+    if (this.copiedTimer) clearTimeout(this.copiedTimer)
+  }
+}
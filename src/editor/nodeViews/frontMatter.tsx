@@ -0,0 +1,74 @@
+/**
+ * Front Matter Node View
+ *
+ * Mounts the React FrontMatterEditor form for the document's front_matter node.
+ * Form edits replace the node's yaml attribute, so they are part of the
+ * editor history and can be undone like any other change.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { EditorView, NodeView } from 'prosemirror-view'
+import { createRoot, Root } from 'react-dom/client'
+import { FrontMatterEditor } from '../../components/FrontMatterEditor'
+
+export class FrontMatterView implements NodeView {
+  dom: HTMLElement
+  private root: Root
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined
+  ) {
+    this.dom = document.createElement('div')
+    this.dom.className = 'front-matter'
+    this.dom.contentEditable = 'false'
+    this.root = createRoot(this.dom)
+    this.render()
+  }
+
+  private render() {
+    this.root.render(
+      <FrontMatterEditor
+        yaml={this.node.attrs.yaml}
+        onChange={this.handleChange}
+        onRemove={this.handleRemove}
+      />
+    )
+  }
+
+  private handleChange = (yaml: string) => {
+    const pos = this.getPos()
+    if (pos === undefined) return
+    this.view.dispatch(this.view.state.tr.setNodeMarkup(pos, undefined, { ...this.node.attrs, yaml }))
+  }
+
+  private handleRemove = () => {
+    const pos = this.getPos()
+    if (pos === undefined) return
+    this.view.dispatch(this.view.state.tr.delete(pos, pos + this.node.nodeSize))
+    this.view.focus()
+  }
+
+  update(node: ProseMirrorNode) {
+    if (node.type !== this.node.type) return false
+    this.node = node
+    this.render()
+    return true
+  }
+
+  stopEvent() {
+    // The form handles all of its own input
+    return true
+  }
+
+  ignoreMutation() {
+    return true
+  }
+
+  destroy() {
+    // Defer unmounting in case the view is destroyed during a React render
+    const root = this.root
+    setTimeout(() => root.unmount(), 0)
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * HTML Block Node View
+ *
+ * Shows raw HTML blocks as editable source with a toggle to preview the
+ * rendered HTML. The preview runs in a sandboxed iframe without scripts,
+ * so untrusted markup from opened files cannot execute.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { NodeView, ViewMutationRecord } from 'prosemirror-view'
+
+export class HtmlBlockView implements NodeView {
+  dom: HTMLElement
+  contentDOM: HTMLElement
+  private source: HTMLElement
+  private toggle: HTMLButtonElement
+  private preview: HTMLIFrameElement | null = null
+  private showPreview = false
+
+  constructor(private node: ProseMirrorNode) {
+    this.dom = document.createElement('div')
+    this.dom.className = 'html-block'
+
+    const header = document.createElement('div')
+    header.className = 'html-block-header'
+    header.contentEditable = 'false'
+
+    const label = document.createElement('span')
+    label.textContent = 'HTML'
+    header.appendChild(label)
+
+    this.toggle = document.createElement('button')
+    this.toggle.type = 'button'
+    this.toggle.textContent = 'Preview'
+    this.toggle.addEventListener('mousedown', (event) => event.preventDefault())
+    this.toggle.addEventListener('click', () => this.setPreview(!this.showPreview))
+    header.appendChild(this.toggle)
+
+    this.source = document.createElement('pre')
+    this.source.spellcheck = false
+    this.contentDOM = document.createElement('code')
+    this.source.appendChild(this.contentDOM)
+
+    this.dom.appendChild(header)
+    this.dom.appendChild(this.source)
+  }
+
+  private setPreview(show: boolean) {
+    this.showPreview = show
+    this.toggle.textContent = show ? 'Source' : 'Preview'
+    this.source.style.display = show ? 'none' : ''
+
+    if (show) {
+      if (!this.preview) {
+        this.preview = document.createElement('iframe')
+        this.preview.className = 'html-block-preview'
+        // Empty sandbox: no scripts, forms, popups or same-origin access
+        this.preview.setAttribute('sandbox', '')
+        this.dom.appendChild(this.preview)
+      }
+      this.preview.srcdoc = this.node.textContent
+      this.preview.style.display = ''
+    } else if (this.preview) {
+      this.preview.style.display = 'none'
+    }
+  }
+
+  update(node: ProseMirrorNode) {
+    if (node.type !== this.node.type) return false
+    this.node = node
+    if (this.showPreview && this.preview) {
+      this.preview.srcdoc = node.textContent
+    }
+    return true
+  }
+
+  selectNode() {
+    // Selecting the whole block (e.g. via arrow keys) brings back the source
+    this.dom.classList.add('ProseMirror-selectednode')
+    this.setPreview(false)
+  }
+
+  deselectNode() {
+    this.dom.classList.remove('ProseMirror-selectednode')
+  }
+
+  stopEvent(event: Event) {
+    return !this.contentDOM.contains(event.target as Node)
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord) {
+    if (mutation.type === 'selection') return false
+    return !this.contentDOM.contains(mutation.target)
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Inline HTML Node View
+ *
+ * Shows inline HTML (tags, comments) as a small raw-source chip.
+ * Double-clicking the chip opens an input for editing the source;
+ * Enter or blur commits, Shift+Enter inserts a line break and Escape cancels.
+ * Committing an empty value removes the node.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { EditorView, NodeView } from 'prosemirror-view'
+import { TextSelection } from 'prosemirror-state'
+
+export class HtmlInlineView implements NodeView {
+  dom: HTMLElement
+  private input: HTMLTextAreaElement | null = null
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined
+  ) {
+    this.dom = document.createElement('code')
+    this.dom.className = 'html-inline'
+    this.dom.title = 'Inline HTML (double-click to edit)'
+    this.dom.addEventListener('dblclick', (event) => {
+      event.preventDefault()
+      this.startEditing()
+    })
+    this.render()
+  }
+
+  private render() {
+    this.dom.textContent = this.node.attrs.html
+  }
+
+  private startEditing() {
+    if (this.input || !this.view.editable) return
+
+    // A textarea keeps line breaks that multi-line inline HTML may contain
+    const input = document.createElement('textarea')
+    input.className = 'html-inline-input'
+    input.value = this.node.attrs.html
+    const resize = () => {
+      const lines = input.value.split('\n')
+      input.rows = lines.length
+      input.cols = Math.max(4, ...lines.map(line => line.length))
+    }
+    resize()
+    input.addEventListener('input', resize)
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault()
+        this.finishEditing(true)
+      } else if (event.key === 'Escape') {
+        event.preventDefault()
+        this.finishEditing(false)
+      }
+    })
+    input.addEventListener('blur', () => this.finishEditing(true))
+
+    this.input = input
+    this.dom.textContent = ''
+    this.dom.appendChild(input)
+    input.focus()
+    input.select()
+  }
+
+  private finishEditing(commit: boolean) {
+    const input = this.input
+    if (!input) return
+    this.input = null
+
+    const pos = this.getPos()
+    const html = input.value
+
+    if (!commit || pos === undefined || html === this.node.attrs.html) {
+      this.render()
+      this.view.focus()
+      return
+    }
+
+    const tr = html
+      ? this.view.state.tr.setNodeMarkup(pos, undefined, { ...this.node.attrs, html })
+      : this.view.state.tr.delete(pos, pos + this.node.nodeSize)
+    tr.setSelection(TextSelection.create(tr.doc, html ? pos + 1 : pos))
+    this.view.dispatch(tr)
+    this.render()
+    this.view.focus()
+  }
+
+  update(node: ProseMirrorNode) {
+    if (node.type !== this.node.type) return false
+    this.node = node
+    if (!this.input) this.render()
+    return true
+  }
+
+  selectNode() {
+    this.dom.classList.add('ProseMirror-selectednode')
+  }
+
+  deselectNode() {
+    this.dom.classList.remove('ProseMirror-selectednode')
+  }
+
+  stopEvent(event: Event) {
+    return this.input !== null && event.target === this.input
+  }
+
+  ignoreMutation() {
+    return true
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Image Node View
+ *
+ * Shows images with their src resolved by the editor, so paths relative to
+ * the open document load from disk. Images that cannot be loaded show a
+ * placeholder with a button to locate the file. Dragging the handle at the
+ * bottom right resizes the image, double-clicking the handle restores its
+ * natural size. Double-clicking the image opens a form for its alt text,
+ * title and, for an image alone in its paragraph, caption; Enter or
+ * clicking elsewhere commits and Escape cancels.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { EditorView, NodeView } from 'prosemirror-view'
+
+export interface ImageViewOptions {
+  // Returns the URL to show an image from, or null when it cannot be found
+  loadImage: (src: string) => Promise<string | null>
+  // Lets the user pick the file of a missing image, returns the src to link it with
+  locateImage: (src: string) => Promise<string | null>
+}
+
+const MIN_WIDTH = 24
+
+type ImageAttrs = Partial<{ src: string; alt: string | null; title: string | null; width: number | null; caption: string | null }>
+
+export class ImageView implements NodeView {
+  dom: HTMLElement
+  private image: HTMLImageElement
+  private missing: HTMLElement
+  private missingLabel: HTMLElement
+  private caption: HTMLElement
+  private form: HTMLElement | null = null
+  private loadedSrc: string | null = null
+  private stopResizing: (() => void) | null = null
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined,
+    private options: ImageViewOptions
+  ) {
+    this.dom = document.createElement('span')
+    this.dom.className = 'image-view'
+
+    this.image = document.createElement('img')
+    this.image.draggable = false
+    this.image.addEventListener('error', () => this.showMissing(true))
+    this.image.addEventListener('load', () => this.showMissing(false))
+    this.image.addEventListener('dblclick', (event) => {
+      event.preventDefault()
+      this.startEditing()
+    })
+
+    this.missing = document.createElement('span')
+    this.missing.className = 'image-view-missing'
+    this.missingLabel = document.createElement('span')
+    const locate = document.createElement('button')
+    locate.type = 'button'
+    locate.textContent = 'Locate file…'
+    locate.addEventListener('click', () => this.locate())
+    this.missing.append(this.missingLabel, locate)
+
+    const handle = document.createElement('span')
+    handle.className = 'image-view-handle'
+    handle.title = 'Drag to resize, double-click to restore the original size'
+    handle.addEventListener('pointerdown', (event) => this.startResizing(event))
+    handle.addEventListener('dblclick', (event) => {
+      event.preventDefault()
+      this.setAttrs({ width: null })
+    })
+
+    this.caption = document.createElement('span')
+    this.caption.className = 'image-view-caption'
+
+    this.dom.append(this.image, this.missing, handle, this.caption)
+    this.render()
+  }
+
+  // Captions are only kept for images alone in their paragraph
+  private canHaveCaption(): boolean {
+    const pos = this.getPos()
+    return pos !== undefined && this.view.state.doc.resolve(pos).parent.childCount === 1
+  }
+
+  private render() {
+    const { src, alt, title, width, caption } = this.node.attrs
+    this.image.alt = alt ?? ''
+    this.image.title = title ?? ''
+    if (!this.stopResizing) this.image.style.width = width ? `${width}px` : ''
+    this.caption.textContent = caption && this.canHaveCaption() ? caption : ''
+    this.missingLabel.textContent = `Image not found: ${src}`
+
+    if (src === this.loadedSrc) return
+    this.loadedSrc = src
+    this.dom.classList.add('image-view-loading')
+    this.options.loadImage(src).then(url => {
+      // The src may have changed while the image was loading
+      if (this.loadedSrc !== src) return
+      this.dom.classList.remove('image-view-loading')
+      if (url) {
+        this.image.src = url
+      } else {
+        this.image.removeAttribute('src')
+        this.showMissing(true)
+      }
+    })
+  }
+
+  private showMissing(missing: boolean) {
+    this.dom.classList.toggle('image-view-broken', missing)
+  }
+
+  private setAttrs(attrs: ImageAttrs) {
+    const pos = this.getPos()
+    if (pos === undefined || !this.view.editable) return
+    this.view.dispatch(this.view.state.tr.setNodeMarkup(pos, undefined, { ...this.node.attrs, ...attrs }))
+  }
+
+  private async locate() {
+    const src = await this.options.locateImage(this.node.attrs.src)
+    if (src) this.setAttrs({ src })
+  }
+
+  private startResizing(event: PointerEvent) {
+    if (!this.view.editable || this.dom.classList.contains('image-view-broken')) return
+    event.preventDefault()
+
+    const startX = event.clientX
+    const startWidth = this.image.getBoundingClientRect().width
+    const maxWidth = this.view.dom.clientWidth
+    let width = Math.round(startWidth)
+
+    const move = (moveEvent: PointerEvent) => {
+      width = Math.round(Math.min(maxWidth, Math.max(MIN_WIDTH, startWidth + moveEvent.clientX - startX)))
+      this.image.style.width = `${width}px`
+    }
+    const up = () => {
+      this.stopResizing?.()
+      if (width !== Math.round(startWidth)) this.setAttrs({ width })
+    }
+    this.stopResizing = () => {
+      window.removeEventListener('pointermove', move)
+      window.removeEventListener('pointerup', up)
+      this.stopResizing = null
+    }
+    window.addEventListener('pointermove', move)
+    window.addEventListener('pointerup', up)
+  }
+
+  private startEditing() {
+    if (this.form || !this.view.editable) return
+
+    const form = document.createElement('span')
+    form.className = 'image-view-form'
+    const field = (label: string, value: string | null) => {
+      const input = document.createElement('input')
+      input.className = 'image-view-input'
+      input.placeholder = label
+      input.setAttribute('aria-label', label)
+      input.value = value ?? ''
+      form.appendChild(input)
+      return input
+    }
+    const alt = field('Alt text', this.node.attrs.alt)
+    const title = field('Title', this.node.attrs.title)
+    const caption = this.canHaveCaption() ? field('Caption', this.node.attrs.caption) : null
+
+    const commit = () => {
+      const value = (input: HTMLInputElement) => input.value.trim() || null
+      this.finishEditing({ alt: value(alt), title: value(title), ...(caption ? { caption: value(caption) } : {}) })
+    }
+    form.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault()
+        commit()
+      } else if (event.key === 'Escape') {
+        event.preventDefault()
+        this.finishEditing(null)
+      }
+    })
+    form.addEventListener('focusout', (event) => {
+      if (!form.contains(event.relatedTarget as globalThis.Node | null)) commit()
+    })
+
+    this.form = form
+    this.dom.appendChild(form)
+    alt.focus()
+  }
+
+  private finishEditing(attrs: ImageAttrs | null) {
+    const form = this.form
+    if (!form) return
+    this.form = null
+    form.remove()
+    if (attrs) this.setAttrs(attrs)
+    this.view.focus()
+  }
+
+  update(node: ProseMirrorNode) {
+    if (node.type !== this.node.type) return false
+    this.node = node
+    this.render()
+    return true
+  }
+
+  selectNode() {
+    this.dom.classList.add('ProseMirror-selectednode')
+  }
+
+  deselectNode() {
+    this.dom.classList.remove('ProseMirror-selectednode')
+  }
+
+  stopEvent(event: Event) {
+    // The image itself is left to ProseMirror, so it can be selected and dragged
+    return event.target !== this.image && event.target !== this.dom
+  }
+
+  ignoreMutation() {
+    return true
+  }
+
+  destroy() {
+    this.stopResizing?.()
+  }
+}
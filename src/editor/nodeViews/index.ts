@@ -0,0 +1,30 @@
+/**
+ * Node Views
+ *
+ * Custom DOM rendering for nodes that need interactive controls
+ * beyond what the schema's toDOM provides.
+ */
+
+import { NodeViewConstructor } from 'prosemirror-view'
+import { ListItemView } from './listItem'
+import { HtmlBlockView } from './htmlBlock'
+import { CodeBlockView } from './codeBlock'
+import { HtmlInlineView } from './htmlInline'
+import { FrontMatterView } from './frontMatter'
+import { MathView } from './math'
+import { ImageView, ImageViewOptions } from './image'
+import { CalloutView } from './callout'
+
+export function buildNodeViews(options: { images: ImageViewOptions }): Record<string, NodeViewConstructor> {
+  return {
+    list_item: (node, view, getPos) => new ListItemView(node, view, getPos),
+    code_block: (node, view, getPos) => new CodeBlockView(node, view, getPos),
+    html_block: (node) => new HtmlBlockView(node),
+    html_inline: (node, view, getPos) => new HtmlInlineView(node, view, getPos),
+    front_matter: (node, view, getPos) => new FrontMatterView(node, view, getPos),
+    math_inline: (node, view, getPos) => new MathView(node, view, getPos),
+    math_block: (node, view, getPos) => new MathView(node, view, getPos),
+    callout: (node, view, getPos) => new CalloutView(node, view, getPos),
+    image: (node, view, getPos) => new ImageView(node, view, getPos, options.images)
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * List Item Node View
+ *
+ * Renders regular list items as plain <li> elements and task list items
+ * with a clickable checkbox. Clicking the checkbox toggles the `checked`
+ * attribute in the document, so the change is undoable and saved to markdown.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { EditorView, NodeView, ViewMutationRecord } from 'prosemirror-view'
+
+export class ListItemView implements NodeView {
+  dom: HTMLElement
+  contentDOM: HTMLElement
+  private checkbox: HTMLInputElement | null = null
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined
+  ) {
+    this.dom = document.createElement('li')
+
+    if (node.attrs.checked === null) {
+      this.contentDOM = this.dom
+      return
+    }
+
+    this.dom.className = 'task-list-item'
+
+    const checkboxWrapper = document.createElement('span')
+    checkboxWrapper.className = 'task-list-item-checkbox'
+    checkboxWrapper.contentEditable = 'false'
+
+    this.checkbox = document.createElement('input')
+    this.checkbox.type = 'checkbox'
+    // Keep the editor selection where it is when the checkbox is clicked
+    this.checkbox.addEventListener('mousedown', (event) => event.preventDefault())
+    this.checkbox.addEventListener('click', this.handleToggle)
+    checkboxWrapper.appendChild(this.checkbox)
+
+    this.contentDOM = document.createElement('div')
+    this.contentDOM.className = 'task-list-item-content'
+
+    this.dom.appendChild(checkboxWrapper)
+    this.dom.appendChild(this.contentDOM)
+    this.syncChecked()
+  }
+
+  private handleToggle = (event: MouseEvent) => {
+    event.preventDefault()
+    const pos = this.getPos()
+    if (pos === undefined || !this.view.editable) return
+
+    this.view.dispatch(this.view.state.tr.setNodeMarkup(pos, undefined, {
+      ...this.node.attrs,
+      checked: !this.node.attrs.checked
+    }))
+  }
+
+  private syncChecked() {
+    if (!this.checkbox) return
+    this.checkbox.checked = this.node.attrs.checked
+    this.dom.setAttribute('data-checked', String(this.node.attrs.checked))
+  }
+
+  update(node: ProseMirrorNode) {
+    if (node.type !== this.node.type) return false
+    // Switching between a regular item and a task item needs a different DOM structure
+    if ((node.attrs.checked === null) !== (this.node.attrs.checked === null)) return false
+
+    this.node = node
+    this.syncChecked()
+    return true
+  }
+
+  stopEvent(event: Event) {
+    return this.checkbox !== null && event.target === this.checkbox
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord) {
+    if (mutation.type === 'selection') return false
+    return !this.contentDOM.contains(mutation.target)
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Math Node View
+ *
+ * Renders math_inline and math_block nodes with KaTeX. When the node is
+ * selected (clicked, or reached with the arrow keys) the rendering is replaced
+ * by an editable TeX source field; block math also shows a live preview.
+ * Enter (Mod+Enter for blocks) or blur commits, Escape cancels, and arrowing
+ * past the start or end of the source leaves the field.
+ * Committing an empty value removes the node.
+ */
+
+import katex from 'katex'
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { EditorView, NodeView } from 'prosemirror-view'
+import { Selection } from 'prosemirror-state'
+
+function renderMath(element: HTMLElement, tex: string, displayMode: boolean) {
+  element.classList.toggle('math-empty', !tex.trim())
+  if (!tex.trim()) {
+    element.textContent = displayMode ? 'Empty equation' : 'TeX'
+    return
+  }
+  try {
+    katex.render(tex, element, { displayMode, throwOnError: false })
+  } catch {
+    element.textContent = tex
+  }
+}
+
+export class MathView implements NodeView {
+  dom: HTMLElement
+  private rendered: HTMLElement
+  private input: HTMLTextAreaElement | null = null
+  private preview: HTMLElement | null = null
+  private displayMode: boolean
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined
+  ) {
+    this.displayMode = node.type.name === 'math_block'
+    this.dom = document.createElement(this.displayMode ? 'div' : 'span')
+    this.dom.className = this.displayMode ? 'math-block' : 'math-inline'
+    this.rendered = document.createElement(this.displayMode ? 'div' : 'span')
+    this.rendered.className = 'math-rendered'
+    this.dom.appendChild(this.rendered)
+    this.render()
+  }
+
+  private render() {
+    renderMath(this.rendered, this.node.attrs.tex, this.displayMode)
+  }
+
+  private startEditing() {
+    if (this.input || !this.view.editable) return
+
+    const input = document.createElement('textarea')
+    input.className = 'math-input'
+    input.value = this.node.attrs.tex
+    input.spellcheck = false
+    const resize = () => {
+      const lines = input.value.split('\n')
+      input.rows = lines.length
+      if (!this.displayMode) input.cols = Math.max(4, ...lines.map(line => line.length))
+      if (this.preview) renderMath(this.preview, input.value, true)
+    }
+    input.addEventListener('input', resize)
+    input.addEventListener('keydown', (event) => this.handleKeyDown(event, input))
+    input.addEventListener('blur', () => this.finishEditing(true, 1))
+
+    this.input = input
+    this.dom.classList.add('math-editing')
+    this.dom.insertBefore(input, this.rendered)
+    if (this.displayMode) {
+      this.preview = document.createElement('div')
+      this.preview.className = 'math-preview'
+      this.dom.appendChild(this.preview)
+    }
+    resize()
+
+    // Focus after ProseMirror has finished updating its own DOM selection
+    setTimeout(() => {
+      input.focus()
+      input.setSelectionRange(input.value.length, input.value.length)
+    }, 0)
+  }
+
+  private handleKeyDown(event: KeyboardEvent, input: HTMLTextAreaElement) {
+    const atStart = input.selectionStart === 0 && input.selectionEnd === 0
+    const atEnd = input.selectionStart === input.value.length && input.selectionEnd === input.value.length
+    const onFirstLine = !input.value.slice(0, input.selectionStart).includes('\n')
+    const onLastLine = !input.value.slice(input.selectionEnd).includes('\n')
+
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      this.finishEditing(false, 1)
+    } else if (event.key === 'Enter' && (!this.displayMode || event.metaKey || event.ctrlKey)) {
+      event.preventDefault()
+      this.finishEditing(true, 1)
+    } else if ((event.key === 'ArrowLeft' && atStart) || (event.key === 'ArrowUp' && onFirstLine)) {
+      event.preventDefault()
+      this.finishEditing(true, -1)
+    } else if ((event.key === 'ArrowRight' && atEnd) || (event.key === 'ArrowDown' && onLastLine)) {
+      event.preventDefault()
+      this.finishEditing(true, 1)
+    }
+  }
+
+  /**
+   * Closes the source field, optionally saving it, and moves the cursor
+   * before (side -1) or after (side 1) the node.
+   */
+  private finishEditing(commit: boolean, side: number) {
+    const input = this.input
+    if (!input) return
+    this.closeEditor()
+
+    const pos = this.getPos()
+    if (pos === undefined) return
+
+    const tex = input.value
+    const tr = this.view.state.tr
+    let after = pos + this.node.nodeSize
+    if (commit && !tex.trim()) {
+      tr.delete(pos, after)
+      after = pos
+    } else if (commit && tex !== this.node.attrs.tex) {
+      tr.setNodeMarkup(pos, undefined, { ...this.node.attrs, tex })
+    }
+    tr.setSelection(Selection.near(tr.doc.resolve(side < 0 ? pos : after), side))
+    this.view.dispatch(tr)
+    this.view.focus()
+  }
+
+  private closeEditor() {
+    this.input?.remove()
+    this.preview?.remove()
+    this.input = null
+    this.preview = null
+    this.dom.classList.remove('math-editing')
+    this.render()
+  }
+
+  update(node: ProseMirrorNode) {
+    if (node.type !== this.node.type) return false
+    this.node = node
+    if (!this.input) this.render()
+    return true
+  }
+
+  selectNode() {
+    this.dom.classList.add('ProseMirror-selectednode')
+    this.startEditing()
+  }
+
+  deselectNode() {
+    this.dom.classList.remove('ProseMirror-selectednode')
+    // Normally the source field's blur has already committed by now
+    if (this.input) this.closeEditor()
+  }
+
+  stopEvent(event: Event) {
+    return this.input !== null && this.dom.contains(event.target as globalThis.Node)
+  }
+
+  ignoreMutation() {
+    return true
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Code Highlight Plugin
+ *
+ * Adds syntax highlighting to code blocks via inline decorations.
+ * Highlighting results are cached per node, so after an edit only
+ * the code blocks that actually changed are tokenized again.
+ */
+
+import { Plugin, PluginKey } from 'prosemirror-state'
+import { Decoration, DecorationSet } from 'prosemirror-view'
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { schema } from '../schema'
+import { highlightCode, HighlightRange } from '../highlight'
+
+export const codeHighlightPluginKey = new PluginKey<DecorationSet>('codeHighlight')
+
+const cache = new WeakMap<ProseMirrorNode, HighlightRange[]>()
+
+function createDecorations(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = []
+
+  doc.descendants((node, pos) => {
+    if (node.type !== schema.nodes.code_block) return true
+
+    let ranges = cache.get(node)
+    if (!ranges) {
+      ranges = highlightCode(node.attrs.language, node.textContent)
+      cache.set(node, ranges)
+    }
+    for (const range of ranges) {
+      decorations.push(Decoration.inline(pos + 1 + range.from, pos + 1 + range.to, { class: range.className }))
+    }
+    return false
+  })
+
+  return DecorationSet.create(doc, decorations)
+}
+
+export function createCodeHighlightPlugin() {
+  return new Plugin<DecorationSet>({
+    key: codeHighlightPluginKey,
+
+    state: {
+      init(_, state) {
+        return createDecorations(state.doc)
+      },
+      apply(tr, decorations) {
+        return tr.docChanged ? createDecorations(tr.doc) : decorations
+      }
+    },
+
+    props: {
+      decorations(state) {
+        return codeHighlightPluginKey.getState(state)
+      }
+    }
+  })
+}
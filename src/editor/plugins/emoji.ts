@@ -0,0 +1,87 @@
+/**
+ * Emoji Plugin
+ *
+ * Shows an autocomplete menu of emoji after a colon and two characters of
+ * their name (`:ta`). Picking one, or typing the closing colon of a known
+ * name, replaces the typed shortcode with the emoji, written as a Unicode
+ * character or kept as a shortcode depending on the workspace's setting.
+ */
+
+import { EditorState, PluginKey } from 'prosemirror-state'
+import { EditorView } from 'prosemirror-view'
+import { schema } from '../schema'
+import { emojiByName, EmojiStyle, EmojiSuggestion } from '../../lib/emoji'
+import { closedSuggestionMenu, createSuggestionMenuPlugin, SuggestionMenuState, SuggestionPluginState, TypedQuery } from './suggestionMenu'
+
+export const emojiPluginKey = new PluginKey<SuggestionPluginState<EmojiSuggestion>>('emoji')
+
+export type EmojiMenuState = SuggestionMenuState<EmojiSuggestion>
+
+interface EmojiOptions {
+  getSuggestions: (query: string) => EmojiSuggestion[]
+  getStyle: () => EmojiStyle
+  onPick: (name: string) => void
+}
+
+export const closedEmojiMenu: EmojiMenuState = closedSuggestionMenu
+
+/**
+ * Returns the name typed after a colon before the cursor, and where the colon is.
+ * The colon has to start a word, so times (`10:30`) and URLs do not open the menu.
+ */
+function typedShortcode(state: EditorState): TypedQuery | null {
+  const { selection } = state
+  const { $from } = selection
+  if (!selection.empty || $from.parent.type.spec.code || schema.marks.code.isInSet($from.marks())) return null
+
+  // Inline nodes count as one character, like their size in the document
+  const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc')
+  const match = /(?:^|[^\w:\\]):([a-z0-9_+-]{2,})$/i.exec(textBefore)
+  if (!match) return null
+  return { from: $from.pos - match[1].length - 1, query: match[1].toLowerCase() }
+}
+
+/**
+ * Replaces the typed shortcode up to the cursor with an emoji, as a Unicode
+ * character or as an emoji node that is saved as its shortcode.
+ */
+export function selectEmojiSuggestion(view: EditorView, name: string, style: EmojiStyle) {
+  const { state } = view
+  const typed = typedShortcode(state)
+  const emoji = emojiByName(name)
+  if (!typed || !emoji) return
+
+  const marks = state.storedMarks ?? state.selection.$from.marks()
+  const content = style === 'unicode'
+    ? schema.text(emoji.emoji, marks)
+    : schema.nodes.emoji.create({ name }, null, marks)
+  view.dispatch(state.tr.replaceWith(typed.from, state.selection.from, content).scrollIntoView())
+  view.focus()
+}
+
+export function createEmojiPlugin(
+  onStateChange: (state: EmojiMenuState) => void,
+  options: EmojiOptions
+) {
+  const pick = (view: EditorView, name: string) => {
+    selectEmojiSuggestion(view, name, options.getStyle())
+    options.onPick(name)
+  }
+
+  return createSuggestionMenuPlugin<EmojiSuggestion>({
+    key: emojiPluginKey,
+    findQuery: typedShortcode,
+    getSuggestions: options.getSuggestions,
+    onSelect: (view, item) => pick(view, item.name),
+    onStateChange,
+    props: {
+      // Typing the closing colon of a known name converts it right away
+      handleTextInput(view, from, to, text) {
+        const typed = text === ':' && from === to ? typedShortcode(view.state) : null
+        if (!typed || !emojiByName(typed.query)) return false
+        pick(view, typed.query)
+        return true
+      }
+    }
+  })
+}
@@ -0,0 +1,130 @@
+/**
+ * Footnotes Plugin
+ *
+ * Shows footnote numbers on references and definitions via node decorations,
+ * and displays a preview of the definition when hovering a reference.
+ * Definitions that end up anywhere but the end of the document are moved
+ * back there, so they always show as a footnotes section at the bottom.
+ */
+
+import { Plugin, PluginKey } from 'prosemirror-state'
+import { Decoration, DecorationSet, EditorView } from 'prosemirror-view'
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { schema } from '../schema'
+import { collectFootnoteDefinitions, findFootnoteDefinition, getFootnoteNumbers } from '../footnotes'
+
+export const footnotesPluginKey = new PluginKey<DecorationSet>('footnotes')
+
+/**
+ * Creates number decorations for all footnote references and definitions.
+ */
+function createDecorations(doc: ProseMirrorNode): DecorationSet {
+  const numbers = getFootnoteNumbers(doc)
+  if (numbers.size === 0) {
+    return DecorationSet.empty
+  }
+
+  const decorations: Decoration[] = []
+  doc.descendants((node, pos) => {
+    if (node.type === schema.nodes.footnote_reference || node.type === schema.nodes.footnote_definition) {
+      decorations.push(Decoration.node(pos, pos + node.nodeSize, {
+        'data-number': String(numbers.get(node.attrs.label))
+      }))
+    }
+  })
+
+  return DecorationSet.create(doc, decorations)
+}
+
+/**
+ * Manages the hover preview element for footnote references.
+ */
+class FootnotePreview {
+  private tooltip: HTMLElement
+
+  constructor(private view: EditorView) {
+    this.tooltip = document.createElement('div')
+    this.tooltip.className = 'footnote-preview fixed z-50'
+    this.tooltip.style.display = 'none'
+    document.body.appendChild(this.tooltip)
+  }
+
+  show(reference: HTMLElement) {
+    const pos = this.view.posAtDOM(reference, 0)
+    const node = this.view.state.doc.nodeAt(pos)
+    if (!node || node.type !== schema.nodes.footnote_reference) return
+
+    const definition = findFootnoteDefinition(this.view.state.doc, node.attrs.label)
+    this.tooltip.textContent = definition
+      ? definition.node.textContent || '(empty footnote)'
+      : `Missing definition for [^${node.attrs.label}]`
+
+    const rect = reference.getBoundingClientRect()
+    this.tooltip.style.top = `${rect.bottom + 4}px`
+    this.tooltip.style.left = `${rect.left}px`
+    this.tooltip.style.display = ''
+  }
+
+  hide() {
+    this.tooltip.style.display = 'none'
+  }
+
+  destroy() {
+    this.tooltip.remove()
+  }
+}
+
+export function createFootnotesPlugin() {
+  let preview: FootnotePreview | null = null
+
+  return new Plugin<DecorationSet>({
+    key: footnotesPluginKey,
+
+    state: {
+      init(_config, state) {
+        return createDecorations(state.doc)
+      },
+      apply(tr, decorations, _oldState, newState) {
+        return tr.docChanged ? createDecorations(newState.doc) : decorations
+      }
+    },
+
+    appendTransaction(transactions, _oldState, newState) {
+      if (!transactions.some(tr => tr.docChanged)) return null
+      const tr = newState.tr
+      return collectFootnoteDefinitions(tr) ? tr : null
+    },
+
+    view(editorView) {
+      preview = new FootnotePreview(editorView)
+      return {
+        destroy() {
+          preview?.destroy()
+          preview = null
+        }
+      }
+    },
+
+    props: {
+      decorations(state) {
+        return this.getState(state) ?? DecorationSet.empty
+      },
+
+      handleDOMEvents: {
+        mouseover(_view, event) {
+          const reference = (event.target as HTMLElement).closest?.('.footnote-ref')
+          if (reference) {
+            preview?.show(reference as HTMLElement)
+          }
+          return false
+        },
+        mouseout(_view, event) {
+          if ((event.target as HTMLElement).closest?.('.footnote-ref')) {
+            preview?.hide()
+          }
+          return false
+        }
+      }
+    }
+  })
+}
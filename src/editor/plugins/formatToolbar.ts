@@ -0,0 +1,132 @@
+/**
+ * Format Toolbar Plugin
+ *
+ * Reports where the floating formatting toolbar should be shown over a
+ * non-empty text selection, and which formats the selection has, which the
+ * toolbar shows as active. The toolbar is hidden while the mouse is still
+ * selecting, when the editor is not focused, and inside code.
+ */
+
+import { EditorState, Plugin, PluginKey, TextSelection } from 'prosemirror-state'
+import { EditorView } from 'prosemirror-view'
+import { MarkType } from 'prosemirror-model'
+import { toggleMark } from 'prosemirror-commands'
+import { schema } from '../schema'
+import { headingLevel, isInBlockquote, listType } from '../commands/format'
+import { openLinkEditor } from './linkPopover'
+
+export const formatToolbarPluginKey = new PluginKey('formatToolbar')
+
+export type FormatMark = 'strong' | 'em' | 'strikethrough' | 'code' | 'link'
+
+export interface FormatToolbarState {
+  active: boolean
+  // Top and bottom of the selection, and its horizontal center
+  position: { top: number; bottom: number; left: number } | null
+  marks: Record<FormatMark, { active: boolean; enabled: boolean }>
+  heading: number | null
+  blockquote: boolean
+  list: 'bullet_list' | 'ordered_list' | null
+}
+
+const noMark = { active: false, enabled: false }
+
+export const inactiveFormatToolbar: FormatToolbarState = {
+  active: false,
+  position: null,
+  marks: { strong: noMark, em: noMark, strikethrough: noMark, code: noMark, link: noMark },
+  heading: null,
+  blockquote: false,
+  list: null
+}
+
+function markState(state: EditorState, type: MarkType) {
+  const { from, to } = state.selection
+  return { active: state.doc.rangeHasMark(from, to, type), enabled: toggleMark(type)(state) }
+}
+
+function toolbarState(view: EditorView, selecting: boolean): FormatToolbarState {
+  const { state } = view
+  const { selection } = state
+  if (
+    selecting || !view.editable || !view.hasFocus() ||
+    !(selection instanceof TextSelection) || selection.empty ||
+    selection.$from.parent.type.spec.code || selection.$to.parent.type.spec.code
+  ) {
+    return inactiveFormatToolbar
+  }
+
+  const start = view.coordsAtPos(selection.from)
+  const end = view.coordsAtPos(selection.to)
+  // A selection over several lines is centered on its first line
+  const left = start.top === end.top ? (start.left + end.left) / 2 : start.left
+  const list = listType(state)
+
+  return {
+    active: true,
+    position: { top: start.top, bottom: end.bottom, left },
+    marks: {
+      strong: markState(state, schema.marks.strong),
+      em: markState(state, schema.marks.em),
+      strikethrough: markState(state, schema.marks.strikethrough),
+      code: markState(state, schema.marks.code),
+      link: {
+        active: state.doc.rangeHasMark(selection.from, selection.to, schema.marks.link),
+        enabled: openLinkEditor(state)
+      }
+    },
+    heading: headingLevel(state),
+    blockquote: isInBlockquote(state),
+    list: list ? (list.name as 'bullet_list' | 'ordered_list') : null
+  }
+}
+
+export function createFormatToolbarPlugin(
+  onStateChange: (state: FormatToolbarState) => void
+) {
+  return new Plugin({
+    key: formatToolbarPluginKey,
+
+    view(editorView) {
+      let current = inactiveFormatToolbar
+      let selecting = false
+
+      const update = (view: EditorView) => {
+        const next = toolbarState(view, selecting)
+        if (JSON.stringify(next) === JSON.stringify(current)) return
+        current = next
+        onStateChange(next)
+      }
+
+      const onMouseDown = () => {
+        selecting = true
+        update(editorView)
+      }
+      const onMouseUp = () => {
+        if (!selecting) return
+        selecting = false
+        update(editorView)
+      }
+      // Focus changes and scrolling do not update the view, so follow them here
+      const onChange = () => update(editorView)
+
+      editorView.dom.addEventListener('mousedown', onMouseDown)
+      window.addEventListener('mouseup', onMouseUp)
+      editorView.dom.addEventListener('focus', onChange)
+      editorView.dom.addEventListener('blur', onChange)
+      window.addEventListener('scroll', onChange, true)
+
+      return {
+        update,
+        destroy() {
+          editorView.dom.removeEventListener('mousedown', onMouseDown)
+          window.removeEventListener('mouseup', onMouseUp)
+          editorView.dom.removeEventListener('focus', onChange)
+          editorView.dom.removeEventListener('blur', onChange)
+          window.removeEventListener('scroll', onChange, true)
+          onStateChange(inactiveFormatToolbar)
+        }
+      }
+    }
+  })
+}
@@ -0,0 +1,116 @@
+/**
+ * Image Upload Plugin
+ *
+ * Inserts images pasted from the clipboard or dropped from outside the editor.
+ * The image files are handed to `saveImage`, which stores them and returns
+ * the `src` to link them with. While an image is being saved a placeholder
+ * marks where it goes, following the edits made in the meantime.
+ */
+
+import { EditorState, Plugin, PluginKey } from 'prosemirror-state'
+import { Decoration, DecorationSet, EditorView } from 'prosemirror-view'
+import { schema } from '../schema'
+import { imageAltText, isImageFile } from '../../lib/images'
+
+type PlaceholderAction = { add: { id: object; pos: number } } | { remove: { id: object } }
+
+export const imageUploadPluginKey = new PluginKey<DecorationSet>('imageUpload')
+
+function placeholderWidget() {
+  const element = document.createElement('span')
+  element.className = 'image-upload-placeholder'
+  element.textContent = 'Saving image…'
+  return element
+}
+
+function findPlaceholder(state: EditorState, id: object): number | null {
+  const found = imageUploadPluginKey.getState(state)?.find(undefined, undefined, spec => spec.id === id)
+  return found && found.length > 0 ? found[0].from : null
+}
+
+/**
+ * Inserts an image at a position. Where images cannot go, such as between
+ * blocks or in a code block, the image goes into a new paragraph after it.
+ */
+function insertImage(view: EditorView, pos: number, attrs: { src: string; alt: string }) {
+  const image = schema.nodes.image.create(attrs)
+  const $pos = view.state.doc.resolve(pos)
+  const { tr } = view.state
+
+  if ($pos.parent.canReplaceWith($pos.index(), $pos.index(), schema.nodes.image)) {
+    tr.insert(pos, image)
+  } else {
+    const paragraph = schema.nodes.paragraph.create(null, image)
+    tr.insert($pos.depth === 0 ? pos : $pos.after(), paragraph)
+  }
+  view.dispatch(tr)
+}
+
+function uploadImages(view: EditorView, files: File[], pos: number, saveImage: (file: File) => Promise<string | null>) {
+  for (const file of files) {
+    const id = {}
+    view.dispatch(view.state.tr.setMeta(imageUploadPluginKey, { add: { id, pos } }))
+
+    saveImage(file).then(src => {
+      // The editor may have been destroyed in the meantime
+      if (view.isDestroyed) return
+      const placeholder = findPlaceholder(view.state, id)
+      view.dispatch(view.state.tr.setMeta(imageUploadPluginKey, { remove: { id } }))
+      if (src && placeholder !== null) insertImage(view, placeholder, { src, alt: imageAltText(file) })
+    }, () => {
+      if (!view.isDestroyed) view.dispatch(view.state.tr.setMeta(imageUploadPluginKey, { remove: { id } }))
+    })
+  }
+}
+
+function imageFiles(data: DataTransfer | null): File[] {
+  return Array.from(data?.files ?? []).filter(isImageFile)
+}
+
+export function createImageUploadPlugin(saveImage: (file: File) => Promise<string | null>) {
+  return new Plugin<DecorationSet>({
+    key: imageUploadPluginKey,
+
+    state: {
+      init() {
+        return DecorationSet.empty
+      },
+
+      apply(tr, set) {
+        set = set.map(tr.mapping, tr.doc)
+        const action = tr.getMeta(imageUploadPluginKey) as PlaceholderAction | undefined
+        if (action && 'add' in action) {
+          const widget = Decoration.widget(action.add.pos, placeholderWidget, { id: action.add.id })
+          set = set.add(tr.doc, [widget])
+        } else if (action && 'remove' in action) {
+          set = set.remove(set.find(undefined, undefined, spec => spec.id === action.remove.id))
+        }
+        return set
+      }
+    },
+
+    props: {
+      decorations(state) {
+        return imageUploadPluginKey.getState(state)
+      },
+
+      handlePaste(view, event) {
+        const files = imageFiles(event.clipboardData)
+        if (files.length === 0) return false
+
+        if (!view.state.selection.empty) view.dispatch(view.state.tr.deleteSelection())
+        uploadImages(view, files, view.state.selection.from, saveImage)
+        return true
+      },
+
+      handleDrop(view, event, _slice, moved) {
+        const files = moved ? [] : imageFiles(event.dataTransfer)
+        if (files.length === 0) return false
+
+        const dropPos = view.posAtCoords({ left: event.clientX, top: event.clientY })
+        uploadImages(view, files, dropPos ? dropPos.pos : view.state.selection.from, saveImage)
+        return true
+      }
+    }
+  })
+}
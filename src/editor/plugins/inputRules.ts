@@ -5,8 +5,10 @@ import {
   InputRule
 } from 'prosemirror-inputrules'
 import { schema } from '../schema'
-import { NodeType, MarkType } from 'prosemirror-model'
-import { TextSelection } from 'prosemirror-state'
+import { NodeType, MarkType, Attrs } from 'prosemirror-model'
+import { EditorState, TextSelection, NodeSelection } from 'prosemirror-state'
+import { parseWikiLink } from '../../lib/wikiLinks'
+import { smartQuote, TypographySettings } from '../../lib/typography'
 
 // Heading input rule: # followed by space
 function headingRule(nodeType: NodeType, maxLevel: number) {
@@ -24,7 +26,7 @@ function blockQuoteRule(nodeType: NodeType) {
 
 // Bullet list input rule: - or * followed by space
 function bulletListRule(listType: NodeType, itemType: NodeType) {
-  return new InputRule(/^\s*([-+*])\s$/, (state, _match, start, end) => {
+  return new InputRule(/^\s*([-+*])\s$/, (state, match, start, end) => {
     const $from = state.selection.$from
     // Only at start of textblock
     if ($from.parentOffset > end - start) return null
@@ -38,7 +40,7 @@ function bulletListRule(listType: NodeType, itemType: NodeType) {
       textContent ? schema.text(textContent) : null
     )
     const listItem = itemType.create(null, paragraph)
-    const list = listType.create(null, listItem)
+    const list = listType.create({ bullet: match[1] }, listItem)
 
     // Replace the entire paragraph with the list
     const $start = state.doc.resolve($from.before($from.depth))
@@ -84,6 +86,46 @@ function orderedListRule(listType: NodeType, itemType: NodeType) {
   })
 }
 
+// Task list input rule: [ ] or [x] followed by space
+// Inside a list item it turns the item into a task, elsewhere it starts a new checklist
+function taskListRule(listType: NodeType, itemType: NodeType) {
+  return new InputRule(/^\[([ xX]?)\]\s$/, (state, match, start, end) => {
+    const $from = state.selection.$from
+    // Only at start of textblock
+    if ($from.parentOffset > end - start) return null
+
+    const checked = match[1].toLowerCase() === 'x'
+    const listItem = $from.node($from.depth - 1)
+
+    // Already in the first paragraph of a regular list item: convert it in place
+    if (listItem && listItem.type === itemType && $from.index($from.depth - 1) === 0) {
+      if (listItem.attrs.checked !== null) return null
+      return state.tr
+        .delete(start, end)
+        .setNodeMarkup($from.before($from.depth - 1), undefined, { ...listItem.attrs, checked })
+    }
+
+    // Get remaining content after the marker
+    const textContent = $from.parent.textContent.slice(end - start)
+
+    const paragraph = schema.nodes.paragraph.create(
+      null,
+      textContent ? schema.text(textContent) : null
+    )
+    const list = listType.create(null, itemType.create({ checked }, paragraph))
+
+    // Replace the entire paragraph with the list
+    const $start = state.doc.resolve($from.before($from.depth))
+    const $end = state.doc.resolve($from.after($from.depth))
+
+    const tr = state.tr.replaceWith($start.pos, $end.pos, list)
+    // Position cursor inside the list item
+    tr.setSelection(TextSelection.near(tr.doc.resolve($start.pos + 3)))
+
+    return tr
+  })
+}
+
 // Code block input rule: ``` followed by optional language
 function codeBlockRule(nodeType: NodeType) {
   return textblockTypeInputRule(
@@ -93,23 +135,46 @@ function codeBlockRule(nodeType: NodeType) {
   )
 }
 
+// Math block: $$ followed by space, any text after the cursor becomes the TeX source
+function mathBlockRule(nodeType: NodeType) {
+  return new InputRule(/^\$\$\s$/, (state, _match, start, end) => {
+    const $start = state.doc.resolve(start)
+    if (!$start.node(-1).canReplaceWith($start.index(-1), $start.indexAfter(-1), nodeType)) return null
+
+    const tex = $start.parent.textContent.slice(end - start)
+    const blockStart = $start.before()
+    const tr = state.tr.replaceWith(blockStart, $start.after(), nodeType.create({ tex }))
+    // Selecting the node opens its source for editing
+    return tr.setSelection(NodeSelection.create(tr.doc, blockStart))
+  })
+}
+
 // Horizontal rule: ---
 function horizontalRuleRule(nodeType: NodeType) {
-  return new InputRule(/^(?:---|\*\*\*|___)$/, (state, _match, start, end) => {
+  return new InputRule(/^(?:---|\*\*\*|___)$/, (state, match, start, end) => {
     const { tr } = state
-    tr.replaceWith(start - 1, end, nodeType.create())
+    tr.replaceWith(start - 1, end, nodeType.create({ markup: match[0] }))
     return tr
   })
 }
 
+// Wiki link: [[Target#Heading|Alias]]
+function wikiLinkRule(nodeType: NodeType) {
+  return new InputRule(/\[\[([^[\]\n]+)\]\]$/, (state, match, start, end) => {
+    const link = parseWikiLink(match[1])
+    if (!link) return null
+    return state.tr.replaceWith(start, end, nodeType.create(link))
+  })
+}
+
 // Mark input rules for inline formatting
-function markInputRule(regexp: RegExp, markType: MarkType) {
+function markInputRule(regexp: RegExp, markType: MarkType, getAttrs?: (match: RegExpMatchArray) => Attrs) {
   return new InputRule(regexp, (state, match, start, end) => {
     const { tr } = state
     const textContent = match[1]
 
     if (textContent) {
-      const mark = markType.create()
+      const mark = markType.create(getAttrs?.(match))
       tr.replaceWith(start, end, schema.text(textContent, [mark]))
     }
 
@@ -119,12 +184,12 @@ function markInputRule(regexp: RegExp, markType: MarkType) {
 
 // Bold: **text** or __text__
 function strongRule(markType: MarkType) {
-  return markInputRule(/(?:\*\*|__)([^*_]+)(?:\*\*|__)$/, markType)
+  return markInputRule(/(?:\*\*|__)([^*_]+)(?:\*\*|__)$/, markType, (match) => ({ markup: match[0].slice(-2) }))
 }
 
 // Italic: *text* or _text_
 function emRule(markType: MarkType) {
-  return markInputRule(/(?:^|[^*_])(?:\*|_)([^*_]+)(?:\*|_)$/, markType)
+  return markInputRule(/(?:^|[^*_])(?:\*|_)([^*_]+)(?:\*|_)$/, markType, (match) => ({ markup: match[0].slice(-1) }))
 }
 
 // Inline code: `text`
@@ -137,7 +202,70 @@ function strikethroughRule(markType: MarkType) {
   return markInputRule(/~~([^~]+)~~$/, markType)
 }
 
-export function buildInputRules() {
+// Highlight: ==text==
+function highlightRule(markType: MarkType) {
+  return markInputRule(/==([^=]+)==$/, markType)
+}
+
+// Subscript: ~text~, but not the first half of ~~strikethrough~~
+function subscriptRule(markType: MarkType) {
+  return markInputRule(/(?<!~)~([^~\s]+)~$/, markType)
+}
+
+// Superscript: ^text^
+function superscriptRule(markType: MarkType) {
+  return markInputRule(/\^([^^\s]+)\^$/, markType)
+}
+
+// Underline and keyboard keys: <u>text</u> and <kbd>text</kbd>
+function htmlMarkRule(tag: string, markType: MarkType) {
+  return markInputRule(new RegExp(`<${tag}>([^<]+)</${tag}>$`), markType)
+}
+
+// Smart typography: replaces the match with a typographic character, except
+// inside code, and Backspace right after turns it back into what was typed
+function typographyRule(
+  regexp: RegExp,
+  replacement: string | ((state: EditorState, start: number) => string),
+  getSettings: () => TypographySettings
+) {
+  return new InputRule(regexp, (state, _match, start, end) => {
+    if (!getSettings().enabled) return null
+    const text = typeof replacement === 'string' ? replacement : replacement(state, start)
+    return state.tr.insertText(text, start, end)
+  }, { inCodeMark: false })
+}
+
+// Quotes open or close depending on the text before them, in the chosen style
+function quoteRule(quote: '"' | "'", getSettings: () => TypographySettings) {
+  return typographyRule(new RegExp(quote + '$'), (state, start) => {
+    const $start = state.doc.resolve(start)
+    const textBefore = $start.parent.textBetween(0, $start.parentOffset, undefined, '\ufffc')
+    return smartQuote(textBefore, quote, getSettings().quoteStyle)
+  }, getSettings)
+}
+
+function typographyRules(getSettings: () => TypographySettings) {
+  return [
+    quoteRule('"', getSettings),
+    quoteRule("'", getSettings),
+    // -- is an en dash and a third - makes it an em dash. Not at the start of
+    // a paragraph, where --- is a horizontal rule, or in <!-- comments -->
+    typographyRule(/(?<=[^\s!-]\s?)(?<!<!--(?:(?!-->).)*)--$/, '–', getSettings),
+    typographyRule(/–-$/, '—', getSettings),
+    typographyRule(/\.\.\.$/, '…', getSettings),
+    // Not the end of a --> comment
+    typographyRule(/(?<!-)->$/, '→', getSettings),
+    typographyRule(/<-$/, '←', getSettings),
+    typographyRule(/←>$/, '↔', getSettings),
+    typographyRule(/(?<!=)=>$/, '⇒', getSettings),
+    typographyRule(/\([cC]\)$/, '©', getSettings),
+    typographyRule(/\([rR]\)$/, '®', getSettings),
+    typographyRule(/\([tT][mM]\)$/, '™', getSettings)
+  ]
+}
+
+export function buildInputRules(getTypography: () => TypographySettings) {
   return inputRules({
     rules: [
       // Block rules
@@ -145,14 +273,27 @@ export function buildInputRules() {
       blockQuoteRule(schema.nodes.blockquote),
       bulletListRule(schema.nodes.bullet_list, schema.nodes.list_item),
       orderedListRule(schema.nodes.ordered_list, schema.nodes.list_item),
+      taskListRule(schema.nodes.bullet_list, schema.nodes.list_item),
       codeBlockRule(schema.nodes.code_block),
       horizontalRuleRule(schema.nodes.horizontal_rule),
+      mathBlockRule(schema.nodes.math_block),
+
+      // Inline node rules
+      wikiLinkRule(schema.nodes.wiki_link),
 
       // Mark rules
       strongRule(schema.marks.strong),
       emRule(schema.marks.em),
       codeRule(schema.marks.code),
-      strikethroughRule(schema.marks.strikethrough)
+      strikethroughRule(schema.marks.strikethrough),
+      highlightRule(schema.marks.highlight),
+      subscriptRule(schema.marks.subscript),
+      superscriptRule(schema.marks.superscript),
+      htmlMarkRule('u', schema.marks.underline),
+      htmlMarkRule('kbd', schema.marks.kbd),
+
+      // Typography rules
+      ...typographyRules(getTypography)
     ]
   })
 }
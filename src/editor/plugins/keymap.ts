@@ -1,27 +1,19 @@
 import { keymap } from 'prosemirror-keymap'
-import { baseKeymap, toggleMark, setBlockType, wrapIn, chainCommands, liftEmptyBlock, splitBlock } from 'prosemirror-commands'
+import { baseKeymap, toggleMark, setBlockType, wrapIn, chainCommands, liftEmptyBlock, splitBlock, newlineInCode } from 'prosemirror-commands'
 import { undo, redo } from 'prosemirror-history'
+import { undoInputRule } from 'prosemirror-inputrules'
 import { schema } from '../schema'
 import { EditorState, Transaction } from 'prosemirror-state'
-import { splitListItem, liftListItem, sinkListItem } from 'prosemirror-schema-list'
+import { liftListItem, sinkListItem } from 'prosemirror-schema-list'
+import { splitListItemKeepingTask, toggleTaskItem } from '../commands/taskList'
+import { indentCode, dedentCode } from '../commands/codeBlock'
+import { goToCell } from '../commands/table'
+import { toggleHeading } from '../commands/format'
+import { openSearch, closeSearch, findNext, findPrevious } from './search'
+import { openLinkEditor } from './linkPopover'
 
 type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean
 
-// Toggle heading at a specific level
-function toggleHeading(level: number): Command {
-  return (state, dispatch) => {
-    const { $from } = state.selection
-    const nodeType = schema.nodes.heading
-
-    // If we're already in a heading of this level, convert to paragraph
-    if ($from.parent.type === nodeType && $from.parent.attrs.level === level) {
-      return setBlockType(schema.nodes.paragraph)(state, dispatch)
-    }
-
-    return setBlockType(nodeType, { level })(state, dispatch)
-  }
-}
-
 // Custom save command that will be handled by the editor
 function saveCommand(onSave?: () => void): Command {
   return () => {
@@ -40,6 +32,8 @@ export function buildKeymap(onSave?: () => void) {
   keys['Mod-z'] = undo
   keys['Mod-y'] = redo
   keys['Mod-Shift-z'] = redo
+  // Backspace right after an automatic replacement turns it back into what was typed
+  keys['Backspace'] = chainCommands(undoInputRule, baseKeymap['Backspace'])
 
   // Save
   keys['Mod-s'] = saveCommand(onSave)
@@ -49,6 +43,12 @@ export function buildKeymap(onSave?: () => void) {
   keys['Mod-i'] = toggleMark(schema.marks.em)
   keys['Mod-`'] = toggleMark(schema.marks.code)
   keys['Mod-Shift-x'] = toggleMark(schema.marks.strikethrough)
+  keys['Mod-Shift-h'] = toggleMark(schema.marks.highlight)
+  keys['Mod-u'] = toggleMark(schema.marks.underline)
+  keys['Mod-,'] = toggleMark(schema.marks.subscript)
+  keys['Mod-.'] = toggleMark(schema.marks.superscript)
+  keys['Mod-Shift-k'] = toggleMark(schema.marks.kbd)
+  keys['Mod-k'] = openLinkEditor
 
   // Headings
   keys['Mod-Alt-1'] = toggleHeading(1)
@@ -63,14 +63,29 @@ export function buildKeymap(onSave?: () => void) {
   keys['Mod-Shift-c'] = setBlockType(schema.nodes.code_block)
   keys['Mod-Shift->'] = wrapIn(schema.nodes.blockquote)
 
-  // List handling - chain commands so Enter works in lists AND regular blocks
+  // List handling - chain commands so Enter works in code, lists AND regular blocks
   keys['Enter'] = chainCommands(
-    splitListItem(schema.nodes.list_item),
+    newlineInCode,
+    splitListItemKeepingTask,
     liftEmptyBlock,
     splitBlock
   )
-  keys['Tab'] = sinkListItem(schema.nodes.list_item)
-  keys['Shift-Tab'] = liftListItem(schema.nodes.list_item)
+  // Tab indents code inside code blocks and moves between table cells,
+  // even when the code block or table is in a list
+  keys['Tab'] = chainCommands(indentCode, goToCell(1), sinkListItem(schema.nodes.list_item))
+  keys['Shift-Tab'] = chainCommands(dedentCode, goToCell(-1), liftListItem(schema.nodes.list_item))
+
+  // Task lists
+  keys['Mod-Enter'] = toggleTaskItem
+
+  // Find and replace
+  keys['Mod-f'] = openSearch(false)
+  keys['Mod-Alt-f'] = openSearch(true)
+  keys['Mod-g'] = findNext()
+  keys['F3'] = findNext()
+  keys['Mod-Shift-g'] = findPrevious
+  keys['Shift-F3'] = findPrevious
+  keys['Escape'] = closeSearch
 
   return keymap({ ...baseKeymap, ...keys })
 }
@@ -0,0 +1,181 @@
+/**
+ * Link Popover Plugin
+ *
+ * Holds the state of the link popover. While the cursor is on a link the
+ * popover shows it with buttons to open, edit or remove it. Mod-k opens the
+ * popover's form for the link at the cursor or the selected text, which stays
+ * open until it is closed or the editor changes. Pasting a URL over selected
+ * text links the text instead of replacing it.
+ */
+
+import { Command, EditorState, Plugin, PluginKey } from 'prosemirror-state'
+import { EditorView } from 'prosemirror-view'
+import { canLink, findLink, setLink } from '../commands/link'
+import { schema } from '../schema'
+
+interface LinkEditing {
+  from: number
+  to: number
+  href: string
+  title: string
+}
+
+interface LinkPopoverPluginState {
+  editing: LinkEditing | null
+  // Incremented whenever the popover is asked to focus its form
+  focusRequest: number
+}
+
+export interface LinkPopoverState {
+  mode: 'view' | 'edit' | null
+  // Range the link covers, or will cover once created. Empty when link text is to be inserted.
+  from: number
+  to: number
+  href: string
+  title: string
+  // Whether there is a link on the range that can be removed
+  isLink: boolean
+  // Headings of the document, for `#anchor` suggestions while editing
+  headings: string[]
+  position: { top: number; left: number } | null
+  focusRequest: number
+}
+
+export const closedLinkPopover: LinkPopoverState = {
+  mode: null,
+  from: 0,
+  to: 0,
+  href: '',
+  title: '',
+  isLink: false,
+  headings: [],
+  position: null,
+  focusRequest: 0
+}
+
+export const linkPopoverPluginKey = new PluginKey<LinkPopoverPluginState>('linkPopover')
+
+const PASTED_URL = /^(https?:\/\/|mailto:)\S+$/i
+
+function documentHeadings(state: EditorState): string[] {
+  const headings: string[] = []
+  state.doc.descendants(node => {
+    if (node.type === schema.nodes.heading) headings.push(node.textContent)
+    return node.isBlock
+  })
+  return headings
+}
+
+function popoverState(view: EditorView): LinkPopoverState {
+  const plugin = linkPopoverPluginKey.getState(view.state)
+  if (!plugin || !view.editable) return closedLinkPopover
+
+  let next: Omit<LinkPopoverState, 'position'>
+  if (plugin.editing) {
+    const { from, to } = plugin.editing
+    next = {
+      ...plugin.editing,
+      mode: 'edit',
+      isLink: from < to && view.state.doc.rangeHasMark(from, to, schema.marks.link),
+      headings: documentHeadings(view.state),
+      focusRequest: plugin.focusRequest
+    }
+  } else {
+    const { selection } = view.state
+    const link = selection.empty ? findLink(selection.$from) : null
+    if (!link) return closedLinkPopover
+    next = {
+      mode: 'view',
+      from: link.from,
+      to: link.to,
+      href: link.mark.attrs.href,
+      title: link.mark.attrs.title ?? '',
+      isLink: true,
+      headings: [],
+      focusRequest: plugin.focusRequest
+    }
+  }
+
+  const coords = view.coordsAtPos(next.from)
+  return { ...next, position: { top: coords.bottom, left: coords.left } }
+}
+
+export function createLinkPopoverPlugin(
+  onStateChange: (state: LinkPopoverState) => void
+) {
+  return new Plugin<LinkPopoverPluginState>({
+    key: linkPopoverPluginKey,
+
+    state: {
+      init(): LinkPopoverPluginState {
+        return { editing: null, focusRequest: 0 }
+      },
+
+      apply(tr, prev): LinkPopoverPluginState {
+        const update = tr.getMeta(linkPopoverPluginKey) as Partial<LinkPopoverPluginState> | undefined
+        if (update) return { ...prev, ...update }
+        // Editing in the editor itself closes the form
+        if (prev.editing && (tr.docChanged || tr.selectionSet)) return { ...prev, editing: null }
+        return prev
+      }
+    },
+
+    view(editorView) {
+      let current = closedLinkPopover
+
+      const update = (view: EditorView) => {
+        const next = popoverState(view)
+        if (JSON.stringify(next) === JSON.stringify(current)) return
+        current = next
+        onStateChange(next)
+      }
+
+      // The popover is positioned in viewport coordinates, so follow the editor when it scrolls
+      const onScroll = () => update(editorView)
+      window.addEventListener('scroll', onScroll, true)
+
+      return {
+        update,
+        destroy() {
+          window.removeEventListener('scroll', onScroll, true)
+          onStateChange(closedLinkPopover)
+        }
+      }
+    },
+
+    props: {
+      handlePaste(view, event) {
+        const text = event.clipboardData?.getData('text/plain').trim() ?? ''
+        const { from, to, empty } = view.state.selection
+        if (empty || !PASTED_URL.test(text)) return false
+        return setLink(from, to, text, '')(view.state, view.dispatch)
+      }
+    }
+  })
+}
+
+/**
+ * Opens the link form for the link at the cursor, or for linking the
+ * selected text. Without a selection, the form asks for the link text too.
+ */
+export const openLinkEditor: Command = (state, dispatch) => {
+  const popover = linkPopoverPluginKey.getState(state)
+  const { from, to, $from, $to } = state.selection
+  if (!popover || !canLink($from, $to)) return false
+
+  if (dispatch) {
+    // A selection within a link edits the whole link
+    const link = findLink($from)
+    const editing: LinkEditing = link && link.from <= from && to <= link.to
+      ? { from: link.from, to: link.to, href: link.mark.attrs.href, title: link.mark.attrs.title ?? '' }
+      : { from, to, href: '', title: '' }
+    dispatch(state.tr.setMeta(linkPopoverPluginKey, { editing, focusRequest: popover.focusRequest + 1 }))
+  }
+  return true
+}
+
+export const closeLinkEditor: Command = (state, dispatch) => {
+  if (!linkPopoverPluginKey.getState(state)?.editing) return false
+  if (dispatch) dispatch(state.tr.setMeta(linkPopoverPluginKey, { editing: null }))
+  return true
+}
@@ -0,0 +1,133 @@
+/**
+ * Lint Plugin
+ *
+ * Lints the document a moment after each change and underlines the problems,
+ * reporting them for the problems panel. Problems are mapped through edits
+ * until the next run, so quick fixes apply to where the problem is now.
+ */
+
+import { EditorState, Plugin, PluginKey } from 'prosemirror-state'
+import { Decoration, DecorationSet, EditorView } from 'prosemirror-view'
+import { LintConfig, LintProblem, lintDocument } from '../lint'
+
+export const lintPluginKey = new PluginKey<LintPluginState>('lint')
+
+interface LintPluginState {
+  problems: LintProblem[]
+  decorations: DecorationSet
+  // Bumped to lint again without a change to the document
+  version: number
+}
+
+// Time after the last change before the document is linted
+const LINT_DELAY = 500
+
+function problemTitle(problem: LintProblem) {
+  const detail = problem.detail ? ` [${problem.detail}]` : ''
+  return `${problem.rule}/${problem.alias}: ${problem.description}${detail}`
+}
+
+// Problems in the same block share one decoration, whose title lists them all
+function createDecorations(state: EditorState, problems: LintProblem[]): DecorationSet {
+  const ranges = new Map<string, LintProblem[]>()
+  for (const problem of problems) {
+    const key = `${problem.from}:${problem.to}`
+    ranges.set(key, [...(ranges.get(key) ?? []), problem])
+  }
+
+  const decorations = Array.from(ranges.values(), ([problem, ...others]) => {
+    const title = [problem, ...others].map(problemTitle).join('\n')
+    return problem.from === problem.pos
+      ? Decoration.node(problem.from, problem.to, { class: 'lint-problem-block', title })
+      : Decoration.inline(problem.from, problem.to, { class: 'lint-problem', title })
+  })
+  return DecorationSet.create(state.doc, decorations)
+}
+
+/**
+ * Returns the problems found in the last run, mapped to the current document.
+ */
+export function getLintProblems(state: EditorState): LintProblem[] {
+  return lintPluginKey.getState(state)?.problems ?? []
+}
+
+/**
+ * Lints the document again, for example after the configuration changed.
+ */
+export function refreshLint(view: EditorView) {
+  const current = lintPluginKey.getState(view.state)
+  if (current) view.dispatch(view.state.tr.setMeta(lintPluginKey, { version: current.version + 1 }))
+}
+
+export function createLintPlugin(
+  onStateChange: (problems: LintProblem[]) => void,
+  // The configuration to lint with, null when linting is off
+  getConfig: () => LintConfig | null
+) {
+  return new Plugin<LintPluginState>({
+    key: lintPluginKey,
+
+    state: {
+      init(): LintPluginState {
+        return { problems: [], decorations: DecorationSet.empty, version: 0 }
+      },
+
+      apply(tr, prev, _oldState, newState): LintPluginState {
+        const meta = tr.getMeta(lintPluginKey) as Partial<LintPluginState> | undefined
+        if (meta?.problems) {
+          return { ...prev, problems: meta.problems, decorations: createDecorations(newState, meta.problems) }
+        }
+        if (meta?.version !== undefined) return { ...prev, version: meta.version }
+        if (!tr.docChanged) return prev
+
+        const problems = prev.problems.map(problem => ({
+          ...problem,
+          pos: tr.mapping.map(problem.pos, 1),
+          from: tr.mapping.map(problem.from, 1),
+          to: tr.mapping.map(problem.to, -1)
+        }))
+        return { ...prev, problems, decorations: prev.decorations.map(tr.mapping, tr.doc) }
+      }
+    },
+
+    view(editorView) {
+      let timer: ReturnType<typeof setTimeout> | null = null
+      let current: LintProblem[] = []
+
+      const lint = () => {
+        timer = null
+        const config = getConfig()
+        const problems = config ? lintDocument(editorView.state.doc, config) : []
+        editorView.dispatch(editorView.state.tr.setMeta(lintPluginKey, { problems }))
+
+        if (JSON.stringify(problems) === JSON.stringify(current)) return
+        current = problems
+        onStateChange(problems)
+      }
+
+      const schedule = () => {
+        if (timer !== null) clearTimeout(timer)
+        timer = setTimeout(lint, LINT_DELAY)
+      }
+
+      schedule()
+
+      return {
+        update(view, prevState) {
+          const version = lintPluginKey.getState(view.state)?.version
+          if (view.state.doc !== prevState.doc || version !== lintPluginKey.getState(prevState)?.version) schedule()
+        },
+        destroy() {
+          if (timer !== null) clearTimeout(timer)
+          onStateChange([])
+        }
+      }
+    },
+
+    props: {
+      decorations(state) {
+        return lintPluginKey.getState(state)?.decorations
+      }
+    }
+  })
+}
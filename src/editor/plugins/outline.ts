@@ -0,0 +1,87 @@
+/**
+ * Outline Plugin
+ *
+ * Reports the headings of the document for the outline panel, along with the
+ * section currently at the top of the editor, which follows scrolling.
+ */
+
+import { Plugin, PluginKey } from 'prosemirror-state'
+import { EditorView } from 'prosemirror-view'
+import { getOutline, OutlineHeading } from '../commands/outline'
+
+export const outlinePluginKey = new PluginKey('outline')
+
+export interface OutlineState {
+  headings: OutlineHeading[]
+  // Index of the heading whose section is at the top of the editor, -1 before the first heading
+  activeIndex: number
+}
+
+export const emptyOutline: OutlineState = { headings: [], activeIndex: -1 }
+
+// Headings this close below the top of the editor already count as current
+const ACTIVE_OFFSET = 24
+
+/**
+ * Finds the last heading scrolled past the top of the editor's scroll container.
+ * Once scrolled to the bottom, headings that can no longer reach the top count
+ * as soon as they are visible.
+ */
+function activeHeading(view: EditorView, headings: OutlineHeading[]): number {
+  const scroller = view.dom.parentElement
+  if (!scroller) return -1
+
+  const bounds = scroller.getBoundingClientRect()
+  const atBottom = scroller.scrollTop > 0 && scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 1
+  const limit = atBottom ? bounds.bottom : bounds.top + ACTIVE_OFFSET
+
+  let active = -1
+  headings.forEach((heading, index) => {
+    const dom = view.nodeDOM(heading.pos)
+    if (dom instanceof HTMLElement && dom.getBoundingClientRect().top <= limit) active = index
+  })
+  return active
+}
+
+export function createOutlinePlugin(
+  onStateChange: (state: OutlineState) => void
+) {
+  return new Plugin({
+    key: outlinePluginKey,
+
+    view(editorView) {
+      let headings = getOutline(editorView.state.doc)
+      let current = emptyOutline
+      let frame: number | null = null
+
+      const report = () => {
+        frame = null
+        const next = { headings, activeIndex: activeHeading(editorView, headings) }
+        if (JSON.stringify(next) === JSON.stringify(current)) return
+        current = next
+        onStateChange(next)
+      }
+
+      // Measuring headings is deferred to the next frame, once per frame
+      const schedule = () => {
+        if (frame === null) frame = requestAnimationFrame(report)
+      }
+
+      window.addEventListener('scroll', schedule, true)
+      schedule()
+
+      return {
+        update(view, prevState) {
+          if (view.state.doc === prevState.doc) return
+          headings = getOutline(view.state.doc)
+          schedule()
+        },
+        destroy() {
+          window.removeEventListener('scroll', schedule, true)
+          if (frame !== null) cancelAnimationFrame(frame)
+          onStateChange(emptyOutline)
+        }
+      }
+    }
+  })
+}
@@ -0,0 +1,255 @@
+/**
+ * Search Plugin
+ *
+ * Holds the state of the find/replace bar and highlights all matches of the
+ * current query, with the match that is selected in the editor marked as current.
+ * Matches are searched again whenever the document or the query changes.
+ */
+
+import { Command, EditorState, Plugin, PluginKey, TextSelection, Transaction } from 'prosemirror-state'
+import { Decoration, DecorationSet, EditorView } from 'prosemirror-view'
+import { compileQuery, findMatches, replacementFor, SearchMatch, SearchQuery, SearchRange, SourceMatch } from '../search'
+
+export interface SearchState {
+  open: boolean
+  showReplace: boolean
+  query: SearchQuery
+  // Limits the search to this range when searching within the selection
+  range: SearchRange | null
+  matches: SearchMatch[]
+  // Index of the match that is selected in the editor, or -1
+  current: number
+  error: string | null
+  // Incremented whenever the bar is asked to focus its search field
+  focusRequest: number
+}
+
+type SearchStateUpdate = Partial<Pick<SearchState, 'open' | 'showReplace' | 'range' | 'focusRequest'>> & {
+  query?: Partial<SearchQuery>
+}
+
+export const searchPluginKey = new PluginKey<SearchState>('search')
+
+const emptyQuery: SearchQuery = {
+  search: '',
+  replace: '',
+  caseSensitive: false,
+  wholeWord: false,
+  regexp: false
+}
+
+function searchMatches(state: Omit<SearchState, 'matches' | 'current' | 'error'>, doc: EditorState['doc']) {
+  const regexp = state.open ? compileQuery(state.query) : null
+  if (typeof regexp === 'string') return { matches: [], error: regexp }
+  return { matches: regexp ? findMatches(doc, regexp, state.range ?? undefined) : [], error: null }
+}
+
+function currentMatch(matches: SearchMatch[], selection: EditorState['selection']) {
+  return matches.findIndex(match => match.from === selection.from && match.to === selection.to)
+}
+
+export const initialSearchState: SearchState = {
+  open: false,
+  showReplace: false,
+  query: emptyQuery,
+  range: null,
+  matches: [],
+  current: -1,
+  error: null,
+  focusRequest: 0
+}
+
+export function getSearchState(state: EditorState): SearchState | undefined {
+  return searchPluginKey.getState(state)
+}
+
+export function createSearchPlugin(
+  onStateChange: (state: SearchState) => void
+) {
+  return new Plugin<SearchState>({
+    key: searchPluginKey,
+
+    state: {
+      init(): SearchState {
+        return initialSearchState
+      },
+
+      apply(tr, prev, _oldState, newState): SearchState {
+        const update = tr.getMeta(searchPluginKey) as SearchStateUpdate | undefined
+        if (!update && !tr.docChanged && !tr.selectionSet) return prev
+
+        let next: SearchState = prev
+        if (update) {
+          next = { ...prev, ...update, query: { ...prev.query, ...update.query } }
+          if (!next.open) next.range = null
+        } else if (tr.docChanged && prev.range) {
+          next = { ...prev, range: { from: tr.mapping.map(prev.range.from, -1), to: tr.mapping.map(prev.range.to, 1) } }
+        }
+
+        if (update || tr.docChanged) {
+          next = { ...next, ...searchMatches(next, newState.doc) }
+        }
+        next = { ...next, current: currentMatch(next.matches, newState.selection) }
+
+        if (next.open || prev.open) onStateChange(next)
+        return next
+      }
+    },
+
+    props: {
+      decorations(state) {
+        const search = searchPluginKey.getState(state)
+        if (!search?.open || search.matches.length === 0) return DecorationSet.empty
+
+        return DecorationSet.create(state.doc, search.matches.map((match, index) =>
+          Decoration.inline(match.from, match.to, {
+            class: index === search.current ? 'search-match search-match-current' : 'search-match'
+          })
+        ))
+      }
+    }
+  })
+}
+
+/**
+ * Updates the search state, for example with a new query from the find bar.
+ */
+export function updateSearch(view: EditorView, update: SearchStateUpdate) {
+  view.dispatch(view.state.tr.setMeta(searchPluginKey, update))
+}
+
+/**
+ * Opens the find bar, searching for the selected text if it is on a single line.
+ */
+export function openSearch(showReplace: boolean): Command {
+  return (state, dispatch) => {
+    const search = getSearchState(state)
+    if (!search) return false
+
+    if (dispatch) {
+      const { from, to, $from } = state.selection
+      const selected = $from.sameParent(state.selection.$to) ? state.doc.textBetween(from, to) : ''
+      const update: SearchStateUpdate = {
+        open: true,
+        showReplace: showReplace || (search.open && search.showReplace),
+        focusRequest: search.focusRequest + 1
+      }
+      if (selected && !selected.includes('\n')) update.query = { search: selected }
+      dispatch(state.tr.setMeta(searchPluginKey, update))
+    }
+    return true
+  }
+}
+
+export const closeSearch: Command = (state, dispatch) => {
+  if (!getSearchState(state)?.open) return false
+  if (dispatch) dispatch(state.tr.setMeta(searchPluginKey, { open: false }))
+  return true
+}
+
+function selectMatch(tr: Transaction, match: SearchMatch) {
+  return tr.setSelection(TextSelection.create(tr.doc, match.from, match.to)).scrollIntoView()
+}
+
+/**
+ * Selects the next match after the selection, wrapping around at the end.
+ * With `fromStart`, a match starting at the selection counts as next,
+ * which keeps the current match while the query is typed.
+ */
+export function findNext(fromStart = false): Command {
+  return (state, dispatch) => {
+    const search = getSearchState(state)
+    if (!search?.open || search.matches.length === 0) return false
+
+    const { from, to } = state.selection
+    const match = search.matches.find(m => fromStart ? m.from >= from : m.from >= to && m.to > from) ?? search.matches[0]
+    if (dispatch) dispatch(selectMatch(state.tr, match))
+    return true
+  }
+}
+
+/**
+ * Selects the previous match before the selection, wrapping around at the start.
+ */
+export const findPrevious: Command = (state, dispatch) => {
+  const search = getSearchState(state)
+  if (!search?.open || search.matches.length === 0) return false
+
+  const { from } = state.selection
+  const before = search.matches.filter(m => m.to <= from && m.from < from)
+  const match = before[before.length - 1] ?? search.matches[search.matches.length - 1]
+  if (dispatch) dispatch(selectMatch(state.tr, match))
+  return true
+}
+
+/**
+ * Opens the find bar with a query and selects the match at a source location.
+ * The match is picked by its index when the document has as many matches as
+ * the source, and otherwise as the first match from `blockPos`, the start of
+ * the top-level block containing the source line. Fails if there is no match.
+ */
+export function revealMatch(query: SearchQuery, location: SourceMatch, blockPos: number): Command {
+  return (state, dispatch) => {
+    const search = getSearchState(state)
+    const regexp = compileQuery(query)
+    if (!search || !(regexp instanceof RegExp)) return false
+
+    const matches = findMatches(state.doc, regexp)
+    const match = matches.length === location.total
+      ? matches[location.occurrence]
+      : matches.find(m => m.from >= blockPos)
+    if (!match) return false
+
+    if (dispatch) {
+      const tr = state.tr.setMeta(searchPluginKey, { open: true, range: null, query })
+      dispatch(selectMatch(tr, match))
+    }
+    return true
+  }
+}
+
+/**
+ * Replaces the selected match and selects the next one. If no match is
+ * selected, it selects the next match instead so it can be reviewed first.
+ */
+export const replaceNext: Command = (state, dispatch) => {
+  const search = getSearchState(state)
+  if (!search?.open || search.matches.length === 0) return false
+  if (search.current < 0) return findNext()(state, dispatch)
+
+  if (dispatch) {
+    const match = search.matches[search.current]
+    const tr = state.tr.insertText(replacementFor(search.query, match), match.from, match.to)
+
+    // Select the next match, searching the changed document
+    const regexp = compileQuery(search.query)
+    if (regexp instanceof RegExp) {
+      const range = search.range && { from: tr.mapping.map(search.range.from, -1), to: tr.mapping.map(search.range.to, 1) }
+      const after = tr.mapping.map(match.to)
+      const matches = findMatches(tr.doc, regexp, range ?? undefined)
+      const next = matches.find(m => m.from >= after) ?? matches[0]
+      if (next) selectMatch(tr, next)
+    }
+    dispatch(tr.scrollIntoView())
+  }
+  return true
+}
+
+/**
+ * Replaces all matches in a single transaction, so one undo restores them all.
+ */
+export const replaceAll: Command = (state, dispatch) => {
+  const search = getSearchState(state)
+  if (!search?.open || search.matches.length === 0) return false
+
+  if (dispatch) {
+    const tr = state.tr
+    // Replace from the end so earlier positions stay valid
+    for (let i = search.matches.length - 1; i >= 0; i--) {
+      const match = search.matches[i]
+      tr.insertText(replacementFor(search.query, match), match.from, match.to)
+    }
+    dispatch(tr.scrollIntoView())
+  }
+  return true
+}
@@ -3,15 +3,25 @@ import { EditorView } from 'prosemirror-view'
 import { setBlockType, wrapIn } from 'prosemirror-commands'
 import { schema } from '../schema'
 import { wrapInList } from 'prosemirror-schema-list'
+import { wrapInTaskList } from '../commands/taskList'
+import { insertFootnote } from '../commands/footnote'
+import { insertFrontMatter } from '../commands/frontMatter'
+import { insertMathBlock, insertMathInline } from '../commands/math'
+import { insertTable, TableSize } from '../commands/table'
 
 export interface SlashMenuItem {
   id: string
   label: string
   description: string
   icon: string
-  action: (view: EditorView) => void
+  // Items with a size picker open it instead of running right away, and get the picked size
+  sizePicker?: boolean
+  action: (view: EditorView, size?: TableSize) => void
 }
 
+export const DEFAULT_TABLE_SIZE: TableSize = { rows: 3, cols: 3 }
+export const MAX_TABLE_SIZE: TableSize = { rows: 8, cols: 8 }
+
 const slashMenuItems: SlashMenuItem[] = [
   {
     id: 'paragraph',
@@ -73,6 +83,16 @@ const slashMenuItems: SlashMenuItem[] = [
       view.focus()
     }
   },
+  {
+    id: 'task_list',
+    label: 'To-do List',
+    description: 'Checklist with checkboxes',
+    icon: '☐',
+    action: (view) => {
+      wrapInTaskList(view.state, view.dispatch)
+      view.focus()
+    }
+  },
   {
     id: 'blockquote',
     label: 'Quote',
@@ -83,6 +103,16 @@ const slashMenuItems: SlashMenuItem[] = [
       view.focus()
     }
   },
+  {
+    id: 'callout',
+    label: 'Callout',
+    description: 'Note, tip or warning box',
+    icon: 'ⓘ',
+    action: (view) => {
+      wrapIn(schema.nodes.callout, { kind: 'note' })(view.state, view.dispatch)
+      view.focus()
+    }
+  },
   {
     id: 'code_block',
     label: 'Code Block',
@@ -93,6 +123,67 @@ const slashMenuItems: SlashMenuItem[] = [
       view.focus()
     }
   },
+  {
+    id: 'table',
+    label: 'Table',
+    description: 'Grid with a header row',
+    icon: '▦',
+    sizePicker: true,
+    action: (view, size = DEFAULT_TABLE_SIZE) => {
+      insertTable(size)(view.state, view.dispatch)
+      view.focus()
+    }
+  },
+  {
+    id: 'math_block',
+    label: 'Math Block',
+    description: 'Display equation in TeX',
+    icon: '∑',
+    action: (view) => {
+      insertMathBlock(view.state, view.dispatch)
+      view.focus()
+    }
+  },
+  {
+    id: 'math_inline',
+    label: 'Inline Math',
+    description: 'TeX equation within the text',
+    icon: '√',
+    action: (view) => {
+      insertMathInline(view.state, view.dispatch)
+      view.focus()
+    }
+  },
+  {
+    id: 'front_matter',
+    label: 'Properties',
+    description: 'YAML front matter at the top of the page',
+    icon: '---',
+    action: (view) => {
+      insertFrontMatter(view.state, view.dispatch)
+      view.focus()
+    }
+  },
+  {
+    id: 'html_block',
+    label: 'HTML Block',
+    description: 'Raw HTML kept exactly as written',
+    icon: '<>',
+    action: (view) => {
+      setBlockType(schema.nodes.html_block)(view.state, view.dispatch)
+      view.focus()
+    }
+  },
+  {
+    id: 'footnote',
+    label: 'Footnote',
+    description: 'Reference with a note at the bottom',
+    icon: '¹',
+    action: (view) => {
+      insertFootnote(view.state, view.dispatch)
+      view.focus()
+    }
+  },
   {
     id: 'horizontal_rule',
     label: 'Divider',
@@ -115,6 +206,45 @@ export interface SlashMenuState {
   items: SlashMenuItem[]
   selectedIndex: number
   position: { top: number; left: number } | null
+  // Size highlighted in the table size picker, null while the item list is shown
+  tableSize: TableSize | null
+}
+
+const closedMenu = { active: false, query: '', selectedIndex: 0, position: null, tableSize: null }
+
+/**
+ * Removes the typed slash and query, then runs the item. Items with a size
+ * picker show the picker in place of the item list instead.
+ */
+export function selectSlashMenuItem(view: EditorView, item: SlashMenuItem) {
+  const { $from } = view.state.selection
+  const textBefore = $from.parent.textContent.slice(0, $from.parentOffset)
+  const slashIndex = textBefore.lastIndexOf('/')
+  const from = $from.pos - (textBefore.length - slashIndex)
+  const tr = view.state.tr.delete(from, $from.pos)
+
+  if (item.sizePicker) {
+    view.dispatch(tr.setMeta(slashMenuPluginKey, { items: [item], selectedIndex: 0, tableSize: DEFAULT_TABLE_SIZE }))
+    view.focus()
+    return
+  }
+
+  view.dispatch(tr.setMeta(slashMenuPluginKey, closedMenu))
+  item.action(view)
+}
+
+/**
+ * Runs the item whose size picker is open with the picked size.
+ */
+export function pickSlashMenuSize(view: EditorView, size: TableSize) {
+  const state = slashMenuPluginKey.getState(view.state) as SlashMenuState
+  const item = state.items[state.selectedIndex]
+  view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, closedMenu))
+  item?.action(view, size)
+}
+
+export function setSlashMenuSize(view: EditorView, size: TableSize) {
+  view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, { tableSize: size }))
 }
 
 export function createSlashMenuPlugin(
@@ -130,7 +260,8 @@ export function createSlashMenuPlugin(
           query: '',
           items: slashMenuItems,
           selectedIndex: 0,
-          position: null
+          position: null,
+          tableSize: null
         }
       },
 
@@ -142,8 +273,15 @@ export function createSlashMenuPlugin(
           return newState
         }
 
+        // The size picker closes on any edit or cursor movement
+        if (prev.active && prev.tableSize && (tr.docChanged || tr.selectionSet)) {
+          const newState = { ...prev, ...closedMenu }
+          onStateChange(newState)
+          return newState
+        }
+
         // Check if we should close the menu
-        if (prev.active) {
+        if (prev.active && !prev.tableSize) {
           const { selection } = tr
           const { $from } = selection
           const textBefore = $from.parent.textContent.slice(0, $from.parentOffset)
@@ -151,7 +289,7 @@ export function createSlashMenuPlugin(
           // Check if we still have a slash
           const slashIndex = textBefore.lastIndexOf('/')
           if (slashIndex === -1) {
-            const newState = { ...prev, active: false, query: '', selectedIndex: 0, position: null }
+            const newState = { ...prev, ...closedMenu }
             onStateChange(newState)
             return newState
           }
@@ -210,6 +348,30 @@ export function createSlashMenuPlugin(
 
         if (!state.active) return false
 
+        // Arrow keys resize the table size picker, Enter inserts the table
+        if (state.tableSize) {
+          const steps: Record<string, [number, number]> = {
+            ArrowDown: [1, 0],
+            ArrowUp: [-1, 0],
+            ArrowRight: [0, 1],
+            ArrowLeft: [0, -1]
+          }
+          const step = steps[event.key]
+          if (step) {
+            event.preventDefault()
+            setSlashMenuSize(view, {
+              rows: Math.min(Math.max(state.tableSize.rows + step[0], 2), MAX_TABLE_SIZE.rows),
+              cols: Math.min(Math.max(state.tableSize.cols + step[1], 1), MAX_TABLE_SIZE.cols)
+            })
+            return true
+          }
+          if (event.key === 'Enter') {
+            event.preventDefault()
+            pickSlashMenuSize(view, state.tableSize)
+            return true
+          }
+        }
+
         // Handle navigation and selection
         if (event.key === 'ArrowDown') {
           event.preventDefault()
@@ -227,30 +389,13 @@ export function createSlashMenuPlugin(
 
         if (event.key === 'Enter' && state.items.length > 0) {
           event.preventDefault()
-          const item = state.items[state.selectedIndex]
-
-          // Delete the slash and query
-          const { $from } = view.state.selection
-          const textBefore = $from.parent.textContent.slice(0, $from.parentOffset)
-          const slashIndex = textBefore.lastIndexOf('/')
-          const from = $from.pos - (textBefore.length - slashIndex)
-          const tr = view.state.tr.delete(from, $from.pos)
-          view.dispatch(tr.setMeta(slashMenuPluginKey, { active: false, query: '', selectedIndex: 0, position: null }))
-
-          item.action(view)
+          selectSlashMenuItem(view, state.items[state.selectedIndex])
           return true
         }
 
         if (event.key === 'Escape') {
           event.preventDefault()
-          view.dispatch(
-            view.state.tr.setMeta(slashMenuPluginKey, {
-              active: false,
-              query: '',
-              selectedIndex: 0,
-              position: null
-            })
-          )
+          view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, closedMenu))
           return true
         }
 
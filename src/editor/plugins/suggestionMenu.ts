@@ -0,0 +1,154 @@
+/**
+ * Suggestion Menu Plugin
+ *
+ * The state and keyboard handling shared by the autocomplete menus that open
+ * while typing, like those of wiki links and emoji. The menu is open while
+ * the text before the cursor holds a query, follows it as it is typed, and
+ * stays closed for a query dismissed with Escape. Arrow keys move the
+ * selection, Enter and Tab pick the selected suggestion.
+ */
+
+import { EditorState, Plugin, PluginKey } from 'prosemirror-state'
+import { EditorProps, EditorView } from 'prosemirror-view'
+
+export interface SuggestionMenuState<T> {
+  active: boolean
+  query: string
+  items: T[]
+  selectedIndex: number
+  position: { top: number; left: number } | null
+}
+
+export interface SuggestionPluginState<T> {
+  query: string | null
+  items: T[]
+  selectedIndex: number
+  // Start of the typed text that opened the menu
+  from: number
+  // Start of the typed text whose menu was closed with Escape
+  dismissedFrom: number | null
+}
+
+export interface TypedQuery {
+  from: number
+  query: string
+}
+
+interface SuggestionMenuOptions<T> {
+  key: PluginKey<SuggestionPluginState<T>>
+  // Returns the query typed before the cursor and where its typed text starts, or null
+  findQuery: (state: EditorState) => TypedQuery | null
+  getSuggestions: (query: string) => T[]
+  onSelect: (view: EditorView, item: T) => void
+  onStateChange: (state: SuggestionMenuState<T>) => void
+  // Further props of the plugin
+  props?: EditorProps
+}
+
+export const closedSuggestionMenu: SuggestionMenuState<never> = {
+  active: false,
+  query: '',
+  items: [],
+  selectedIndex: 0,
+  position: null
+}
+
+export function createSuggestionMenuPlugin<T>(options: SuggestionMenuOptions<T>) {
+  const { key } = options
+
+  return new Plugin<SuggestionPluginState<T>>({
+    key,
+
+    state: {
+      init(): SuggestionPluginState<T> {
+        return { query: null, items: [], selectedIndex: 0, from: 0, dismissedFrom: null }
+      },
+
+      apply(tr, prev, _oldState, newState): SuggestionPluginState<T> {
+        const meta = tr.getMeta(key)
+        if (meta) return { ...prev, ...meta }
+        if (!tr.docChanged && !tr.selectionSet) return prev
+
+        const typed = options.findQuery(newState)
+        const dismissedFrom = prev.dismissedFrom === null ? null : tr.mapping.map(prev.dismissedFrom)
+        if (!typed || typed.from === dismissedFrom) {
+          return { ...prev, query: null, items: [], dismissedFrom: typed ? dismissedFrom : null }
+        }
+        if (typed.query === prev.query && typed.from === tr.mapping.map(prev.from)) {
+          return { ...prev, from: typed.from }
+        }
+
+        return {
+          query: typed.query,
+          items: options.getSuggestions(typed.query),
+          selectedIndex: 0,
+          from: typed.from,
+          dismissedFrom: null
+        }
+      }
+    },
+
+    view(editorView) {
+      let current: SuggestionMenuState<T> = closedSuggestionMenu
+
+      const update = (view: EditorView) => {
+        const menu = key.getState(view.state)
+        if (!menu) return
+
+        let next: SuggestionMenuState<T> = closedSuggestionMenu
+        if (menu.query !== null && view.editable) {
+          const coords = view.coordsAtPos(menu.from)
+          next = {
+            active: true,
+            query: menu.query,
+            items: menu.items,
+            selectedIndex: menu.selectedIndex,
+            position: { top: coords.bottom, left: coords.left }
+          }
+        }
+        if (JSON.stringify(next) === JSON.stringify(current)) return
+        current = next
+        options.onStateChange(next)
+      }
+
+      return {
+        update: () => update(editorView),
+        destroy() {
+          options.onStateChange(closedSuggestionMenu)
+        }
+      }
+    },
+
+    props: {
+      ...options.props,
+
+      handleKeyDown(view, event) {
+        const menu = key.getState(view.state)
+        if (!menu || menu.query === null) return false
+
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+          if (menu.items.length === 0) return false
+          event.preventDefault()
+          const step = event.key === 'ArrowDown' ? 1 : -1
+          const selectedIndex = (menu.selectedIndex + step + menu.items.length) % menu.items.length
+          view.dispatch(view.state.tr.setMeta(key, { selectedIndex }))
+          return true
+        }
+
+        if ((event.key === 'Enter' || event.key === 'Tab') && menu.items.length > 0) {
+          event.preventDefault()
+          options.onSelect(view, menu.items[menu.selectedIndex])
+          return true
+        }
+
+        if (event.key === 'Escape') {
+          event.preventDefault()
+          view.dispatch(view.state.tr.setMeta(key, { query: null, items: [], dismissedFrom: menu.from }))
+          return true
+        }
+
+        return false
+      }
+    }
+  })
+}
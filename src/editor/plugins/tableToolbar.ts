@@ -0,0 +1,84 @@
+/**
+ * Table Toolbar Plugin
+ *
+ * Reports where the floating table toolbar should be shown while the cursor is
+ * inside a table, along with the table's size and the current cell, which
+ * the toolbar uses to enable its buttons.
+ */
+
+import { Plugin, PluginKey } from 'prosemirror-state'
+import { EditorView } from 'prosemirror-view'
+import { findTable, ColumnAlignment } from '../commands/table'
+
+export const tableToolbarPluginKey = new PluginKey('tableToolbar')
+
+export interface TableToolbarState {
+  active: boolean
+  position: { top: number; left: number } | null
+  rows: number
+  cols: number
+  row: number
+  col: number
+  alignment: ColumnAlignment
+}
+
+export const inactiveTableToolbar: TableToolbarState = {
+  active: false,
+  position: null,
+  rows: 0,
+  cols: 0,
+  row: 0,
+  col: 0,
+  alignment: null
+}
+
+function toolbarState(view: EditorView): TableToolbarState {
+  const context = findTable(view.state.selection.$from)
+  if (!context || !view.editable) return inactiveTableToolbar
+
+  const dom = view.nodeDOM(context.pos)
+  if (!(dom instanceof HTMLElement)) return inactiveTableToolbar
+
+  const rect = dom.getBoundingClientRect()
+  const { grid, row, col } = context
+  return {
+    active: true,
+    position: { top: rect.top, left: rect.left },
+    rows: grid.length,
+    cols: grid[0].length,
+    row,
+    col,
+    alignment: grid[0][col]?.attrs.alignment ?? null
+  }
+}
+
+export function createTableToolbarPlugin(
+  onStateChange: (state: TableToolbarState) => void
+) {
+  return new Plugin({
+    key: tableToolbarPluginKey,
+
+    view(editorView) {
+      let current = inactiveTableToolbar
+
+      const update = (view: EditorView) => {
+        const next = toolbarState(view)
+        if (JSON.stringify(next) === JSON.stringify(current)) return
+        current = next
+        onStateChange(next)
+      }
+
+      // The toolbar is positioned in viewport coordinates, so follow the editor when it scrolls
+      const onScroll = () => update(editorView)
+      window.addEventListener('scroll', onScroll, true)
+
+      return {
+        update,
+        destroy() {
+          window.removeEventListener('scroll', onScroll, true)
+          onStateChange(inactiveTableToolbar)
+        }
+      }
+    }
+  })
+}
@@ -0,0 +1,79 @@
+/**
+ * Wiki Links Plugin
+ *
+ * Shows an autocomplete menu of workspace notes after `[[` is typed, and of
+ * the headings of a note after `[[Note#`. Picking a suggestion replaces the
+ * typed text with a wiki_link node. Ctrl+Click (Cmd+Click on macOS) on a
+ * wiki link opens its target.
+ */
+
+import { EditorState, PluginKey } from 'prosemirror-state'
+import { EditorView } from 'prosemirror-view'
+import { schema } from '../schema'
+import { WikiLink, WikiLinkSuggestion } from '../../lib/wikiLinks'
+import { closedSuggestionMenu, createSuggestionMenuPlugin, SuggestionMenuState, SuggestionPluginState, TypedQuery } from './suggestionMenu'
+
+export const wikiLinksPluginKey = new PluginKey<SuggestionPluginState<WikiLinkSuggestion>>('wikiLinks')
+
+export type WikiLinkMenuState = SuggestionMenuState<WikiLinkSuggestion>
+
+interface WikiLinksOptions {
+  getSuggestions: (query: string) => WikiLinkSuggestion[]
+  onOpenLink: (link: WikiLink) => void
+}
+
+export const closedWikiLinkMenu: WikiLinkMenuState = closedSuggestionMenu
+
+/**
+ * Returns the text typed after an unclosed `[[` before the cursor, and where the `[[` starts.
+ */
+function typedLink(state: EditorState): TypedQuery | null {
+  const { selection } = state
+  const { $from } = selection
+  if (!selection.empty || $from.parent.type.spec.code || schema.marks.code.isInSet($from.marks())) return null
+
+  // Inline nodes count as one character, like their size in the document
+  const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc')
+  const match = /\[\[([^[\]|\n]*)$/.exec(textBefore)
+  if (!match) return null
+  return { from: $from.pos - match[0].length, query: match[1] }
+}
+
+/**
+ * Replaces the typed `[[` and query with a link to the suggestion.
+ */
+export function selectWikiLinkSuggestion(view: EditorView, suggestion: WikiLinkSuggestion) {
+  const menu = wikiLinksPluginKey.getState(view.state)
+  if (!menu || menu.query === null) return
+
+  const { $from } = view.state.selection
+  let to = $from.pos
+  // Take closing brackets typed ahead of the cursor along
+  if (view.state.doc.textBetween(to, Math.min(to + 2, $from.end())) === ']]') to += 2
+
+  const tr = view.state.tr.replaceWith(menu.from, to, schema.nodes.wiki_link.create(suggestion.link))
+  view.dispatch(tr.scrollIntoView())
+  view.focus()
+}
+
+export function createWikiLinksPlugin(
+  onStateChange: (state: WikiLinkMenuState) => void,
+  options: WikiLinksOptions
+) {
+  return createSuggestionMenuPlugin<WikiLinkSuggestion>({
+    key: wikiLinksPluginKey,
+    findQuery: typedLink,
+    getSuggestions: options.getSuggestions,
+    onSelect: selectWikiLinkSuggestion,
+    onStateChange,
+    props: {
+      handleClickOn(_view, _pos, node, _nodePos, event, direct) {
+        if (!direct || node.type !== schema.nodes.wiki_link || !(event.ctrlKey || event.metaKey)) return false
+        event.preventDefault()
+        const { target, heading, alias } = node.attrs
+        options.onOpenLink({ target, heading, alias })
+        return true
+      }
+    }
+  })
+}
@@ -40,6 +40,13 @@ describe('ProseMirror Schema', () => {
       expect(schema.nodes.list_item).toBeDefined()
     })
 
+    it('should have list_item checked attribute defaulting to null', () => {
+      const item = schema.nodes.list_item.create(null, schema.nodes.paragraph.create())
+      expect(item.attrs.checked).toBeNull()
+      const task = schema.nodes.list_item.create({ checked: true }, schema.nodes.paragraph.create())
+      expect(task.attrs.checked).toBe(true)
+    })
+
     it('should have image node with src, alt, and title attributes', () => {
       expect(schema.nodes.image).toBeDefined()
       const image = schema.nodes.image.create({
@@ -52,6 +59,43 @@ describe('ProseMirror Schema', () => {
       expect(image.attrs.title).toBe('Test Title')
     })
 
+    it('should have footnote nodes with label attribute', () => {
+      const reference = schema.nodes.footnote_reference.create({ label: 'note' })
+      expect(reference.attrs.label).toBe('note')
+      expect(reference.isInline).toBe(true)
+      const definition = schema.nodes.footnote_definition.create({ label: 'note' }, schema.nodes.paragraph.create())
+      expect(definition.attrs.label).toBe('note')
+    })
+
+    it('should have html_block node holding raw source as text', () => {
+      const block = schema.nodes.html_block.create(null, schema.text('<div>hi</div>'))
+      expect(block.type.spec.code).toBe(true)
+      expect(block.textContent).toBe('<div>hi</div>')
+    })
+
+    it('should have html_inline node with html attribute', () => {
+      const inline = schema.nodes.html_inline.create({ html: '<br>' })
+      expect(inline.isInline).toBe(true)
+      expect(inline.attrs.html).toBe('<br>')
+    })
+
+    it('should have math nodes with tex attribute', () => {
+      const inline = schema.nodes.math_inline.create({ tex: 'x^2' })
+      expect(inline.isInline).toBe(true)
+      expect(inline.isAtom).toBe(true)
+      const block = schema.nodes.math_block.create({ tex: '\\sum_i i' })
+      expect(block.isBlock).toBe(true)
+      expect(block.attrs.tex).toBe('\\sum_i i')
+    })
+
+    it('should only allow front_matter at the start of the document', () => {
+      const frontMatter = schema.nodes.front_matter.create({ yaml: 'title: Test' })
+      const paragraph = schema.nodes.paragraph.create()
+      expect(frontMatter.attrs.yaml).toBe('title: Test')
+      expect(schema.nodes.doc.validContent(schema.nodes.doc.create(null, [frontMatter, paragraph]).content)).toBe(true)
+      expect(() => schema.nodes.doc.createChecked(null, [paragraph, frontMatter])).toThrow()
+    })
+
     it('should have hard_break node', () => {
       expect(schema.nodes.hard_break).toBeDefined()
     })
@@ -1,8 +1,40 @@
 import { Schema, NodeSpec, MarkSpec } from 'prosemirror-model'
+import { wikiLinkText } from '../lib/wikiLinks'
+import { emojiByName } from '../lib/emoji'
 
 const nodes: Record<string, NodeSpec> = {
+  // Line ending style and final newline of the source file, restored on save
   doc: {
-    content: 'block+'
+    content: 'front_matter? block+',
+    attrs: {
+      lineEnding: { default: '\n' },
+      trailingNewline: { default: false }
+    }
+  },
+
+  // YAML front matter, only allowed at the very start of the document.
+  // The raw YAML is kept verbatim so untouched front matter is saved unchanged.
+  // blankLine records whether a blank line separated it from the content in the source.
+  front_matter: {
+    atom: true,
+    selectable: false,
+    draggable: false,
+    attrs: {
+      yaml: { default: '' },
+      closing: { default: '---' },
+      blankLine: { default: true }
+    },
+    parseDOM: [{
+      tag: 'pre.front-matter',
+      preserveWhitespace: 'full',
+      priority: 60,
+      getAttrs(node) {
+        return { yaml: (node as HTMLElement).textContent || '' }
+      }
+    }],
+    toDOM(node) {
+      return ['pre', { class: 'front-matter' }, node.attrs.yaml]
+    }
   },
 
   paragraph: {
@@ -14,8 +46,14 @@ const nodes: Record<string, NodeSpec> = {
     }
   },
 
+  // setext holds the underline (`===` / `---`) of setext headings, null for ATX headings
   heading: {
-    attrs: { level: { default: 1 } },
+    attrs: {
+      level: { default: 1 },
+      setext: { default: null },
+      // Closing hashes of an ATX heading with the spaces before them (` ##`)
+      closing: { default: null }
+    },
     content: 'inline*',
     group: 'block',
     defining: true,
@@ -42,13 +80,41 @@ const nodes: Record<string, NodeSpec> = {
     }
   },
 
+  // GitHub alert (`> [!NOTE]`). kind is lowercase, marker keeps the kind as
+  // written, loose is true when a blank line follows the marker line
+  callout: {
+    content: 'block+',
+    group: 'block',
+    defining: true,
+    attrs: {
+      kind: { default: 'note' },
+      marker: { default: null },
+      title: { default: null },
+      loose: { default: false }
+    },
+    parseDOM: [{
+      tag: 'div.callout',
+      getAttrs(node) {
+        const element = node as HTMLElement
+        return { kind: element.getAttribute('data-kind') || 'note', title: element.getAttribute('data-title') }
+      }
+    }],
+    toDOM(node) {
+      return ['div', { class: `callout callout-${node.attrs.kind}`, 'data-kind': node.attrs.kind, 'data-title': node.attrs.title }, 0]
+    }
+  },
+
   code_block: {
     content: 'text*',
     marks: '',
     group: 'block',
     code: true,
     defining: true,
-    attrs: { language: { default: '' } },
+    // fence is the opening fence (```` ``` ````, `~~~~`), or '' for indented code blocks
+    attrs: {
+      language: { default: '' },
+      fence: { default: '```' }
+    },
     parseDOM: [{
       tag: 'pre',
       preserveWhitespace: 'full',
@@ -61,12 +127,48 @@ const nodes: Record<string, NodeSpec> = {
       }
     }],
     toDOM(node) {
-      return ['pre', { class: node.attrs.language ? `language-${node.attrs.language}` : '' }, ['code', 0]]
+      return ['pre', { class: node.attrs.language ? `language-${node.attrs.language}` : '', spellcheck: 'false' }, ['code', 0]]
+    }
+  },
+
+  // Raw HTML block, stored verbatim as its text content.
+  // blankBefore and blankAfter record whether blank lines separated it from its neighbors in the source.
+  html_block: {
+    content: 'text*',
+    marks: '',
+    group: 'block',
+    code: true,
+    defining: true,
+    attrs: {
+      blankBefore: { default: true },
+      blankAfter: { default: true }
+    },
+    parseDOM: [{ tag: 'pre.html-block', preserveWhitespace: 'full', priority: 60 }],
+    toDOM() {
+      return ['pre', { class: 'html-block', spellcheck: 'false' }, ['code', 0]]
+    }
+  },
+
+  // Display math, stored as TeX source in the tex attribute
+  math_block: {
+    group: 'block',
+    atom: true,
+    attrs: { tex: { default: '' } },
+    parseDOM: [{
+      tag: 'div.math-block',
+      priority: 60,
+      getAttrs(node) {
+        return { tex: (node as HTMLElement).getAttribute('data-tex') ?? (node as HTMLElement).textContent ?? '' }
+      }
+    }],
+    toDOM(node) {
+      return ['div', { class: 'math-block', 'data-tex': node.attrs.tex }, node.attrs.tex]
     }
   },
 
   horizontal_rule: {
     group: 'block',
+    attrs: { markup: { default: '---' } },
     parseDOM: [{ tag: 'hr' }],
     toDOM() {
       return ['hr']
@@ -76,6 +178,12 @@ const nodes: Record<string, NodeSpec> = {
   bullet_list: {
     content: 'list_item+',
     group: 'block',
+    attrs: {
+      bullet: { default: '-' },
+      tight: { default: false },
+      // Spaces between the marker and the content of the items
+      padding: { default: 1 }
+    },
     parseDOM: [{ tag: 'ul' }],
     toDOM() {
       return ['ul', 0]
@@ -85,7 +193,14 @@ const nodes: Record<string, NodeSpec> = {
   ordered_list: {
     content: 'list_item+',
     group: 'block',
-    attrs: { order: { default: 1 } },
+    // incrementing is false for lists that repeat one number (`1.` `1.` `1.`)
+    attrs: {
+      order: { default: 1 },
+      delimiter: { default: '.' },
+      incrementing: { default: true },
+      tight: { default: false },
+      padding: { default: 1 }
+    },
     parseDOM: [{
       tag: 'ol',
       getAttrs(node) {
@@ -98,19 +213,37 @@ const nodes: Record<string, NodeSpec> = {
     }
   },
 
+  // checked is null for regular list items and a boolean for GFM task list items
   list_item: {
     content: 'paragraph block*',
-    parseDOM: [{ tag: 'li' }],
-    toDOM() {
-      return ['li', 0]
+    attrs: { checked: { default: null } },
+    parseDOM: [{
+      tag: 'li',
+      getAttrs(node) {
+        const element = node as HTMLElement
+        const checked = element.getAttribute('data-checked')
+        return { checked: checked === null ? null : checked === 'true' }
+      }
+    }],
+    toDOM(node) {
+      if (node.attrs.checked === null) {
+        return ['li', 0]
+      }
+      return ['li', { class: 'task-list-item', 'data-checked': String(node.attrs.checked) }, 0]
     },
     defining: true
   },
 
   // Table nodes for markdown table support
+  // source and cells hold the original markdown of a parsed table and the
+  // markdown of its cells, so an unedited table can be saved with its own padding
   table: {
     content: 'table_head? table_body',
     group: 'block',
+    attrs: {
+      source: { default: null },
+      cells: { default: null }
+    },
     parseDOM: [{ tag: 'table' }],
     toDOM() {
       return ['table', 0]
@@ -181,12 +314,50 @@ const nodes: Record<string, NodeSpec> = {
     }
   },
 
+  // Footnote definitions are kept at the end of the document, see footnotes.ts
+  footnote_definition: {
+    content: 'block+',
+    group: 'block',
+    defining: true,
+    attrs: { label: {} },
+    parseDOM: [{
+      tag: 'div.footnote-definition',
+      getAttrs(node) {
+        return { label: (node as HTMLElement).getAttribute('data-label') }
+      }
+    }],
+    toDOM(node) {
+      return ['div', { class: 'footnote-definition', 'data-label': node.attrs.label }, 0]
+    }
+  },
+
+  footnote_reference: {
+    inline: true,
+    group: 'inline',
+    atom: true,
+    attrs: { label: {} },
+    parseDOM: [{
+      tag: 'sup.footnote-ref',
+      priority: 60,
+      getAttrs(node) {
+        return { label: (node as HTMLElement).getAttribute('data-label') }
+      }
+    }],
+    toDOM(node) {
+      return ['sup', { class: 'footnote-ref', 'data-label': node.attrs.label }]
+    }
+  },
+
   image: {
     inline: true,
     attrs: {
       src: {},
       alt: { default: null },
-      title: { default: null }
+      title: { default: null },
+      // Width in pixels when resized, written as an HTML <img> tag
+      width: { default: null },
+      // Caption of an image on its own line, written as an HTML <figure>
+      caption: { default: null }
     },
     group: 'inline',
     draggable: true,
@@ -194,16 +365,105 @@ const nodes: Record<string, NodeSpec> = {
       tag: 'img[src]',
       getAttrs(node) {
         const element = node as HTMLElement
+        const width = Number(element.getAttribute('width'))
         return {
           src: element.getAttribute('src'),
           alt: element.getAttribute('alt'),
-          title: element.getAttribute('title')
+          title: element.getAttribute('title'),
+          width: width > 0 ? Math.round(width) : null,
+          caption: element.getAttribute('data-caption')
+        }
+      }
+    }],
+    toDOM(node) {
+      const { src, alt, title, width, caption } = node.attrs
+      return ['img', { src, alt, title, width, 'data-caption': caption }]
+    }
+  },
+
+  // Inline math, stored as TeX source in the tex attribute
+  math_inline: {
+    inline: true,
+    group: 'inline',
+    atom: true,
+    attrs: { tex: { default: '' } },
+    parseDOM: [{
+      tag: 'span.math-inline',
+      priority: 60,
+      getAttrs(node) {
+        return { tex: (node as HTMLElement).getAttribute('data-tex') ?? (node as HTMLElement).textContent ?? '' }
+      }
+    }],
+    toDOM(node) {
+      return ['span', { class: 'math-inline', 'data-tex': node.attrs.tex }, node.attrs.tex]
+    }
+  },
+
+  // Emoji written as a shortcode (`:tada:`), shown as the emoji itself
+  emoji: {
+    inline: true,
+    group: 'inline',
+    atom: true,
+    attrs: { name: { default: '' } },
+    leafText: (node) => emojiByName(node.attrs.name)?.emoji ?? `:${node.attrs.name}:`,
+    parseDOM: [{
+      tag: 'span.emoji[data-name]',
+      priority: 60,
+      getAttrs(node) {
+        return { name: (node as HTMLElement).getAttribute('data-name') }
+      }
+    }],
+    toDOM(node) {
+      const { name } = node.attrs
+      return ['span', { class: 'emoji', 'data-name': name, title: `:${name}:` }, emojiByName(name)?.emoji ?? `:${name}:`]
+    }
+  },
+
+  // Link to another markdown file of the workspace: [[target#heading|alias]]
+  wiki_link: {
+    inline: true,
+    group: 'inline',
+    atom: true,
+    attrs: { target: { default: '' }, heading: { default: null }, alias: { default: null } },
+    parseDOM: [{
+      tag: 'a.wiki-link',
+      priority: 60,
+      getAttrs(node) {
+        const element = node as HTMLElement
+        return {
+          target: element.getAttribute('data-target') ?? '',
+          heading: element.getAttribute('data-heading'),
+          alias: element.getAttribute('data-alias')
         }
       }
     }],
     toDOM(node) {
-      const { src, alt, title } = node.attrs
-      return ['img', { src, alt, title }]
+      const { target, heading, alias } = node.attrs
+      return ['a', {
+        class: 'wiki-link',
+        'data-target': target,
+        'data-heading': heading,
+        'data-alias': alias,
+        title: 'Ctrl+Click to open'
+      }, wikiLinkText({ target, heading, alias })]
+    }
+  },
+
+  // Raw inline HTML (tags, comments), stored verbatim in the html attribute
+  html_inline: {
+    inline: true,
+    group: 'inline',
+    atom: true,
+    attrs: { html: { default: '' } },
+    parseDOM: [{
+      tag: 'code.html-inline',
+      priority: 60,
+      getAttrs(node) {
+        return { html: (node as HTMLElement).textContent || '' }
+      }
+    }],
+    toDOM(node) {
+      return ['code', { class: 'html-inline' }, node.attrs.html]
     }
   },
 
@@ -217,13 +477,28 @@ const nodes: Record<string, NodeSpec> = {
     }
   },
 
+  // A line break inside a paragraph in the source. It reads as a space,
+  // and is written back as a newline so wrapped lines keep their wrapping.
+  soft_break: {
+    inline: true,
+    group: 'inline',
+    selectable: false,
+    leafText: () => ' ',
+    parseDOM: [{ tag: 'span.soft-break', priority: 60 }],
+    toDOM() {
+      return ['span', { class: 'soft-break' }, ' ']
+    }
+  },
+
   text: {
     group: 'inline'
   }
 }
 
+// markup on strong and em is the delimiter used in the source (`**` / `__`, `*` / `_`)
 const marks: Record<string, MarkSpec> = {
   strong: {
+    attrs: { markup: { default: '**' } },
     parseDOM: [
       { tag: 'strong' },
       { tag: 'b', getAttrs: (node) => (node as HTMLElement).style.fontWeight !== 'normal' && null },
@@ -235,6 +510,7 @@ const marks: Record<string, MarkSpec> = {
   },
 
   em: {
+    attrs: { markup: { default: '*' } },
     parseDOM: [
       { tag: 'i' },
       { tag: 'em' },
@@ -248,7 +524,7 @@ const marks: Record<string, MarkSpec> = {
   code: {
     parseDOM: [{ tag: 'code' }],
     toDOM() {
-      return ['code', 0]
+      return ['code', { spellcheck: 'false' }, 0]
     }
   },
 
@@ -284,6 +560,48 @@ const marks: Record<string, MarkSpec> = {
     toDOM() {
       return ['s', 0]
     }
+  },
+
+  highlight: {
+    parseDOM: [{ tag: 'mark' }],
+    toDOM() {
+      return ['mark', 0]
+    }
+  },
+
+  underline: {
+    parseDOM: [
+      { tag: 'u' },
+      { tag: 'ins' },
+      { style: 'text-decoration', getAttrs: (value) => (value as string).includes('underline') && null }
+    ],
+    toDOM() {
+      return ['u', 0]
+    }
+  },
+
+  subscript: {
+    excludes: 'superscript',
+    parseDOM: [{ tag: 'sub' }],
+    toDOM() {
+      return ['sub', 0]
+    }
+  },
+
+  // Footnote references are rendered as sup too, and take precedence
+  superscript: {
+    excludes: 'subscript',
+    parseDOM: [{ tag: 'sup' }],
+    toDOM() {
+      return ['sup', 0]
+    }
+  },
+
+  kbd: {
+    parseDOM: [{ tag: 'kbd' }],
+    toDOM() {
+      return ['kbd', { spellcheck: 'false' }, 0]
+    }
   }
 }
 
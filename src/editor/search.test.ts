@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import { EditorState } from 'prosemirror-state'
+import { undo, history } from 'prosemirror-history'
+import { markdownParser, markdownSerializer } from './markdown'
+import { compileQuery, findMatches, replacementFor, SearchQuery } from './search'
+import {
+  createSearchPlugin,
+  getSearchState,
+  openSearch,
+  replaceAll,
+  replaceNext,
+  findNext,
+  revealMatch,
+  searchPluginKey
+} from './plugins/search'
+
+const query = (search: string, options: Partial<SearchQuery> = {}): SearchQuery => ({
+  search,
+  replace: '',
+  caseSensitive: false,
+  wholeWord: false,
+  regexp: false,
+  ...options
+})
+
+function matchTexts(markdown: string, q: SearchQuery) {
+  const doc = markdownParser.parse(markdown)
+  const regexp = compileQuery(q) as RegExp
+  return findMatches(doc, regexp).map(m => doc.textBetween(m.from, m.to))
+}
+
+describe('Document Search', () => {
+  it('should find text across marks but not across blocks', () => {
+    expect(matchTexts('a **bo**ld bold\n\nbo\nld', query('bold'))).toEqual(['bold', 'bold'])
+  })
+
+  it('should respect case, whole word and regular expression options', () => {
+    const text = 'Cat cat concatenate a.t'
+    expect(matchTexts(text, query('cat'))).toHaveLength(3)
+    expect(matchTexts(text, query('cat', { caseSensitive: true }))).toHaveLength(2)
+    expect(matchTexts(text, query('cat', { wholeWord: true }))).toEqual(['Cat', 'cat'])
+    expect(matchTexts(text, query('a.t'))).toEqual(['a.t'])
+    expect(matchTexts(text, query('c.t', { regexp: true }))).toEqual(['Cat', 'cat', 'cat'])
+  })
+
+  it('should keep positions in step around inline nodes', () => {
+    const doc = markdownParser.parse('$x$ value[^1] value\n\n[^1]: note')
+    const matches = findMatches(doc, compileQuery(query('value')) as RegExp)
+    expect(matches.map(m => doc.textBetween(m.from, m.to))).toEqual(['value', 'value'])
+  })
+
+  it('should report invalid regular expressions', () => {
+    expect(typeof compileQuery(query('(', { regexp: true }))).toBe('string')
+    expect(compileQuery(query(''))).toBeNull()
+  })
+
+  it('should expand capture groups in regular expression replacements', () => {
+    const q = query('(\\w+)@(?<host>\\w+)', { regexp: true, replace: '$2 $<host> $1 $$ $&' })
+    const doc = markdownParser.parse('me@home')
+    const [match] = findMatches(doc, compileQuery(q) as RegExp)
+    expect(replacementFor(q, match)).toBe('home home me $ me@home')
+    expect(replacementFor({ ...q, regexp: false }, match)).toBe(q.replace)
+  })
+})
+
+describe('Search Plugin', () => {
+  function createState(markdown: string, q: Partial<SearchQuery>) {
+    let state = EditorState.create({
+      doc: markdownParser.parse(markdown),
+      plugins: [history(), createSearchPlugin(() => {})]
+    })
+    openSearch(false)(state, tr => { state = state.apply(tr) })
+    state = state.apply(state.tr.setMeta(searchPluginKey, { query: q }))
+    return state
+  }
+
+  it('should replace all matches in one undoable step', () => {
+    let state = createState('one two one\n\none', { search: 'one', replace: '1' })
+    expect(getSearchState(state)?.matches).toHaveLength(3)
+
+    replaceAll(state, tr => { state = state.apply(tr) })
+    expect(markdownSerializer.serialize(state.doc)).toBe('1 two 1\n\n1')
+
+    undo(state, tr => { state = state.apply(tr) })
+    expect(markdownSerializer.serialize(state.doc)).toBe('one two one\n\none')
+  })
+
+  it('should select a match before replacing it', () => {
+    let state = createState('one two one', { search: 'one', replace: '1' })
+    replaceNext(state, tr => { state = state.apply(tr) })
+    expect(markdownSerializer.serialize(state.doc)).toBe('one two one')
+    expect(getSearchState(state)?.current).toBe(0)
+
+    replaceNext(state, tr => { state = state.apply(tr) })
+    expect(markdownSerializer.serialize(state.doc)).toBe('1 two one')
+    expect(getSearchState(state)?.current).toBe(0)
+    findNext()(state, tr => { state = state.apply(tr) })
+    expect(getSearchState(state)?.current).toBe(0)
+  })
+
+  it('should search only within the given range', () => {
+    const state = createState('one one one', { search: 'one' })
+    const limited = state.apply(state.tr.setMeta(searchPluginKey, { range: { from: 4, to: 12 } }))
+    expect(getSearchState(limited)?.matches.map(m => m.from)).toEqual([5, 9])
+  })
+  it('should reveal a match found in the markdown source', () => {
+    let state = EditorState.create({
+      doc: markdownParser.parse('# One\n\none **two**\n\nthree one'),
+      plugins: [createSearchPlugin(() => {})]
+    })
+    const select = (location: { line: number, occurrence: number, total: number }, blockPos: number) => {
+      revealMatch(query('one'), location, blockPos)(state, tr => { state = state.apply(tr) })
+      return { from: state.selection.from, open: getSearchState(state)?.open }
+    }
+
+    // Same number of matches as in the source: pick by index
+    expect(select({ line: 4, occurrence: 2, total: 3 }, 0)).toEqual({ from: 21, open: true })
+    // Different number of matches: pick the first match of the block
+    expect(select({ line: 4, occurrence: 3, total: 4 }, 14)).toEqual({ from: 21, open: true })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Document Search
+ *
+ * Finds text matches in a ProseMirror document. Each textblock is searched as
+ * one string, so matches can span marks but not block boundaries. Inline leaf
+ * nodes (math, footnote references, hard line breaks) stand in as a single object
+ * replacement character, which keeps string offsets and document positions in step.
+ * Soft line breaks read as a space, so matches can span the lines of a wrapped paragraph.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model'
+import { compileSearch, expandReplacement, SearchPattern } from '../lib/searchQuery'
+
+export interface SearchQuery extends SearchPattern {
+  replace: string
+}
+
+export interface SearchMatch {
+  from: number
+  to: number
+  // Capture groups of a regular expression match, for $1-style replacements
+  groups: string[]
+  named?: Record<string, string>
+}
+
+export interface SearchRange {
+  from: number
+  to: number
+}
+
+/**
+ * A match found in the markdown source of a document, for example by the
+ * workspace search, to be located in the editor.
+ */
+export interface SourceMatch {
+  line: number        // 0-based source line
+  occurrence: number  // index among all matches of the query in the source
+  total: number       // number of matches in the source
+}
+
+const LEAF_CHAR = '\uFFFC'
+
+/**
+ * Compiles a query into a global regular expression, or returns an error message
+ * if the query is an invalid regular expression. Returns null for an empty query.
+ */
+export function compileQuery(query: SearchQuery): RegExp | string | null {
+  if (!query.search) return null
+
+  try {
+    return compileSearch(query)
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Returns all matches of a query in the document, optionally limited to a range.
+ * Empty matches are skipped.
+ */
+export function findMatches(doc: ProseMirrorNode, regexp: RegExp, range?: SearchRange): SearchMatch[] {
+  const matches: SearchMatch[] = []
+  const from = range?.from ?? 0
+  const to = range?.to ?? doc.content.size
+
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isTextblock) return true
+
+    let text = ''
+    node.forEach(child => {
+      text += child.isText ? child.text : child.type.name === 'soft_break' ? ' ' : LEAF_CHAR.repeat(child.nodeSize)
+    })
+
+    const start = pos + 1
+    regexp.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = regexp.exec(text))) {
+      if (match[0].length === 0) {
+        regexp.lastIndex++
+        continue
+      }
+      const matchFrom = start + match.index
+      const matchTo = matchFrom + match[0].length
+      if (matchFrom >= from && matchTo <= to) {
+        matches.push({ from: matchFrom, to: matchTo, groups: [...match], named: match.groups })
+      }
+    }
+    return false
+  })
+
+  return matches
+}
+
+/**
+ * Returns the replacement text for a match. Regular expression queries support
+ * `$&`, `$1`…`$99`, `$<name>` and `$$` in the replacement, like String.replace.
+ */
+export function replacementFor(query: SearchQuery, match: SearchMatch): string {
+  return query.regexp ? expandReplacement(query.replace, match.groups, match.named) : query.replace
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { calloutIcon, calloutLabel, isStandardCalloutKind } from './callouts'
+
+describe('callouts', () => {
+  it('should label callout kinds', () => {
+    expect(calloutLabel('warning')).toBe('Warning')
+    expect(calloutLabel('to-do')).toBe('To do')
+    expect(isStandardCalloutKind('caution')).toBe(true)
+    expect(isStandardCalloutKind('faq')).toBe(false)
+  })
+
+  it('should give custom kinds an icon', () => {
+    expect(calloutIcon('faq')).toContain('<path d="m19 21-7-4-7 4V5')
+  })
+})
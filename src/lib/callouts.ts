@@ -0,0 +1,42 @@
+/**
+ * Callouts
+ *
+ * The kinds of GitHub alerts (`> [!NOTE]`) with their labels and icons, shared
+ * by the editor and the preview. Other kinds, as used by Obsidian and other
+ * tools, are kept as written and shown like a note.
+ */
+
+export const CALLOUT_KINDS = ['note', 'tip', 'important', 'warning', 'caution'] as const
+
+// Icon shapes from Lucide (https://lucide.dev), ISC license
+const ICONS: Record<string, string> = {
+  note: '<circle cx="12" cy="12" r="10"/><path d="M12 16v-4"/><path d="M12 8h.01"/>',
+  tip: '<path d="M15 14c.2-1 .7-1.7 1.5-2.5 1-.9 1.5-2.2 1.5-3.5A6 6 0 0 0 6 8c0 1 .2 2.2 1.5 3.5.7.7 1.3 1.5 1.5 2.5"/>' +
+    '<path d="M9 18h6"/><path d="M10 22h4"/>',
+  important: '<path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/><path d="M12 7v2"/><path d="M12 13h.01"/>',
+  warning: '<path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3Z"/><path d="M12 9v4"/><path d="M12 17h.01"/>',
+  caution: '<polygon points="7.86 2 16.14 2 22 7.86 22 16.14 16.14 22 7.86 22 2 16.14 2 7.86 7.86 2"/>' +
+    '<line x1="12" x2="12" y1="8" y2="12"/><line x1="12" x2="12.01" y1="16" y2="16"/>',
+  custom: '<path d="m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z"/>'
+}
+
+export function isStandardCalloutKind(kind: string): boolean {
+  return (CALLOUT_KINDS as readonly string[]).includes(kind)
+}
+
+/**
+ * The label shown for a kind, `warning` as "Warning" and `to-do` as "To do".
+ */
+export function calloutLabel(kind: string): string {
+  const words = kind.replace(/[-_]+/g, ' ').trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * The icon of a kind as SVG markup, colored with the current text color.
+ */
+export function calloutIcon(kind: string): string {
+  return '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" ' +
+    'stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">' +
+    (ICONS[kind] ?? ICONS.custom) + '</svg>'
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { addRecentEmoji, defaultEmojiSettings, emojiByName, emojiStyleFor, searchEmoji } from './emoji'
+
+describe('emoji', () => {
+  it('should look up emoji by any of their names', () => {
+    expect(emojiByName('tada')?.emoji).toBe('🎉')
+    expect(emojiByName('+1')?.emoji).toBe('👍')
+    expect(emojiByName('thumbsup')?.emoji).toBe('👍')
+    expect(emojiByName('not_an_emoji')).toBeUndefined()
+  })
+
+  it('should list exact and prefix matches before fuzzy ones', () => {
+    const names = searchEmoji('smile', []).map(suggestion => suggestion.name)
+    expect(names[0]).toBe('smile')
+    expect(names.indexOf('smile_cat')).toBeLessThan(names.indexOf('sweat_smile'))
+    expect(searchEmoji('thup', [])[0]).toEqual({ emoji: '👍', name: 'thumbsup' })
+    expect(searchEmoji('happy', []).map(suggestion => suggestion.name)).toContain('grinning')
+  })
+
+  it('should list recently used emoji first among equal matches', () => {
+    expect(searchEmoji('smi', [])[0].name).toBe('smile')
+    expect(searchEmoji('smi', ['smirk'])[0].name).toBe('smirk')
+  })
+
+  it('should keep a short list of recent emoji', () => {
+    expect(addRecentEmoji(['a', 'b', 'c'], 'b')).toEqual(['b', 'a', 'c'])
+    expect(addRecentEmoji(Array.from({ length: 24 }, (_, i) => `e${i}`), 'new')).toHaveLength(24)
+  })
+
+  it('should write emoji the way the folder is set to', () => {
+    const settings = { ...defaultEmojiSettings, folderStyles: { '/notes': 'shortcode' as const } }
+    expect(emojiStyleFor(settings, '/notes')).toBe('shortcode')
+    expect(emojiStyleFor(settings, '/other')).toBe('unicode')
+    expect(emojiStyleFor(settings, null)).toBe('unicode')
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * Emoji
+ *
+ * Looks up emoji by their `:shortcode:` names and searches them for the
+ * autocomplete, listing recently used ones first. Emoji picked in the editor
+ * are written as Unicode characters or as shortcodes, chosen per workspace
+ * folder.
+ */
+
+import { EMOJI_DATA } from './emojiData'
+
+export interface Emoji {
+  emoji: string
+  // Shortcode names, the main one first
+  names: string[]
+  // Other words that find the emoji
+  tags: string[]
+}
+
+export interface EmojiSuggestion {
+  emoji: string
+  // The name that matched the query
+  name: string
+}
+
+export type EmojiStyle = 'unicode' | 'shortcode'
+
+export interface EmojiSettings {
+  // Names of recently picked emoji, most recent first
+  recent: string[]
+  // How picked emoji are written in the documents of each workspace folder
+  folderStyles: Record<string, EmojiStyle>
+}
+
+export const defaultEmojiSettings: EmojiSettings = {
+  recent: [],
+  folderStyles: {}
+}
+
+export const DEFAULT_EMOJI_STYLE: EmojiStyle = 'unicode'
+
+const MAX_RECENT = 24
+
+export const EMOJIS: Emoji[] = EMOJI_DATA.trim().split('\n').map(line => {
+  const [names, tags = ''] = line.split('|')
+  const [emoji, ...shortcodes] = names.trim().split(/\s+/)
+  return { emoji, names: shortcodes, tags: tags.trim().split(/\s+/).filter(Boolean) }
+})
+
+const byName = new Map(EMOJIS.flatMap(emoji => emoji.names.map(name => [name, emoji] as const)))
+
+export function emojiByName(name: string): Emoji | undefined {
+  return byName.get(name)
+}
+
+/**
+ * How well a name matches the query, lower is better, or -1 if it does not:
+ * exactly, at its start, at the start of one of its words, anywhere, or with
+ * other letters in between (`thup` for `thumbsup`).
+ */
+function nameScore(query: string, name: string): number {
+  if (name === query) return 0
+  if (name.startsWith(query)) return 1
+  if (name.includes('_' + query)) return 2
+  if (name.includes(query)) return 3
+
+  let index = 0
+  for (const char of name) {
+    if (char === query[index]) index++
+    if (index === query.length) return 5
+  }
+  return -1
+}
+
+/**
+ * Finds the emoji matching a query, best matches first. Among equally good
+ * matches, recently used emoji come first, in the order of `recent`.
+ */
+export function searchEmoji(query: string, recent: string[], limit = 30): EmojiSuggestion[] {
+  const search = query.toLowerCase()
+  const matches: { suggestion: EmojiSuggestion; score: number; recency: number }[] = []
+
+  for (const emoji of EMOJIS) {
+    let best: { name: string; score: number } | null = null
+    for (const name of emoji.names) {
+      const score = nameScore(search, name)
+      if (score >= 0 && (!best || score < best.score)) best = { name, score }
+    }
+    // Tags only find emoji by their start
+    if (!best && emoji.tags.some(tag => tag.startsWith(search))) best = { name: emoji.names[0], score: 4 }
+    if (!best) continue
+
+    const recency = emoji.names.map(name => recent.indexOf(name)).find(index => index >= 0)
+    matches.push({
+      suggestion: { emoji: emoji.emoji, name: best.name },
+      score: best.score,
+      recency: recency ?? recent.length
+    })
+  }
+
+  return matches
+    .sort((a, b) => a.score - b.score || a.recency - b.recency || a.suggestion.name.length - b.suggestion.name.length)
+    .slice(0, limit)
+    .map(match => match.suggestion)
+}
+
+/**
+ * Moves a picked emoji to the front of the recently used ones.
+ */
+export function addRecentEmoji(recent: string[], name: string): string[] {
+  return [name, ...recent.filter(other => other !== name)].slice(0, MAX_RECENT)
+}
+
+/**
+ * How emoji are written in documents of a workspace folder, or outside of
+ * any folder when `folder` is null.
+ */
+export function emojiStyleFor(settings: EmojiSettings, folder: string | null): EmojiStyle {
+  return (folder && settings.folderStyles[folder]) || DEFAULT_EMOJI_STYLE
+}
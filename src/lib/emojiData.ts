@@ -0,0 +1,913 @@
+/**
+ * Emoji Data
+ *
+ * The emoji offered by the autocomplete and recognized in `:shortcode:`s, with
+ * the names GitHub uses (from gemoji). Each line has the emoji, its names with
+ * the main one first, and after a `|` words that also find it.
+ */
+
+export const EMOJI_DATA = `
+😀 grinning | smile happy
+😃 smiley | happy joy haha
+😄 smile | happy joy laugh pleased
+😁 grin
+😆 laughing satisfied | happy haha
+😅 sweat_smile | hot
+🤣 rofl | lol laughing
+😂 joy | tears laugh
+🙂 slightly_smiling_face
+🙃 upside_down_face
+😉 wink | flirt
+😊 blush | proud
+😇 innocent | angel
+🥰 smiling_face_with_three_hearts | love
+😍 heart_eyes | love crush
+🤩 star_struck | eyes
+😘 kissing_heart | flirt
+😗 kissing
+😚 kissing_closed_eyes
+😙 kissing_smiling_eyes
+😋 yum | tongue lick
+😛 stuck_out_tongue
+😜 stuck_out_tongue_winking_eye | prank silly
+🤪 zany_face | goofy wacky
+😝 stuck_out_tongue_closed_eyes | prank
+🤑 money_mouth_face | rich
+🤗 hugs
+🤭 hand_over_mouth | quiet whoops
+🤫 shushing_face | silence quiet
+🤔 thinking
+🤐 zipper_mouth_face | silence hush
+🤨 raised_eyebrow | suspicious
+😐 neutral_face | meh
+😑 expressionless
+😶 no_mouth | mute silence
+😏 smirk | smug
+😒 unamused | meh
+🙄 roll_eyes
+😬 grimacing
+🤥 lying_face | liar
+😌 relieved | whew
+😔 pensive
+😪 sleepy | tired
+🤤 drooling_face
+😴 sleeping | zzz
+😷 mask | sick ill
+🤒 face_with_thermometer | sick
+🤕 face_with_head_bandage | hurt
+🤢 nauseated_face | sick
+🤮 vomiting_face | sick
+🤧 sneezing_face | achoo sick
+🥵 hot_face | heat sweating
+🥶 cold_face | freezing ice
+🥴 woozy_face | groggy
+😵 dizzy_face
+🤯 exploding_head | mind blown
+🤠 cowboy_hat_face
+🥳 partying_face | celebration birthday
+😎 sunglasses | cool
+🤓 nerd_face | geek glasses
+🧐 monocle_face
+😕 confused
+😟 worried | nervous
+🙁 slightly_frowning_face
+😮 open_mouth | surprise wow
+😯 hushed | silence speechless
+😲 astonished | amazed gasp
+😳 flushed
+🥺 pleading_face | puppy eyes
+😦 frowning
+😧 anguished | stunned
+😨 fearful | scared shocked
+😰 cold_sweat | nervous
+😥 disappointed_relieved | phew
+😢 cry | sad tear
+😭 sob | sad cry bawling
+😱 scream | horror shocked
+😖 confounded
+😣 persevere | struggling
+😞 disappointed | sad
+😓 sweat
+😩 weary | tired
+😫 tired_face | upset whine
+🥱 yawning_face | bored tired
+😤 triumph | smug
+😡 rage pout | angry
+😠 angry | mad annoyed
+🤬 cursing_face | foul
+😈 smiling_imp | devil evil
+👿 imp | angry devil
+💀 skull | dead danger
+☠️ skull_and_crossbones | danger pirate
+💩 hankey poop shit | crap
+🤡 clown_face
+👹 japanese_ogre | monster
+👺 japanese_goblin
+👻 ghost | halloween
+👽 alien | ufo
+👾 space_invader | game retro
+🤖 robot
+😺 smiley_cat
+😸 smile_cat
+😹 joy_cat
+😻 heart_eyes_cat
+😼 smirk_cat
+😽 kissing_cat
+🙀 scream_cat | horror
+😿 crying_cat_face | sad tear
+😾 pouting_cat
+🙈 see_no_evil | monkey blind ignore
+🙉 hear_no_evil | monkey deaf
+🙊 speak_no_evil | monkey mute hush
+💋 kiss | lipstick
+💌 love_letter | email envelope
+💘 cupid | love heart
+💝 gift_heart | chocolates
+💖 sparkling_heart
+💗 heartpulse
+💓 heartbeat
+💞 revolving_hearts
+💕 two_hearts
+💟 heart_decoration
+❣️ heavy_heart_exclamation
+💔 broken_heart
+❤️ heart | love
+🧡 orange_heart
+💛 yellow_heart
+💚 green_heart
+💙 blue_heart
+💜 purple_heart
+🤎 brown_heart
+🖤 black_heart
+🤍 white_heart
+💯 100 | score perfect
+💢 anger | angry
+💥 boom collision | explode
+💫 dizzy | star
+💦 sweat_drops | water workout
+💨 dash | wind blow fast
+💬 speech_balloon | comment
+💭 thought_balloon | thinking
+💤 zzz | sleeping
+👋 wave | goodbye hello
+🤚 raised_back_of_hand
+✋ hand raised_hand | highfive stop
+🖖 vulcan_salute | prosper spock
+👌 ok_hand
+🤏 pinching_hand | small
+✌️ v | victory peace
+🤞 crossed_fingers | luck hopeful
+🤟 love_you_gesture
+🤘 metal | rock
+🤙 call_me_hand
+👈 point_left
+👉 point_right
+👆 point_up_2
+👇 point_down
+☝️ point_up
+👍 +1 thumbsup | approve ok yes
+👎 -1 thumbsdown | disapprove bury no
+✊ fist_raised fist | power
+👊 fist_oncoming facepunch punch | attack
+👏 clap | praise applause
+🙌 raised_hands | hooray
+👐 open_hands
+🤲 palms_up_together
+🤝 handshake | deal
+🙏 pray | please hope wish thanks
+✍️ writing_hand
+💅 nail_care | beauty manicure
+💪 muscle | flex bicep strong workout
+🧠 brain
+👀 eyes | look see watch
+👁️ eye
+👅 tongue | taste
+👄 lips | kiss
+👶 baby | child newborn
+🧒 child
+👦 boy | child
+👧 girl | child
+🧑 adult
+👨 man | mustache father dad
+👩 woman | girls
+🧓 older_adult
+🙋 raising_hand | hand
+🤷 shrug
+🤦 facepalm
+🙇 bow | respect thanks
+💁 tipping_hand_person information_desk_person
+🙅 no_good | stop halt denied
+🙆 ok_person
+🧑‍💻 technologist | coder developer
+👨‍💻 man_technologist | coder developer
+👩‍💻 woman_technologist | coder developer
+🧑‍🔬 scientist | research
+🧑‍🎨 artist | painting
+🧑‍🏫 teacher | professor
+🧑‍🚀 astronaut | space
+🥷 ninja | stealth
+🦸 superhero
+🧙 mage | wizard magic
+🧚 fairy
+🧛 vampire
+🧟 zombie
+🏃 runner running | exercise marathon
+💃 dancer | dress
+🕺 man_dancing | dancer
+👯 dancers | bunny
+🧘 lotus_position | meditation yoga
+👪 family | home parents
+👣 footprints | feet tracks
+🐶 dog | pet
+🐱 cat | pet
+🐭 mouse
+🐹 hamster | pet
+🐰 rabbit | bunny
+🦊 fox_face
+🐻 bear
+🐼 panda_face
+🐨 koala
+🐯 tiger
+🦁 lion
+🐮 cow
+🐷 pig
+🐸 frog
+🐵 monkey_face
+🐒 monkey
+🐔 chicken
+🐧 penguin
+🐦 bird
+🐤 baby_chick
+🦆 duck
+🦅 eagle
+🦉 owl
+🦇 bat
+🐺 wolf
+🐗 boar
+🐴 horse
+🦄 unicorn
+🐝 bee honeybee
+🐛 bug
+🦋 butterfly
+🐌 snail | slow
+🐞 lady_beetle ladybug | bug
+🐜 ant
+🕷️ spider
+🦂 scorpion
+🐢 turtle | slow
+🐍 snake
+🦎 lizard
+🦖 t-rex | dinosaur
+🦕 sauropod | dinosaur
+🐙 octopus
+🦑 squid
+🦀 crab
+🐡 blowfish
+🐠 tropical_fish
+🐟 fish
+🐬 dolphin flipper
+🐳 whale | sea
+🦈 shark
+🐊 crocodile
+🐘 elephant
+🦒 giraffe
+🐪 dromedary_camel | desert
+🐑 sheep | lamb
+🐐 goat
+🦌 deer
+🐕 dog2
+🐈 cat2
+🐓 rooster
+🦜 parrot
+🕊️ dove | peace
+🐇 rabbit2
+🐿️ chipmunk | squirrel
+🦔 hedgehog
+🐉 dragon
+🐲 dragon_face
+💐 bouquet | flowers
+🌸 cherry_blossom | flower spring
+🌹 rose | flower
+🌺 hibiscus
+🌻 sunflower
+🌼 blossom
+🌷 tulip | flower
+🌱 seedling | plant
+🌲 evergreen_tree | wood
+🌳 deciduous_tree | wood
+🌴 palm_tree
+🌵 cactus
+🌿 herb
+☘️ shamrock
+🍀 four_leaf_clover | luck
+🍁 maple_leaf | canada
+🍂 fallen_leaf | autumn
+🍃 leaves | leaf
+🍄 mushroom
+🍇 grapes
+🍉 watermelon
+🍊 tangerine orange mandarin
+🍋 lemon
+🍌 banana | fruit
+🍍 pineapple
+🥭 mango
+🍎 apple
+🍏 green_apple | fruit
+🍐 pear
+🍑 peach
+🍒 cherries | fruit
+🍓 strawberry | fruit
+🥝 kiwi_fruit
+🍅 tomato
+🥥 coconut
+🥑 avocado
+🍆 eggplant | aubergine
+🥔 potato
+🥕 carrot
+🌽 corn
+🌶️ hot_pepper | spicy
+🥒 cucumber
+🥦 broccoli
+🧄 garlic
+🧅 onion
+🥜 peanuts
+🍞 bread | toast
+🥐 croissant
+🥖 baguette_bread
+🥨 pretzel
+🧀 cheese
+🥚 egg
+🍳 fried_egg | breakfast
+🥞 pancakes
+🥓 bacon
+🍗 poultry_leg | chicken
+🍖 meat_on_bone
+🍔 hamburger | burger
+🍟 fries
+🍕 pizza
+🌭 hotdog
+🥪 sandwich
+🌮 taco
+🌯 burrito
+🥗 green_salad
+🍿 popcorn
+🍱 bento
+🍙 rice_ball
+🍚 rice
+🍛 curry
+🍜 ramen | noodle
+🍝 spaghetti | pasta
+🍣 sushi
+🍤 fried_shrimp | tempura
+🍦 icecream
+🍩 doughnut
+🍪 cookie
+🎂 birthday | party cake
+🍰 cake | dessert
+🧁 cupcake
+🍫 chocolate_bar
+🍬 candy | sweet
+🍭 lollipop
+🍯 honey_pot
+🍼 baby_bottle | milk
+☕ coffee | cafe espresso
+🍵 tea | green breakfast
+🍶 sake
+🍾 champagne | bottle bubbly celebration
+🍷 wine_glass
+🍸 cocktail | drink
+🍹 tropical_drink | summer vacation
+🍺 beer | drink
+🍻 beers | drinks
+🥂 clinking_glasses | cheers toast
+🥃 tumbler_glass | whisky
+🥤 cup_with_straw
+🧃 beverage_box
+🍴 fork_and_knife | cutlery
+🥄 spoon
+🔪 hocho knife | cut chop
+🌍 earth_africa | globe world international
+🌎 earth_americas | globe world international
+🌏 earth_asia | globe world international
+🌐 globe_with_meridians | world global international
+🗺️ world_map | travel
+🏔️ mountain_snow
+⛰️ mountain
+🌋 volcano
+🏕️ camping
+🏖️ beach_umbrella
+🏜️ desert
+🏝️ desert_island
+🏠 house
+🏡 house_with_garden
+🏢 office
+🏥 hospital
+🏦 bank
+🏨 hotel
+🏫 school
+🏭 factory
+🏰 european_castle
+🗼 tokyo_tower
+🗽 statue_of_liberty
+⛪ church
+🌁 foggy | karl
+🌃 night_with_stars
+🌅 sunrise
+🌆 city_sunset
+🌉 bridge_at_night
+🎠 carousel_horse
+🎡 ferris_wheel
+🎢 roller_coaster
+🚂 steam_locomotive | train
+🚃 railway_car
+🚄 bullettrain_side | train
+🚇 metro
+🚉 station
+🚌 bus
+🚑 ambulance
+🚒 fire_engine
+🚓 police_car
+🚕 taxi
+🚗 car red_car
+🚙 blue_car
+🚚 truck
+🚜 tractor
+🏎️ racing_car
+🏍️ motorcycle
+🛵 motor_scooter
+🚲 bike | bicycle
+🛴 kick_scooter
+🚨 rotating_light | 911 emergency
+🚥 traffic_light
+🚦 vertical_traffic_light | semaphore
+🚧 construction | wip
+⚓ anchor | ship
+⛵ boat sailboat
+🚤 speedboat | ship
+🚢 ship
+✈️ airplane | flight
+🛫 flight_departure
+🛬 flight_arrival
+🚁 helicopter
+🚀 rocket | ship launch
+🛸 flying_saucer | ufo
+🛰️ artificial_satellite | orbit space
+⌛ hourglass | time
+⏳ hourglass_flowing_sand | time
+⌚ watch | time
+⏰ alarm_clock | morning
+⏱️ stopwatch
+🕐 clock1
+🌑 new_moon
+🌓 first_quarter_moon
+🌕 full_moon
+🌙 crescent_moon | night
+🌡️ thermometer
+☀️ sunny | weather
+🌝 full_moon_with_face
+🌞 sun_with_face | summer
+⭐ star
+🌟 star2
+🌠 stars
+☁️ cloud
+⛅ partly_sunny | weather cloud
+⛈️ cloud_with_lightning_and_rain
+🌤️ sun_behind_small_cloud
+🌧️ cloud_with_rain
+🌨️ cloud_with_snow
+🌩️ cloud_with_lightning
+🌪️ tornado
+🌫️ fog
+🌈 rainbow
+☂️ open_umbrella
+☔ umbrella | rain weather
+⚡ zap | lightning thunder
+❄️ snowflake | winter cold weather
+☃️ snowman_with_snow
+⛄ snowman | winter christmas
+🔥 fire | burn hot
+💧 droplet | water
+🌊 ocean | sea
+🎃 jack_o_lantern | halloween
+🎄 christmas_tree
+🎆 fireworks | festival celebration
+🎇 sparkler
+✨ sparkles | shiny
+🎈 balloon | party birthday
+🎉 tada | hooray party
+🎊 confetti_ball
+🎋 tanabata_tree
+🎍 bamboo
+🎎 dolls
+🎏 flags
+🎐 wind_chime
+🎑 rice_scene
+🧧 red_envelope
+🎀 ribbon
+🎁 gift | present birthday christmas
+🎗️ reminder_ribbon
+🎟️ tickets
+🎫 ticket
+🎖️ medal_military
+🏆 trophy | award contest winner
+🏅 medal_sports | gold winner
+🥇 1st_place_medal | gold
+🥈 2nd_place_medal | silver
+🥉 3rd_place_medal | bronze
+⚽ soccer | sports
+⚾ baseball | sports
+🏀 basketball | sports
+🏐 volleyball
+🏈 football | sports
+🎾 tennis | sports
+🎳 bowling
+🏓 ping_pong
+🏸 badminton
+🥊 boxing_glove
+⛳ golf
+🎣 fishing_pole_and_fish
+🎿 ski
+🎯 dart | target
+🎱 8ball | pool billiards
+🔮 crystal_ball | fortune
+🎮 video_game | play controller console
+🕹️ joystick
+🎰 slot_machine
+🎲 game_die | dice gambling
+🧩 jigsaw | puzzle piece
+♟️ chess_pawn
+🎭 performing_arts | theater drama
+🎨 art | design paint
+🧵 thread
+🧶 yarn
+👓 eyeglasses | glasses
+🕶️ dark_sunglasses
+🥽 goggles
+👔 necktie | shirt formal
+👕 shirt tshirt
+👖 jeans | pants
+🧣 scarf
+🧤 gloves
+🧥 coat
+👗 dress
+👙 bikini | beach
+👛 purse
+👜 handbag | bag
+🎒 school_satchel
+👞 mans_shoe shoe
+👟 athletic_shoe | sneaker sport running
+👠 high_heel | shoe
+👑 crown | king queen royal
+🎩 tophat | hat classy
+🎓 mortar_board | education college university graduation
+🧢 billed_cap
+⛑️ rescue_worker_helmet
+💄 lipstick | makeup
+💍 ring | wedding marriage engaged
+💎 gem | diamond
+🔇 mute | sound volume
+🔈 speaker
+🔉 sound | volume
+🔊 loud_sound | volume
+📢 loudspeaker | announcement
+📣 mega | megaphone
+🔔 bell | sound notification
+🔕 no_bell | volume off
+🎼 musical_score
+🎵 musical_note
+🎶 notes | music
+🎙️ studio_microphone | podcast
+🎤 microphone | sing
+🎧 headphones | music earphones
+📻 radio | podcast
+🎷 saxophone
+🎸 guitar | rock
+🎹 musical_keyboard | piano
+🎺 trumpet
+🎻 violin
+🥁 drum
+📱 iphone | smartphone mobile
+📲 calling | call incoming
+☎️ phone telephone
+📞 telephone_receiver | phone call
+📟 pager
+📠 fax
+🔋 battery | power
+🔌 electric_plug
+💻 computer | desktop screen laptop
+🖥️ desktop_computer
+🖨️ printer
+⌨️ keyboard
+🖱️ computer_mouse
+💽 minidisc
+💾 floppy_disk | save
+💿 cd
+📀 dvd
+🧮 abacus
+🎥 movie_camera | film video
+🎬 clapper | film
+📺 tv
+📷 camera | photo
+📸 camera_flash | photo
+📹 video_camera
+🔍 mag | search zoom
+🔎 mag_right
+🕯️ candle
+💡 bulb | idea light
+🔦 flashlight
+🏮 izakaya_lantern lantern
+📔 notebook_with_decorative_cover
+📕 closed_book
+📖 book open_book
+📗 green_book
+📘 blue_book
+📙 orange_book
+📚 books | library
+📓 notebook
+📒 ledger
+📃 page_with_curl | document
+📜 scroll | document
+📄 page_facing_up | document
+📰 newspaper | press
+🗞️ newspaper_roll | press
+📑 bookmark_tabs
+🔖 bookmark
+🏷️ label | tag
+💰 moneybag | dollar cream
+💴 yen
+💵 dollar | money
+💶 euro
+💷 pound
+💸 money_with_wings | dollar
+💳 credit_card | subscription
+🧾 receipt
+💹 chart | graph
+✉️ envelope | letter
+📧 email e-mail
+📨 incoming_envelope
+📩 envelope_with_arrow
+📤 outbox_tray
+📥 inbox_tray
+📦 package | shipping
+📫 mailbox
+📪 mailbox_closed
+📬 mailbox_with_mail
+📭 mailbox_with_no_mail
+📮 postbox
+🗳️ ballot_box
+✏️ pencil2
+✒️ black_nib
+🖋️ fountain_pen
+🖊️ pen
+🖌️ paintbrush
+🖍️ crayon
+📝 memo pencil | document note
+💼 briefcase | business
+📁 file_folder | directory
+📂 open_file_folder
+🗂️ card_index_dividers
+📅 date | calendar schedule
+📆 calendar | schedule
+🗒️ spiral_notepad
+🗓️ spiral_calendar
+📇 card_index
+📈 chart_with_upwards_trend | graph metrics
+📉 chart_with_downwards_trend | graph metrics
+📊 bar_chart | stats metrics
+📋 clipboard
+📌 pushpin | location
+📍 round_pushpin | location
+📎 paperclip
+🖇️ paperclips
+📏 straight_ruler
+📐 triangular_ruler
+✂️ scissors | cut
+🗃️ card_file_box
+🗄️ file_cabinet
+🗑️ wastebasket | trash
+🔒 lock | security private
+🔓 unlock | security
+🔏 lock_with_ink_pen
+🔐 closed_lock_with_key | security
+🔑 key | lock password
+🗝️ old_key
+🔨 hammer | tool
+🪓 axe
+⛏️ pick
+⚒️ hammer_and_pick
+🛠️ hammer_and_wrench
+🗡️ dagger
+⚔️ crossed_swords
+🔫 gun | shoot weapon
+🏹 bow_and_arrow | archery
+🛡️ shield
+🔧 wrench | tool
+🔩 nut_and_bolt
+⚙️ gear
+🗜️ clamp
+⚖️ balance_scale
+🔗 link
+⛓️ chains
+🧰 toolbox
+🧲 magnet
+⚗️ alembic
+🧪 test_tube | science
+🧫 petri_dish
+🧬 dna | genetics
+🔬 microscope | science laboratory investigate
+🔭 telescope
+📡 satellite | signal
+💉 syringe | health hospital needle
+💊 pill | health medicine
+🩹 adhesive_bandage
+🩺 stethoscope
+🚪 door
+🛏️ bed
+🛋️ couch_and_lamp
+🚽 toilet | wc
+🚿 shower | bath
+🛁 bathtub
+🧴 lotion_bottle
+🧹 broom
+🧺 basket
+🧻 roll_of_paper
+🧼 soap
+🧽 sponge
+🛒 shopping_cart
+🚬 smoking | cigarette
+⚰️ coffin | funeral
+🗿 moyai | stone
+🏧 atm
+🚮 put_litter_in_its_place
+🚰 potable_water
+♿ wheelchair | accessibility
+🚹 mens
+🚺 womens
+🚻 restroom | toilet
+🚼 baby_symbol
+🚾 wc | toilet restroom
+⚠️ warning | wip
+🚸 children_crossing
+⛔ no_entry | limit
+🚫 no_entry_sign | block forbidden
+🚳 no_bicycles
+🚭 no_smoking
+🔞 underage
+☢️ radioactive
+☣️ biohazard
+⬆️ arrow_up
+↗️ arrow_upper_right
+➡️ arrow_right
+↘️ arrow_lower_right
+⬇️ arrow_down
+↙️ arrow_lower_left
+⬅️ arrow_left
+↖️ arrow_upper_left
+↕️ arrow_up_down
+↔️ left_right_arrow
+↩️ leftwards_arrow_with_hook | return
+↪️ arrow_right_hook
+⤴️ arrow_heading_up
+⤵️ arrow_heading_down
+🔃 arrows_clockwise | sync
+🔄 arrows_counterclockwise | sync
+🔙 back | arrow
+🔚 end
+🔛 on
+🔜 soon
+🔝 top
+🛐 place_of_worship
+⚛️ atom_symbol
+🕉️ om
+✡️ star_of_david
+☸️ wheel_of_dharma
+☯️ yin_yang
+✝️ latin_cross
+☦️ orthodox_cross
+☪️ star_and_crescent
+☮️ peace_symbol
+🔀 twisted_rightwards_arrows | shuffle
+🔁 repeat | loop
+🔂 repeat_one
+▶️ arrow_forward
+⏩ fast_forward
+⏭️ next_track_button
+⏯️ play_or_pause_button
+◀️ arrow_backward
+⏪ rewind
+⏮️ previous_track_button
+🔼 arrow_up_small
+⏫ arrow_double_up
+🔽 arrow_down_small
+⏬ arrow_double_down
+⏸️ pause_button
+⏹️ stop_button
+⏺️ record_button
+🎦 cinema | film movie
+🔅 low_brightness
+🔆 high_brightness
+📶 signal_strength | wifi
+📳 vibration_mode
+📴 mobile_phone_off | mute off
+♀️ female_sign
+♂️ male_sign
+⚕️ medical_symbol
+♻️ recycle | environment green
+⚜️ fleur_de_lis
+🔱 trident
+📛 name_badge
+🔰 beginner
+⭕ o | circle
+✅ white_check_mark | done complete
+☑️ ballot_box_with_check
+✔️ heavy_check_mark | done
+❌ x | cross
+❎ negative_squared_cross_mark
+➕ heavy_plus_sign | add
+➖ heavy_minus_sign | remove
+➗ heavy_division_sign
+✖️ heavy_multiplication_x
+➰ curly_loop
+➿ loop
+〽️ part_alternation_mark
+✳️ eight_spoked_asterisk
+✴️ eight_pointed_black_star
+❇️ sparkle
+‼️ bangbang
+⁉️ interrobang
+❓ question | confused
+❔ grey_question
+❕ grey_exclamation
+❗ exclamation heavy_exclamation_mark | bang
+〰️ wavy_dash
+©️ copyright
+®️ registered
+™️ tm | trademark
+#️⃣ hash | number
+0️⃣ zero
+1️⃣ one
+2️⃣ two
+3️⃣ three
+4️⃣ four
+5️⃣ five
+6️⃣ six
+7️⃣ seven
+8️⃣ eight
+9️⃣ nine
+🔟 keycap_ten
+🔠 capital_abcd | letters
+🔡 abcd
+🔢 1234 | numbers
+🔣 symbols
+🔤 abc | alphabet
+🆎 ab
+🆑 cl
+🆒 cool
+🆓 free
+ℹ️ information_source
+🆔 id
+Ⓜ️ m
+🆕 new | fresh
+🆖 ng
+🆗 ok | yes
+🆘 sos | help emergency
+🆙 up
+🆚 vs
+🈁 koko
+🉐 ideograph_advantage
+🔴 red_circle
+🟠 orange_circle
+🟡 yellow_circle
+🟢 green_circle
+🔵 large_blue_circle
+🟣 purple_circle
+🟤 brown_circle
+⚫ black_circle
+⚪ white_circle
+🟥 red_square
+🟧 orange_square
+🟨 yellow_square
+🟩 green_square
+🟦 blue_square
+🟪 purple_square
+🟫 brown_square
+⬛ black_large_square
+⬜ white_large_square
+🔶 large_orange_diamond
+🔷 large_blue_diamond
+🔸 small_orange_diamond
+🔹 small_blue_diamond
+🔺 small_red_triangle
+🔻 small_red_triangle_down
+💠 diamond_shape_with_a_dot_inside
+🔘 radio_button
+🔳 white_square_button
+🔲 black_square_button
+🏁 checkered_flag | milestone finish
+🚩 triangular_flag_on_post
+🎌 crossed_flags
+🏴 black_flag
+🏳️ white_flag
+🏳️‍🌈 rainbow_flag | pride
+🏴‍☠️ pirate_flag
+`
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest'
+import { imageAltText, imageFileName, isImageFile, loadImage, localImagePath } from './images'
+
+function file(name: string, type: string) {
+  return new File(['x'], name, { type })
+}
+
+describe('images', () => {
+  it('should recognize image files', () => {
+    expect(isImageFile(file('a.png', 'image/png'))).toBe(true)
+    expect(isImageFile(file('a.md', 'text/markdown'))).toBe(false)
+  })
+
+  it('should name saved images after the file or the time they were pasted', () => {
+    const now = new Date(2024, 2, 5, 9, 7, 3)
+    expect(imageFileName(file('Diagram v2.jpeg', 'image/jpeg'), undefined, now)).toBe('Diagram v2.jpg')
+    expect(imageFileName(file('image.png', 'image/png'), undefined, now)).toBe('pasted-20240305-090703.png')
+    expect(imageFileName(file('photo.png', 'image/png'), 'image/webp', now)).toBe('photo.webp')
+  })
+
+  it('should take alt text from file names', () => {
+    expect(imageAltText(file('team_photo-2024.png', 'image/png'))).toBe('team photo 2024')
+    expect(imageAltText(file('image.png', 'image/png'))).toBe('')
+  })
+
+  it('should find the files images refer to', () => {
+    expect(localImagePath('./img/a%20b.png', '/notes/doc.md')).toBe('/notes/img/a b.png')
+    expect(localImagePath('../a.png', 'C:\\notes\\doc.md')).toBe('C:\\a.png')
+    expect(localImagePath('/pictures/a.png', '/notes/doc.md')).toBe('/pictures/a.png')
+    expect(localImagePath('file:///C:/pictures/a.png', null)).toBe('C:/pictures/a.png')
+    expect(localImagePath('https://example.com/a.png', '/notes/doc.md')).toBeNull()
+    expect(localImagePath('data:image/png;base64,AAAA', '/notes/doc.md')).toBeNull()
+    expect(localImagePath('img/a.png', null)).toBeNull()
+  })
+
+  it('should load images on disk as data URLs and look up missing ones again', async () => {
+    const readBinary = vi.fn(async (path: string) => path === '/notes/a.png' ? { success: true, data: 'AAAA' } : { success: false })
+    window.electron.file.readBinary = readBinary
+    const cache = new Map<string, Promise<string | null>>()
+
+    expect(await loadImage('a.png', '/notes/doc.md', cache)).toBe('data:image/png;base64,AAAA')
+    expect(await loadImage('./a.png', '/notes/doc.md', cache)).toBe('data:image/png;base64,AAAA')
+    expect(readBinary).toHaveBeenCalledTimes(1)
+
+    expect(await loadImage('b.png', '/notes/doc.md', cache)).toBeNull()
+    expect(await loadImage('b.png', '/notes/doc.md', cache)).toBeNull()
+    expect(readBinary).toHaveBeenCalledTimes(3)
+
+    expect(await loadImage('https://example.com/c.png', '/notes/doc.md', cache)).toBe('https://example.com/c.png')
+    expect(await loadImage('a.png', null, cache)).toBeNull()
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Images
+ *
+ * Settings and helpers for images in documents. Images pasted or dropped into
+ * the editor are saved to an assets folder next to the document and linked
+ * relatively; images on disk are loaded through the main process.
+ */
+
+import { getMimeType } from './fileTypes'
+import { dirname, isRelativeUrl, resolveRelativePath } from './paths'
+
+export interface ImageSettings {
+  // Folder for pasted and dropped images, relative to the document
+  assetsFolder: string
+  // Re-encode images as WebP before saving them
+  convertToWebp: boolean
+  // WebP quality between 0 and 1
+  webpQuality: number
+}
+
+export const defaultImageSettings: ImageSettings = {
+  assetsFolder: 'assets',
+  convertToWebp: false,
+  webpQuality: 0.85
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif'
+}
+
+// Vector and animated images would lose what makes them worth keeping
+const KEEP_FORMAT = new Set(['image/svg+xml', 'image/gif', 'image/webp'])
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/')
+}
+
+/**
+ * Names the file an image is saved as. Clipboard images all come named
+ * `image.png`, so they are named after the time they were pasted instead.
+ * The extension follows the type the image is saved in.
+ */
+export function imageFileName(file: File, type = file.type, now = new Date()): string {
+  const extension = EXTENSIONS[type] ?? 'png'
+  const dot = file.name.lastIndexOf('.')
+  let base = dot > 0 ? file.name.slice(0, dot) : file.name
+  if (!base || file.name === 'image.png') {
+    const pad = (value: number) => String(value).padStart(2, '0')
+    base = `pasted-${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}` +
+      `-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
+  }
+  return `${base}.${extension}`
+}
+
+/**
+ * Alt text for an image, taken from its file name.
+ */
+export function imageAltText(file: File): string {
+  const dot = file.name.lastIndexOf('.')
+  const base = dot > 0 ? file.name.slice(0, dot) : file.name
+  return file.name === 'image.png' ? '' : base.replace(/[-_]+/g, ' ').trim()
+}
+
+/**
+ * Re-encodes an image as WebP. Formats that should be kept, and images the
+ * browser cannot encode, are returned as they are.
+ */
+export async function convertToWebp(file: Blob, quality: number): Promise<Blob> {
+  if (KEEP_FORMAT.has(file.type)) return file
+
+  try {
+    const bitmap = await createImageBitmap(file)
+    const canvas = document.createElement('canvas')
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+    bitmap.close()
+
+    const webp = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', quality))
+    // Keep the original when re-encoding does not make it smaller
+    return webp && webp.type === 'image/webp' && webp.size < file.size ? webp : file
+  } catch {
+    return file
+  }
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path)
+  } catch {
+    return path
+  }
+}
+
+/**
+ * Returns the file on disk an image's src refers to, which the renderer has
+ * to load through the main process. Returns null for web, data and blob URLs,
+ * which load as they are, and for relative paths in a document that has not
+ * been saved yet.
+ */
+export function localImagePath(src: string, documentPath: string | null | undefined): string | null {
+  if (/^file:\/\//i.test(src)) {
+    // file:///C:/a.png is a Windows path, file:///a.png a POSIX one
+    return decodePath(src.replace(/^file:\/\//i, '').replace(/^\/([a-z]:)/i, '$1'))
+  }
+  if (/^[a-z]:[\\/]/i.test(src) || /^[\\/]/.test(src)) return decodePath(src)
+  if (!isRelativeUrl(src) || !documentPath) return null
+  return resolveRelativePath(dirname(documentPath), src)
+}
+
+/**
+ * Loads an image on disk as a data URL, which the renderer cannot read
+ * directly. Web and data URLs are returned as they are, and null when the
+ * image cannot be found. Loaded images are kept in `cache` by path.
+ */
+export function loadImage(src: string, documentPath: string | null | undefined, cache: Map<string, Promise<string | null>>): Promise<string | null> {
+  const path = localImagePath(src, documentPath)
+  if (!path) return Promise.resolve(isRelativeUrl(src) ? null : src)
+
+  const cached = cache.get(path)
+  if (cached) return cached
+
+  const url: Promise<string | null> = window.electron.file.readBinary(path).then(
+    (result: { success: boolean; data?: string }) => result.success && result.data ? `data:${getMimeType(path)};base64,${result.data}` : null,
+    () => null
+  )
+  cache.set(path, url)
+  // Missing images are looked up again next time, they may have been added since
+  url.then(found => {
+    if (!found) cache.delete(path)
+  })
+  return url
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { slugify, headingAnchors, suggestLinks, LinkTargets } from './links'
+
+const targets: LinkTargets = {
+  files: ['/ws/README.md', '/ws/docs/Getting Started.md', '/ws/docs/images/logo.png', '/ws/notes/todo.md'],
+  notes: [
+    { filePath: '/ws/README.md', relativePath: 'README.md', headings: ['Install', 'Usage & Tips', 'Install'], links: [] }
+  ],
+  headings: ['Intro', 'Next Steps'],
+  filePath: '/ws/notes/todo.md'
+}
+
+describe('links', () => {
+  it('should turn headings into anchors', () => {
+    expect(slugify('Usage & Tips')).toBe('usage--tips')
+    expect(slugify(' Hello, World! ')).toBe('hello-world')
+    expect(slugify('Größe_und-Maße')).toBe('größe_und-maße')
+    expect(headingAnchors(['A', 'B', 'A', 'A'])).toEqual(['a', 'b', 'a-1', 'a-2'])
+  })
+
+  it('should suggest relative paths to workspace files', () => {
+    const suggestions = suggestLinks('', targets)
+    expect(suggestions.map(s => s.href)).toEqual([
+      '../README.md',
+      '../docs/Getting%20Started.md',
+      '../docs/images/logo.png'
+    ])
+    expect(suggestLinks('../docs/get', targets).map(s => s.detail)).toEqual(['../docs/Getting Started.md'])
+    expect(suggestLinks('logo', targets)[0]).toEqual({
+      href: '../docs/images/logo.png',
+      label: 'logo.png',
+      detail: '../docs/images/logo.png'
+    })
+  })
+
+  it('should suggest heading anchors of the target file', () => {
+    expect(suggestLinks('../README.md#', targets).map(s => s.href)).toEqual([
+      '../README.md#install',
+      '../README.md#usage--tips',
+      '../README.md#install-1'
+    ])
+    expect(suggestLinks('#next', targets)).toEqual([{ href: '#next-steps', label: 'Next Steps', detail: '#next-steps' }])
+    expect(suggestLinks('missing.md#', targets)).toEqual([])
+  })
+
+  it('should not suggest files for URLs and unsaved documents', () => {
+    expect(suggestLinks('https://exa', targets)).toEqual([])
+    expect(suggestLinks('', { ...targets, filePath: null })).toEqual([])
+    expect(suggestLinks('#intro', { ...targets, filePath: null }).map(s => s.href)).toEqual(['#intro'])
+  })
+})
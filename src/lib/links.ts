@@ -0,0 +1,96 @@
+/**
+ * Links
+ *
+ * Helpers for markdown links: heading anchors and the suggestions of the link
+ * popover. Relative paths to files of the workspace are suggested as the href
+ * is typed, and after a `#` the anchors of the headings in the target file.
+ */
+
+import { dirname, encodeUrlPath, relativePath, resolveRelativePath } from './paths'
+import { WorkspaceNote } from './wikiLinks'
+
+export interface LinkSuggestion {
+  href: string
+  label: string
+  detail: string
+}
+
+export interface LinkTargets {
+  // Absolute paths of the files in the filebar folders
+  files: string[]
+  notes: WorkspaceNote[]
+  // Headings of the document being edited, for `#anchor` links within it
+  headings: string[]
+  filePath: string | null
+}
+
+const MAX_SUGGESTIONS = 50
+
+/**
+ * Turns a heading into an anchor the way GitHub does: lowercased, punctuation
+ * removed and spaces replaced by hyphens.
+ */
+export function slugify(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}\s_-]/gu, '')
+    .replace(/\s/g, '-')
+}
+
+/**
+ * Anchors of a list of headings. Repeated headings get `-1`, `-2`, ... appended.
+ */
+export function headingAnchors(headings: string[]): string[] {
+  const seen = new Map<string, number>()
+  return headings.map(heading => {
+    const slug = slugify(heading)
+    const count = seen.get(slug) ?? 0
+    seen.set(slug, count + 1)
+    return count === 0 ? slug : `${slug}-${count}`
+  })
+}
+
+/**
+ * Suggests completions for a partially typed href.
+ */
+export function suggestLinks(href: string, targets: LinkTargets): LinkSuggestion[] {
+  const { files, notes, headings, filePath } = targets
+  const hash = href.indexOf('#')
+
+  if (hash >= 0) {
+    const path = href.slice(0, hash)
+    const query = slugify(href.slice(hash + 1))
+    let targetHeadings = headings
+    if (path) {
+      if (!filePath) return []
+      const target = resolveRelativePath(dirname(filePath), path)
+      targetHeadings = notes.find(note => note.filePath === target)?.headings ?? []
+    }
+
+    const anchors = headingAnchors(targetHeadings)
+    return targetHeadings
+      .map((heading, index) => ({ href: `${path}#${anchors[index]}`, label: heading, detail: `#${anchors[index]}` }))
+      .filter(suggestion => suggestion.detail.slice(1).includes(query))
+      .slice(0, MAX_SUGGESTIONS)
+  }
+
+  // Files are only suggested for relative paths from a saved document
+  if (!filePath || /^([a-z][a-z0-9+.-]*:|\/|\\)/i.test(href)) return []
+
+  const directory = dirname(filePath)
+  const query = href.toLowerCase()
+  return files
+    .filter(file => file !== filePath)
+    .map(file => {
+      const path = relativePath(directory, file)
+      return { href: encodeUrlPath(path), label: path.slice(path.lastIndexOf('/') + 1), detail: path }
+    })
+    .filter(suggestion => suggestion.detail.toLowerCase().includes(query) || suggestion.href.toLowerCase().includes(query))
+    .sort((a, b) =>
+      Number(!a.detail.toLowerCase().startsWith(query)) - Number(!b.detail.toLowerCase().startsWith(query)) ||
+      a.detail.split('/').length - b.detail.split('/').length ||
+      a.detail.localeCompare(b.detail)
+    )
+    .slice(0, MAX_SUGGESTIONS)
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { containingFolder, dirname, encodeUrlPath, isRelativeUrl, relativePath, resolveRelativePath } from './paths'
+
+describe('path utilities', () => {
+  it('should return the directory of a file', () => {
+    expect(dirname('/home/user/notes/a.md')).toBe('/home/user/notes')
+    expect(dirname('C:\\notes\\a.md')).toBe('C:\\notes')
+    expect(dirname('/a.md')).toBe('/')
+    expect(dirname('a.md')).toBe('')
+  })
+
+  it('should recognize relative URLs', () => {
+    expect(isRelativeUrl('images/a.png')).toBe(true)
+    expect(isRelativeUrl('../a.png')).toBe(true)
+    expect(isRelativeUrl('https://example.com/a.png')).toBe(false)
+    expect(isRelativeUrl('data:image/png;base64,AAAA')).toBe(false)
+    expect(isRelativeUrl('#heading')).toBe(false)
+    expect(isRelativeUrl('/abs/a.png')).toBe(false)
+    expect(isRelativeUrl('')).toBe(false)
+  })
+
+  it('should resolve relative paths against a directory', () => {
+    expect(resolveRelativePath('/home/user/notes', 'images/a.png')).toBe('/home/user/notes/images/a.png')
+    expect(resolveRelativePath('/home/user/notes', './../a%20b.png?raw#x')).toBe('/home/user/a b.png')
+    expect(resolveRelativePath('C:\\notes', 'img/a.png')).toBe('C:\\notes\\img\\a.png')
+    expect(resolveRelativePath('/', 'a.png')).toBe('/a.png')
+  })
+
+  it('should make paths relative to a directory', () => {
+    expect(relativePath('/home/user/notes', '/home/user/notes/images/a.png')).toBe('images/a.png')
+    expect(relativePath('/home/user/notes/', '/home/user/other/b.md')).toBe('../other/b.md')
+    expect(relativePath('C:\\notes\\sub', 'C:\\notes\\a.md')).toBe('../a.md')
+  })
+
+  it('should encode relative paths for links', () => {
+    expect(encodeUrlPath('../my images/a b.png')).toBe('../my%20images/a%20b.png')
+    expect(encodeUrlPath('assets/ü#1.png')).toBe('assets/%C3%BC%231.png')
+  })
+
+  it('should find the innermost folder containing a file', () => {
+    const folders = ['/notes', '/notes/work', '/notes-old', 'C:\\docs']
+    expect(containingFolder(folders, '/notes/work/a.md')).toBe('/notes/work')
+    expect(containingFolder(folders, '/notes/a.md')).toBe('/notes')
+    expect(containingFolder(folders, '/notes-old/a.md')).toBe('/notes-old')
+    expect(containingFolder(folders, 'C:\\docs\\a.md')).toBe('C:\\docs')
+    expect(containingFolder(folders, '/other/a.md')).toBeNull()
+  })
+})
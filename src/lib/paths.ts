@@ -0,0 +1,80 @@
+/**
+ * Path Utilities
+ *
+ * Minimal path handling for the renderer, which has no access to Node's `path`.
+ * Both `/` and `\` are accepted as separators; resolved paths use the
+ * separator of the base path.
+ */
+
+/**
+ * Returns the directory part of a file path.
+ */
+export function dirname(filePath: string): string {
+  const index = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'))
+  if (index < 0) return ''
+  return index === 0 ? filePath.slice(0, 1) : filePath.slice(0, index)
+}
+
+/**
+ * Returns true for URLs that refer to a file relative to the document,
+ * as opposed to absolute URLs, data URLs, anchors and absolute paths.
+ */
+export function isRelativeUrl(url: string): boolean {
+  return !!url && !/^([a-z][a-z0-9+.-]*:|#|\/|\\)/i.test(url)
+}
+
+/**
+ * Resolves a relative URL (as found in markdown links and images) against a directory.
+ * Percent-escapes are decoded, and query strings and fragments are dropped.
+ */
+export function resolveRelativePath(directory: string, url: string): string {
+  const separator = directory.includes('\\') && !directory.includes('/') ? '\\' : '/'
+  let relative = url.replace(/[?#].*$/, '')
+  try {
+    relative = decodeURIComponent(relative)
+  } catch {
+    // Keep malformed escapes as written
+  }
+
+  const parts = directory.split(/[\\/]/)
+  if (parts.length > 1 && parts[parts.length - 1] === '') parts.pop()
+  for (const part of relative.split(/[\\/]/)) {
+    if (part === '..') {
+      if (parts.length > 1) parts.pop()
+    } else if (part !== '.' && part !== '') {
+      parts.push(part)
+    }
+  }
+  return parts.join(separator) || separator
+}
+
+/**
+ * Returns the path of a file relative to a directory, with `/` separators,
+ * as written in markdown links. Both paths must be absolute.
+ */
+export function relativePath(directory: string, filePath: string): string {
+  const from = directory.split(/[\\/]/).filter(Boolean)
+  const to = filePath.split(/[\\/]/).filter(Boolean)
+  let common = 0
+  while (common < from.length && common < to.length && from[common] === to[common]) common++
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/')
+}
+
+/**
+ * Percent-encodes the segments of a relative path, so it can be used as a
+ * markdown link or image destination.
+ */
+export function encodeUrlPath(path: string): string {
+  return path.split('/').map(segment => encodeURIComponent(segment)).join('/')
+}
+
+/**
+ * Returns the folder that contains a file, the innermost one if folders are
+ * nested, or null if none of them does.
+ */
+export function containingFolder(folders: string[], filePath: string): string | null {
+  const inside = folders.filter(folder =>
+    filePath.startsWith(folder) && (/[\\/]$/.test(folder) || /[\\/]/.test(filePath.charAt(folder.length)))
+  )
+  return inside.sort((a, b) => b.length - a.length)[0] ?? null
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { lineAtOffset, offsetOfLine, SourceBlock } from './scrollSync'
+
+const blocks: SourceBlock[] = [
+  { line: 0, top: 0, height: 40 },
+  { line: 2, top: 50, height: 100 },
+  { line: 10, top: 160, height: 20 }
+]
+
+describe('scroll sync', () => {
+  it('should interpolate lines within a block', () => {
+    expect(lineAtOffset(blocks, 0)).toBe(0)
+    expect(lineAtOffset(blocks, 20)).toBe(1)
+    expect(lineAtOffset(blocks, 100)).toBe(6)
+  })
+
+  it('should hold the end line in the gap between blocks', () => {
+    expect(lineAtOffset(blocks, 45)).toBe(2)
+  })
+
+  it('should convert lines back to offsets', () => {
+    expect(offsetOfLine(blocks, 1)).toBe(20)
+    expect(offsetOfLine(blocks, 6)).toBe(100)
+    expect(offsetOfLine(blocks, 10.5)).toBe(170)
+  })
+
+  it('should round-trip offsets inside blocks', () => {
+    for (const offset of [10, 75, 170]) {
+      expect(offsetOfLine(blocks, lineAtOffset(blocks, offset))).toBeCloseTo(offset)
+    }
+  })
+
+  it('should handle no blocks', () => {
+    expect(lineAtOffset([], 100)).toBe(0)
+    expect(offsetOfLine([], 3)).toBe(0)
+  })
+})
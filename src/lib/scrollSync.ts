@@ -0,0 +1,56 @@
+/**
+ * Scroll Sync Utilities
+ *
+ * The editor and the preview each describe their content as blocks that start
+ * at a known source line. Scroll positions are converted to fractional source
+ * lines and back, interpolating between block starts, so both panes can show
+ * the same part of the document even though their layouts differ.
+ */
+
+export interface SourceBlock {
+  line: number    // 0-based source line the block starts at
+  top: number     // offset of the block from the top of the scroll content
+  height: number
+}
+
+/**
+ * Returns the fractional source line shown at a scroll offset.
+ * Blocks must be in document order.
+ */
+export function lineAtOffset(blocks: SourceBlock[], offset: number): number {
+  if (blocks.length === 0) return 0
+
+  let index = 0
+  while (index + 1 < blocks.length && blocks[index + 1].top <= offset) index++
+
+  const block = blocks[index]
+  const endLine = index + 1 < blocks.length ? blocks[index + 1].line : block.line + 1
+  const fraction = block.height > 0 ? Math.min(Math.max((offset - block.top) / block.height, 0), 1) : 0
+  return block.line + fraction * (endLine - block.line)
+}
+
+/**
+ * Returns the scroll offset at which a fractional source line is shown.
+ * Blocks must be in document order.
+ */
+export function offsetOfLine(blocks: SourceBlock[], line: number): number {
+  if (blocks.length === 0) return 0
+
+  let index = 0
+  while (index + 1 < blocks.length && blocks[index + 1].line <= line) index++
+
+  const block = blocks[index]
+  const endLine = index + 1 < blocks.length ? blocks[index + 1].line : block.line + 1
+  const span = endLine - block.line
+  const fraction = span > 0 ? Math.min(Math.max((line - block.line) / span, 0), 1) : 0
+  return block.top + fraction * block.height
+}
+
+/**
+ * Measures an element's position within a scroll container, as used for SourceBlock offsets.
+ */
+export function measureBlock(container: HTMLElement, element: Element, line: number): SourceBlock {
+  const rect = element.getBoundingClientRect()
+  const containerTop = container.getBoundingClientRect().top
+  return { line, top: rect.top - containerTop + container.scrollTop, height: rect.height }
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { compileSearch, expandReplacement } from './searchQuery'
+
+const pattern = (search: string, options: { caseSensitive?: boolean; wholeWord?: boolean; regexp?: boolean } = {}) => ({
+  search,
+  caseSensitive: false,
+  wholeWord: false,
+  regexp: false,
+  ...options
+})
+
+describe('search queries', () => {
+  it('should match plain text literally and whole words only when asked', () => {
+    expect('a.b axb A.B'.match(compileSearch(pattern('a.b')))).toEqual(['a.b', 'A.B'])
+    expect('a.b A.B'.match(compileSearch(pattern('a.b', { caseSensitive: true })))).toEqual(['a.b'])
+    expect('cat concat café'.match(compileSearch(pattern('ca', { wholeWord: true, regexp: true })))).toBeNull()
+    expect('cat concat'.match(compileSearch(pattern('cat', { wholeWord: true })))).toEqual(['cat'])
+  })
+
+  it('should throw for invalid regular expressions', () => {
+    expect(() => compileSearch(pattern('(', { regexp: true }))).toThrow()
+  })
+
+  it('should expand references to the match and its groups', () => {
+    const match = /(?<user>\w+)@(\w+)/u.exec('me@home')!
+    expect(expandReplacement('$2 $<user> $& $$ $3 $<none>', [...match], match.groups)).toBe('home me me@home $ $3 $<none>')
+    expect(expandReplacement('[$1]', ['a', undefined])).toBe('[]')
+  })
+})
@@ -0,0 +1,40 @@
+/**
+ * Search Queries
+ *
+ * Turns the search field and its options into a regular expression, and
+ * expands `$1`-style references in replacements. Shared by the search in the
+ * editor and the workspace search of the main process, so both find and
+ * replace the same text.
+ */
+
+export interface SearchPattern {
+  search: string
+  caseSensitive: boolean
+  wholeWord: boolean
+  regexp: boolean
+}
+
+/**
+ * Compiles a query into a global regular expression.
+ * Throws if the query is an invalid regular expression.
+ */
+export function compileSearch(query: SearchPattern): RegExp {
+  let source = query.regexp ? query.search : query.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  if (query.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`
+  return new RegExp(source, query.caseSensitive ? 'gu' : 'giu')
+}
+
+/**
+ * Expands `$&`, `$1`…`$99`, `$<name>` and `$$` in a regular expression
+ * replacement, like String.replace. `groups` holds the whole match followed
+ * by its capture groups.
+ */
+export function expandReplacement(replace: string, groups: readonly (string | undefined)[], named?: Record<string, string>): string {
+  return replace.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$'
+    if (ref === '&') return groups[0] ?? ''
+    if (name !== undefined) return named?.[name] ?? token
+    const index = Number(ref)
+    return index > 0 && index < groups.length ? groups[index] ?? '' : token
+  })
+}
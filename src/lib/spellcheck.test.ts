@@ -0,0 +1,10 @@
+import { describe, it, expect } from 'vitest'
+import { languageName } from './spellcheck'
+
+describe('spellcheck', () => {
+  it('should name spellchecker languages', () => {
+    expect(languageName('en-GB')).toBe('British English')
+    expect(languageName('de')).toBe('German')
+    expect(languageName('not a language')).toBe('not a language')
+  })
+})
@@ -0,0 +1,29 @@
+/**
+ * Spell Check
+ *
+ * Settings for the spellchecker, which runs in the main process. Code blocks
+ * and inline code are not checked.
+ */
+
+export interface SpellcheckSettings {
+  enabled: boolean
+  // Language code such as 'en-US', null for the system language
+  language: string | null
+}
+
+export const defaultSpellcheckSettings: SpellcheckSettings = {
+  enabled: true,
+  language: null
+}
+
+/**
+ * Names a spellchecker language code in English, `en-GB` as "British English".
+ * Unknown codes are returned as they are.
+ */
+export function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code
+  } catch {
+    return code
+  }
+}
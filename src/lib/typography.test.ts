@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { smartQuote } from './typography'
+
+describe('smartQuote', () => {
+  it('should open quotes at the start and after spaces or brackets', () => {
+    expect(smartQuote('', '"', 'english')).toBe('“')
+    expect(smartQuote('He said ', '"', 'german')).toBe('„')
+    expect(smartQuote('(', "'", 'english')).toBe('‘')
+    expect(smartQuote('Il dit ', '"', 'french')).toBe('«\u00a0')
+  })
+
+  it('should close quotes after words', () => {
+    expect(smartQuote('“Hello', '"', 'english')).toBe('”')
+    expect(smartQuote('„Hallo', '"', 'german')).toBe('“')
+    expect(smartQuote('«\u00a0Bonjour', '"', 'french')).toBe('\u00a0»')
+    expect(smartQuote('”Hei', '"', 'finnish')).toBe('”')
+  })
+
+  it('should tell apostrophes from closing single quotes', () => {
+    expect(smartQuote('don', "'", 'english')).toBe('’')
+    expect(smartQuote('geht', "'", 'german')).toBe('’')
+    expect(smartQuote('‚Hallo', "'", 'german')).toBe('‘')
+    expect(smartQuote('‚Hallo‘ geht', "'", 'german')).toBe('’')
+    expect(smartQuote('l', "'", 'french')).toBe('’')
+  })
+})
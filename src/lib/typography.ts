@@ -0,0 +1,58 @@
+/**
+ * Smart Typography
+ *
+ * Settings for the input rules that replace straight quotes with typographic
+ * ones, and decides which quote a typed `"` or `'` becomes in each of the
+ * supported quote styles.
+ */
+
+export type QuoteStyle = 'english' | 'german' | 'french' | 'finnish'
+
+export interface TypographySettings {
+  enabled: boolean
+  quoteStyle: QuoteStyle
+}
+
+export const defaultTypographySettings: TypographySettings = {
+  enabled: true,
+  quoteStyle: 'english'
+}
+
+interface Quotes {
+  label: string
+  // Opening and closing quotes
+  double: [string, string]
+  single: [string, string]
+}
+
+export const QUOTE_STYLES: Record<QuoteStyle, Quotes> = {
+  english: { label: 'English “…”', double: ['“', '”'], single: ['‘', '’'] },
+  german: { label: 'German „…“', double: ['„', '“'], single: ['‚', '‘'] },
+  // Guillemets are kept apart from the quoted text with no-break spaces
+  french: { label: 'French « … »', double: ['«\u00a0', '\u00a0»'], single: ['‹\u00a0', '\u00a0›'] },
+  finnish: { label: 'Finnish ”…”', double: ['”', '”'], single: ['’', '’'] }
+}
+
+const APOSTROPHE = '’'
+
+// A quote typed after these opens a quotation
+const OPENS_AFTER = /(?:^|[\s([{<—–“‘„‚«‹"'])$/
+
+function count(text: string, search: string): number {
+  return text.split(search).length - 1
+}
+
+/**
+ * Returns the typographic quote that a straight quote typed after `textBefore`
+ * becomes. A single quote after a word is an apostrophe unless it closes an
+ * open quotation, which only matters where the two differ (German, French).
+ */
+export function smartQuote(textBefore: string, quote: '"' | "'", style: QuoteStyle): string {
+  const quotes = QUOTE_STYLES[style]
+  const [open, close] = quote === '"' ? quotes.double : quotes.single
+  if (OPENS_AFTER.test(textBefore)) return open
+  if (quote === '"' || close === APOSTROPHE) return close
+
+  const opened = count(textBefore, open.trim()) - count(textBefore, close.trim())
+  return opened > 0 ? close : APOSTROPHE
+}
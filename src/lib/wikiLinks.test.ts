@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseWikiLink,
+  formatWikiLink,
+  wikiLinkText,
+  resolveWikiLink,
+  wikiLinkTarget,
+  suggestWikiLinks,
+  findBacklinks,
+  WorkspaceNote
+} from './wikiLinks'
+
+function note(filePath: string, relativePath: string, links: string[] = [], headings: string[] = []): WorkspaceNote {
+  return {
+    filePath,
+    relativePath,
+    headings,
+    links: links.map((target, index) => ({ target, line: index + 1, preview: `[[${target}]]` }))
+  }
+}
+
+const notes = [
+  note('/ws/Ideas.md', 'Ideas.md', ['Plan', 'projects/Plan']),
+  note('/ws/Plan.md', 'Plan.md', ['Ideas'], ['Goals', 'Next steps']),
+  note('/ws/projects/Plan.md', 'projects/Plan.md', ['../Ideas']),
+  note('/ws/projects/Notes.markdown', 'projects/Notes.markdown', ['plan', 'Missing'])
+]
+
+describe('wiki links', () => {
+  it('should parse targets, headings and aliases', () => {
+    expect(parseWikiLink('Plan')).toEqual({ target: 'Plan', heading: null, alias: null })
+    expect(parseWikiLink(' Plan # Goals | our goals ')).toEqual({ target: 'Plan', heading: 'Goals', alias: 'our goals' })
+    expect(parseWikiLink('Plan\\|plan')).toEqual({ target: 'Plan', heading: null, alias: 'plan' })
+    expect(parseWikiLink('#Goals')).toEqual({ target: '', heading: 'Goals', alias: null })
+    expect(parseWikiLink(' |alias')).toBeNull()
+  })
+
+  it('should format and display links', () => {
+    const link = { target: 'Plan', heading: 'Goals', alias: null }
+    expect(formatWikiLink(link)).toBe('[[Plan#Goals]]')
+    expect(formatWikiLink({ ...link, alias: 'goals' })).toBe('[[Plan#Goals|goals]]')
+    expect(wikiLinkText(link)).toBe('Plan › Goals')
+    expect(wikiLinkText({ ...link, target: '' })).toBe('Goals')
+    expect(wikiLinkText({ ...link, alias: 'goals' })).toBe('goals')
+  })
+
+  it('should resolve targets by the end of their path', () => {
+    expect(resolveWikiLink('Ideas', notes)?.filePath).toBe('/ws/Ideas.md')
+    expect(resolveWikiLink('projects/plan.md', notes)?.filePath).toBe('/ws/projects/Plan.md')
+    expect(resolveWikiLink('Notes', notes)?.filePath).toBe('/ws/projects/Notes.markdown')
+    expect(resolveWikiLink('jects/Plan', notes)).toBeNull()
+    expect(resolveWikiLink('', notes)).toBeNull()
+  })
+
+  it('should prefer the note next to the linking file', () => {
+    expect(resolveWikiLink('Plan', notes, '/ws/Ideas.md')?.filePath).toBe('/ws/Plan.md')
+    expect(resolveWikiLink('Plan', notes, '/ws/projects/Notes.markdown')?.filePath).toBe('/ws/projects/Plan.md')
+    expect(resolveWikiLink('../Plan', notes, '/ws/projects/Notes.markdown')?.filePath).toBe('/ws/Plan.md')
+  })
+
+  it('should link to notes by their shortest unique target', () => {
+    expect(wikiLinkTarget(notes[0], notes)).toBe('Ideas')
+    expect(wikiLinkTarget(notes[2], notes)).toBe('projects/Plan')
+  })
+
+  it('should suggest notes and their headings', () => {
+    expect(suggestWikiLinks('pla', notes).map(s => s.detail)).toEqual(['Plan.md', 'projects/Plan.md'])
+    expect(suggestWikiLinks('notes', notes)[0].link).toEqual({ target: 'Notes', heading: null, alias: null })
+    expect(suggestWikiLinks('Plan#next', notes, '/ws/Ideas.md').map(s => s.link)).toEqual([
+      { target: 'Plan', heading: 'Next steps', alias: null }
+    ])
+    expect(suggestWikiLinks('#', notes, '/ws/Plan.md').map(s => s.label)).toEqual(['Goals', 'Next steps'])
+  })
+
+  it('should find the notes linking to a file', () => {
+    const backlinks = findBacklinks(notes, '/ws/projects/Plan.md')
+    expect(backlinks.map(b => b.note.filePath)).toEqual(['/ws/Ideas.md', '/ws/projects/Notes.markdown'])
+    expect(backlinks[0].links.map(link => link.target)).toEqual(['projects/Plan'])
+    expect(findBacklinks(notes, '/ws/Ideas.md').map(b => b.note.filePath)).toEqual(['/ws/Plan.md', '/ws/projects/Plan.md'])
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Wiki Links
+ *
+ * Links between the markdown files of the workspace, written `[[Target]]`,
+ * `[[Target#Heading]]` or `[[Target|Alias]]`. A target is the path of a file
+ * relative to its filebar folder without the extension, and any trailing part
+ * of that path is enough: `[[Ideas]]` links to `notes/Ideas.md`. Targets
+ * starting with `./` or `../` are relative to the linking file.
+ */
+
+import { dirname, resolveRelativePath } from './paths'
+
+export interface WikiLink {
+  target: string
+  heading: string | null
+  alias: string | null
+}
+
+// A markdown file of the workspace, as scanned by the main process
+export interface WorkspaceNote {
+  filePath: string
+  relativePath: string
+  headings: string[]
+  links: Array<{ target: string; line: number; preview: string }>
+}
+
+export interface WikiLinkSuggestion {
+  label: string
+  detail: string
+  link: WikiLink
+}
+
+export interface Backlink {
+  note: WorkspaceNote
+  links: WorkspaceNote['links']
+}
+
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i
+const MAX_SUGGESTIONS = 50
+
+/**
+ * Parses the text between `[[` and `]]`. In table cells the alias separator
+ * is escaped as `\|`. Returns null if there is neither a target nor a heading.
+ */
+export function parseWikiLink(content: string): WikiLink | null {
+  const separator = /\\?\|/.exec(content)
+  const link = separator ? content.slice(0, separator.index) : content
+  const alias = separator ? content.slice(separator.index + separator[0].length).trim() : ''
+  const hash = link.indexOf('#')
+  const target = (hash < 0 ? link : link.slice(0, hash)).trim()
+  const heading = hash < 0 ? '' : link.slice(hash + 1).trim()
+  if (!target && !heading) return null
+  return { target, heading: heading || null, alias: alias || null }
+}
+
+export function formatWikiLink(link: WikiLink): string {
+  return '[[' + link.target +
+    (link.heading ? '#' + link.heading : '') +
+    (link.alias ? '|' + link.alias : '') + ']]'
+}
+
+/**
+ * Returns the text a wiki link is displayed with.
+ */
+export function wikiLinkText(link: WikiLink): string {
+  if (link.alias) return link.alias
+  if (!link.heading) return link.target
+  return link.target ? `${link.target} › ${link.heading}` : link.heading
+}
+
+// Path of a note without the extension, with `/` separators
+function noteName(path: string): string {
+  return path.replace(/\\/g, '/').replace(MARKDOWN_EXTENSION, '')
+}
+
+function baseName(name: string): string {
+  return name.slice(name.lastIndexOf('/') + 1)
+}
+
+/**
+ * Finds the note a wiki link target refers to. When several notes match,
+ * the one next to the linking file wins, then the least nested one.
+ */
+export function resolveWikiLink(target: string, notes: WorkspaceNote[], fromFile?: string | null): WorkspaceNote | null {
+  const trimmed = target.trim()
+  if (!trimmed) return null
+
+  if (fromFile && /^\.\.?[\\/]/.test(trimmed)) {
+    const wanted = noteName(resolveRelativePath(dirname(fromFile), trimmed)).toLowerCase()
+    return notes.find(note => noteName(note.filePath).toLowerCase() === wanted) ?? null
+  }
+
+  const wanted = noteName(trimmed).replace(/^\/+/, '').toLowerCase()
+  const candidates = notes.filter(note => {
+    const name = noteName(note.relativePath).toLowerCase()
+    return name === wanted || name.endsWith('/' + wanted)
+  })
+
+  const directory = fromFile ? dirname(fromFile) : null
+  const rank = (note: WorkspaceNote) => [
+    dirname(note.filePath) === directory ? 0 : 1,
+    note.relativePath.split('/').length
+  ]
+  candidates.sort((a, b) => {
+    const [aNear, aDepth] = rank(a)
+    const [bNear, bDepth] = rank(b)
+    return aNear - bNear || aDepth - bDepth || a.relativePath.localeCompare(b.relativePath)
+  })
+  return candidates[0] ?? null
+}
+
+/**
+ * Returns the shortest target that links to a note: its file name, or its
+ * relative path if another note has the same file name.
+ */
+export function wikiLinkTarget(note: WorkspaceNote, notes: WorkspaceNote[]): string {
+  const name = noteName(note.relativePath)
+  const base = baseName(name).toLowerCase()
+  const unique = notes.every(other => other === note || baseName(noteName(other.relativePath)).toLowerCase() !== base)
+  return unique ? baseName(name) : name
+}
+
+/**
+ * Suggests notes whose path contains the query or, once the query has a `#`,
+ * the headings of the note before it (of the current file if there is none).
+ */
+export function suggestWikiLinks(query: string, notes: WorkspaceNote[], fromFile?: string | null): WikiLinkSuggestion[] {
+  const hash = query.indexOf('#')
+  if (hash >= 0) {
+    const target = query.slice(0, hash).trim()
+    const note = target
+      ? resolveWikiLink(target, notes, fromFile)
+      : notes.find(candidate => candidate.filePath === fromFile)
+    if (!note) return []
+
+    const headingQuery = query.slice(hash + 1).trim().toLowerCase()
+    return note.headings
+      .filter(heading => heading.toLowerCase().includes(headingQuery))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(heading => ({
+        label: heading,
+        detail: note.relativePath,
+        link: { target, heading, alias: null }
+      }))
+  }
+
+  const wanted = query.trim().toLowerCase()
+  return notes
+    .filter(note => noteName(note.relativePath).toLowerCase().includes(wanted))
+    .map(note => ({ note, name: baseName(noteName(note.relativePath)) }))
+    .sort((a, b) => {
+      // Notes whose file name starts with the query come first
+      const aPrefix = a.name.toLowerCase().startsWith(wanted) ? 0 : 1
+      const bPrefix = b.name.toLowerCase().startsWith(wanted) ? 0 : 1
+      return aPrefix - bPrefix || a.name.length - b.name.length || a.note.relativePath.localeCompare(b.note.relativePath)
+    })
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ note, name }) => ({
+      label: name,
+      detail: note.relativePath,
+      link: { target: wikiLinkTarget(note, notes), heading: null, alias: null }
+    }))
+}
+
+/**
+ * Lists the notes with wiki links to a file, along with those links.
+ */
+export function findBacklinks(notes: WorkspaceNote[], filePath: string): Backlink[] {
+  const backlinks: Backlink[] = []
+  for (const note of notes) {
+    if (note.filePath === filePath) continue
+    const links = note.links.filter(link => resolveWikiLink(link.target, notes, note.filePath)?.filePath === filePath)
+    if (links.length > 0) backlinks.push({ note, links })
+  }
+  return backlinks
+}
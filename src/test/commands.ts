@@ -0,0 +1,21 @@
+import { Command, EditorState, TextSelection } from 'prosemirror-state'
+import { markdownParser, markdownSerializer } from '../editor/markdown'
+
+/**
+ * Creates an editor state for markdown, with the cursor at `pos` if given.
+ */
+export function createState(markdown: string, pos?: number) {
+  const doc = markdownParser.parse(markdown)
+  return EditorState.create({ doc, selection: pos === undefined ? undefined : TextSelection.create(doc, pos) })
+}
+
+/**
+ * Applies a command to a state, or to the state of some markdown, and returns
+ * whether it applied, the resulting state and that state serialized.
+ */
+export function runCommand(start: EditorState | string, command: Command) {
+  const state = typeof start === 'string' ? createState(start) : start
+  let result = state
+  const applied = command(state, tr => { result = state.apply(tr) })
+  return { applied, state: result, markdown: markdownSerializer.serialize(result.doc) }
+}
@@ -50,9 +50,9 @@ const mockElectron = {
   }
 }
 
-// @ts-expect-error - mock
 globalThis.window = {
   ...globalThis.window,
+  // @ts-expect-error - mock of the APIs the tests use
   electron: mockElectron
 }
 